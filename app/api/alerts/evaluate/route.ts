@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { evaluateAlerts } from '@/lib/alert-evaluator'
+import { getRequestUser } from '@/lib/supabase-server'
+
+// Checks the signed-in user's active alerts against cached market data.
+// Called when alerts are displayed.
+export async function POST() {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage alerts')
+    }
+
+    return NextResponse.json(await evaluateAlerts(supabase))
+  } catch (error) {
+    console.error('Error evaluating alerts:', error)
+    return marketDataErrorResponse(error, 'Failed to evaluate alerts')
+  }
+}
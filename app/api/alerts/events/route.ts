@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { getRequestUser } from '@/lib/supabase-server'
+import type { AlertEvent } from '@/lib/types'
+
+const MAX_EVENTS = 50
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage alerts')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('asset_id')
+
+    let query = supabase.from('alert_events').select('*')
+
+    if (assetId) {
+      query = query.eq('asset_id', assetId)
+    }
+
+    const { data, error } = await query
+      .order('triggered_at', { ascending: false })
+      .limit(MAX_EVENTS)
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ events: data as AlertEvent[] })
+  } catch (error) {
+    console.error('Error fetching alert events:', error)
+    return errorResponse(500, 'internal_error', 'Failed to fetch alert events')
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { alertIdSchema, alertInputSchema } from '@/lib/alerts'
+import { getRequestUser } from '@/lib/supabase-server'
+import type { PriceAlert } from '@/lib/types'
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage alerts')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('asset_id')
+
+    // Row level security limits the rows to the user's own
+    let query = supabase.from('alerts').select('*')
+
+    if (assetId) {
+      query = query.eq('asset_id', assetId)
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: false,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ alerts: data as PriceAlert[] })
+  } catch (error) {
+    console.error('Error fetching alerts:', error)
+    return errorResponse(500, 'internal_error', 'Failed to fetch alerts')
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage alerts')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = alertInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid alert'
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('alerts')
+      .insert({ ...result.data, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ alert: data as PriceAlert }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert:', error)
+    return errorResponse(500, 'internal_error', 'Failed to create alert')
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage alerts')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return errorResponse(400, 'invalid_request', 'id is required')
+    }
+
+    if (!alertIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Alert not found')
+    }
+
+    // Other users' alerts are invisible, so they are not found either
+    const { data, error } = await supabase
+      .from('alerts')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!data?.length) {
+      return errorResponse(404, 'not_found', 'Alert not found')
+    }
+
+    return NextResponse.json({ message: 'Alert removed successfully' })
+  } catch (error) {
+    console.error('Error removing alert:', error)
+    return errorResponse(500, 'internal_error', 'Failed to remove alert')
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { assetActivityCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { parseAssetId } from '@/lib/market-query'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseAssetId((await params).id)
+
+    if (!id) {
+      return errorResponse(404, 'not_found', 'Coin not found')
+    }
+
+    // Developer and community data are not quoted, so one entry per coin
+    // serves every currency
+    const activity = await assetActivityCache.getOrFetch(
+      id,
+      () => getMarketDataProvider().getAssetActivity(id),
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json(activity)
+  } catch (error) {
+    console.error('Error fetching asset activity:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch asset activity')
+  }
+}
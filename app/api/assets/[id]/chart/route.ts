@@ -1,61 +1,35 @@
 import { NextResponse } from 'next/server'
-
-const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3'
-
-// Cache for chart data (5 minutes)
-const cache = new Map<string, { data: ChartDataPoint[]; timestamp: number }>()
-const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
-
-interface ChartDataPoint {
-  timestamp: number
-  price: number
-}
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { parseAssetId } from '@/lib/market-query'
+import { getPriceHistory } from '@/lib/asset-lookup'
+import { parseCurrency } from '@/lib/currency'
+import { parseChartRange } from '@/lib/chart-range'
 
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params
+    const id = parseAssetId((await params).id)
 
-    // Check cache
-    const cached = cache.get(id)
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return NextResponse.json(cached.data)
+    if (!id) {
+      return errorResponse(404, 'not_found', 'Coin not found')
     }
 
-    // Fetch 7-day price history from CoinGecko
-    const url = `${COINGECKO_API_URL}/coins/${id}/market_chart?vs_currency=usd&days=7&interval=daily`
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+    const range = parseChartRange(searchParams)
 
-    const response = await fetch(url, {
-      headers: {
-        Accept: 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status}`)
+    if (!range) {
+      return errorResponse(400, 'invalid_request', 'Invalid chart range')
     }
 
-    const data = await response.json()
-
-    // Transform data to our format
-    const chartData: ChartDataPoint[] = data.prices.map(
-      (point: [number, number]) => ({
-        timestamp: point[0],
-        price: point[1],
-      })
-    )
-
-    // Update cache
-    cache.set(id, { data: chartData, timestamp: Date.now() })
+    // Fetch price history for the range from the configured provider
+    const chartData = await getPriceHistory(id, currency, range)
 
     return NextResponse.json(chartData)
   } catch (error) {
     console.error('Error fetching chart data:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch chart data' },
-      { status: 500 }
-    )
+    return marketDataErrorResponse(error, 'Failed to fetch chart data')
   }
 }
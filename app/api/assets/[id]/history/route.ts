@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { historyCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { parseAssetId } from '@/lib/market-query'
+import { parseHistoryDate } from '@/lib/chart-range'
+import { parseCurrency } from '@/lib/currency'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseAssetId((await params).id)
+
+    if (!id) {
+      return errorResponse(404, 'not_found', 'Coin not found')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+    const date = parseHistoryDate(searchParams.get('date'))
+
+    if (!date) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        'Pick a day no later than today in UTC'
+      )
+    }
+
+    // Snapshot of the day from the configured market data provider
+    const snapshot = await historyCache.getOrFetch(
+      `${id}-${currency}-${date}`,
+      () => getMarketDataProvider().getHistory(id, { currency, date }),
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    if (!snapshot) {
+      return errorResponse(404, 'not_found', 'No market data for this date')
+    }
+
+    return NextResponse.json(snapshot)
+  } catch (error) {
+    console.error('Error fetching historical snapshot:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch historical data')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { tickersCache } from '@/lib/cache'
+import {
+  getMarketDataProvider,
+  isUpstreamUnavailable,
+  TICKERS_PER_PAGE,
+} from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { parseAssetId } from '@/lib/market-query'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseAssetId((await params).id)
+
+    if (!id) {
+      return errorResponse(404, 'not_found', 'Coin not found')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const parsedPage = parseInt(searchParams.get('page') || '1', 10)
+    const page = Number.isNaN(parsedPage) ? 1 : Math.max(1, parsedPage)
+
+    // Exchange tickers from the configured market data provider; pages have
+    // a fixed size upstream
+    const tickers = await tickersCache.getOrFetch(
+      `${id}-${page}`,
+      () => getMarketDataProvider().getTickers(id, { page }),
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json({
+      tickers,
+      page,
+      perPage: TICKERS_PER_PAGE,
+      hasMore: tickers.length === TICKERS_PER_PAGE,
+    })
+  } catch (error) {
+    console.error('Error fetching asset markets:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch asset markets')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { ohlcCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { parseAssetId } from '@/lib/market-query'
+import { parseCurrency } from '@/lib/currency'
+import { parseChartDays } from '@/lib/chart-range'
+
+// Intraday candles move quickly, so they expire sooner than the default
+const INTRADAY_CACHE_DURATION = 60 * 1000 // 1 minute
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseAssetId((await params).id)
+
+    if (!id) {
+      return errorResponse(404, 'not_found', 'Coin not found')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+    const days = parseChartDays(searchParams.get('days'))
+
+    // OHLC data is only available for the preset ranges
+    if (!days) {
+      return errorResponse(400, 'invalid_request', 'Invalid OHLC range')
+    }
+
+    const cacheKey = `${id}-${currency}-${days}`
+
+    // Fetch candles from the configured market data provider
+    const ohlcData = await ohlcCache.getOrFetch(
+      cacheKey,
+      () => getMarketDataProvider().getOhlc(id, { currency, days }),
+      {
+        ttl: days === '1' ? INTRADAY_CACHE_DURATION : undefined,
+        staleIfError: isUpstreamUnavailable,
+      }
+    )
+
+    return NextResponse.json(ohlcData)
+  } catch (error) {
+    console.error('Error fetching OHLC data:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch OHLC data')
+  }
+}
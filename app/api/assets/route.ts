@@ -1,8 +1,38 @@
 import { NextResponse } from 'next/server'
 import type { CryptoAsset } from '@/lib/types'
-import { assetsCache } from '@/lib/cache'
+import { assetsCache, marketUniverseCache } from '@/lib/cache'
+import { parseCurrency, type Currency } from '@/lib/currency'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { getAssetsByIds } from '@/lib/asset-lookup'
+import {
+  applyMarketQuery,
+  getMarketQueryKey,
+  isUpstreamQuery,
+  parseAssetIds,
+  parseCategory,
+  parseMarketQuery,
+  MARKET_UNIVERSE_SIZE,
+} from '@/lib/market-query'
 
-const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3/coins/markets'
+// Top coins by market cap, fetched once per currency and category and shared
+// by every order and filter the provider cannot apply itself
+async function getMarketUniverse(
+  currency: Currency,
+  category: string | undefined
+): Promise<CryptoAsset[]> {
+  return marketUniverseCache.getOrFetch(
+    category ? `${currency}-${category}` : currency,
+    () =>
+      getMarketDataProvider().listMarkets({
+        page: 1,
+        perPage: MARKET_UNIVERSE_SIZE,
+        currency,
+        category,
+      }),
+    { staleIfError: isUpstreamUnavailable }
+  )
+}
 
 export async function GET(request: Request) {
   try {
@@ -10,6 +40,36 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url)
     const pageParam = searchParams.get('page') || '1'
     const perPageParam = searchParams.get('per_page') || '10'
+    const currency = parseCurrency(searchParams.get('currency'))
+    const idsParam = searchParams.get('ids')
+
+    // Batch lookup by id: no pagination, ordering or filtering
+    if (idsParam !== null) {
+      const ids = parseAssetIds(idsParam)
+      if (!ids) {
+        return errorResponse(400, 'invalid_request', 'Invalid ids')
+      }
+
+      const assets = await getAssetsByIds(ids, currency)
+      return NextResponse.json({
+        assets,
+        page: 1,
+        perPage: ids.length,
+        hasMore: false,
+      })
+    }
+
+    const query = parseMarketQuery(searchParams)
+
+    if (!query) {
+      return errorResponse(400, 'invalid_request', 'Invalid order or filter')
+    }
+
+    const category = parseCategory(searchParams.get('category'))
+
+    if (category === null) {
+      return errorResponse(400, 'invalid_request', 'Invalid category')
+    }
 
     // Parse and validate pagination parameters
     const parsedPage = parseInt(pageParam, 10)
@@ -21,69 +81,30 @@ export async function GET(request: Request) {
       : Math.min(250, Math.max(1, parsedPerPage))
 
     // Create cache key
-    const cacheKey = `${page}-${perPage}`
+    const cacheKey = `${currency}-${category ?? 'all'}-${getMarketQueryKey(query)}-${page}-${perPage}`
 
-    // Check if cache is valid
-    const cached = assetsCache.get(cacheKey)
-    if (assetsCache.isValid(cached)) {
-      return NextResponse.json({
-        assets: cached!.data,
-        page,
-        perPage,
-        hasMore: cached!.data.length === perPage,
-      })
-    }
-
-    // Fetch from CoinGecko
-    const response = await fetch(
-      `${COINGECKO_API_URL}?vs_currency=usd&order=market_cap_desc&per_page=${perPage}&page=${page}&sparkline=false`,
-      {
-        next: { revalidate: 300 }, // 5 minutes cache
-        headers: {
-          Accept: 'application/json',
-        },
-      }
-    )
-
-    // Handle rate limiting or API errors
-    if (!response.ok) {
-      const statusCode = response.status
-
-      // If rate limited (429) or server error (5xx), return cached data if available
-      if (statusCode === 429 || statusCode >= 500) {
-        console.warn(
-          `CoinGecko API error ${statusCode}, checking for any cached data...`
-        )
-
-        // Try to find any cached page data
-        const anyCached = assetsCache.get(cacheKey)
-        if (anyCached) {
-          console.log('Returning stale cache due to API error')
-          return NextResponse.json({
-            assets: anyCached.data,
+    // Fetch from the configured market data provider, or order and filter
+    // the top of the market here when the provider cannot. If rate limited
+    // (429) or on a server error (5xx), cached data is returned if available.
+    const data = await assetsCache.getOrFetch(
+      cacheKey,
+      async () => {
+        if (isUpstreamQuery(query)) {
+          return getMarketDataProvider().listMarkets({
             page,
             perPage,
-            hasMore: anyCached.data.length === perPage,
+            currency,
+            order: query.order,
+            category,
           })
         }
-      }
 
-      throw new Error(`CoinGecko API returned ${statusCode}`)
-    }
-
-    const data: CryptoAsset[] = await response.json()
-
-    // Update cache
-    assetsCache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-    })
-
-    // Clean old cache entries (keep last 10 pages)
-    if (assetsCache.size > 10) {
-      const firstKey = assetsCache.keys().next().value
-      if (firstKey) assetsCache.delete(firstKey)
-    }
+        const start = (page - 1) * perPage
+        const universe = await getMarketUniverse(currency, category)
+        return applyMarketQuery(universe, query).slice(start, start + perPage)
+      },
+      { staleIfError: isUpstreamUnavailable }
+    )
 
     return NextResponse.json({
       assets: data,
@@ -93,9 +114,6 @@ export async function GET(request: Request) {
     })
   } catch (error) {
     console.error('Error fetching crypto assets:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch crypto assets' },
-      { status: 500 }
-    )
+    return marketDataErrorResponse(error, 'Failed to fetch crypto assets')
   }
 }
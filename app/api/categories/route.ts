@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { categoriesCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { marketDataErrorResponse } from '@/lib/api-response'
+
+export async function GET() {
+  try {
+    // Categories are quoted in USD only, so one cached list serves everyone
+    const categories = await categoriesCache.getOrFetch(
+      'all',
+      () => getMarketDataProvider().listCategories(),
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json({ categories })
+  } catch (error) {
+    console.error('Error fetching categories:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch categories')
+  }
+}
@@ -0,0 +1,58 @@
+import { format as formatDate } from 'date-fns'
+import { errorResponse } from '@/lib/api-response'
+import {
+  exportFavorites,
+  TRANSFER_FORMATS,
+  type TransferFormat,
+} from '@/lib/favorites-transfer'
+import { getRequestUser } from '@/lib/supabase-server'
+import type { Favorite } from '@/lib/types'
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+}
+
+// Downloads the user's favorites as `format` (json by default)
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') ?? 'json'
+
+    if (!TRANSFER_FORMATS.includes(format as TransferFormat)) {
+      return errorResponse(400, 'invalid_request', 'format must be json or csv')
+    }
+
+    const { data, error } = await supabase
+      .from('favorites')
+      .select('*')
+      .order('pinned', { ascending: false })
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw error
+    }
+
+    const fileName = `favorites-${formatDate(new Date(), 'yyyy-MM-dd')}.${format}`
+
+    return new Response(
+      exportFavorites(data as Favorite[], format as TransferFormat),
+      {
+        headers: {
+          'Content-Type': `${CONTENT_TYPES[format as TransferFormat]}; charset=utf-8`,
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      }
+    )
+  } catch (error) {
+    console.error('Error exporting favorites:', error)
+    return errorResponse(500, 'internal_error', 'Failed to export favorites')
+  }
+}
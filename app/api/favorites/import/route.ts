@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { getAssetsByIds } from '@/lib/asset-lookup'
+import { MAX_FAVORITES } from '@/lib/favorites'
+import {
+  favoritesImportSchema,
+  ImportFileError,
+  parseFavoritesImport,
+  type ImportRow,
+} from '@/lib/favorites-transfer'
+import { MAX_ASSET_IDS } from '@/lib/market-query'
+import { getRequestUser } from '@/lib/supabase-server'
+import type { FavoritesImportReport } from '@/lib/types'
+
+// Ids the market data source knows, looked up one batch at a time
+async function getKnownIds(ids: string[]): Promise<Set<string>> {
+  const known = new Set<string>()
+
+  for (let start = 0; start < ids.length; start += MAX_ASSET_IDS) {
+    const assets = await getAssetsByIds(
+      ids.slice(start, start + MAX_ASSET_IDS),
+      'usd'
+    )
+    assets.forEach((asset) => known.add(asset.id))
+  }
+
+  return known
+}
+
+/**
+ * Adds the coins of an exported (or hand-written) file to the favorites,
+ * after the existing ones. Rows that are invalid, repeated, already
+ * favorites or unknown to the market data source are skipped and reported.
+ * With `dry_run`, nothing is written: the report previews the import.
+ */
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = favoritesImportSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid import'
+      )
+    }
+
+    const { format, content, dry_run } = result.data
+    let parsed
+    try {
+      parsed = parseFavoritesImport(content, format)
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return errorResponse(400, 'invalid_request', error.message)
+      }
+      throw error
+    }
+
+    // First row of each coin wins
+    const seen = new Set<string>()
+    const unique: ImportRow[] = []
+    const duplicates: string[] = []
+    for (const row of parsed.rows) {
+      if (seen.has(row.asset_id)) {
+        duplicates.push(row.asset_id)
+      } else {
+        seen.add(row.asset_id)
+        unique.push(row)
+      }
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('favorites')
+      .select('asset_id, position')
+
+    if (currentError) {
+      throw currentError
+    }
+
+    const currentIds = new Set(current.map(({ asset_id }) => asset_id))
+    const candidates = unique.filter((row) => !currentIds.has(row.asset_id))
+    const knownIds = await getKnownIds(candidates.map((row) => row.asset_id))
+    const known = candidates.filter((row) => knownIds.has(row.asset_id))
+    // Rows past the favorites limit are reported rather than added
+    const room = Math.max(0, MAX_FAVORITES - current.length)
+    const added = known.slice(0, room)
+
+    if (!dry_run && added.length > 0) {
+      const lastPosition = Math.max(
+        0,
+        ...current.map(({ position }) => position)
+      )
+
+      // Ignores coins favorited since the check above
+      const { error } = await supabase.from('favorites').upsert(
+        added.map((row, index) => ({
+          asset_id: row.asset_id,
+          user_id: user.id,
+          pinned: row.pinned,
+          position: lastPosition + index + 1,
+        })),
+        { onConflict: 'user_id,asset_id', ignoreDuplicates: true }
+      )
+
+      if (error) {
+        throw error
+      }
+    }
+
+    const report: FavoritesImportReport = {
+      dry_run,
+      added: added.map((row) => row.asset_id),
+      existing: unique
+        .filter((row) => currentIds.has(row.asset_id))
+        .map((row) => row.asset_id),
+      duplicates,
+      unknown: candidates
+        .filter((row) => !knownIds.has(row.asset_id))
+        .map((row) => row.asset_id),
+      over_limit: known.slice(room).map((row) => row.asset_id),
+      invalid: parsed.invalid,
+    }
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Error importing favorites:', error)
+    // Keeps the status of market data failures
+    return marketDataErrorResponse(error, 'Failed to import favorites')
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { favoritesOrderSchema } from '@/lib/favorites'
+import { getRequestUser } from '@/lib/supabase-server'
+
+/**
+ * Stores the manual order of the user's favorites. The database function
+ * rewrites every position in one statement, so concurrent readers never see
+ * a half-applied order.
+ */
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = favoritesOrderSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid order'
+      )
+    }
+
+    const { error } = await supabase.rpc('reorder_favorites', {
+      asset_ids: result.data.asset_ids,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ message: 'Favorites reordered successfully' })
+  } catch (error) {
+    console.error('Error reordering favorites:', error)
+    return errorResponse(500, 'internal_error', 'Failed to reorder favorites')
+  }
+}
@@ -1,12 +1,29 @@
 import { NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { errorResponse } from '@/lib/api-response'
+import {
+  favoriteInputSchema,
+  favoritePinSchema,
+  MAX_FAVORITES,
+} from '@/lib/favorites'
+import { getRequestUser } from '@/lib/supabase-server'
 import type { Favorite } from '@/lib/types'
 
 export async function GET() {
   try {
+    const { supabase, user } = await getRequestUser()
+
+    // Visitors simply have no favorites yet
+    if (!user) {
+      return NextResponse.json({ favorites: [] })
+    }
+
+    // Row level security limits the rows to the user's own. Pinned
+    // favorites come first, then the manual order, then the newest.
     const { data, error } = await supabase
       .from('favorites')
       .select('*')
+      .order('pinned', { ascending: false })
+      .order('position', { ascending: true })
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -16,28 +33,50 @@ export async function GET() {
     return NextResponse.json({ favorites: data as Favorite[] })
   } catch (error) {
     console.error('Error fetching favorites:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch favorites' },
-      { status: 500 }
-    )
+    return errorResponse(500, 'internal_error', 'Failed to fetch favorites')
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const { asset_id } = await request.json()
+    const { supabase, user } = await getRequestUser()
 
-    if (!asset_id) {
-      return NextResponse.json(
-        { error: 'asset_id is required' },
-        { status: 400 }
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = favoriteInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid favorite'
+      )
+    }
+
+    const { asset_id } = result.data
+    const { count, error: countError } = await supabase
+      .from('favorites')
+      .select('id', { count: 'exact', head: true })
+
+    if (countError) {
+      throw countError
+    }
+
+    if ((count ?? 0) >= MAX_FAVORITES) {
+      return errorResponse(
+        409,
+        'conflict',
+        `You can keep at most ${MAX_FAVORITES} favorites`
       )
     }
 
     // Try to insert, ignore if already exists
     const { data, error } = await supabase
       .from('favorites')
-      .insert({ asset_id })
+      .insert({ asset_id, user_id: user.id })
       .select()
       .single()
 
@@ -56,23 +95,66 @@ export async function POST(request: Request) {
     return NextResponse.json({ favorite: data }, { status: 201 })
   } catch (error) {
     console.error('Error adding favorite:', error)
-    return NextResponse.json(
-      { error: 'Failed to add favorite' },
-      { status: 500 }
-    )
+    return errorResponse(500, 'internal_error', 'Failed to add favorite')
+  }
+}
+
+// Pins or unpins a favorite
+export async function PATCH(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = favoritePinSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid favorite'
+      )
+    }
+
+    const { asset_id, pinned } = result.data
+    const { data, error } = await supabase
+      .from('favorites')
+      .update({ pinned })
+      .eq('asset_id', asset_id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return errorResponse(404, 'not_found', 'Asset is not in favorites')
+    }
+
+    return NextResponse.json({ favorite: data as Favorite })
+  } catch (error) {
+    console.error('Error updating favorite:', error)
+    return errorResponse(500, 'internal_error', 'Failed to update favorite')
   }
 }
 
 export async function DELETE(request: Request) {
   try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage favorites')
+    }
+
     const { searchParams } = new URL(request.url)
     const asset_id = searchParams.get('asset_id')
 
     if (!asset_id) {
-      return NextResponse.json(
-        { error: 'asset_id is required' },
-        { status: 400 }
-      )
+      return errorResponse(400, 'invalid_request', 'asset_id is required')
     }
 
     const { error } = await supabase
@@ -87,9 +169,6 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ message: 'Favorite removed successfully' })
   } catch (error) {
     console.error('Error removing favorite:', error)
-    return NextResponse.json(
-      { error: 'Failed to remove favorite' },
-      { status: 500 }
-    )
+    return errorResponse(500, 'internal_error', 'Failed to remove favorite')
   }
 }
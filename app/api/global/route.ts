@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { globalCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { marketDataErrorResponse } from '@/lib/api-response'
+import { parseCurrency } from '@/lib/currency'
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+
+    // Overall market state from the configured market data provider
+    const global = await globalCache.getOrFetch(
+      currency,
+      () => getMarketDataProvider().getGlobalData({ currency }),
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json(global)
+  } catch (error) {
+    console.error('Error fetching global market data:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch global market data')
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { getPriceHistory } from '@/lib/asset-lookup'
+import { getChartDaysStart, parseChartDays } from '@/lib/chart-range'
+import { parseCurrency } from '@/lib/currency'
+import { buildValueHistory, getAssetIdsHeldSince } from '@/lib/portfolio'
+import { getRequestUser } from '@/lib/supabase-server'
+import { getTransactions } from '@/lib/transactions'
+import type { ChartDataPoint } from '@/lib/types'
+
+/**
+ * Portfolio value over a preset range, from the same cached price
+ * histories as the asset charts
+ */
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(
+        401,
+        'unauthorized',
+        'Sign in to manage your portfolio'
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+    const days = parseChartDays(searchParams.get('days'))
+
+    if (!days) {
+      return errorResponse(400, 'invalid_request', 'Invalid chart range')
+    }
+
+    // Only quantities matter here, whatever currency they were bought in
+    const transactions = await getTransactions(supabase)
+    const ids = getAssetIdsHeldSince(
+      transactions,
+      getChartDaysStart(days) ?? -Infinity
+    )
+
+    // Each uncached history is an upstream call, so they are fetched one
+    // after another instead of draining the shared rate limit all at once
+    const histories: Record<string, ChartDataPoint[]> = {}
+    for (const id of ids) {
+      histories[id] = await getPriceHistory(id, currency, { days })
+    }
+
+    return NextResponse.json(buildValueHistory(transactions, histories))
+  } catch (error) {
+    console.error('Error fetching portfolio history:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch portfolio history')
+  }
+}
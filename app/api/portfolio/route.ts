@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { getAssetsByIds, getExchangeRates } from '@/lib/asset-lookup'
+import { parseCurrency } from '@/lib/currency'
+import {
+  computeHoldings,
+  convertTransactions,
+  valuePortfolio,
+} from '@/lib/portfolio'
+import { getRequestUser } from '@/lib/supabase-server'
+import { getTransactions } from '@/lib/transactions'
+
+/**
+ * Open positions with average cost and P&L, valued at current prices.
+ * Transactions recorded in other currencies are converted to `currency`
+ * at current exchange rates.
+ */
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(
+        401,
+        'unauthorized',
+        'Sign in to manage your portfolio'
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+
+    const transactions = await getTransactions(supabase)
+    const rates = await getExchangeRates(
+      transactions.map((transaction) => transaction.currency),
+      currency
+    )
+    const holdings = computeHoldings(
+      convertTransactions(transactions, rates, currency)
+    )
+    const ids = holdings
+      .filter((holding) => holding.quantity > 0)
+      .map((holding) => holding.asset_id)
+    const assets = ids.length ? await getAssetsByIds(ids, currency) : []
+
+    return NextResponse.json(valuePortfolio(holdings, assets, currency))
+  } catch (error) {
+    console.error('Error fetching portfolio:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch portfolio')
+  }
+}
@@ -0,0 +1,204 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+import { getAssetsByIds } from '@/lib/asset-lookup'
+import {
+  findUncoveredTransaction,
+  isOutgoing,
+  TRANSACTION_TYPES,
+  transactionIdSchema,
+  transactionInputSchema,
+  type UncoveredTransaction,
+} from '@/lib/portfolio'
+import { getRequestUser } from '@/lib/supabase-server'
+import { getTransactions } from '@/lib/transactions'
+import type { Transaction } from '@/lib/types'
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })
+}
+
+// e.g. "the sell on 2024-03-01 exceeding the 0.5 held"
+function describeUncovered({ transaction, held }: UncoveredTransaction) {
+  const label =
+    TRANSACTION_TYPES.find(({ value }) => value === transaction.type)?.label ??
+    transaction.type
+
+  return `the ${label.toLowerCase()} on ${transaction.executed_at.slice(0, 10)} exceeding the ${formatQuantity(held)} held`
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(
+        401,
+        'unauthorized',
+        'Sign in to manage your portfolio'
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('asset_id') ?? undefined
+
+    // Newest first for display, each in the currency it was recorded in
+    const transactions = await getTransactions(supabase, assetId)
+
+    return NextResponse.json({ transactions: transactions.reverse() })
+  } catch (error) {
+    console.error('Error fetching transactions:', error)
+    return errorResponse(500, 'internal_error', 'Failed to fetch transactions')
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(
+        401,
+        'unauthorized',
+        'Sign in to manage your portfolio'
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = transactionInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid transaction'
+      )
+    }
+
+    const input = result.data
+
+    if (isOutgoing(input.type)) {
+      // Coins can only leave once they are held, and without leaving any
+      // later sale of the coin short
+      const now = new Date().toISOString()
+      const pending: Transaction = {
+        ...input,
+        id: '',
+        user_id: user.id,
+        executed_at: input.executed_at ?? now,
+        created_at: now,
+      }
+      const uncovered = findUncoveredTransaction([
+        ...(await getTransactions(supabase, input.asset_id)),
+        pending,
+      ])
+
+      if (uncovered) {
+        return errorResponse(
+          400,
+          'invalid_request',
+          uncovered.transaction === pending
+            ? `Quantity exceeds the ${formatQuantity(uncovered.held)} held`
+            : `Would leave ${describeUncovered(uncovered)}`
+        )
+      }
+    } else {
+      const [asset] = await getAssetsByIds([input.asset_id], input.currency)
+
+      if (!asset) {
+        return errorResponse(400, 'invalid_request', 'Unknown asset')
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert({ ...input, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json(
+      { transaction: data as Transaction },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating transaction:', error)
+    return marketDataErrorResponse(error, 'Failed to create transaction')
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(
+        401,
+        'unauthorized',
+        'Sign in to manage your portfolio'
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return errorResponse(400, 'invalid_request', 'id is required')
+    }
+
+    if (!transactionIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Transaction not found')
+    }
+
+    // Other users' transactions are invisible, so they are not found either
+    const { data: existing, error: findError } = await supabase
+      .from('transactions')
+      .select('asset_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (findError) {
+      throw findError
+    }
+
+    if (!existing) {
+      return errorResponse(404, 'not_found', 'Transaction not found')
+    }
+
+    // Removing a buy must not leave a later sale of the coin short
+    const uncovered = findUncoveredTransaction(
+      (await getTransactions(supabase, existing.asset_id)).filter(
+        (transaction) => transaction.id !== id
+      )
+    )
+
+    if (uncovered) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        `Removing it would leave ${describeUncovered(uncovered)}`
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!data?.length) {
+      return errorResponse(404, 'not_found', 'Transaction not found')
+    }
+
+    return NextResponse.json({ message: 'Transaction removed successfully' })
+  } catch (error) {
+    console.error('Error removing transaction:', error)
+    return errorResponse(500, 'internal_error', 'Failed to remove transaction')
+  }
+}
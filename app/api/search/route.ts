@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { searchCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { errorResponse, marketDataErrorResponse } from '@/lib/api-response'
+
+const MAX_RESULTS = 10
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim().toLowerCase() ?? ''
+
+    if (!query) {
+      return errorResponse(400, 'invalid_request', 'Search query is required')
+    }
+
+    // Search the full coin list of the configured market data provider
+    const coins = await searchCache.getOrFetch(
+      query,
+      async () => {
+        const results = await getMarketDataProvider().searchCoins(query)
+        return results.slice(0, MAX_RESULTS)
+      },
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json({ coins })
+  } catch (error) {
+    console.error('Error searching coins:', error)
+    return marketDataErrorResponse(error, 'Failed to search coins')
+  }
+}
@@ -0,0 +1,106 @@
+import { parseCurrency } from '@/lib/currency'
+import { errorResponse, toApiError } from '@/lib/api-response'
+import { getQuotes } from '@/lib/asset-lookup'
+import { parseAssetIds } from '@/lib/market-query'
+import type { PriceStreamEvent } from '@/lib/types'
+
+// Seconds between updates
+const DEFAULT_INTERVAL = 15
+const MIN_INTERVAL = 10
+const MAX_INTERVAL = 300
+
+export const dynamic = 'force-dynamic'
+
+function parseInterval(value: string | null): number | null {
+  if (!value) return DEFAULT_INTERVAL
+  const interval = Number(value)
+  return Number.isInteger(interval) &&
+    interval >= MIN_INTERVAL &&
+    interval <= MAX_INTERVAL
+    ? interval
+    : null
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Server-Sent Events stream of price updates for `ids`, sent every
+ * `interval` seconds. Quotes come from a short-lived per-coin cache, so
+ * subscribers to overlapping coins never multiply upstream calls.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const currency = parseCurrency(searchParams.get('currency'))
+  const ids = parseAssetIds(searchParams.get('ids') ?? '')
+  const interval = parseInterval(searchParams.get('interval'))
+
+  if (!ids) {
+    return errorResponse(400, 'invalid_request', 'Invalid ids')
+  }
+
+  if (interval === null) {
+    return errorResponse(
+      400,
+      'invalid_request',
+      `Interval must be between ${MIN_INTERVAL} and ${MAX_INTERVAL} seconds`
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(formatEvent(event, data)))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(timer)
+        controller.close()
+      }
+
+      const pushPrices = async () => {
+        try {
+          const assets = await getQuotes(ids, currency)
+          send('prices', {
+            quotes: assets.map((asset) => ({
+              id: asset.id,
+              current_price: asset.current_price,
+              price_change_percentage_24h: asset.price_change_percentage_24h,
+            })),
+            timestamp: Date.now(),
+          } satisfies PriceStreamEvent)
+        } catch (error) {
+          // Keep the stream open: the next tick may succeed
+          console.error('Error streaming prices:', error)
+          send('error', toApiError(error, 'Failed to fetch prices').error)
+        }
+      }
+
+      // Ask clients to wait one interval before reconnecting
+      controller.enqueue(encoder.encode(`retry: ${interval * 1000}\n\n`))
+      pushPrices()
+      timer = setInterval(pushPrices, interval * 1000)
+      request.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      closed = true
+      clearInterval(timer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { trendingCache } from '@/lib/cache'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import { marketDataErrorResponse } from '@/lib/api-response'
+import { getAssetsByIds } from '@/lib/asset-lookup'
+import { parseCurrency } from '@/lib/currency'
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const currency = parseCurrency(searchParams.get('currency'))
+
+    // Trending ids only come with names, so quote them in one batch lookup,
+    // keeping the trending order
+    const coins = await trendingCache.getOrFetch(
+      currency,
+      async () => {
+        const trending = await getMarketDataProvider().getTrending()
+        if (trending.length === 0) return []
+        return getAssetsByIds(
+          trending.map((coin) => coin.id),
+          currency
+        )
+      },
+      { staleIfError: isUpstreamUnavailable }
+    )
+
+    return NextResponse.json({ coins })
+  } catch (error) {
+    console.error('Error fetching trending coins:', error)
+    return marketDataErrorResponse(error, 'Failed to fetch trending coins')
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { getRequestUser } from '@/lib/supabase-server'
+import { watchlistIdSchema, watchlistItemInputSchema } from '@/lib/watchlists'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Adds a coin to a watchlist
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage watchlists')
+    }
+
+    const { id } = await params
+    if (!watchlistIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+    const body = await request.json().catch(() => null)
+    const result = watchlistItemInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid watchlist item'
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('watchlist_items')
+      .insert({
+        watchlist_id: id,
+        asset_id: result.data.asset_id,
+        user_id: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // Unique violation: the coin is already in the list
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { message: 'Asset already in watchlist' },
+          { status: 200 }
+        )
+      }
+      // Foreign key or row level security violation: the list does not
+      // exist or belongs to someone else
+      if (error.code === '23503' || error.code === '42501') {
+        return errorResponse(404, 'not_found', 'Watchlist not found')
+      }
+      throw error
+    }
+
+    return NextResponse.json({ item: data }, { status: 201 })
+  } catch (error) {
+    console.error('Error adding watchlist item:', error)
+    return errorResponse(500, 'internal_error', 'Failed to add to watchlist')
+  }
+}
+
+// Removes the coin `asset_id` from a watchlist
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage watchlists')
+    }
+
+    const { id } = await params
+    if (!watchlistIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('asset_id')
+
+    if (!assetId) {
+      return errorResponse(400, 'invalid_request', 'asset_id is required')
+    }
+
+    const { error } = await supabase
+      .from('watchlist_items')
+      .delete()
+      .eq('watchlist_id', id)
+      .eq('asset_id', assetId)
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ message: 'Removed from watchlist' })
+  } catch (error) {
+    console.error('Error removing watchlist item:', error)
+    return errorResponse(
+      500,
+      'internal_error',
+      'Failed to remove from watchlist'
+    )
+  }
+}
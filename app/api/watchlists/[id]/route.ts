@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { getRequestUser } from '@/lib/supabase-server'
+import {
+  toWatchlist,
+  WATCHLIST_COLUMNS,
+  watchlistIdSchema,
+  watchlistInputSchema,
+} from '@/lib/watchlists'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Renames a watchlist
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage watchlists')
+    }
+
+    const { id } = await params
+    if (!watchlistIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+    const body = await request.json().catch(() => null)
+    const result = watchlistInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid watchlist'
+      )
+    }
+
+    // Other users' watchlists are invisible, so they are not found either
+    const { data, error } = await supabase
+      .from('watchlists')
+      .update({ name: result.data.name })
+      .eq('id', id)
+      .select(WATCHLIST_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return errorResponse(
+          409,
+          'conflict',
+          `A watchlist named "${result.data.name}" already exists`
+        )
+      }
+      throw error
+    }
+
+    if (!data) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+
+    return NextResponse.json({ watchlist: toWatchlist(data) })
+  } catch (error) {
+    console.error('Error renaming watchlist:', error)
+    return errorResponse(500, 'internal_error', 'Failed to rename watchlist')
+  }
+}
+
+// Deletes a watchlist along with its items
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage watchlists')
+    }
+
+    const { id } = await params
+    if (!watchlistIdSchema.safeParse(id).success) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+    const { data, error } = await supabase
+      .from('watchlists')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!data?.length) {
+      return errorResponse(404, 'not_found', 'Watchlist not found')
+    }
+
+    return NextResponse.json({ message: 'Watchlist removed successfully' })
+  } catch (error) {
+    console.error('Error removing watchlist:', error)
+    return errorResponse(500, 'internal_error', 'Failed to remove watchlist')
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-response'
+import { getRequestUser } from '@/lib/supabase-server'
+import {
+  toWatchlist,
+  WATCHLIST_COLUMNS,
+  watchlistInputSchema,
+} from '@/lib/watchlists'
+
+export async function GET() {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    // Visitors simply have no watchlists yet
+    if (!user) {
+      return NextResponse.json({ watchlists: [] })
+    }
+
+    // Row level security limits the rows to the user's own
+    const { data, error } = await supabase
+      .from('watchlists')
+      .select(WATCHLIST_COLUMNS)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ watchlists: (data ?? []).map(toWatchlist) })
+  } catch (error) {
+    console.error('Error fetching watchlists:', error)
+    return errorResponse(500, 'internal_error', 'Failed to fetch watchlists')
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await getRequestUser()
+
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to manage watchlists')
+    }
+
+    const body = await request.json().catch(() => null)
+    const result = watchlistInputSchema.safeParse(body)
+
+    if (!result.success) {
+      return errorResponse(
+        400,
+        'invalid_request',
+        result.error.issues[0]?.message ?? 'Invalid watchlist'
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('watchlists')
+      .insert({ name: result.data.name, user_id: user.id })
+      .select(WATCHLIST_COLUMNS)
+      .single()
+
+    if (error) {
+      // PostgreSQL unique violation code
+      if (error.code === '23505') {
+        return errorResponse(
+          409,
+          'conflict',
+          `A watchlist named "${result.data.name}" already exists`
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ watchlist: toWatchlist(data) }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating watchlist:', error)
+    return errorResponse(500, 'internal_error', 'Failed to create watchlist')
+  }
+}
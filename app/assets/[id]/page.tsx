@@ -4,13 +4,18 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { AssetDetails } from '@/components/asset-details'
 import { PriceChart } from '@/components/price-chart'
+import { PriceAlerts } from '@/components/price-alerts'
+import { PriceHistoryLookup } from '@/components/price-history-lookup'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ErrorState } from '@/components/error-state'
 import { NavHeader } from '@/components/nav-header'
+import { useCurrency } from '@/components/currency-provider'
+import { usePriceStream, withLiveQuote } from '@/hooks/use-price-stream'
+import { useWatchlists } from '@/hooks/use-watchlists'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
-import type { AssetDetail } from '@/lib/types'
+import type { AssetDetail, ErrorResponse } from '@/lib/types'
 
 interface AssetDetailPageProps {
   params: Promise<{
@@ -20,12 +25,15 @@ interface AssetDetailPageProps {
 
 export default function AssetDetailPage({ params }: AssetDetailPageProps) {
   const router = useRouter()
+  const { currency } = useCurrency()
   const [asset, setAsset] = useState<AssetDetail | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isFavorite, setIsFavorite] = useState(false)
   const [checkingFavorite, setCheckingFavorite] = useState(true)
   const [assetId, setAssetId] = useState<string>('')
+  const quotes = usePriceStream(asset ? [asset.id] : [], currency)
+  const { watchlists, toggleAsset } = useWatchlists()
 
   useEffect(() => {
     params.then((p) => {
@@ -35,19 +43,30 @@ export default function AssetDetailPage({ params }: AssetDetailPageProps) {
 
   useEffect(() => {
     if (!assetId) return
-    fetchAssetDetails()
     checkIfFavorite()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [assetId])
 
+  useEffect(() => {
+    if (!assetId) return
+    fetchAssetDetails()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assetId, currency])
+
   const fetchAssetDetails = async () => {
     try {
       setLoading(true)
       setError(null)
-      const response = await fetch(`/api/assets/${assetId}`)
+      const response = await fetch(
+        `/api/assets/${assetId}?currency=${currency}`
+      )
 
       if (!response.ok) {
-        throw new Error('Failed to fetch asset details')
+        throw new Error(
+          response.status === 404
+            ? 'Asset not found'
+            : 'Failed to fetch asset details'
+        )
       }
 
       const data = await response.json()
@@ -97,9 +116,14 @@ export default function AssetDetailPage({ params }: AssetDetailPageProps) {
           body: JSON.stringify({ asset_id: assetId }),
         })
 
-        if (response.ok) {
+        if (response.status === 401) {
+          toast.error('Sign in to save favorites')
+        } else if (response.ok) {
           setIsFavorite(true)
           toast.success('Added to favorites')
+        } else {
+          const { error }: ErrorResponse = await response.json()
+          toast.error(error.message)
         }
       }
     } catch {
@@ -156,6 +180,8 @@ export default function AssetDetailPage({ params }: AssetDetailPageProps) {
     )
   }
 
+  const liveAsset = withLiveQuote(asset, quotes)
+
   return (
     <>
       <NavHeader />
@@ -170,9 +196,11 @@ export default function AssetDetailPage({ params }: AssetDetailPageProps) {
         </Button>
 
         <AssetDetails
-          asset={asset}
+          asset={liveAsset}
           isFavorite={isFavorite}
           onToggleFavorite={checkingFavorite ? undefined : handleToggleFavorite}
+          watchlists={watchlists}
+          onToggleWatchlist={toggleAsset}
         />
 
         {/* Price Chart */}
@@ -182,6 +210,20 @@ export default function AssetDetailPage({ params }: AssetDetailPageProps) {
             assetName={asset.name}
           />
         </div>
+
+        {/* Historical Snapshot */}
+        <div className="mt-6">
+          <PriceHistoryLookup
+            assetId={assetId}
+            assetName={asset.name}
+            currentPrice={liveAsset.current_price}
+          />
+        </div>
+
+        {/* Price Alerts */}
+        <div className="mt-6">
+          <PriceAlerts assetId={assetId} />
+        </div>
       </div>
     </>
   )
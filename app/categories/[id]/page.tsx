@@ -0,0 +1,30 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AssetExplorer } from '@/components/asset-explorer'
+
+interface CategoryPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default function CategoryPage({ params }: CategoryPageProps) {
+  const [categoryId, setCategoryId] = useState<string>('')
+
+  useEffect(() => {
+    params.then((p) => {
+      setCategoryId(p.id)
+    })
+  }, [params])
+
+  if (!categoryId) return null
+
+  // Start over with fresh state when switching between categories
+  return (
+    <AssetExplorer
+      key={categoryId}
+      category={categoryId}
+    />
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { GitCompareArrows } from 'lucide-react'
+import { NavHeader } from '@/components/nav-header'
+import { CompareTable } from '@/components/compare-table'
+import { CompareChart } from '@/components/compare-chart'
+import { ErrorState } from '@/components/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import { useCurrency } from '@/components/currency-provider'
+import { useCompare } from '@/components/compare-provider'
+import { usePriceStream, withLiveQuote } from '@/hooks/use-price-stream'
+import {
+  MAX_COMPARE_ASSETS,
+  MIN_COMPARE_ASSETS,
+  getCompareHref,
+  parseCompareIds,
+} from '@/lib/compare'
+import type { AssetDetail } from '@/lib/types'
+
+interface ComparePageProps {
+  searchParams: Promise<{
+    ids?: string | string[]
+  }>
+}
+
+export default function ComparePage({ searchParams }: ComparePageProps) {
+  const router = useRouter()
+  const { currency } = useCurrency()
+  const compare = useCompare()
+  const [ids, setIds] = useState<string[] | null>(null)
+  const [assets, setAssets] = useState<AssetDetail[]>([])
+  const [missing, setMissing] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const quotes = usePriceStream(
+    assets.map((asset) => asset.id),
+    currency
+  )
+  const idsKey = ids?.join(',')
+
+  useEffect(() => {
+    searchParams.then((params) => {
+      setIds(parseCompareIds([params.ids ?? ''].flat().join(',')))
+    })
+  }, [searchParams])
+
+  useEffect(() => {
+    if (!ids) return
+    fetchAssets()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey, currency])
+
+  const fetchAssets = async () => {
+    if (!ids || ids.length < MIN_COMPARE_ASSETS) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const results = await Promise.all(
+        ids.map(async (id) => {
+          const response = await fetch(`/api/assets/${id}?currency=${currency}`)
+
+          if (response.status === 404) return null
+          if (!response.ok) {
+            throw new Error('Failed to fetch asset details')
+          }
+
+          return (await response.json()) as AssetDetail
+        })
+      )
+
+      setAssets(results.filter((asset): asset is AssetDetail => !!asset))
+      setMissing(ids.filter((_, index) => !results[index]))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const removeAsset = (id: string) => {
+    if (compare.ids.includes(id)) compare.toggle(id)
+    router.replace(getCompareHref((ids ?? []).filter((item) => item !== id)))
+  }
+
+  const header = (
+    <div className="mb-8">
+      <h1 className="text-3xl sm:text-4xl font-bold mb-2">Compare</h1>
+      <p className="text-muted-foreground">
+        Up to {MAX_COMPARE_ASSETS} cryptocurrencies side by side
+      </p>
+    </div>
+  )
+
+  if (ids && ids.length < MIN_COMPARE_ASSETS) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          {header}
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <GitCompareArrows className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>Nothing to compare yet</EmptyTitle>
+              <EmptyDescription>
+                Pick at least {MIN_COMPARE_ASSETS} coins with the compare button
+                on any cryptocurrency.
+              </EmptyDescription>
+            </EmptyHeader>
+            <EmptyContent>
+              <Link href="/">
+                <Button>Explore Cryptocurrencies</Button>
+              </Link>
+            </EmptyContent>
+          </Empty>
+        </div>
+      </>
+    )
+  }
+
+  if (loading || !ids) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          {header}
+          <div className="space-y-6">
+            <Skeleton className="h-96 w-full" />
+            <Skeleton className="h-[300px] w-full" />
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  if (error) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          {header}
+          <ErrorState
+            message={error}
+            onRetry={fetchAssets}
+          />
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <NavHeader />
+      <div className="container mx-auto px-4 py-8">
+        {header}
+
+        {missing.length > 0 && (
+          <p
+            role="status"
+            className="mb-4 text-sm text-muted-foreground"
+          >
+            Not found: {missing.join(', ')}
+          </p>
+        )}
+
+        <div className="space-y-6">
+          <CompareTable
+            assets={assets.map((asset) => withLiveQuote(asset, quotes))}
+            currency={currency}
+            onRemove={removeAsset}
+          />
+          {assets.length > 0 && <CompareChart assets={assets} />}
+        </div>
+      </div>
+    </>
+  )
+}
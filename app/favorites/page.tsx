@@ -6,6 +6,15 @@ import { NavHeader } from '@/components/nav-header'
 import { AssetCard } from '@/components/asset-card'
 import { AssetCardSkeleton } from '@/components/asset-card-skeleton'
 import { ErrorState } from '@/components/error-state'
+import { FavoritesReorderList } from '@/components/favorites-reorder-list'
+import {
+  FavoritesExportMenu,
+  FavoritesImportDialog,
+} from '@/components/favorites-transfer'
+import {
+  FAVORITES_LIST,
+  WatchlistSwitcher,
+} from '@/components/watchlist-switcher'
 import { Button } from '@/components/ui/button'
 import {
   Empty,
@@ -16,31 +25,71 @@ import {
   EmptyContent,
 } from '@/components/ui/empty'
 import { toast } from 'sonner'
+import { useCurrency } from '@/components/currency-provider'
+import { usePriceStream, withLiveQuote } from '@/hooks/use-price-stream'
+import { useWatchlists } from '@/hooks/use-watchlists'
+import { compareFavorites } from '@/lib/favorites'
+import { MAX_ASSET_IDS } from '@/lib/market-query'
 import type { CryptoAsset, Favorite } from '@/lib/types'
-import { Heart } from 'lucide-react'
+import { ArrowUpDown, Heart } from 'lucide-react'
 
 export default function FavoritesPage() {
+  const { currency } = useCurrency()
   const [assets, setAssets] = useState<CryptoAsset[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [favoriteLoading, setFavoriteLoading] = useState<string | null>(null)
+  const [selected, setSelected] = useState(FAVORITES_LIST)
+  // Favorites in display order, pinned first
+  const [favorites, setFavorites] = useState<Favorite[]>([])
+  const [reordering, setReordering] = useState(false)
+  const [savingOrder, setSavingOrder] = useState(false)
+  const {
+    watchlists,
+    toggleAsset,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+  } = useWatchlists()
+  const selectedList = watchlists.find((list) => list.id === selected)
+  // Coins removed from a watchlist disappear without refetching
+  const visibleAssets = selectedList
+    ? assets.filter((asset) => selectedList.asset_ids.includes(asset.id))
+    : favorites.flatMap(
+        (favorite) =>
+          assets.find((asset) => asset.id === favorite.asset_id) ?? []
+      )
+  const pinnedIds = favorites
+    .filter((favorite) => favorite.pinned)
+    .map((favorite) => favorite.asset_id)
+  const quotes = usePriceStream(
+    assets.map((asset) => asset.id),
+    currency
+  )
 
+  // Watchlists can only be picked once loaded, so no need to wait for them
   useEffect(() => {
     fetchData()
-  }, [])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, selected])
+
+  const getFavoriteIds = async () => {
+    const favoritesRes = await fetch('/api/favorites')
+    if (!favoritesRes.ok) throw new Error('Failed to fetch favorites')
+
+    const favoritesData = await favoritesRes.json()
+    const favorites: Favorite[] = favoritesData.favorites || []
+    setFavorites(favorites)
+    return favorites.map((f) => f.asset_id)
+  }
 
   const fetchData = async () => {
     try {
       setLoading(true)
       setError(null)
 
-      // Fetch favorites first
-      const favoritesRes = await fetch('/api/favorites')
-      if (!favoritesRes.ok) throw new Error('Failed to fetch favorites')
-
-      const favoritesData = await favoritesRes.json()
-      const favorites: Favorite[] = favoritesData.favorites || []
-      const ids = favorites.map((f) => f.asset_id)
+      // Fetch the coins of the list first
+      const ids = selectedList ? selectedList.asset_ids : await getFavoriteIds()
 
       if (ids.length === 0) {
         setAssets([])
@@ -48,12 +97,24 @@ export default function FavoritesPage() {
         return
       }
 
-      // Fetch all assets to get details
-      const assetsRes = await fetch('/api/assets')
-      if (!assetsRes.ok) throw new Error('Failed to fetch assets')
+      // The assets route takes at most MAX_ASSET_IDS coins per request
+      const batches: string[][] = []
+      for (let start = 0; start < ids.length; start += MAX_ASSET_IDS) {
+        batches.push(ids.slice(start, start + MAX_ASSET_IDS))
+      }
+
+      const batchAssets = await Promise.all(
+        batches.map(async (batch) => {
+          const assetsRes = await fetch(
+            `/api/assets?currency=${currency}&ids=${batch.map(encodeURIComponent).join(',')}`
+          )
+          if (!assetsRes.ok) throw new Error('Failed to fetch assets')
 
-      const assetsData = await assetsRes.json()
-      const allAssets: CryptoAsset[] = assetsData.assets || []
+          const assetsData = await assetsRes.json()
+          return (assetsData.assets || []) as CryptoAsset[]
+        })
+      )
+      const allAssets = batchAssets.flat()
 
       // Filter to only favorite assets
       const favoriteAssets = allAssets.filter((asset) => ids.includes(asset.id))
@@ -69,6 +130,13 @@ export default function FavoritesPage() {
   const removeFavorite = async (assetId: string) => {
     setFavoriteLoading(assetId)
 
+    // The watchlist hook reports its own errors
+    if (selectedList) {
+      await toggleAsset(selectedList.id, assetId)
+      setFavoriteLoading(null)
+      return
+    }
+
     try {
       const res = await fetch(`/api/favorites?asset_id=${assetId}`, {
         method: 'DELETE',
@@ -77,6 +145,7 @@ export default function FavoritesPage() {
       if (!res.ok) throw new Error('Failed to remove favorite')
 
       setAssets((prev) => prev.filter((asset) => asset.id !== assetId))
+      setFavorites((prev) => prev.filter((f) => f.asset_id !== assetId))
       toast.success('Removed from favorites')
     } catch (err) {
       toast.error('Failed to remove favorite')
@@ -86,6 +155,57 @@ export default function FavoritesPage() {
     }
   }
 
+  const togglePin = async (assetId: string) => {
+    const pinned = !pinnedIds.includes(assetId)
+
+    try {
+      const res = await fetch('/api/favorites', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asset_id: assetId, pinned }),
+      })
+
+      if (!res.ok) throw new Error('Failed to update favorite')
+
+      setFavorites((prev) =>
+        prev
+          .map((f) => (f.asset_id === assetId ? { ...f, pinned } : f))
+          .sort(compareFavorites)
+      )
+      toast.success(pinned ? 'Pinned to the top' : 'Unpinned')
+    } catch (err) {
+      toast.error('Failed to update favorite')
+      console.error(err)
+    }
+  }
+
+  const saveOrder = async (assetIds: string[]) => {
+    setSavingOrder(true)
+
+    try {
+      const res = await fetch('/api/favorites/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asset_ids: assetIds }),
+      })
+
+      if (!res.ok) throw new Error('Failed to reorder favorites')
+
+      setFavorites((prev) =>
+        prev
+          .map((f) => ({ ...f, position: assetIds.indexOf(f.asset_id) + 1 }))
+          .sort(compareFavorites)
+      )
+      setReordering(false)
+      toast.success('Favorites order saved')
+    } catch (err) {
+      toast.error('Failed to save the order')
+      console.error(err)
+    } finally {
+      setSavingOrder(false)
+    }
+  }
+
   if (loading) {
     return (
       <>
@@ -131,20 +251,71 @@ export default function FavoritesPage() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl sm:text-4xl font-bold mb-2">
-            Your Favorites
+            {selectedList ? selectedList.name : 'Your Favorites'}
           </h1>
           <p className="text-muted-foreground">
-            {assets.length} favorite{assets.length !== 1 ? 's' : ''}
+            {visibleAssets.length} {selectedList ? 'coin' : 'favorite'}
+            {visibleAssets.length !== 1 ? 's' : ''}
           </p>
-          <div className="mt-4">
+          <div className="mt-4 flex flex-wrap items-center gap-2">
             <Link href="/">
               <Button variant="outline">Back to Explorer</Button>
             </Link>
+            <WatchlistSwitcher
+              watchlists={watchlists}
+              selected={selected}
+              onSelect={(value) => {
+                setReordering(false)
+                setSelected(value)
+              }}
+              onCreate={async (name) => {
+                const result = await createWatchlist(name)
+                if (result.watchlist) setSelected(result.watchlist.id)
+                return result
+              }}
+              onRename={renameWatchlist}
+              onDelete={async (id) => {
+                await deleteWatchlist(id)
+                setSelected(FAVORITES_LIST)
+              }}
+            />
+            {!selectedList && !reordering && visibleAssets.length > 1 && (
+              <Button
+                variant="outline"
+                onClick={() => setReordering(true)}
+              >
+                <ArrowUpDown className="h-4 w-4" />
+                Reorder
+              </Button>
+            )}
+            {!selectedList && !reordering && (
+              <>
+                <FavoritesImportDialog onImported={fetchData} />
+                <FavoritesExportMenu />
+              </>
+            )}
           </div>
         </div>
 
         {/* Empty State */}
-        {assets.length === 0 ? (
+        {selectedList && visibleAssets.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Heart className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>{selectedList.name} is empty</EmptyTitle>
+              <EmptyDescription>
+                Add coins to this list with the heart on any cryptocurrency.
+              </EmptyDescription>
+            </EmptyHeader>
+            <EmptyContent>
+              <Link href="/">
+                <Button>Explore Cryptocurrencies</Button>
+              </Link>
+            </EmptyContent>
+          </Empty>
+        ) : visibleAssets.length === 0 ? (
           <Empty>
             <EmptyHeader>
               <EmptyMedia variant="icon">
@@ -162,13 +333,22 @@ export default function FavoritesPage() {
               </Link>
             </EmptyContent>
           </Empty>
+        ) : reordering ? (
+          <FavoritesReorderList
+            assets={visibleAssets}
+            pinnedIds={pinnedIds}
+            onTogglePin={togglePin}
+            onSave={saveOrder}
+            onCancel={() => setReordering(false)}
+            saving={savingOrder}
+          />
         ) : (
           /* Favorites Grid */
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-            {assets.map((asset) => (
+            {visibleAssets.map((asset) => (
               <AssetCard
                 key={asset.id}
-                asset={asset}
+                asset={withLiveQuote(asset, quotes)}
                 isFavorite={true}
                 onToggleFavorite={removeFavorite}
                 isLoading={favoriteLoading === asset.id}
@@ -2,6 +2,10 @@ import type { Metadata } from 'next'
 import { Geist, Geist_Mono } from 'next/font/google'
 import { Toaster } from '@/components/ui/sonner'
 import { ThemeProvider } from '@/components/theme-provider'
+import { CurrencyProvider } from '@/components/currency-provider'
+import { AuthProvider } from '@/components/auth-provider'
+import { CompareProvider } from '@/components/compare-provider'
+import { CompareBar } from '@/components/compare-bar'
 import { ErrorBoundary } from '@/components/error-boundary'
 import './globals.css'
 
@@ -98,8 +102,15 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <ErrorBoundary>{children}</ErrorBoundary>
-          <Toaster />
+          <CurrencyProvider>
+            <AuthProvider>
+              <CompareProvider>
+                <ErrorBoundary>{children}</ErrorBoundary>
+                <CompareBar />
+              </CompareProvider>
+            </AuthProvider>
+            <Toaster />
+          </CurrencyProvider>
         </ThemeProvider>
       </body>
     </html>
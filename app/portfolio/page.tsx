@@ -0,0 +1,196 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { NavHeader } from '@/components/nav-header'
+import { ErrorState } from '@/components/error-state'
+import { AllocationBreakdown } from '@/components/allocation-breakdown'
+import { PortfolioValueChart } from '@/components/portfolio-value-chart'
+import { PositionsTable } from '@/components/positions-table'
+import { TransactionForm } from '@/components/transaction-form'
+import { TransactionsTable } from '@/components/transactions-table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCurrency } from '@/components/currency-provider'
+import { formatPrice, getPercentageColor } from '@/lib/utils'
+import type {
+  ErrorResponse,
+  PortfolioResponse,
+  Transaction,
+  TransactionsResponse,
+} from '@/lib/types'
+
+export default function PortfolioPage() {
+  const { currency } = useCurrency()
+  const [portfolio, setPortfolio] = useState<PortfolioResponse | null>(null)
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  // Bumped after every change so the value chart refetches
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    fetchData()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, version])
+
+  const fetchData = async () => {
+    try {
+      setError(null)
+
+      const [portfolioRes, transactionsRes] = await Promise.all([
+        fetch(`/api/portfolio?currency=${currency}`),
+        fetch('/api/portfolio/transactions'),
+      ])
+      if (portfolioRes.status === 401) {
+        setError('Sign in to track your portfolio.')
+        return
+      }
+      if (!portfolioRes.ok) throw new Error('Failed to fetch portfolio')
+      if (!transactionsRes.ok) throw new Error('Failed to fetch transactions')
+
+      const transactionsData: TransactionsResponse =
+        await transactionsRes.json()
+      setPortfolio(await portfolioRes.json())
+      setTransactions(transactionsData.transactions)
+    } catch (err) {
+      setError('Failed to load portfolio. Please try again.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const deleteTransaction = async (id: string) => {
+    setDeletingId(id)
+
+    try {
+      const res = await fetch(`/api/portfolio/transactions?id=${id}`, {
+        method: 'DELETE',
+      })
+
+      // e.g. a later sale of the coin would be left short
+      if (!res.ok) {
+        const { error }: ErrorResponse = await res.json()
+        toast.error(error.message)
+        return
+      }
+
+      toast.success('Transaction removed')
+      setVersion((prev) => prev + 1)
+    } catch (err) {
+      toast.error('Failed to remove transaction')
+      console.error(err)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          <div className="h-10 w-48 bg-muted rounded-md animate-pulse mb-8" />
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton
+                key={i}
+                className="h-28"
+              />
+            ))}
+          </div>
+          <Skeleton className="h-[400px] w-full" />
+        </div>
+      </>
+    )
+  }
+
+  if (error || !portfolio) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          <ErrorState
+            title="Failed to Load Portfolio"
+            message={error ?? 'Failed to load portfolio.'}
+            onRetry={fetchData}
+          />
+        </div>
+      </>
+    )
+  }
+
+  const summary = [
+    { title: 'Total Value', value: portfolio.total_value },
+    { title: 'Cost Basis', value: portfolio.total_cost },
+    {
+      title: 'Unrealized P&L',
+      value: portfolio.unrealized_pnl,
+      colored: true,
+    },
+    { title: 'Realized P&L', value: portfolio.realized_pnl, colored: true },
+  ]
+
+  return (
+    <>
+      <NavHeader />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold mb-2">Portfolio</h1>
+          <p className="text-muted-foreground">
+            Holdings valued in {currency.toUpperCase()}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {summary.map(({ title, value, colored }) => (
+            <Card key={title}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p
+                  className={`text-2xl font-bold ${colored ? getPercentageColor(value) : ''}`}
+                >
+                  {formatPrice(value, false, currency)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <PortfolioValueChart version={version} />
+          </div>
+          <AllocationBreakdown
+            positions={portfolio.positions}
+            currency={currency}
+          />
+        </div>
+
+        <PositionsTable
+          positions={portfolio.positions}
+          currency={currency}
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <TransactionForm onCreated={() => setVersion((prev) => prev + 1)} />
+          <div className="lg:col-span-2">
+            <TransactionsTable
+              transactions={transactions}
+              onDelete={deleteTransaction}
+              deletingId={deletingId}
+            />
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
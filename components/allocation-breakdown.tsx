@@ -0,0 +1,56 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { formatPrice } from '@/lib/utils'
+import type { Currency } from '@/lib/currency'
+import type { Position } from '@/lib/types'
+
+interface AllocationBreakdownProps {
+  positions: Position[]
+  currency: Currency
+}
+
+export function AllocationBreakdown({
+  positions,
+  currency,
+}: AllocationBreakdownProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Allocation</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {positions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open positions.</p>
+        ) : (
+          <ul className="space-y-4">
+            {positions.map((position) => (
+              <li
+                key={position.asset_id}
+                className="space-y-1"
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {position.name}{' '}
+                    <span className="uppercase text-muted-foreground">
+                      {position.symbol}
+                    </span>
+                  </span>
+                  <span>{position.allocation.toFixed(1)}%</span>
+                </div>
+                <Progress
+                  value={position.allocation}
+                  aria-label={`${position.name} allocation`}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(position.value, false, currency)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
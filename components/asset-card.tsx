@@ -4,11 +4,17 @@ import { memo } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { motion } from 'framer-motion'
-import { Heart } from 'lucide-react'
+import { GitCompareArrows, Heart } from 'lucide-react'
+import { toast } from 'sonner'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import type { CryptoAsset } from '@/lib/types'
+import { useCurrency } from '@/components/currency-provider'
+import { useCompare } from '@/components/compare-provider'
+import { WatchlistPicker } from '@/components/watchlist-picker'
+import { getPriceFlashClass, usePriceFlash } from '@/hooks/use-price-flash'
+import { MAX_COMPARE_ASSETS } from '@/lib/compare'
+import type { CryptoAsset, Watchlist } from '@/lib/types'
 import { formatPrice, formatPercentage, getPercentageColor } from '@/lib/utils'
 
 interface AssetCardProps {
@@ -16,6 +22,9 @@ interface AssetCardProps {
   isFavorite: boolean
   onToggleFavorite: (assetId: string) => void
   isLoading?: boolean
+  // With at least one watchlist, the heart opens an "add to list…" picker
+  watchlists?: Watchlist[]
+  onToggleWatchlist?: (watchlistId: string, assetId: string) => void
 }
 
 function AssetCardComponent({
@@ -23,7 +32,70 @@ function AssetCardComponent({
   isFavorite,
   onToggleFavorite,
   isLoading = false,
+  watchlists = [],
+  onToggleWatchlist,
 }: AssetCardProps) {
+  const { currency } = useCurrency()
+  const compare = useCompare()
+  const isCompared = compare.ids.includes(asset.id)
+  const flash = usePriceFlash(asset.current_price, currency)
+  const showPicker = watchlists.length > 0 && onToggleWatchlist !== undefined
+  const isSaved =
+    isFavorite ||
+    watchlists.some((watchlist) => watchlist.asset_ids.includes(asset.id))
+
+  const favoriteButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      aria-label={
+        showPicker
+          ? 'Add to list'
+          : isFavorite
+            ? 'Remove from favorites'
+            : 'Add to favorites'
+      }
+      onClick={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        if (!showPicker) onToggleFavorite(asset.id)
+      }}
+      disabled={isLoading}
+      className="flex-shrink-0 relative z-10"
+    >
+      <Heart
+        className={`h-5 w-5 ${
+          isSaved ? 'fill-red-500 text-red-500' : 'text-gray-400'
+        }`}
+      />
+    </Button>
+  )
+
+  const compareButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      aria-label={
+        isCompared
+          ? `Remove ${asset.name} from compare`
+          : `Add ${asset.name} to compare`
+      }
+      aria-pressed={isCompared}
+      onClick={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        if (!compare.toggle(asset.id)) {
+          toast.error(`You can compare up to ${MAX_COMPARE_ASSETS} coins`)
+        }
+      }}
+      className="flex-shrink-0 relative z-10"
+    >
+      <GitCompareArrows
+        className={`h-5 w-5 ${isCompared ? 'text-primary' : 'text-gray-400'}`}
+      />
+    </Button>
+  )
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -60,31 +132,34 @@ function AssetCardComponent({
                 </div>
               </div>
 
-              {/* Favorite Button */}
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={(e) => {
-                  e.preventDefault()
-                  e.stopPropagation()
-                  onToggleFavorite(asset.id)
-                }}
-                disabled={isLoading}
-                className="flex-shrink-0 relative z-10"
-              >
-                <Heart
-                  className={`h-5 w-5 ${
-                    isFavorite ? 'fill-red-500 text-red-500' : 'text-gray-400'
-                  }`}
-                />
-              </Button>
+              <div className="flex flex-shrink-0 items-center">
+                {compareButton}
+
+                {/* Favorite Button */}
+                {showPicker ? (
+                  <WatchlistPicker
+                    assetId={asset.id}
+                    isFavorite={isFavorite}
+                    onToggleFavorite={() => onToggleFavorite(asset.id)}
+                    watchlists={watchlists}
+                    onToggleWatchlist={onToggleWatchlist}
+                  >
+                    {favoriteButton}
+                  </WatchlistPicker>
+                ) : (
+                  favoriteButton
+                )}
+              </div>
             </div>
 
             {/* Price Info */}
             <div className="mt-4 space-y-2">
               <div className="flex items-baseline justify-between">
-                <span className="text-2xl sm:text-3xl font-bold">
-                  {formatPrice(asset.current_price)}
+                <span
+                  className={`text-2xl sm:text-3xl font-bold transition-colors duration-500 ${getPriceFlashClass(flash)}`}
+                  data-flash={flash ?? undefined}
+                >
+                  {formatPrice(asset.current_price, false, currency)}
                 </span>
               </div>
 
@@ -3,22 +3,84 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ExternalLink, TrendingUp, TrendingDown } from 'lucide-react'
 import Image from 'next/image'
 import { formatPrice, formatPercentage, getPercentageColor } from '@/lib/utils'
-import type { AssetDetail } from '@/lib/types'
+import { useCurrency } from '@/components/currency-provider'
+import { AssetMarkets } from '@/components/asset-markets'
+import { WatchlistPicker } from '@/components/watchlist-picker'
+import { useAssetActivity } from '@/hooks/use-asset-activity'
+import { getPriceFlashClass, usePriceFlash } from '@/hooks/use-price-flash'
+import type { AssetDetail, Watchlist } from '@/lib/types'
 
 interface AssetDetailsProps {
   asset: AssetDetail
   isFavorite?: boolean
   onToggleFavorite?: () => void
+  // With at least one watchlist, the button opens an "add to list…" picker
+  watchlists?: Watchlist[]
+  onToggleWatchlist?: (watchlistId: string, assetId: string) => void
+}
+
+function formatCount(value: number | null | undefined): string {
+  if (value === null || value === undefined) return 'N/A'
+  return new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value)
+}
+
+function ActivityCard({
+  title,
+  rows,
+  loading,
+}: {
+  title: string
+  rows: { label: string; value: string }[]
+  loading: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <dl className="space-y-2">
+          {rows.map(({ label, value }) => (
+            <div
+              key={label}
+              className="flex justify-between gap-4 text-sm"
+            >
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="font-semibold">
+                {loading ? <Skeleton className="h-5 w-16" /> : value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  )
 }
 
 export function AssetDetails({
   asset,
   isFavorite,
   onToggleFavorite,
+  watchlists = [],
+  onToggleWatchlist,
 }: AssetDetailsProps) {
+  const { currency } = useCurrency()
+  const flash = usePriceFlash(asset.current_price, currency)
+  const { activity, loading: activityLoading } = useAssetActivity(asset.id)
+  const developer = activity?.developer
+  const community = activity?.community
+  const isSaved =
+    isFavorite ||
+    watchlists.some((watchlist) => watchlist.asset_ids.includes(asset.id))
+
   const formatSupply = (value: number | null) => {
     if (!value) return 'N/A'
     return new Intl.NumberFormat('en-US', {
@@ -61,8 +123,11 @@ export function AssetDetails({
               </div>
               <div className="flex flex-wrap items-center gap-4 mt-4">
                 <div>
-                  <p className="text-4xl font-bold">
-                    {formatPrice(asset.current_price)}
+                  <p
+                    className={`text-4xl font-bold transition-colors duration-500 ${getPriceFlashClass(flash)}`}
+                    data-flash={flash ?? undefined}
+                  >
+                    {formatPrice(asset.current_price, false, currency)}
                   </p>
                 </div>
                 <Badge
@@ -82,234 +147,334 @@ export function AssetDetails({
                 </Badge>
               </div>
             </div>
-            {onToggleFavorite && (
-              <Button
-                variant={isFavorite ? 'default' : 'outline'}
-                size="lg"
-                onClick={onToggleFavorite}
-              >
-                {isFavorite ? '★ Remove from Favorites' : '☆ Add to Favorites'}
-              </Button>
-            )}
+            {onToggleFavorite &&
+              (watchlists.length > 0 && onToggleWatchlist ? (
+                <WatchlistPicker
+                  assetId={asset.id}
+                  isFavorite={Boolean(isFavorite)}
+                  onToggleFavorite={onToggleFavorite}
+                  watchlists={watchlists}
+                  onToggleWatchlist={onToggleWatchlist}
+                >
+                  <Button
+                    variant={isSaved ? 'default' : 'outline'}
+                    size="lg"
+                  >
+                    {isSaved ? '★ Saved to Lists' : '☆ Add to List…'}
+                  </Button>
+                </WatchlistPicker>
+              ) : (
+                <Button
+                  variant={isFavorite ? 'default' : 'outline'}
+                  size="lg"
+                  onClick={onToggleFavorite}
+                >
+                  {isFavorite
+                    ? '★ Remove from Favorites'
+                    : '☆ Add to Favorites'}
+                </Button>
+              ))}
           </div>
         </CardContent>
       </Card>
 
-      {/* Market Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Market Cap
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">
-              {formatPrice(asset.market_cap)}
-            </p>
-          </CardContent>
-        </Card>
+      <Tabs defaultValue="overview">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="markets">Markets</TabsTrigger>
+        </TabsList>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              24h Volume
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">
-              {formatPrice(asset.total_volume)}
-            </p>
-          </CardContent>
-        </Card>
+        <TabsContent
+          value="overview"
+          className="space-y-6"
+        >
+          {/* Market Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Market Cap
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">
+                  {formatPrice(asset.market_cap, false, currency)}
+                </p>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Circulating Supply
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">
-              {formatSupply(asset.circulating_supply)}
-            </p>
-            <p className="text-sm text-muted-foreground">
-              {asset.symbol.toUpperCase()}
-            </p>
-          </CardContent>
-        </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  24h Volume
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">
+                  {formatPrice(asset.total_volume, false, currency)}
+                </p>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              24h High / Low
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-lg font-semibold">
-              {formatPrice(asset.high_24h)}
-            </p>
-            <p className="text-lg font-semibold text-muted-foreground">
-              {formatPrice(asset.low_24h)}
-            </p>
-          </CardContent>
-        </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Circulating Supply
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">
+                  {formatSupply(asset.circulating_supply)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {asset.symbol.toUpperCase()}
+                </p>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Total Supply
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-bold">
-              {formatSupply(asset.total_supply)}
-            </p>
-            {asset.max_supply && (
-              <p className="text-sm text-muted-foreground">
-                Max: {formatSupply(asset.max_supply)}
-              </p>
-            )}
-          </CardContent>
-        </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  24h High / Low
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-lg font-semibold">
+                  {formatPrice(asset.high_24h, false, currency)}
+                </p>
+                <p className="text-lg font-semibold text-muted-foreground">
+                  {formatPrice(asset.low_24h, false, currency)}
+                </p>
+              </CardContent>
+            </Card>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              Price Changes
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-1">
-            <div className="flex justify-between">
-              <span className="text-sm">7 days:</span>
-              <span
-                className={`font-semibold ${getPercentageColor(
-                  asset.price_change_percentage_7d
-                )}`}
-              >
-                {formatPercentage(asset.price_change_percentage_7d)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-sm">30 days:</span>
-              <span
-                className={`font-semibold ${getPercentageColor(
-                  asset.price_change_percentage_30d
-                )}`}
-              >
-                {formatPercentage(asset.price_change_percentage_30d)}
-              </span>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Total Supply
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">
+                  {formatSupply(asset.total_supply)}
+                </p>
+                {asset.max_supply && (
+                  <p className="text-sm text-muted-foreground">
+                    Max: {formatSupply(asset.max_supply)}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
 
-      {/* All-Time High/Low */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">All-Time High</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            <p className="text-2xl font-bold">{formatPrice(asset.ath)}</p>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">
-                {formatDate(asset.ath_date)}
-              </span>
-              <span className={getPercentageColor(asset.ath_change_percentage)}>
-                {formatPercentage(asset.ath_change_percentage)}
-              </span>
-            </div>
-          </CardContent>
-        </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Price Changes
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-sm">7 days:</span>
+                  <span
+                    className={`font-semibold ${getPercentageColor(
+                      asset.price_change_percentage_7d
+                    )}`}
+                  >
+                    {formatPercentage(asset.price_change_percentage_7d)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm">30 days:</span>
+                  <span
+                    className={`font-semibold ${getPercentageColor(
+                      asset.price_change_percentage_30d
+                    )}`}
+                  >
+                    {formatPercentage(asset.price_change_percentage_30d)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">All-Time Low</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            <p className="text-2xl font-bold">{formatPrice(asset.atl)}</p>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">
-                {formatDate(asset.atl_date)}
-              </span>
-              <span className={getPercentageColor(asset.atl_change_percentage)}>
-                {formatPercentage(asset.atl_change_percentage)}
-              </span>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+          {/* All-Time High/Low */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">All-Time High</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-2xl font-bold">
+                  {formatPrice(asset.ath, false, currency)}
+                </p>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {formatDate(asset.ath_date)}
+                  </span>
+                  <span
+                    className={getPercentageColor(asset.ath_change_percentage)}
+                  >
+                    {formatPercentage(asset.ath_change_percentage)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
 
-      {/* Description */}
-      {asset.description && (
-        <Card>
-          <CardHeader>
-            <CardTitle>About {asset.name}</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div
-              className="prose dark:prose-invert max-w-none"
-              dangerouslySetInnerHTML={{
-                __html:
-                  asset.description.split('. ').slice(0, 3).join('. ') + '.',
-              }}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">All-Time Low</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-2xl font-bold">
+                  {formatPrice(asset.atl, false, currency)}
+                </p>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {formatDate(asset.atl_date)}
+                  </span>
+                  <span
+                    className={getPercentageColor(asset.atl_change_percentage)}
+                  >
+                    {formatPercentage(asset.atl_change_percentage)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Developer and Community Activity */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <ActivityCard
+              title="Developer Activity"
+              loading={activityLoading}
+              rows={[
+                {
+                  label: 'Commits (4 weeks)',
+                  value: formatCount(developer?.commit_count_4_weeks),
+                },
+                { label: 'Stars', value: formatCount(developer?.stars) },
+                { label: 'Forks', value: formatCount(developer?.forks) },
+                {
+                  label: 'Contributors',
+                  value: formatCount(developer?.pull_request_contributors),
+                },
+                {
+                  label: 'Issues (closed / total)',
+                  value:
+                    !developer || developer.total_issues === null
+                      ? 'N/A'
+                      : `${formatCount(developer.closed_issues)} / ${formatCount(developer.total_issues)}`,
+                },
+              ]}
+            />
+            <ActivityCard
+              title="Community"
+              loading={activityLoading}
+              rows={[
+                {
+                  label: 'X (Twitter) Followers',
+                  value: formatCount(community?.twitter_followers),
+                },
+                {
+                  label: 'Reddit Subscribers',
+                  value: formatCount(community?.reddit_subscribers),
+                },
+                {
+                  label: 'Reddit Active (48h)',
+                  value: formatCount(community?.reddit_accounts_active_48h),
+                },
+                {
+                  label: 'Telegram Members',
+                  value: formatCount(community?.telegram_channel_user_count),
+                },
+              ]}
             />
-          </CardContent>
-        </Card>
-      )}
+          </div>
 
-      {/* Links */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Links</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-3">
-          {asset.homepage && (
-            <a
-              href={asset.homepage}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center gap-2 text-primary hover:underline"
-            >
-              <ExternalLink className="h-4 w-4" />
-              Official Website
-            </a>
+          {/* Description */}
+          {asset.description && (
+            <Card>
+              <CardHeader>
+                <CardTitle>About {asset.name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div
+                  className="prose dark:prose-invert max-w-none"
+                  dangerouslySetInnerHTML={{
+                    __html:
+                      asset.description.split('. ').slice(0, 3).join('. ') +
+                      '.',
+                  }}
+                />
+              </CardContent>
+            </Card>
           )}
-          {asset.blockchain_site && (
-            <a
-              href={asset.blockchain_site}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center gap-2 text-primary hover:underline"
-            >
-              <ExternalLink className="h-4 w-4" />
-              Blockchain Explorer
-            </a>
-          )}
-        </CardContent>
-      </Card>
 
-      {/* Categories */}
-      {asset.categories.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Categories</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-wrap gap-2">
-              {asset.categories.map((category) => (
-                <Badge
-                  key={category}
-                  variant="secondary"
+          {/* Links */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Links</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {asset.homepage && (
+                <a
+                  href={asset.homepage}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-primary hover:underline"
                 >
-                  {category}
-                </Badge>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+                  <ExternalLink className="h-4 w-4" />
+                  Official Website
+                </a>
+              )}
+              {asset.blockchain_site && (
+                <a
+                  href={asset.blockchain_site}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-primary hover:underline"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  Blockchain Explorer
+                </a>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Categories */}
+          {asset.categories.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {asset.categories.map((category) => (
+                    <Badge
+                      key={category}
+                      variant="secondary"
+                    >
+                      {category}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* Exchanges are only loaded once the tab is opened */}
+        <TabsContent value="markets">
+          <Card>
+            <CardHeader>
+              <CardTitle>Markets</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AssetMarkets assetId={asset.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
@@ -0,0 +1,534 @@
+'use client'
+
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useCallback,
+  type ReactNode,
+} from 'react'
+import { useRouter } from 'next/navigation'
+import { NavHeader } from '@/components/nav-header'
+import { AssetCard } from '@/components/asset-card'
+import { AssetCardSkeleton } from '@/components/asset-card-skeleton'
+import { ErrorState } from '@/components/error-state'
+import { SearchBar } from '@/components/search-bar'
+import { useCurrency } from '@/components/currency-provider'
+import {
+  FilterBar,
+  SORT_ORDERS,
+  type SortOption,
+  type FilterOption,
+} from '@/components/filter-bar'
+import { Button } from '@/components/ui/button'
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty'
+import { Search, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useCategories } from '@/hooks/use-categories'
+import { useDebounce } from '@/hooks/use-debounce'
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll'
+import { usePriceStream, withLiveQuote } from '@/hooks/use-price-stream'
+import { useWatchlists } from '@/hooks/use-watchlists'
+import { pinnedFirst } from '@/lib/favorites'
+import type {
+  CryptoAsset,
+  ErrorResponse,
+  Favorite,
+  SearchResponse,
+  SearchResult,
+} from '@/lib/types'
+
+interface AssetExplorerProps {
+  // Lists only the coins of this category
+  category?: string
+  // Shown between the header and the coin list
+  children?: ReactNode
+}
+
+/**
+ * Searchable, sortable coin grid with infinite scroll, for the whole market
+ * or a single category
+ */
+export function AssetExplorer({ category, children }: AssetExplorerProps) {
+  const router = useRouter()
+  const { currency } = useCurrency()
+  const { categories } = useCategories()
+  const [assets, setAssets] = useState<CryptoAsset[]>([])
+  const [favorites, setFavorites] = useState<string[]>([])
+  const [pinned, setPinned] = useState<string[]>([])
+  const [pinnedAssets, setPinnedAssets] = useState<CryptoAsset[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [favoriteLoading, setFavoriteLoading] = useState<string | null>(null)
+
+  // Pagination state
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(true)
+  const perPage = 10
+
+  // Search and filter state
+  const [searchTerm, setSearchTerm] = useState('')
+  const [sortBy, setSortBy] = useState<SortOption>('default')
+  const [filter, setFilter] = useState<FilterOption>('all')
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(
+    null
+  )
+  const [searching, setSearching] = useState(false)
+
+  // Debounced search to improve performance
+  const debouncedSearchTerm = useDebounce(searchTerm, 300)
+
+  // Sorting and filtering happen on the server so they cover every coin
+  const marketQuery = `order=${SORT_ORDERS[sortBy]}&filter=${filter}${
+    category ? `&category=${encodeURIComponent(category)}` : ''
+  }`
+
+  const categoryName = category
+    ? (categories.find((item) => item.id === category)?.name ?? category)
+    : null
+
+  const changeCategory = (id: string) => {
+    router.push(id === 'all' ? '/' : `/categories/${id}`)
+  }
+
+  // Search every listed coin on the server; when that fails (e.g. offline)
+  // results stay null and only the loaded assets are filtered
+  useEffect(() => {
+    const query = debouncedSearchTerm.trim()
+    if (!query) {
+      setSearchResults(null)
+      setSearching(false)
+      return
+    }
+
+    let cancelled = false
+
+    const searchCoins = async () => {
+      try {
+        setSearching(true)
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(query)}`
+        )
+
+        if (!response.ok) {
+          throw new Error('Failed to search coins')
+        }
+
+        const data: SearchResponse = await response.json()
+        if (!cancelled) setSearchResults(data.coins)
+      } catch (err) {
+        console.warn('Server search unavailable, filtering locally:', err)
+        if (!cancelled) setSearchResults(null)
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }
+
+    searchCoins()
+
+    return () => {
+      cancelled = true
+    }
+  }, [debouncedSearchTerm])
+
+  // Reload from the first page whenever the currency, order or filter changes
+  useEffect(() => {
+    fetchInitialData()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, marketQuery])
+
+  // Pinned favorites lead the market list even when their coins are not
+  // on the loaded pages. A category lists only its own coins, so there the
+  // loaded pinned coins lead instead.
+  const fetchPinnedAssets = async (ids: string[]): Promise<CryptoAsset[]> => {
+    if (category || ids.length === 0) return []
+
+    try {
+      const res = await fetch(
+        `/api/assets?currency=${currency}&ids=${ids.map(encodeURIComponent).join(',')}`
+      )
+      if (!res.ok) throw new Error('Failed to fetch pinned assets')
+
+      const data = await res.json()
+      return ((data.assets || []) as CryptoAsset[]).filter((asset) =>
+        ids.includes(asset.id)
+      )
+    } catch (err) {
+      console.warn('Pinned favorites unavailable:', err)
+      return []
+    }
+  }
+
+  const fetchInitialData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Fetch initial assets and favorites in parallel
+      const [assetsRes, favoritesRes] = await Promise.all([
+        fetch(
+          `/api/assets?page=1&per_page=${perPage}&currency=${currency}&${marketQuery}`
+        ),
+        fetch('/api/favorites'),
+      ])
+
+      if (!assetsRes.ok || !favoritesRes.ok) {
+        throw new Error('Failed to fetch data')
+      }
+
+      const assetsData = await assetsRes.json()
+      const favoritesData = await favoritesRes.json()
+
+      setAssets(assetsData.assets || [])
+      setPage(1)
+      setHasMore(assetsData.hasMore ?? true)
+      const favoriteList: Favorite[] = favoritesData.favorites || []
+      const pinnedIds = favoriteList
+        .filter((f) => f.pinned)
+        .map((f) => f.asset_id)
+      setFavorites(favoriteList.map((f) => f.asset_id))
+      setPinned(pinnedIds)
+      setPinnedAssets(await fetchPinnedAssets(pinnedIds))
+    } catch (err) {
+      setError('Failed to load cryptocurrency data. Please try again.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMoreAssets = useCallback(async () => {
+    if (loadingMore || !hasMore) {
+      console.log('❌ Load more cancelled:', { loadingMore, hasMore })
+      return
+    }
+
+    console.log('🔄 Starting load more...', {
+      currentPage: page,
+      nextPage: page + 1,
+    })
+
+    try {
+      setLoadingMore(true)
+      const nextPage = page + 1
+
+      const url = `/api/assets?page=${nextPage}&per_page=${perPage}&currency=${currency}&${marketQuery}`
+      console.log('📡 Fetching:', url)
+
+      const response = await fetch(url)
+
+      console.log('📥 Response status:', response.status, response.ok)
+
+      if (!response.ok) {
+        const body: ErrorResponse | null = await response
+          .json()
+          .catch(() => null)
+
+        // Handle rate limiting gracefully; the server answers an exhausted
+        // market data budget with 503 and a retry hint
+        if (response.status === 429 || body?.error.code === 'rate_limited') {
+          const retryAfter = body?.error.retryAfter
+          console.warn('⚠️ Rate limited, will retry later', { retryAfter })
+          toast.warning(
+            retryAfter
+              ? `Loading too fast, please wait ${retryAfter} seconds...`
+              : 'Loading too fast, please wait a moment...'
+          )
+          return
+        }
+
+        console.error('❌ Response error:', body)
+        throw new Error('Failed to fetch more assets')
+      }
+
+      const data = await response.json()
+
+      // Check if response has error field (from API error handling)
+      if (data.error) {
+        console.warn('⚠️ API returned error:', data.error)
+        toast.warning('Unable to load more right now, please try again')
+        return
+      }
+
+      console.log('✅ Data received:', {
+        assetsCount: data.assets?.length,
+        hasMore: data.hasMore,
+        page: data.page,
+      })
+
+      if (data.assets && data.assets.length > 0) {
+        setAssets((prev) => {
+          console.log('📦 Merging assets:', {
+            oldCount: prev.length,
+            newCount: data.assets.length,
+          })
+          return [...prev, ...data.assets]
+        })
+        setPage(nextPage)
+        setHasMore(data.hasMore ?? false)
+        toast.success(`Loaded ${data.assets.length} more cryptocurrencies`)
+      } else {
+        console.log('⚠️ No more assets available')
+        setHasMore(false)
+        toast.info('No more cryptocurrencies to load')
+      }
+    } catch (err) {
+      console.error('💥 Error loading more assets:', err)
+      toast.error('Failed to load more cryptocurrencies')
+    } finally {
+      setLoadingMore(false)
+      console.log('✅ Load more completed')
+    }
+  }, [loadingMore, hasMore, page, perPage, currency, marketQuery])
+
+  // Infinite scroll observer with increased margin to prevent rapid firing
+  const observerTarget = useInfiniteScroll({
+    onLoadMore: loadMoreAssets,
+    hasMore,
+    isLoading: loadingMore,
+    rootMargin: '200px', // Load earlier but throttled
+    threshold: 0.1,
+  })
+
+  const toggleFavorite = async (assetId: string) => {
+    const isFavorite = favorites.includes(assetId)
+    setFavoriteLoading(assetId)
+
+    try {
+      if (isFavorite) {
+        // Remove from favorites
+        const res = await fetch(`/api/favorites?asset_id=${assetId}`, {
+          method: 'DELETE',
+        })
+
+        if (!res.ok) throw new Error('Failed to remove favorite')
+
+        setFavorites((prev) => prev.filter((id) => id !== assetId))
+        setPinned((prev) => prev.filter((id) => id !== assetId))
+        toast.success('Removed from favorites')
+      } else {
+        // Add to favorites
+        const res = await fetch('/api/favorites', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ asset_id: assetId }),
+        })
+
+        if (res.status === 401) {
+          toast.error('Sign in to save favorites')
+          return
+        }
+        // e.g. the favorites limit is reached
+        if (!res.ok) {
+          const { error }: ErrorResponse = await res.json()
+          toast.error(error.message)
+          return
+        }
+
+        setFavorites((prev) => [...prev, assetId])
+        toast.success('Added to favorites')
+      }
+    } catch (err) {
+      toast.error('Failed to update favorites')
+      console.error(err)
+    } finally {
+      setFavoriteLoading(null)
+    }
+  }
+
+  // Loaded pages with the pinned coins fetched on their own ahead of them
+  const listedAssets = useMemo(() => {
+    const leading = pinnedAssets.filter((asset) => pinned.includes(asset.id))
+    const leadingIds = new Set(leading.map((asset) => asset.id))
+    return [...leading, ...assets.filter((asset) => !leadingIds.has(asset.id))]
+  }, [assets, pinned, pinnedAssets])
+
+  // Live prices for every listed asset
+  const quotes = usePriceStream(
+    listedAssets.map((asset) => asset.id),
+    currency
+  )
+  const { watchlists, toggleAsset } = useWatchlists()
+
+  // Search within the listed assets; order and filter come from the API,
+  // except that pinned favorites always come first
+  const filteredAssets = useMemo(() => {
+    const isPinned = (asset: CryptoAsset) => pinned.includes(asset.id)
+    if (!debouncedSearchTerm) return pinnedFirst(listedAssets, isPinned)
+
+    // Using debounced value for better performance
+    const term = debouncedSearchTerm.toLowerCase()
+    return pinnedFirst(
+      listedAssets.filter(
+        (asset) =>
+          asset.name.toLowerCase().includes(term) ||
+          asset.symbol.toLowerCase().includes(term)
+      ),
+      isPinned
+    )
+  }, [listedAssets, debouncedSearchTerm, pinned])
+
+  if (loading) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          {/* Header Skeleton */}
+          <div className="mb-8">
+            <div className="h-10 w-64 bg-muted rounded-md animate-pulse mb-2" />
+            <div className="h-5 w-48 bg-muted rounded-md animate-pulse" />
+          </div>
+
+          {/* Skeleton Grid */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+            {Array.from({ length: 10 }).map((_, i) => (
+              <AssetCardSkeleton key={i} />
+            ))}
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  if (error) {
+    return (
+      <>
+        <NavHeader />
+        <div className="container mx-auto px-4 py-8">
+          <ErrorState
+            title="Failed to Load"
+            message={error}
+            onRetry={fetchInitialData}
+            retrying={loading}
+          />
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <NavHeader />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold mb-2">
+            {categoryName ?? 'Cryptocurrency Explorer'}
+          </h1>
+          <p className="text-muted-foreground">
+            {categoryName
+              ? 'Coins in this category by market cap'
+              : 'Top cryptocurrencies by market cap'}
+          </p>
+        </div>
+
+        {children}
+
+        {/* Search and Filter */}
+        <div className="mb-6 flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+          <SearchBar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            placeholder="Search by name or symbol..."
+            results={searchResults}
+            searching={searching}
+          />
+          <FilterBar
+            sortBy={sortBy}
+            onSortChange={setSortBy}
+            filter={filter}
+            onFilterChange={setFilter}
+            category={category ?? 'all'}
+            categories={categories}
+            onCategoryChange={changeCategory}
+          />
+        </div>
+
+        {/* Assets Grid */}
+        {filteredAssets.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Search />
+              </EmptyMedia>
+              <EmptyTitle>No results found</EmptyTitle>
+              <EmptyDescription>
+                {!debouncedSearchTerm
+                  ? 'No cryptocurrencies match your filters'
+                  : searchResults?.length
+                    ? `No loaded cryptocurrencies match "${debouncedSearchTerm}". Pick one from the search results above.`
+                    : `No cryptocurrencies match "${debouncedSearchTerm}"`}
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+              {filteredAssets.map((asset) => (
+                <AssetCard
+                  key={asset.id}
+                  asset={withLiveQuote(asset, quotes)}
+                  isFavorite={favorites.includes(asset.id)}
+                  onToggleFavorite={toggleFavorite}
+                  isLoading={favoriteLoading === asset.id}
+                  watchlists={watchlists}
+                  onToggleWatchlist={toggleAsset}
+                />
+              ))}
+            </div>
+
+            {/* Infinite Scroll Trigger */}
+            {hasMore && !debouncedSearchTerm && (
+              <div className="mt-8 flex flex-col items-center gap-4">
+                {/* Debug info */}
+                {process.env.NODE_ENV === 'development' && (
+                  <div className="text-xs text-muted-foreground">
+                    {loadingMore.toString()}
+                  </div>
+                )}
+
+                {/* Invisible trigger for intersection observer */}
+                <div
+                  ref={observerTarget}
+                  className="h-4"
+                />
+
+                {loadingMore && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Loading more cryptocurrencies...</span>
+                  </div>
+                )}
+
+                {/* Manual load more button as fallback */}
+                {!loadingMore && (
+                  <Button
+                    onClick={() => {
+                      loadMoreAssets()
+                    }}
+                    variant="outline"
+                    disabled={loadingMore}
+                  >
+                    Load More
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Show total count */}
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              Showing {filteredAssets.length} cryptocurrencies
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  )
+}
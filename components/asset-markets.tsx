@@ -0,0 +1,296 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, ExternalLink, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ErrorState } from '@/components/error-state'
+import type {
+  AssetMarketsResponse,
+  ExchangeTicker,
+  TrustScore,
+} from '@/lib/types'
+import { formatPrice } from '@/lib/utils'
+
+type SortKey =
+  'exchange' | 'pair' | 'last_price' | 'volume' | 'spread' | 'trust_score'
+type SortDirection = 'asc' | 'desc'
+
+interface AssetMarketsProps {
+  assetId: string
+}
+
+const TRUST_SCORE_RANKS: Record<TrustScore, number> = {
+  red: 0,
+  yellow: 1,
+  green: 2,
+}
+
+const TRUST_SCORE_COLORS: Record<TrustScore, string> = {
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+}
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'exchange', label: 'Exchange' },
+  { key: 'pair', label: 'Pair' },
+  { key: 'last_price', label: 'Price', numeric: true },
+  { key: 'volume', label: '24h Volume', numeric: true },
+  { key: 'spread', label: 'Spread', numeric: true },
+  { key: 'trust_score', label: 'Trust' },
+]
+
+function getSortValue(
+  ticker: ExchangeTicker,
+  key: SortKey
+): string | number | null {
+  if (key === 'trust_score') {
+    return ticker.trust_score ? TRUST_SCORE_RANKS[ticker.trust_score] : null
+  }
+  return ticker[key]
+}
+
+/**
+ * Orders tickers by one column; missing values always come last
+ */
+function sortTickers(
+  tickers: ExchangeTicker[],
+  key: SortKey,
+  direction: SortDirection
+): ExchangeTicker[] {
+  const sign = direction === 'asc' ? 1 : -1
+
+  return [...tickers].sort((a, b) => {
+    const left = getSortValue(a, key)
+    const right = getSortValue(b, key)
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1
+    }
+    if (typeof left === 'string' || typeof right === 'string') {
+      return sign * String(left).localeCompare(String(right))
+    }
+    return sign * (left - right)
+  })
+}
+
+/**
+ * Exchanges trading a coin, loaded a page at a time and sortable by column.
+ * Tickers are quoted in USD whatever the selected currency.
+ */
+export function AssetMarkets({ assetId }: AssetMarketsProps) {
+  const [tickers, setTickers] = useState<ExchangeTicker[]>([])
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sortKey, setSortKey] = useState<SortKey>('volume')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+
+  const fetchPage = async (nextPage: number) => {
+    const response = await fetch(
+      `/api/assets/${assetId}/markets?page=${nextPage}`
+    )
+    if (!response.ok) throw new Error('Failed to fetch markets')
+
+    const data: AssetMarketsResponse = await response.json()
+    setPage(nextPage)
+    setHasMore(data.hasMore)
+    return data.tickers
+  }
+
+  const fetchInitialData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setTickers(await fetchPage(1))
+    } catch (err) {
+      setError('Failed to load markets. Please try again.')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchInitialData()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assetId])
+
+  const loadMore = async () => {
+    try {
+      setLoadingMore(true)
+      setError(null)
+      const more = await fetchPage(page + 1)
+      setTickers((prev) => [...prev, ...more])
+    } catch (err) {
+      setError('Failed to load more markets. Please try again.')
+      console.error(err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const sortedTickers = useMemo(
+    () => sortTickers(tickers, sortKey, sortDirection),
+    [tickers, sortKey, sortDirection]
+  )
+
+  // A new column starts with its most useful direction: names A to Z,
+  // figures largest first
+  const changeSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))
+    } else {
+      setSortKey(key)
+      setSortDirection(key === 'exchange' || key === 'pair' ? 'asc' : 'desc')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton
+            key={i}
+            className="h-10 w-full"
+          />
+        ))}
+      </div>
+    )
+  }
+
+  if (error && tickers.length === 0) {
+    return (
+      <ErrorState
+        title="Failed to Load"
+        message={error}
+        onRetry={fetchInitialData}
+        retrying={loading}
+      />
+    )
+  }
+
+  if (tickers.length === 0) {
+    return (
+      <p className="py-8 text-center text-muted-foreground">
+        No exchanges list this coin yet
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableCaption>Prices and volumes in USD</TableCaption>
+        <TableHeader>
+          <TableRow>
+            {COLUMNS.map(({ key, label, numeric }) => (
+              <TableHead
+                key={key}
+                aria-sort={
+                  key === sortKey
+                    ? sortDirection === 'asc'
+                      ? 'ascending'
+                      : 'descending'
+                    : undefined
+                }
+                className={numeric ? 'text-right' : undefined}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => changeSort(key)}
+                  className="-mx-3"
+                >
+                  {label}
+                  {key === sortKey &&
+                    (sortDirection === 'asc' ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    ))}
+                </Button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedTickers.map((ticker, index) => (
+            <TableRow key={`${ticker.exchange_id}-${ticker.pair}-${index}`}>
+              <TableCell className="font-medium">
+                {ticker.trade_url ? (
+                  <a
+                    href={ticker.trade_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 hover:underline"
+                  >
+                    {ticker.exchange}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                ) : (
+                  ticker.exchange
+                )}
+              </TableCell>
+              <TableCell>{ticker.pair}</TableCell>
+              <TableCell className="text-right">
+                {ticker.last_price === null
+                  ? 'N/A'
+                  : formatPrice(ticker.last_price, false, 'usd')}
+              </TableCell>
+              <TableCell className="text-right">
+                {ticker.volume === null
+                  ? 'N/A'
+                  : formatPrice(ticker.volume, true, 'usd')}
+              </TableCell>
+              <TableCell className="text-right">
+                {ticker.spread === null
+                  ? 'N/A'
+                  : `${ticker.spread.toFixed(2)}%`}
+              </TableCell>
+              <TableCell>
+                {ticker.trust_score ? (
+                  <span className="inline-flex items-center gap-2 capitalize">
+                    <span
+                      aria-hidden="true"
+                      className={`h-2.5 w-2.5 rounded-full ${TRUST_SCORE_COLORS[ticker.trust_score]}`}
+                    />
+                    {ticker.trust_score}
+                  </span>
+                ) : (
+                  'N/A'
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={loadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+            Load More
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
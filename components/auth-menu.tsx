@@ -0,0 +1,190 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { LogIn, LogOut } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { useAuth } from '@/components/auth-provider'
+
+const credentialsSchema = z.object({
+  email: z.email('Enter a valid email'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
+type Credentials = z.infer<typeof credentialsSchema>
+
+type Mode = 'sign-in' | 'sign-up'
+
+export function AuthMenu() {
+  const { user, loading, signIn, signUp, signOut } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [mode, setMode] = useState<Mode>('sign-in')
+
+  const form = useForm<Credentials>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { email: '', password: '' },
+  })
+
+  const submit = async ({ email, password }: Credentials) => {
+    const { error, needsConfirmation } =
+      mode === 'sign-in'
+        ? await signIn(email, password)
+        : await signUp(email, password)
+
+    if (error) {
+      form.setError('root', { message: error })
+      return
+    }
+
+    form.reset()
+    setOpen(false)
+    toast.success(
+      needsConfirmation
+        ? 'Check your email to confirm your account'
+        : 'Signed in'
+    )
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    toast.success('Signed out')
+  }
+
+  // Avoid flashing the sign-in button while the session loads
+  if (loading) return null
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="hidden md:inline text-sm text-muted-foreground">
+          {user.email}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleSignOut}
+        >
+          <LogOut className="h-4 w-4" />
+          Sign out
+        </Button>
+      </div>
+    )
+  }
+
+  const signingIn = mode === 'sign-in'
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+        >
+          <LogIn className="h-4 w-4" />
+          Sign in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{signingIn ? 'Sign in' : 'Create account'}</DialogTitle>
+          <DialogDescription>
+            Your favorites are saved to your account.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(submit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      autoComplete="email"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete={
+                        signingIn ? 'current-password' : 'new-password'
+                      }
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {form.formState.errors.root && (
+              <p
+                role="alert"
+                className="text-sm text-destructive"
+              >
+                {form.formState.errors.root.message}
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={form.formState.isSubmitting}
+            >
+              {signingIn ? 'Sign in' : 'Create account'}
+            </Button>
+          </form>
+        </Form>
+        <Button
+          variant="link"
+          size="sm"
+          onClick={() => {
+            form.clearErrors()
+            setMode(signingIn ? 'sign-up' : 'sign-in')
+          }}
+        >
+          {signingIn
+            ? 'Need an account? Sign up'
+            : 'Already have an account? Sign in'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import {
+  createContext,
+  Fragment,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import type { User } from '@supabase/supabase-js'
+import { getBrowserSupabase } from '@/lib/supabase-browser'
+
+export interface AuthResult {
+  error: string | null
+  // Sign-ups wait for an email confirmation when the project requires it
+  needsConfirmation?: boolean
+}
+
+interface AuthContextValue {
+  user: User | null
+  // True until the stored session has been read
+  loading: boolean
+  signIn: (email: string, password: string) => Promise<AuthResult>
+  signUp: (email: string, password: string) => Promise<AuthResult>
+  signOut: () => Promise<void>
+}
+
+const UNAVAILABLE: AuthResult = { error: 'Sign-in is not available' }
+
+// Defaults let components render outside the provider (e.g. in isolation)
+const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  loading: false,
+  signIn: async () => UNAVAILABLE,
+  signUp: async () => UNAVAILABLE,
+  signOut: async () => {},
+})
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  // Bumped when a different user signs in or out, see below
+  const [generation, setGeneration] = useState(0)
+  // Undefined until the stored session has been read
+  const userIdRef = useRef<string | null>(undefined)
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = getBrowserSupabase().auth.onAuthStateChange((_event, session) => {
+      const userId = session?.user.id ?? null
+      if (userIdRef.current !== undefined && userIdRef.current !== userId) {
+        setGeneration((prev) => prev + 1)
+      }
+      userIdRef.current = userId
+
+      setUser(session?.user ?? null)
+      setLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await getBrowserSupabase().auth.signInWithPassword({
+      email,
+      password,
+    })
+    return { error: error?.message ?? null }
+  }, [])
+
+  const signUp = useCallback(async (email: string, password: string) => {
+    const { data, error } = await getBrowserSupabase().auth.signUp({
+      email,
+      password,
+    })
+    return { error: error?.message ?? null, needsConfirmation: !data.session }
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await getBrowserSupabase().auth.signOut()
+  }, [])
+
+  return (
+    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+      {/* Remount pages for a new user so they reload that user's data */}
+      <Fragment key={generation}>{children}</Fragment>
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  return useContext(AuthContext)
+}
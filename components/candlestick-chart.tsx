@@ -0,0 +1,166 @@
+'use client'
+
+import { format } from 'date-fns'
+import {
+  ComposedChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  type TooltipProps,
+} from 'recharts'
+import { formatPrice } from '@/lib/utils'
+import { getChartTimeFormats } from '@/lib/chart-range'
+import type { Currency } from '@/lib/currency'
+import type { OhlcDataPoint } from '@/lib/types'
+
+const UP_COLOR = '#22c55e'
+const DOWN_COLOR = '#ef4444'
+
+// Recharts draws each candle as a floating bar spanning low..high
+interface CandleDatum extends OhlcDataPoint {
+  range: [number, number]
+}
+
+interface CandleShapeProps {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  payload?: CandleDatum
+}
+
+function CandleShape({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  payload,
+}: CandleShapeProps) {
+  if (!payload) return null
+
+  const { open, high, low, close } = payload
+  const color = close >= open ? UP_COLOR : DOWN_COLOR
+
+  // The bar covers high (top) to low (bottom); place the body inside it
+  const pixelsPerUnit = high === low ? 0 : height / (high - low)
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit
+  const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerUnit, 1)
+  const center = x + width / 2
+
+  return (
+    <g
+      stroke={color}
+      fill={color}
+    >
+      <line
+        x1={center}
+        x2={center}
+        y1={y}
+        y2={y + height}
+      />
+      <rect
+        x={x}
+        y={bodyTop}
+        width={width}
+        height={bodyHeight}
+      />
+    </g>
+  )
+}
+
+interface CandleTooltipProps extends TooltipProps<number, string> {
+  currency: Currency
+  labelFormat: string
+}
+
+function CandleTooltip({
+  active,
+  payload,
+  currency,
+  labelFormat,
+}: CandleTooltipProps) {
+  const candle = payload?.[0]?.payload as CandleDatum | undefined
+  if (!active || !candle) return null
+
+  const rows = [
+    ['Open', candle.open],
+    ['High', candle.high],
+    ['Low', candle.low],
+    ['Close', candle.close],
+  ] as const
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+      <p className="mb-1 font-medium">
+        {format(candle.timestamp, labelFormat)}
+      </p>
+      {rows.map(([label, value]) => (
+        <div
+          key={label}
+          className="flex justify-between gap-4"
+        >
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono">
+            {formatPrice(value, false, currency)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface CandlestickChartProps {
+  data: OhlcDataPoint[]
+  currency: Currency
+}
+
+export function CandlestickChart({ data, currency }: CandlestickChartProps) {
+  const timeFormats = getChartTimeFormats(data.map((d) => d.timestamp))
+  const chartData: CandleDatum[] = data.map((candle) => ({
+    ...candle,
+    range: [candle.low, candle.high],
+  }))
+
+  return (
+    <ResponsiveContainer
+      width="100%"
+      height={300}
+    >
+      <ComposedChart data={chartData}>
+        <CartesianGrid
+          strokeDasharray="3 3"
+          className="stroke-muted"
+        />
+        <XAxis
+          dataKey="timestamp"
+          tickFormatter={(value: number) => format(value, timeFormats.tick)}
+          minTickGap={32}
+          className="text-xs"
+          stroke="currentColor"
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          tickFormatter={(value: number) => formatPrice(value, true, currency)}
+          className="text-xs"
+          stroke="currentColor"
+        />
+        <Tooltip
+          content={
+            <CandleTooltip
+              currency={currency}
+              labelFormat={timeFormats.tooltip}
+            />
+          }
+        />
+        <Bar
+          dataKey="range"
+          shape={<CandleShape />}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { GitCompareArrows, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useCompare } from '@/components/compare-provider'
+import {
+  MAX_COMPARE_ASSETS,
+  MIN_COMPARE_ASSETS,
+  getCompareHref,
+} from '@/lib/compare'
+
+/**
+ * Floating bar shown while coins are picked for comparison
+ */
+export function CompareBar() {
+  const pathname = usePathname()
+  const { ids, clear } = useCompare()
+
+  if (ids.length === 0 || pathname === '/compare') return null
+
+  const ready = ids.length >= MIN_COMPARE_ASSETS
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <div
+        role="region"
+        aria-label="Compare selection"
+        className="flex items-center gap-3 rounded-full border bg-background px-4 py-2 shadow-lg"
+      >
+        <span className="text-sm">
+          {ready
+            ? `${ids.length} of ${MAX_COMPARE_ASSETS} coins selected`
+            : `Pick at least ${MIN_COMPARE_ASSETS} coins to compare`}
+        </span>
+        {ready ? (
+          <Button
+            size="sm"
+            asChild
+          >
+            <Link href={getCompareHref(ids)}>
+              <GitCompareArrows className="h-4 w-4" />
+              Compare
+            </Link>
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            disabled
+          >
+            <GitCompareArrows className="h-4 w-4" />
+            Compare
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Clear compare selection"
+          onClick={clear}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
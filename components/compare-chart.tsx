@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ErrorState } from '@/components/error-state'
+import { useCurrency } from '@/components/currency-provider'
+import {
+  CHART_RANGES,
+  DEFAULT_CHART_DAYS,
+  getChartTimeFormats,
+  type ChartDays,
+} from '@/lib/chart-range'
+import { alignSeries, toPercentChange, type CompareRow } from '@/lib/compare'
+import { formatPercentage } from '@/lib/utils'
+import type { AssetDetail, ChartDataPoint } from '@/lib/types'
+
+// One color per compared coin, at most MAX_COMPARE_ASSETS
+const LINE_COLORS = ['#f59e0b', '#3b82f6', '#22c55e', '#ef4444', '#a855f7']
+
+interface CompareChartProps {
+  assets: Pick<AssetDetail, 'id' | 'name'>[]
+}
+
+/**
+ * Overlays the price history of several coins as the percent change from
+ * the start of the range
+ */
+export function CompareChart({ assets }: CompareChartProps) {
+  const { currency } = useCurrency()
+  const [days, setDays] = useState<ChartDays>(DEFAULT_CHART_DAYS)
+  const [rows, setRows] = useState<CompareRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const idsKey = assets.map((asset) => asset.id).join(',')
+
+  useEffect(() => {
+    fetchHistory()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, days, idsKey])
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const series = await Promise.all(
+        assets.map(async ({ id }) => {
+          const response = await fetch(
+            `/api/assets/${id}/chart?currency=${currency}&days=${days}`
+          )
+
+          if (!response.ok) {
+            throw new Error('Failed to fetch chart data')
+          }
+
+          const points: ChartDataPoint[] = await response.json()
+          return { id, points: toPercentChange(points) }
+        })
+      )
+      setRows(alignSeries(series))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chart')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const timeFormats = getChartTimeFormats(rows.map((row) => row.timestamp))
+  const names = new Map(assets.map((asset) => [asset.id, asset.name]))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle>Performance</CardTitle>
+        <Tabs
+          value={days}
+          onValueChange={(value) => setDays(value as ChartDays)}
+        >
+          <TabsList>
+            {CHART_RANGES.map(({ days, label }) => (
+              <TabsTrigger
+                key={days}
+                value={days}
+              >
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : error ? (
+          <ErrorState
+            message={error}
+            onRetry={fetchHistory}
+          />
+        ) : (
+          <ResponsiveContainer
+            width="100%"
+            height={300}
+          >
+            <LineChart data={rows}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                className="stroke-muted"
+              />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value: number) =>
+                  format(value, timeFormats.tick)
+                }
+                minTickGap={32}
+                className="text-xs"
+                stroke="currentColor"
+              />
+              <YAxis
+                tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                className="text-xs"
+                stroke="currentColor"
+              />
+              <Tooltip
+                formatter={(value: number, id: string) => [
+                  formatPercentage(value),
+                  names.get(id) ?? id,
+                ]}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--background))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '6px',
+                }}
+                labelFormatter={(value: number) =>
+                  format(value, timeFormats.tooltip)
+                }
+                labelStyle={{ color: 'hsl(var(--foreground))' }}
+              />
+              <Legend formatter={(id: string) => names.get(id) ?? id} />
+              {assets.map(({ id }, index) => (
+                <Line
+                  key={id}
+                  type="monotone"
+                  dataKey={id}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from 'react'
+import { MAX_COMPARE_ASSETS, parseCompareIds } from '@/lib/compare'
+
+const STORAGE_KEY = 'compare'
+
+interface CompareContextValue {
+  // Coins picked for comparison, in the order they were added
+  ids: string[]
+  // Returns false when the selection is already full
+  toggle: (id: string) => boolean
+  clear: () => void
+}
+
+// Defaults let components render outside the provider (e.g. in isolation)
+const CompareContext = createContext<CompareContextValue>({
+  ids: [],
+  toggle: () => false,
+  clear: () => {},
+})
+
+export function CompareProvider({ children }: { children: React.ReactNode }) {
+  const [ids, setIds] = useState<string[]>([])
+
+  // Restore the selection on the client only to avoid hydration mismatches
+  useEffect(() => {
+    setIds(parseCompareIds(window.localStorage.getItem(STORAGE_KEY)))
+  }, [])
+
+  const save = useCallback((next: string[]) => {
+    setIds(next)
+    window.localStorage.setItem(STORAGE_KEY, next.join(','))
+  }, [])
+
+  const toggle = useCallback(
+    (id: string) => {
+      if (ids.includes(id)) {
+        save(ids.filter((item) => item !== id))
+        return true
+      }
+      if (ids.length >= MAX_COMPARE_ASSETS) return false
+
+      save([...ids, id])
+      return true
+    },
+    [ids, save]
+  )
+
+  const clear = useCallback(() => save([]), [save])
+
+  return (
+    <CompareContext.Provider value={{ ids, toggle, clear }}>
+      {children}
+    </CompareContext.Provider>
+  )
+}
+
+export function useCompare() {
+  return useContext(CompareContext)
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import Image from 'next/image'
+import Link from 'next/link'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPercentage, formatPrice, getPercentageColor } from '@/lib/utils'
+import type { Currency } from '@/lib/currency'
+import type { AssetDetail } from '@/lib/types'
+
+interface CompareTableProps {
+  assets: AssetDetail[]
+  currency: Currency
+  onRemove: (assetId: string) => void
+}
+
+function formatSupply(value: number | null): string {
+  if (!value) return 'N/A'
+  return new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value)
+}
+
+function Change({ value }: { value: number }) {
+  return (
+    <span className={getPercentageColor(value)}>{formatPercentage(value)}</span>
+  )
+}
+
+// Metric rows, one cell per coin
+const METRICS: {
+  label: string
+  render: (asset: AssetDetail, currency: Currency) => React.ReactNode
+}[] = [
+  {
+    label: 'Price',
+    render: (asset, currency) =>
+      formatPrice(asset.current_price, false, currency),
+  },
+  {
+    label: '24h Change',
+    render: (asset) => <Change value={asset.price_change_percentage_24h} />,
+  },
+  {
+    label: '7d Change',
+    render: (asset) => <Change value={asset.price_change_percentage_7d} />,
+  },
+  {
+    label: '30d Change',
+    render: (asset) => <Change value={asset.price_change_percentage_30d} />,
+  },
+  { label: 'Rank', render: (asset) => `#${asset.market_cap_rank}` },
+  {
+    label: 'Market Cap',
+    render: (asset, currency) => formatPrice(asset.market_cap, true, currency),
+  },
+  {
+    label: '24h Volume',
+    render: (asset, currency) =>
+      formatPrice(asset.total_volume, true, currency),
+  },
+  {
+    label: '24h High / Low',
+    render: (asset, currency) =>
+      `${formatPrice(asset.high_24h, false, currency)} / ${formatPrice(asset.low_24h, false, currency)}`,
+  },
+  {
+    label: 'Circulating Supply',
+    render: (asset) => formatSupply(asset.circulating_supply),
+  },
+  {
+    label: 'Total Supply',
+    render: (asset) => formatSupply(asset.total_supply),
+  },
+  { label: 'Max Supply', render: (asset) => formatSupply(asset.max_supply) },
+  {
+    label: 'All-Time High',
+    render: (asset, currency) => formatPrice(asset.ath, false, currency),
+  },
+  {
+    label: 'From ATH',
+    render: (asset) => <Change value={asset.ath_change_percentage} />,
+  },
+  {
+    label: 'All-Time Low',
+    render: (asset, currency) => formatPrice(asset.atl, false, currency),
+  },
+]
+
+/**
+ * AssetDetail metrics of several coins in aligned columns
+ */
+export function CompareTable({
+  assets,
+  currency,
+  onRemove,
+}: CompareTableProps) {
+  return (
+    <Card>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              {assets.map((asset) => (
+                <TableHead
+                  key={asset.id}
+                  className="text-right"
+                >
+                  <div className="flex items-center justify-end gap-2">
+                    <Link
+                      href={`/assets/${asset.id}`}
+                      className="flex items-center gap-2 font-medium hover:underline"
+                    >
+                      <div className="relative h-6 w-6 flex-shrink-0">
+                        <Image
+                          src={asset.image}
+                          alt={asset.name}
+                          fill
+                          className="rounded-full object-cover"
+                          sizes="24px"
+                        />
+                      </div>
+                      {asset.name}
+                    </Link>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label={`Remove ${asset.name} from compare`}
+                      onClick={() => onRemove(asset.id)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {METRICS.map(({ label, render }) => (
+              <TableRow key={label}>
+                <TableCell className="font-medium text-muted-foreground">
+                  {label}
+                </TableCell>
+                {assets.map((asset) => (
+                  <TableCell
+                    key={asset.id}
+                    className="text-right"
+                  >
+                    {render(asset, currency)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from 'react'
+import { DEFAULT_CURRENCY, parseCurrency, type Currency } from '@/lib/currency'
+
+const STORAGE_KEY = 'currency'
+
+interface CurrencyContextValue {
+  currency: Currency
+  setCurrency: (currency: Currency) => void
+}
+
+// Defaults let components render outside the provider (e.g. in isolation)
+const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: DEFAULT_CURRENCY,
+  setCurrency: () => {},
+})
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<Currency>(DEFAULT_CURRENCY)
+
+  // Restore the saved currency on the client only to avoid hydration mismatches
+  useEffect(() => {
+    const saved = window.localStorage.getItem(STORAGE_KEY)
+    if (saved) setCurrencyState(parseCurrency(saved))
+  }, [])
+
+  const setCurrency = useCallback((value: Currency) => {
+    setCurrencyState(value)
+    window.localStorage.setItem(STORAGE_KEY, value)
+  }, [])
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency }}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+export function useCurrency() {
+  return useContext(CurrencyContext)
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from '@/components/ui/select'
+import { useCurrency } from '@/components/currency-provider'
+import { SUPPORTED_CURRENCIES, type Currency } from '@/lib/currency'
+
+export function CurrencySelect() {
+  const { currency, setCurrency } = useCurrency()
+
+  return (
+    <Select
+      value={currency}
+      onValueChange={(value) => setCurrency(value as Currency)}
+    >
+      <SelectTrigger
+        size="sm"
+        aria-label="Currency"
+        className="w-[90px]"
+      >
+        <SelectValue placeholder="Currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CURRENCIES.map(({ code, label }) => (
+          <SelectItem
+            key={code}
+            value={code}
+            title={label}
+          >
+            {code.toUpperCase()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { ArrowDown, ArrowUp, GripVertical, Pin, PinOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { pinnedFirst } from '@/lib/favorites'
+import type { CryptoAsset } from '@/lib/types'
+
+interface FavoritesReorderListProps {
+  // Favorites in their current order
+  assets: CryptoAsset[]
+  pinnedIds: string[]
+  onTogglePin: (assetId: string) => void
+  onSave: (assetIds: string[]) => void
+  onCancel: () => void
+  saving?: boolean
+}
+
+/**
+ * Reorders favorites by dragging them, or with the arrow buttons from the
+ * keyboard. Pinned favorites stay above the others.
+ */
+export function FavoritesReorderList({
+  assets,
+  pinnedIds,
+  onTogglePin,
+  onSave,
+  onCancel,
+  saving = false,
+}: FavoritesReorderListProps) {
+  const [order, setOrder] = useState(() => assets.map((asset) => asset.id))
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+
+  const isPinned = (id: string) => pinnedIds.includes(id)
+  // Pinning while reordering moves the coin between the groups
+  const ids = pinnedFirst(order, isPinned)
+
+  // Moves `id` to the place of `targetId`, within its own group only
+  const moveTo = (id: string, targetId: string) => {
+    if (id === targetId || isPinned(id) !== isPinned(targetId)) return
+
+    const next = ids.filter((item) => item !== id)
+    next.splice(ids.indexOf(targetId), 0, id)
+    setOrder(next)
+  }
+
+  const moveBy = (id: string, offset: number) => {
+    const targetId = ids[ids.indexOf(id) + offset]
+    if (targetId) moveTo(id, targetId)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Drag coins to reorder them. Pinned coins always come first.
+      </p>
+
+      <ol className="space-y-2">
+        {ids.map((id, index) => {
+          const asset = assets.find((item) => item.id === id)
+          if (!asset) return null
+          const pinned = isPinned(id)
+
+          return (
+            <li
+              key={id}
+              draggable
+              data-testid={`reorder-item-${id}`}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                setDraggedId(id)
+              }}
+              onDragOver={(e) => {
+                e.preventDefault()
+                if (draggedId) moveTo(draggedId, id)
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={() => setDraggedId(null)}
+              className={draggedId === id ? 'opacity-50' : undefined}
+            >
+              <Card className="py-0">
+                <CardContent className="flex items-center gap-3 p-3">
+                  <GripVertical className="h-4 w-4 flex-shrink-0 cursor-grab text-muted-foreground" />
+                  <div className="relative h-8 w-8 flex-shrink-0">
+                    <Image
+                      src={asset.image}
+                      alt={asset.name}
+                      fill
+                      className="rounded-full object-cover"
+                      sizes="32px"
+                    />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{asset.name}</p>
+                    <p className="text-sm uppercase text-muted-foreground">
+                      {asset.symbol}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`${pinned ? 'Unpin' : 'Pin'} ${asset.name}`}
+                    aria-pressed={pinned}
+                    onClick={() => onTogglePin(id)}
+                  >
+                    {pinned ? (
+                      <PinOff className="h-4 w-4" />
+                    ) : (
+                      <Pin className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Move ${asset.name} up`}
+                    disabled={
+                      index === 0 || isPinned(ids[index - 1]!) !== pinned
+                    }
+                    onClick={() => moveBy(id, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Move ${asset.name} down`}
+                    disabled={
+                      index === ids.length - 1 ||
+                      isPinned(ids[index + 1]!) !== pinned
+                    }
+                    onClick={() => moveBy(id, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            </li>
+          )
+        })}
+      </ol>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() => onSave(ids)}
+          disabled={saving}
+        >
+          Save order
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          disabled={saving}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { MAX_FAVORITES } from '@/lib/favorites'
+import {
+  detectTransferFormat,
+  type TransferFormat,
+} from '@/lib/favorites-transfer'
+import type { FavoritesImportReport } from '@/lib/types'
+
+export function FavoritesExportMenu() {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a
+            href="/api/favorites/export?format=json"
+            download
+          >
+            Export as JSON
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a
+            href="/api/favorites/export?format=csv"
+            download
+          >
+            Export as CSV
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+interface ImportFile {
+  name: string
+  format: TransferFormat
+  content: string
+}
+
+function ReportSection({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null
+
+  return (
+    <div>
+      <p className="text-sm font-medium">
+        {title} ({items.length})
+      </p>
+      <p className="text-sm text-muted-foreground break-words">
+        {items.join(', ')}
+      </p>
+    </div>
+  )
+}
+
+interface FavoritesImportDialogProps {
+  // Called after favorites were added
+  onImported: () => void
+}
+
+/**
+ * Imports favorites from a JSON or CSV file. The file is checked first
+ * and nothing is written until the preview is confirmed.
+ */
+export function FavoritesImportDialog({
+  onImported,
+}: FavoritesImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [report, setReport] = useState<FavoritesImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const reset = () => {
+    setFile(null)
+    setReport(null)
+    setError(null)
+  }
+
+  const runImport = async (importFile: ImportFile, dryRun: boolean) => {
+    const response = await fetch('/api/favorites/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        format: importFile.format,
+        content: importFile.content,
+        dry_run: dryRun,
+      }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error?.message ?? 'Failed to import favorites')
+    }
+
+    return data.report as FavoritesImportReport
+  }
+
+  const selectFile = async (selected: File | undefined) => {
+    reset()
+    if (!selected) return
+
+    setBusy(true)
+    try {
+      const content = await selected.text()
+      const importFile = {
+        name: selected.name,
+        format: detectTransferFormat(selected.name, content),
+        content,
+      }
+      setFile(importFile)
+      setReport(await runImport(importFile, true))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const confirm = async () => {
+    if (!file) return
+
+    setBusy(true)
+    try {
+      const result = await runImport(file, false)
+      toast.success(
+        `Imported ${result.added.length} favorite${result.added.length !== 1 ? 's' : ''}`
+      )
+      setOpen(false)
+      reset()
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) reset()
+        setOpen(nextOpen)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import favorites</DialogTitle>
+          <DialogDescription>
+            Pick a JSON or CSV export. You can review the coins before they are
+            added.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="favorites-import-file">File</Label>
+          <Input
+            id="favorites-import-file"
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            disabled={busy}
+            onChange={(e) => selectFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {error && (
+          <p
+            role="alert"
+            className="text-sm text-destructive"
+          >
+            {error}
+          </p>
+        )}
+
+        {report && (
+          <div
+            className="space-y-3"
+            data-testid="import-preview"
+          >
+            <ReportSection
+              title="To add"
+              items={report.added}
+            />
+            <ReportSection
+              title="Already in favorites"
+              items={report.existing}
+            />
+            <ReportSection
+              title="Listed more than once"
+              items={report.duplicates}
+            />
+            <ReportSection
+              title="Unknown coins"
+              items={report.unknown}
+            />
+            <ReportSection
+              title={`Over the ${MAX_FAVORITES} favorites limit`}
+              items={report.over_limit}
+            />
+            <ReportSection
+              title="Unreadable rows"
+              items={report.invalid.map(
+                ({ row, message }) => `row ${row}: ${message}`
+              )}
+            />
+            {report.added.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Nothing new to import.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={confirm}
+            disabled={busy || !report || report.added.length === 0}
+          >
+            {report && report.added.length > 0
+              ? `Import ${report.added.length} favorite${report.added.length !== 1 ? 's' : ''}`
+              : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
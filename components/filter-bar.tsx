@@ -8,20 +8,41 @@ import {
   SelectItem,
 } from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
+import type { MarketOrder, MarketTrend } from '@/lib/market-query'
+import type { MarketCategory } from '@/lib/types'
 
 export type SortOption =
   | 'default'
+  | 'market-cap-asc'
+  | 'volume-desc'
+  | 'volume-asc'
   | 'price-asc'
   | 'price-desc'
   | 'change-asc'
   | 'change-desc'
-export type FilterOption = 'all' | 'gainers' | 'losers'
+export type FilterOption = MarketTrend
+
+// `order` parameter of /api/assets for each sort option
+export const SORT_ORDERS: Record<SortOption, MarketOrder> = {
+  default: 'market_cap_desc',
+  'market-cap-asc': 'market_cap_asc',
+  'volume-desc': 'volume_desc',
+  'volume-asc': 'volume_asc',
+  'price-asc': 'price_asc',
+  'price-desc': 'price_desc',
+  'change-asc': 'change_asc',
+  'change-desc': 'change_desc',
+}
 
 interface FilterBarProps {
   sortBy: SortOption
   onSortChange: (value: SortOption) => void
   filter: FilterOption
   onFilterChange: (value: FilterOption) => void
+  // Category select, shown once categories are available; 'all' for none
+  category?: string
+  categories?: MarketCategory[]
+  onCategoryChange?: (value: string) => void
 }
 
 export function FilterBar({
@@ -29,6 +50,9 @@ export function FilterBar({
   onSortChange,
   filter,
   onFilterChange,
+  category = 'all',
+  categories = [],
+  onCategoryChange,
 }: FilterBarProps) {
   return (
     <div className="flex flex-col sm:flex-row gap-4">
@@ -49,6 +73,11 @@ export function FilterBar({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="default">Market Cap (Default)</SelectItem>
+            <SelectItem value="market-cap-asc">
+              Market Cap: Low to High
+            </SelectItem>
+            <SelectItem value="volume-desc">Volume: High to Low</SelectItem>
+            <SelectItem value="volume-asc">Volume: Low to High</SelectItem>
             <SelectItem value="price-asc">Price: Low to High</SelectItem>
             <SelectItem value="price-desc">Price: High to Low</SelectItem>
             <SelectItem value="change-asc">24h Change: Low to High</SelectItem>
@@ -79,6 +108,37 @@ export function FilterBar({
           </SelectContent>
         </Select>
       </div>
+
+      {/* Category Select */}
+      {onCategoryChange && categories.length > 0 && (
+        <div className="flex-1">
+          <Label
+            htmlFor="category"
+            className="text-sm font-medium mb-2 block"
+          >
+            Category
+          </Label>
+          <Select
+            value={category}
+            onValueChange={onCategoryChange}
+          >
+            <SelectTrigger id="category">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map(({ id, name }) => (
+                <SelectItem
+                  key={id}
+                  value={id}
+                >
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
     </div>
   )
 }
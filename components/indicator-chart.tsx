@@ -0,0 +1,269 @@
+'use client'
+
+import { format } from 'date-fns'
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts'
+import {
+  PriceLineChart,
+  type PriceChartOverlay,
+} from '@/components/price-line-chart'
+import { getChartTimeFormats } from '@/lib/chart-range'
+import {
+  getIndicatorSettingsError,
+  withIndicators,
+  type IndicatorId,
+  type IndicatorPoint,
+  type IndicatorSettings,
+} from '@/lib/indicators'
+import type { Currency } from '@/lib/currency'
+import type { ChartDataPoint } from '@/lib/types'
+
+// Keeps the cursor of the price and oscillator panes on the same point
+const SYNC_ID = 'price-indicators'
+
+const SMA_COLOR = '#3b82f6'
+const EMA_COLOR = '#f59e0b'
+const BOLLINGER_COLOR = '#8b5cf6'
+const RSI_COLOR = '#8b5cf6'
+const MACD_COLOR = '#3b82f6'
+const SIGNAL_COLOR = '#f97316'
+const UP_COLOR = '#22c55e'
+const DOWN_COLOR = '#ef4444'
+
+function getOverlays(
+  enabled: IndicatorId[],
+  settings: IndicatorSettings
+): PriceChartOverlay[] {
+  const overlays: PriceChartOverlay[] = []
+
+  if (enabled.includes('sma')) {
+    overlays.push({
+      dataKey: 'sma',
+      name: `SMA (${settings.sma.period})`,
+      color: SMA_COLOR,
+    })
+  }
+  if (enabled.includes('ema')) {
+    overlays.push({
+      dataKey: 'ema',
+      name: `EMA (${settings.ema.period})`,
+      color: EMA_COLOR,
+    })
+  }
+  if (enabled.includes('bollinger')) {
+    const { period, deviations } = settings.bollinger
+    const suffix = `(${period}, ${deviations})`
+    overlays.push(
+      {
+        dataKey: 'bollingerUpper',
+        name: `Upper Band ${suffix}`,
+        color: BOLLINGER_COLOR,
+      },
+      {
+        dataKey: 'bollingerMiddle',
+        name: `Middle Band ${suffix}`,
+        color: BOLLINGER_COLOR,
+        dashed: true,
+      },
+      {
+        dataKey: 'bollingerLower',
+        name: `Lower Band ${suffix}`,
+        color: BOLLINGER_COLOR,
+      }
+    )
+  }
+
+  return overlays
+}
+
+interface OscillatorPaneProps {
+  data: IndicatorPoint[]
+  title: string
+  children: React.ReactNode
+}
+
+function OscillatorPane({ data, title, children }: OscillatorPaneProps) {
+  const timeFormats = getChartTimeFormats(data.map((point) => point.timestamp))
+
+  return (
+    <section
+      aria-label={title}
+      className="mt-4"
+    >
+      <h3 className="mb-1 text-xs font-medium text-muted-foreground">
+        {title}
+      </h3>
+      <ResponsiveContainer
+        width="100%"
+        height={120}
+      >
+        <ComposedChart
+          data={data}
+          syncId={SYNC_ID}
+        >
+          <CartesianGrid
+            strokeDasharray="3 3"
+            className="stroke-muted"
+          />
+          {/* Same domain as the price pane so the points line up */}
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            hide
+          />
+          <Tooltip
+            formatter={(value: number, name: string) => [
+              value.toFixed(2),
+              name,
+            ]}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--background))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '6px',
+            }}
+            labelFormatter={(value: number) =>
+              format(value, timeFormats.tooltip)
+            }
+            labelStyle={{ color: 'hsl(var(--foreground))' }}
+          />
+          {children}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </section>
+  )
+}
+
+interface IndicatorChartProps {
+  data: ChartDataPoint[]
+  currency: Currency
+  enabled: IndicatorId[]
+  settings: IndicatorSettings
+}
+
+/**
+ * Line chart with moving averages and bands over the price, plus a pane
+ * below it for each enabled oscillator
+ */
+export function IndicatorChart({
+  data,
+  currency,
+  enabled,
+  settings,
+}: IndicatorChartProps) {
+  const points = withIndicators(data, enabled, settings)
+  const { rsi, macd } = settings
+  const macdError = getIndicatorSettingsError('macd', macd)
+
+  return (
+    <div>
+      <PriceLineChart
+        data={points}
+        currency={currency}
+        overlays={getOverlays(enabled, settings)}
+        syncId={SYNC_ID}
+      />
+
+      {enabled.includes('rsi') && (
+        <OscillatorPane
+          data={points}
+          title={`RSI (${rsi.period})`}
+        >
+          <YAxis
+            domain={[0, 100]}
+            ticks={[30, 70]}
+            className="text-xs"
+            stroke="currentColor"
+          />
+          {/* Conventional overbought and oversold levels */}
+          <ReferenceLine
+            y={70}
+            stroke={DOWN_COLOR}
+            strokeDasharray="3 3"
+          />
+          <ReferenceLine
+            y={30}
+            stroke={UP_COLOR}
+            strokeDasharray="3 3"
+          />
+          <Line
+            type="monotone"
+            dataKey="rsi"
+            name="RSI"
+            stroke={RSI_COLOR}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </OscillatorPane>
+      )}
+
+      {enabled.includes('macd') && macdError && (
+        <p
+          role="status"
+          className="mt-4 text-sm text-muted-foreground"
+        >
+          MACD hidden: {macdError}
+        </p>
+      )}
+
+      {enabled.includes('macd') && !macdError && (
+        <OscillatorPane
+          data={points}
+          title={`MACD (${macd.fast}, ${macd.slow}, ${macd.signal})`}
+        >
+          <YAxis
+            className="text-xs"
+            stroke="currentColor"
+            tickFormatter={(value: number) => value.toFixed(2)}
+          />
+          <ReferenceLine
+            y={0}
+            stroke="currentColor"
+          />
+          <Bar
+            dataKey="macdHistogram"
+            name="Histogram"
+            isAnimationActive={false}
+          >
+            {points.map((point) => (
+              <Cell
+                key={point.timestamp}
+                fill={(point.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR}
+              />
+            ))}
+          </Bar>
+          <Line
+            type="monotone"
+            dataKey="macd"
+            name="MACD"
+            stroke={MACD_COLOR}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="macdSignal"
+            name="Signal"
+            stroke={SIGNAL_COLOR}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </OscillatorPane>
+      )}
+    </div>
+  )
+}
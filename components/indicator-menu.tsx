@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { Activity } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  INDICATORS,
+  INDICATOR_IDS,
+  getIndicatorSettingsError,
+  isValidIndicatorParam,
+  type IndicatorId,
+  type IndicatorParam,
+  type IndicatorSettings,
+} from '@/lib/indicators'
+
+interface ParamInputProps {
+  id: string
+  param: IndicatorParam
+  value: number
+  onChange: (value: number) => void
+}
+
+function ParamInput({ id, param, value, onChange }: ParamInputProps) {
+  // Keep what is typed so a half-entered number is not snapped back
+  const [draft, setDraft] = useState(String(value))
+  const valid = isValidIndicatorParam(param, Number(draft))
+
+  return (
+    <div className="flex items-center gap-2">
+      <Label
+        htmlFor={id}
+        className="w-16 text-xs text-muted-foreground"
+      >
+        {param.label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={param.min}
+        max={param.max}
+        step={param.step}
+        value={draft}
+        aria-invalid={!valid}
+        className="h-8 w-20"
+        onChange={(event) => {
+          setDraft(event.target.value)
+          const next = Number(event.target.value)
+          if (event.target.value && isValidIndicatorParam(param, next)) {
+            onChange(next)
+          }
+        }}
+      />
+    </div>
+  )
+}
+
+interface IndicatorMenuProps {
+  enabled: IndicatorId[]
+  settings: IndicatorSettings
+  onToggle: (id: IndicatorId, enabled: boolean) => void
+  onSettingChange: (id: IndicatorId, key: string, value: number) => void
+  disabled?: boolean
+}
+
+export function IndicatorMenu({
+  enabled,
+  settings,
+  onToggle,
+  onSettingChange,
+  disabled = false,
+}: IndicatorMenuProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={enabled.length > 0 ? 'default' : 'outline'}
+          size="sm"
+          disabled={disabled}
+        >
+          <Activity className="h-4 w-4" />
+          Indicators
+          {enabled.length > 0 && ` (${enabled.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-64"
+        align="end"
+      >
+        <div className="space-y-4">
+          {INDICATOR_IDS.map((id) => {
+            const definition = INDICATORS[id]
+            const values: Record<string, number> = { ...settings[id] }
+            const checked = enabled.includes(id)
+            const settingsError = checked
+              ? getIndicatorSettingsError(id, settings[id])
+              : null
+
+            return (
+              <div
+                key={id}
+                className="space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`indicator-${id}`}
+                    checked={checked}
+                    onCheckedChange={(value) => onToggle(id, value === true)}
+                  />
+                  <Label htmlFor={`indicator-${id}`}>{definition.label}</Label>
+                </div>
+                {checked &&
+                  Object.entries(
+                    definition.params as Record<string, IndicatorParam>
+                  ).map(([key, param]) => (
+                    <ParamInput
+                      key={key}
+                      id={`indicator-${id}-${key}`}
+                      param={param}
+                      value={values[key] ?? param.min}
+                      onChange={(value) => onSettingChange(id, key, value)}
+                    />
+                  ))}
+                {settingsError && (
+                  <p
+                    role="alert"
+                    className="text-xs text-destructive"
+                  >
+                    {settingsError}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
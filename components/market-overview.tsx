@@ -0,0 +1,43 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCurrency } from '@/components/currency-provider'
+import { useGlobalMarket } from '@/hooks/use-global-market'
+import { getMarketStats } from '@/lib/global-market'
+import { formatPercentage, getPercentageColor } from '@/lib/utils'
+
+/**
+ * Overall market figures at the top of the explorer. The coin list still
+ * works without them, so failures only hide the card.
+ */
+export function MarketOverview() {
+  const { currency } = useCurrency()
+  const { data, loading } = useGlobalMarket(currency)
+
+  if (loading && !data) {
+    return <Skeleton className="mb-8 h-24 w-full" />
+  }
+
+  if (!data) return null
+
+  return (
+    <Card className="mb-8 py-0">
+      <CardContent className="p-4 sm:p-6">
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+          {getMarketStats(data, currency).map(({ label, value, change }) => (
+            <div key={label}>
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="text-xl font-bold">{value}</dd>
+              {change !== undefined && (
+                <dd className={`text-sm ${getPercentageColor(change)}`}>
+                  {formatPercentage(change)} 24h
+                </dd>
+              )}
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  )
+}
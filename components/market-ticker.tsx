@@ -0,0 +1,43 @@
+'use client'
+
+import { useCurrency } from '@/components/currency-provider'
+import { useGlobalMarket } from '@/hooks/use-global-market'
+import { getMarketStats } from '@/lib/global-market'
+import { formatPercentage, getPercentageColor } from '@/lib/utils'
+
+/**
+ * One-line strip of overall market figures, hidden until they load
+ */
+export function MarketTicker() {
+  const { currency } = useCurrency()
+  const { data } = useGlobalMarket(currency)
+
+  if (!data) return null
+
+  return (
+    <div
+      role="region"
+      aria-label="Market overview"
+      className="border-t"
+    >
+      <dl className="flex items-center gap-6 overflow-x-auto whitespace-nowrap px-4 py-1.5 text-xs">
+        {getMarketStats(data, currency).map(({ label, value, change }) => (
+          <div
+            key={label}
+            className="flex items-center gap-1.5"
+          >
+            <dt className="text-muted-foreground">{label}:</dt>
+            <dd className="font-medium">
+              {value}
+              {change !== undefined && (
+                <span className={`ml-1 ${getPercentageColor(change)}`}>
+                  {formatPercentage(change)}
+                </span>
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
@@ -3,6 +3,9 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { ThemeToggle } from './theme-toggle'
+import { CurrencySelect } from './currency-select'
+import { AuthMenu } from './auth-menu'
+import { MarketTicker } from './market-ticker'
 import { Coins } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -45,12 +48,30 @@ export function NavHeader() {
             >
               Favorites
             </Link>
+            <Link
+              href="/portfolio"
+              className={cn(
+                'transition-colors hover:text-foreground/80',
+                pathname === '/portfolio'
+                  ? 'text-foreground'
+                  : 'text-foreground/60'
+              )}
+            >
+              Portfolio
+            </Link>
           </nav>
         </div>
 
-        {/* Right side: Theme Toggle */}
-        <ThemeToggle />
+        {/* Right side: Currency, Theme Toggle and Account */}
+        <div className="flex items-center gap-2">
+          <CurrencySelect />
+          <ThemeToggle />
+          <AuthMenu />
+        </div>
       </div>
+
+      {/* Overall market figures */}
+      <MarketTicker />
     </header>
   )
 }
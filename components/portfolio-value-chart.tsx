@@ -0,0 +1,96 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ErrorState } from '@/components/error-state'
+import { PriceLineChart } from '@/components/price-line-chart'
+import { useCurrency } from '@/components/currency-provider'
+import {
+  CHART_RANGES,
+  DEFAULT_CHART_DAYS,
+  type ChartDays,
+} from '@/lib/chart-range'
+import type { ChartDataPoint } from '@/lib/types'
+
+interface PortfolioValueChartProps {
+  // Changes whenever transactions are added or removed
+  version: number
+}
+
+export function PortfolioValueChart({ version }: PortfolioValueChartProps) {
+  const { currency } = useCurrency()
+  const [days, setDays] = useState<ChartDays>(DEFAULT_CHART_DAYS)
+  const [data, setData] = useState<ChartDataPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchHistory()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, days, version])
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(
+        `/api/portfolio/history?currency=${currency}&days=${days}`
+      )
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch portfolio history')
+      }
+
+      setData(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chart')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle>Portfolio Value</CardTitle>
+        <Tabs
+          value={days}
+          onValueChange={(value) => setDays(value as ChartDays)}
+        >
+          <TabsList>
+            {CHART_RANGES.map(({ days, label }) => (
+              <TabsTrigger
+                key={days}
+                value={days}
+              >
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : error ? (
+          <ErrorState
+            message={error}
+            onRetry={fetchHistory}
+          />
+        ) : data.length === 0 ? (
+          <p className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
+            Record a transaction to chart your portfolio value.
+          </p>
+        ) : (
+          <PriceLineChart
+            data={data}
+            currency={currency}
+            label="Value"
+          />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
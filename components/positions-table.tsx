@@ -0,0 +1,101 @@
+'use client'
+
+import Image from 'next/image'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPercentage, formatPrice, getPercentageColor } from '@/lib/utils'
+import type { Currency } from '@/lib/currency'
+import type { Position } from '@/lib/types'
+
+interface PositionsTableProps {
+  positions: Position[]
+  currency: Currency
+}
+
+export function PositionsTable({ positions, currency }: PositionsTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Positions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {positions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open positions.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Asset</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Avg. Cost</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead className="text-right">Unrealized P&L</TableHead>
+                <TableHead className="text-right">Realized P&L</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {positions.map((position) => (
+                <TableRow key={position.asset_id}>
+                  <TableCell>
+                    <Link
+                      href={`/assets/${position.asset_id}`}
+                      className="flex items-center gap-2 font-medium hover:underline"
+                    >
+                      <div className="relative h-6 w-6 flex-shrink-0">
+                        <Image
+                          src={position.image}
+                          alt={position.name}
+                          fill
+                          className="rounded-full object-cover"
+                          sizes="24px"
+                        />
+                      </div>
+                      {position.name}
+                      <span className="text-xs uppercase text-muted-foreground">
+                        {position.symbol}
+                      </span>
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {position.quantity.toLocaleString('en-US', {
+                      maximumFractionDigits: 8,
+                    })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(position.average_cost, false, currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(position.current_price, false, currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(position.value, false, currency)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${getPercentageColor(position.unrealized_pnl)}`}
+                  >
+                    {formatPrice(position.unrealized_pnl, false, currency)} (
+                    {formatPercentage(position.unrealized_pnl_percentage)})
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${getPercentageColor(position.realized_pnl)}`}
+                  >
+                    {formatPrice(position.realized_pnl, false, currency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { Bell, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCurrency } from '@/components/currency-provider'
+import {
+  ALERT_CONDITIONS,
+  alertConditionSchema,
+  describeAlert,
+} from '@/lib/alerts'
+import { formatPrice } from '@/lib/utils'
+import type {
+  AlertsResponse,
+  EvaluateAlertsResponse,
+  PriceAlert,
+} from '@/lib/types'
+
+// The target input is text, converted to a number on submit
+const alertFormSchema = z.object({
+  condition: alertConditionSchema,
+  target: z
+    .string()
+    .trim()
+    .refine((value) => Number(value) > 0, 'Target must be a positive number'),
+})
+
+type AlertFormValues = z.infer<typeof alertFormSchema>
+
+interface PriceAlertsProps {
+  assetId: string
+}
+
+export function PriceAlerts({ assetId }: PriceAlertsProps) {
+  const { currency } = useCurrency()
+  const [alerts, setAlerts] = useState<PriceAlert[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const form = useForm<AlertFormValues>({
+    resolver: zodResolver(alertFormSchema),
+    defaultValues: { condition: 'above', target: '' },
+  })
+
+  useEffect(() => {
+    loadAlerts()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assetId])
+
+  const loadAlerts = async () => {
+    try {
+      setLoading(true)
+
+      // Fire alerts whose condition was met since they were last checked
+      const evaluation = await fetch('/api/alerts/evaluate', { method: 'POST' })
+      if (evaluation.ok) {
+        const { triggered }: EvaluateAlertsResponse = await evaluation.json()
+        triggered.forEach((event) => {
+          toast.info(
+            `Alert triggered for ${event.asset_id}: ${describeAlert(event)}`
+          )
+        })
+      }
+
+      const response = await fetch(`/api/alerts?asset_id=${assetId}`)
+      // Visitors simply have no alerts yet
+      if (response.status === 401) return
+      if (!response.ok) throw new Error('Failed to fetch alerts')
+
+      const data: AlertsResponse = await response.json()
+      setAlerts(data.alerts)
+    } catch (err) {
+      console.error('Failed to load alerts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createAlert = async ({ condition, target }: AlertFormValues) => {
+    try {
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          asset_id: assetId,
+          condition,
+          target: Number(target),
+          currency,
+        }),
+      })
+
+      if (response.status === 401) {
+        toast.error('Sign in to create alerts')
+        return
+      }
+      if (!response.ok) throw new Error('Failed to create alert')
+
+      const { alert }: { alert: PriceAlert } = await response.json()
+      setAlerts((prev) => [alert, ...prev])
+      form.reset({ condition, target: '' })
+      toast.success('Alert created')
+    } catch (err) {
+      toast.error('Failed to create alert')
+      console.error(err)
+    }
+  }
+
+  const deleteAlert = async (id: string) => {
+    try {
+      const response = await fetch(`/api/alerts?id=${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) throw new Error('Failed to remove alert')
+
+      setAlerts((prev) => prev.filter((alert) => alert.id !== id))
+      toast.success('Alert removed')
+    } catch (err) {
+      toast.error('Failed to remove alert')
+      console.error(err)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Price Alerts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(createAlert)}
+            className="flex flex-col sm:flex-row sm:items-end gap-4"
+          >
+            <FormField
+              control={form.control}
+              name="condition"
+              render={({ field }) => (
+                <FormItem className="sm:w-56">
+                  <FormLabel>Condition</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ALERT_CONDITIONS.map(({ value, label }) => (
+                        <SelectItem
+                          key={value}
+                          value={value}
+                        >
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="target"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Target ({currency.toUpperCase()} or %)</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="e.g. 50000 or 5"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              disabled={form.formState.isSubmitting}
+            >
+              Add Alert
+            </Button>
+          </form>
+        </Form>
+
+        {!loading && alerts.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No alerts for this asset yet.
+          </p>
+        )}
+
+        {alerts.length > 0 && (
+          <ul className="divide-y">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">{describeAlert(alert)}</p>
+                  {alert.triggered_at && alert.triggered_price !== null && (
+                    <p className="text-sm text-muted-foreground">
+                      Triggered at{' '}
+                      {formatPrice(
+                        alert.triggered_price,
+                        false,
+                        alert.currency
+                      )}{' '}
+                      on {format(alert.triggered_at, 'MMM d, yyyy HH:mm')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={alert.active ? 'secondary' : 'default'}>
+                    {alert.active ? 'Active' : 'Triggered'}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete alert"
+                    onClick={() => deleteAlert(alert.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
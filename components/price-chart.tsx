@@ -1,52 +1,210 @@
 'use client'
 
 import { memo, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import type { DateRange } from 'react-day-picker'
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-  CartesianGrid,
-} from 'recharts'
+  CalendarIcon,
+  CandlestickChart as CandlesIcon,
+  LineChart as LineIcon,
+} from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { formatPrice } from '@/lib/utils'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ErrorState } from '@/components/error-state'
-
-interface ChartDataPoint {
-  timestamp: number
-  price: number
-}
+import { useCurrency } from '@/components/currency-provider'
+import { CandlestickChart } from '@/components/candlestick-chart'
+import { IndicatorChart } from '@/components/indicator-chart'
+import { IndicatorMenu } from '@/components/indicator-menu'
+import {
+  CHART_RANGES,
+  DEFAULT_CHART_DAYS,
+  type ChartDays,
+} from '@/lib/chart-range'
+import {
+  DEFAULT_INDICATOR_SETTINGS,
+  INDICATOR_IDS,
+  type IndicatorId,
+  type IndicatorSettings,
+} from '@/lib/indicators'
+import type { ChartDataPoint, OhlcDataPoint } from '@/lib/types'
 
 interface PriceChartProps {
   assetId: string
   assetName: string
 }
 
+// Either a preset range or a custom pair of calendar days
+type RangeSelection = { days: ChartDays } | { from: Date; to: Date }
+
+type ChartType = 'line' | 'candles'
+
+function getRangeQuery(range: RangeSelection): string {
+  return 'days' in range
+    ? `days=${range.days}`
+    : `from=${format(range.from, 'yyyy-MM-dd')}&to=${format(range.to, 'yyyy-MM-dd')}`
+}
+
+function getRangeTitle(range: RangeSelection): string {
+  if ('days' in range) {
+    const preset = CHART_RANGES.find((item) => item.days === range.days)
+    return `${preset?.title ?? ''} Price Chart`
+  }
+  return `${format(range.from, 'MMM d, yyyy')} - ${format(range.to, 'MMM d, yyyy')} Price Chart`
+}
+
+interface RangeControlsProps {
+  range: RangeSelection
+  onRangeChange: (range: RangeSelection) => void
+  chartType: ChartType
+  onChartTypeChange: (chartType: ChartType) => void
+}
+
+function RangeControls({
+  range,
+  onRangeChange,
+  chartType,
+  onChartTypeChange,
+}: RangeControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<DateRange | undefined>(
+    'days' in range ? undefined : range
+  )
+
+  const handleSelect = (selected: DateRange | undefined) => {
+    setDraft(selected)
+
+    // Apply once both ends are picked
+    if (selected?.from && selected.to && selected.from < selected.to) {
+      onRangeChange({ from: selected.from, to: selected.to })
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={chartType}
+        onValueChange={(value) => {
+          // Ignore deselecting the active item
+          if (value) onChartTypeChange(value as ChartType)
+        }}
+      >
+        <ToggleGroupItem
+          value="line"
+          aria-label="Line chart"
+        >
+          <LineIcon className="h-4 w-4" />
+        </ToggleGroupItem>
+        {/* CoinGecko only serves OHLC data for preset ranges */}
+        <ToggleGroupItem
+          value="candles"
+          aria-label="Candlestick chart"
+          disabled={!('days' in range)}
+        >
+          <CandlesIcon className="h-4 w-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      <Tabs
+        value={'days' in range ? range.days : ''}
+        onValueChange={(value) => onRangeChange({ days: value as ChartDays })}
+      >
+        <TabsList>
+          {CHART_RANGES.map(({ days, label }) => (
+            <TabsTrigger
+              key={days}
+              value={days}
+            >
+              {label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Popover
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            variant={'days' in range ? 'outline' : 'default'}
+            size="sm"
+          >
+            <CalendarIcon className="h-4 w-4" />
+            Custom
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-auto p-0"
+          align="end"
+        >
+          <Calendar
+            mode="range"
+            selected={draft}
+            onSelect={handleSelect}
+            disabled={{ after: new Date() }}
+            numberOfMonths={2}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
+
 function PriceChartComponent({ assetId, assetName }: PriceChartProps) {
+  const { currency } = useCurrency()
+  const [range, setRange] = useState<RangeSelection>({
+    days: DEFAULT_CHART_DAYS,
+  })
+  const [chartType, setChartType] = useState<ChartType>('line')
+  const [indicators, setIndicators] = useState<IndicatorId[]>([])
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(
+    DEFAULT_INDICATOR_SETTINGS
+  )
   const [data, setData] = useState<ChartDataPoint[]>([])
+  const [candles, setCandles] = useState<OhlcDataPoint[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const rangeQuery = getRangeQuery(range)
+  // Custom ranges fall back to the line chart
+  const showCandles = chartType === 'candles' && 'days' in range
 
   useEffect(() => {
     fetchChartData()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [assetId])
+  }, [assetId, currency, rangeQuery, showCandles])
 
   const fetchChartData = async () => {
     try {
       setLoading(true)
       setError(null)
-      const response = await fetch(`/api/assets/${assetId}/chart`)
+      const endpoint = showCandles ? 'ohlc' : 'chart'
+      const response = await fetch(
+        `/api/assets/${assetId}/${endpoint}?currency=${currency}&${rangeQuery}`
+      )
 
       if (!response.ok) {
         throw new Error('Failed to fetch chart data')
       }
 
       const chartData = await response.json()
-      setData(chartData)
+      if (showCandles) {
+        setCandles(chartData)
+      } else {
+        setData(chartData)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load chart')
     } finally {
@@ -54,11 +212,54 @@ function PriceChartComponent({ assetId, assetName }: PriceChartProps) {
     }
   }
 
+  const handleIndicatorToggle = (id: IndicatorId, enabled: boolean) => {
+    // Keep the menu order so overlays are always drawn the same way
+    setIndicators((current) =>
+      INDICATOR_IDS.filter((item) =>
+        item === id ? enabled : current.includes(item)
+      )
+    )
+  }
+
+  const handleIndicatorSettingChange = (
+    id: IndicatorId,
+    key: string,
+    value: number
+  ) => {
+    setIndicatorSettings((current) => ({
+      ...current,
+      [id]: { ...current[id], [key]: value },
+    }))
+  }
+
+  const title = getRangeTitle(range)
+  const headerClassName =
+    'flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between'
+  const controls = (
+    <div className="flex flex-wrap items-center gap-2">
+      <RangeControls
+        range={range}
+        onRangeChange={setRange}
+        chartType={chartType}
+        onChartTypeChange={setChartType}
+      />
+      {/* Indicators are computed from the line chart prices */}
+      <IndicatorMenu
+        enabled={indicators}
+        settings={indicatorSettings}
+        onToggle={handleIndicatorToggle}
+        onSettingChange={handleIndicatorSettingChange}
+        disabled={showCandles}
+      />
+    </div>
+  )
+
   if (loading) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle>7-Day Price Chart</CardTitle>
+        <CardHeader className={headerClassName}>
+          <CardTitle>{title}</CardTitle>
+          {controls}
         </CardHeader>
         <CardContent>
           <Skeleton className="h-[300px] w-full" />
@@ -70,8 +271,9 @@ function PriceChartComponent({ assetId, assetName }: PriceChartProps) {
   if (error) {
     return (
       <Card>
-        <CardHeader>
-          <CardTitle>7-Day Price Chart</CardTitle>
+        <CardHeader className={headerClassName}>
+          <CardTitle>{title}</CardTitle>
+          {controls}
         </CardHeader>
         <CardContent>
           <ErrorState
@@ -83,68 +285,36 @@ function PriceChartComponent({ assetId, assetName }: PriceChartProps) {
     )
   }
 
-  // Transform data for the chart
-  const chartData = data.map(({ timestamp, price }) => ({
-    date: new Date(timestamp).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-    }),
-    price,
-  }))
-
-  // Determine if price is up or down for coloring
-  const firstPrice = data[0]?.price
-  const lastPrice = data[data.length - 1]?.price
-  const priceChange =
-    data.length > 1 && firstPrice !== undefined && lastPrice !== undefined
-      ? lastPrice - firstPrice
-      : 0
-  const lineColor = priceChange >= 0 ? '#22c55e' : '#ef4444'
+  if (showCandles) {
+    return (
+      <Card>
+        <CardHeader className={headerClassName}>
+          <CardTitle>{`${title} - ${assetName}`}</CardTitle>
+          {controls}
+        </CardHeader>
+        <CardContent>
+          <CandlestickChart
+            data={candles}
+            currency={currency}
+          />
+        </CardContent>
+      </Card>
+    )
+  }
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>7-Day Price Chart - {assetName}</CardTitle>
+      <CardHeader className={headerClassName}>
+        <CardTitle>{`${title} - ${assetName}`}</CardTitle>
+        {controls}
       </CardHeader>
       <CardContent>
-        <ResponsiveContainer
-          width="100%"
-          height={300}
-        >
-          <LineChart data={chartData}>
-            <CartesianGrid
-              strokeDasharray="3 3"
-              className="stroke-muted"
-            />
-            <XAxis
-              dataKey="date"
-              className="text-xs"
-              stroke="currentColor"
-            />
-            <YAxis
-              tickFormatter={(value: number) => formatPrice(value, true)}
-              className="text-xs"
-              stroke="currentColor"
-            />
-            <Tooltip
-              formatter={(value: number) => [formatPrice(value), 'Price']}
-              contentStyle={{
-                backgroundColor: 'hsl(var(--background))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '6px',
-              }}
-              labelStyle={{ color: 'hsl(var(--foreground))' }}
-            />
-            <Line
-              type="monotone"
-              dataKey="price"
-              stroke={lineColor}
-              strokeWidth={2}
-              dot={false}
-              activeDot={{ r: 6 }}
-            />
-          </LineChart>
-        </ResponsiveContainer>
+        <IndicatorChart
+          data={data}
+          currency={currency}
+          enabled={indicators}
+          settings={indicatorSettings}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { CalendarIcon } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCurrency } from '@/components/currency-provider'
+import { getLatestHistoryDate } from '@/lib/chart-range'
+import type { ErrorResponse, HistoricalSnapshot } from '@/lib/types'
+import { formatPercentage, formatPrice, getPercentageColor } from '@/lib/utils'
+
+interface PriceHistoryLookupProps {
+  assetId: string
+  assetName: string
+  // Latest price in the selected currency, to compare the snapshot with
+  currentPrice: number
+}
+
+/**
+ * Looks up what a coin was worth on a chosen day and how far it has moved
+ * since then
+ */
+export function PriceHistoryLookup({
+  assetId,
+  assetName,
+  currentPrice,
+}: PriceHistoryLookupProps) {
+  const { currency } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [date, setDate] = useState<Date | undefined>()
+  const [snapshot, setSnapshot] = useState<HistoricalSnapshot | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!date) return
+
+    // Ignore answers for a day or currency that is no longer selected
+    let current = true
+
+    const loadSnapshot = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setSnapshot(null)
+        const response = await fetch(
+          `/api/assets/${assetId}/history?date=${format(date, 'yyyy-MM-dd')}&currency=${currency}`
+        )
+
+        if (response.status === 400) {
+          const { error }: ErrorResponse = await response.json()
+          throw new Error(error.message)
+        }
+        if (!response.ok) {
+          throw new Error(
+            response.status === 404
+              ? 'No market data for this date'
+              : 'Failed to fetch historical data'
+          )
+        }
+
+        const data: HistoricalSnapshot = await response.json()
+        if (current) setSnapshot(data)
+      } catch (err) {
+        if (current) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
+      } finally {
+        if (current) setLoading(false)
+      }
+    }
+
+    loadSnapshot()
+    return () => {
+      current = false
+    }
+  }, [assetId, currency, date])
+
+  const handleSelect = (day: Date | undefined) => {
+    setDate(day)
+    if (day) setOpen(false)
+  }
+
+  const change = snapshot
+    ? ((currentPrice - snapshot.price) / snapshot.price) * 100
+    : null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle>Price on a Date</CardTitle>
+        <Popover
+          open={open}
+          onOpenChange={setOpen}
+        >
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+            >
+              <CalendarIcon className="h-4 w-4" />
+              {date ? format(date, 'MMM d, yyyy') : 'Pick a date'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="w-auto p-0"
+            align="end"
+          >
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={handleSelect}
+              // The server takes days up to today in UTC
+              disabled={{ after: getLatestHistoryDate() }}
+            />
+          </PopoverContent>
+        </Popover>
+      </CardHeader>
+      <CardContent>
+        {!date && (
+          <p className="text-sm text-muted-foreground">
+            Pick a date to see what {assetName} was worth then.
+          </p>
+        )}
+
+        {loading && <Skeleton className="h-16 w-full" />}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {snapshot && change !== null && (
+          <dl className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            <div>
+              <dt className="text-sm text-muted-foreground">Price</dt>
+              <dd className="text-xl font-bold">
+                {formatPrice(snapshot.price, false, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-muted-foreground">Market Cap</dt>
+              <dd className="text-xl font-bold">
+                {snapshot.market_cap === null
+                  ? 'N/A'
+                  : formatPrice(snapshot.market_cap, true, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-muted-foreground">24h Volume</dt>
+              <dd className="text-xl font-bold">
+                {snapshot.total_volume === null
+                  ? 'N/A'
+                  : formatPrice(snapshot.total_volume, true, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-muted-foreground">Change Since</dt>
+              <dd className={`text-xl font-bold ${getPercentageColor(change)}`}>
+                {formatPercentage(change)}
+              </dd>
+            </div>
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { format } from 'date-fns'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts'
+import { formatPrice } from '@/lib/utils'
+import { getChartTimeFormats } from '@/lib/chart-range'
+import type { Currency } from '@/lib/currency'
+import type { ChartDataPoint } from '@/lib/types'
+
+// Extra line drawn on the price axis, such as a moving average
+export interface PriceChartOverlay {
+  dataKey: string
+  name: string
+  color: string
+  dashed?: boolean
+}
+
+interface PriceLineChartProps {
+  data: ChartDataPoint[]
+  currency: Currency
+  // Tooltip name of the plotted value
+  label?: string
+  overlays?: PriceChartOverlay[]
+  // Shares the tooltip cursor with other charts of the same id
+  syncId?: string
+}
+
+export function PriceLineChart({
+  data,
+  currency,
+  label = 'Price',
+  overlays = [],
+  syncId,
+}: PriceLineChartProps) {
+  const timeFormats = getChartTimeFormats(data.map((point) => point.timestamp))
+
+  // Determine if price is up or down for coloring
+  const firstPrice = data[0]?.price
+  const lastPrice = data[data.length - 1]?.price
+  const priceChange =
+    data.length > 1 && firstPrice !== undefined && lastPrice !== undefined
+      ? lastPrice - firstPrice
+      : 0
+  const lineColor = priceChange >= 0 ? '#22c55e' : '#ef4444'
+
+  return (
+    <ResponsiveContainer
+      width="100%"
+      height={300}
+    >
+      <LineChart
+        data={data}
+        syncId={syncId}
+      >
+        <CartesianGrid
+          strokeDasharray="3 3"
+          className="stroke-muted"
+        />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value: number) => format(value, timeFormats.tick)}
+          minTickGap={32}
+          className="text-xs"
+          stroke="currentColor"
+        />
+        <YAxis
+          tickFormatter={(value: number) => formatPrice(value, true, currency)}
+          className="text-xs"
+          stroke="currentColor"
+        />
+        <Tooltip
+          formatter={(value: number, name: string) => [
+            formatPrice(value, false, currency),
+            name,
+          ]}
+          contentStyle={{
+            backgroundColor: 'hsl(var(--background))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: '6px',
+          }}
+          labelFormatter={(value: number) => format(value, timeFormats.tooltip)}
+          labelStyle={{ color: 'hsl(var(--foreground))' }}
+        />
+        <Line
+          type="monotone"
+          dataKey="price"
+          name={label}
+          stroke={lineColor}
+          strokeWidth={2}
+          dot={false}
+          activeDot={{ r: 6 }}
+        />
+        {overlays.map(({ dataKey, name, color, dashed }) => (
+          <Line
+            key={dataKey}
+            type="monotone"
+            dataKey={dataKey}
+            name={name}
+            stroke={color}
+            strokeWidth={1.5}
+            strokeDasharray={dashed ? '4 4' : undefined}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  )
+}
@@ -1,20 +1,30 @@
 'use client'
 
-import { Search, X } from 'lucide-react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Search, X, Loader2 } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
+import type { SearchResult } from '@/lib/types'
 
 interface SearchBarProps {
   value: string
   onChange: (value: string) => void
   placeholder?: string
+  // Server matches across all coins; omit to only filter locally
+  results?: SearchResult[] | null
+  searching?: boolean
 }
 
 export function SearchBar({
   value,
   onChange,
   placeholder = 'Search cryptocurrencies...',
+  results,
+  searching = false,
 }: SearchBarProps) {
+  const showResults = Boolean(value) && (searching || Boolean(results))
+
   return (
     <div className="relative flex-1 max-w-md">
       <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -35,6 +45,54 @@ export function SearchBar({
           <X className="h-4 w-4" />
         </Button>
       )}
+
+      {showResults && (
+        <div
+          role="listbox"
+          aria-label="Search results"
+          className="absolute left-0 right-0 top-full z-20 mt-1 max-h-80 overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+        >
+          {searching && !results?.length ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : results?.length ? (
+            results.map((coin) => (
+              <Link
+                key={coin.id}
+                href={`/assets/${coin.id}`}
+                role="option"
+                aria-selected={false}
+                className="flex items-center gap-3 rounded-sm px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <div className="relative h-6 w-6 flex-shrink-0">
+                  <Image
+                    src={coin.thumb}
+                    alt={coin.name}
+                    fill
+                    className="rounded-full object-cover"
+                    sizes="24px"
+                  />
+                </div>
+                <span className="flex-1 truncate font-medium">{coin.name}</span>
+                <span className="text-xs uppercase text-muted-foreground">
+                  {coin.symbol}
+                </span>
+                {coin.market_cap_rank !== null && (
+                  <span className="w-10 text-right text-xs text-muted-foreground">
+                    #{coin.market_cap_rank}
+                  </span>
+                )}
+              </Link>
+            ))
+          ) : (
+            <div className="px-3 py-2 text-sm text-muted-foreground">
+              No coins found
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,241 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCurrency } from '@/components/currency-provider'
+import { TRANSACTION_TYPES, transactionTypeSchema } from '@/lib/portfolio'
+import type { ErrorResponse } from '@/lib/types'
+
+// Amounts are text inputs, converted to numbers on submit
+const transactionFormSchema = z.object({
+  asset_id: z.string().trim().min(1, 'Coin ID is required'),
+  type: transactionTypeSchema,
+  quantity: z
+    .string()
+    .trim()
+    .refine((value) => Number(value) > 0, 'Quantity must be a positive number'),
+  price: z
+    .string()
+    .trim()
+    .refine((value) => Number(value) >= 0, 'Price must be a number'),
+  fee: z
+    .string()
+    .trim()
+    .refine((value) => Number(value) >= 0, 'Fee must be a number'),
+  date: z.string().min(1, 'Date is required'),
+})
+
+type TransactionFormValues = z.infer<typeof transactionFormSchema>
+
+interface TransactionFormProps {
+  onCreated: () => void
+}
+
+export function TransactionForm({ onCreated }: TransactionFormProps) {
+  const { currency } = useCurrency()
+
+  const form = useForm<TransactionFormValues>({
+    resolver: zodResolver(transactionFormSchema),
+    defaultValues: {
+      asset_id: '',
+      type: 'buy',
+      quantity: '',
+      price: '',
+      fee: '',
+      date: format(new Date(), 'yyyy-MM-dd'),
+    },
+  })
+
+  const createTransaction = async (values: TransactionFormValues) => {
+    try {
+      const response = await fetch('/api/portfolio/transactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          asset_id: values.asset_id.toLowerCase(),
+          type: values.type,
+          quantity: Number(values.quantity),
+          price: Number(values.price),
+          fee: Number(values.fee),
+          currency,
+          // Local midnight of the chosen day
+          executed_at: new Date(`${values.date}T00:00`).toISOString(),
+        }),
+      })
+
+      if (!response.ok) {
+        const { error }: ErrorResponse = await response.json()
+        toast.error(error.message)
+        return
+      }
+
+      form.reset({ ...values, quantity: '', price: '', fee: '' })
+      toast.success('Transaction recorded')
+      onCreated()
+    } catch (err) {
+      toast.error('Failed to record transaction')
+      console.error(err)
+    }
+  }
+
+  const amountLabel = currency.toUpperCase()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Add Transaction</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(createTransaction)}
+            className="grid grid-cols-1 sm:grid-cols-2 gap-4"
+          >
+            <FormField
+              control={form.control}
+              name="asset_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Coin ID</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. bitcoin"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TRANSACTION_TYPES.map(({ value, label }) => (
+                        <SelectItem
+                          key={value}
+                          value={value}
+                        >
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="0.5"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price per coin ({amountLabel})</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="0"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fee"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fee ({amountLabel})</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="0"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      max={format(new Date(), 'yyyy-MM-dd')}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="sm:col-span-2"
+              disabled={form.formState.isSubmitting}
+            >
+              Add Transaction
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { format } from 'date-fns'
+import { Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { isOutgoing, TRANSACTION_TYPES } from '@/lib/portfolio'
+import { formatPrice } from '@/lib/utils'
+import type { Transaction } from '@/lib/types'
+
+interface TransactionsTableProps {
+  transactions: Transaction[]
+  onDelete: (id: string) => void
+  deletingId?: string | null
+}
+
+export function TransactionsTable({
+  transactions,
+  onDelete,
+  deletingId,
+}: TransactionsTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transactions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {transactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No transactions recorded yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Asset</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Fee</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell>
+                    {format(transaction.executed_at, 'MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        isOutgoing(transaction.type) ? 'outline' : 'secondary'
+                      }
+                    >
+                      {
+                        TRANSACTION_TYPES.find(
+                          ({ value }) => value === transaction.type
+                        )?.label
+                      }
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{transaction.asset_id}</TableCell>
+                  <TableCell className="text-right">
+                    {transaction.quantity.toLocaleString('en-US', {
+                      maximumFractionDigits: 8,
+                    })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(
+                      transaction.price,
+                      false,
+                      transaction.currency
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(transaction.fee, false, transaction.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete transaction"
+                      disabled={deletingId === transaction.id}
+                      onClick={() => onDelete(transaction.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
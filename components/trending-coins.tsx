@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Flame } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCurrency } from '@/components/currency-provider'
+import type { CryptoAsset, TrendingResponse } from '@/lib/types'
+import { formatPercentage, formatPrice, getPercentageColor } from '@/lib/utils'
+
+/**
+ * Most searched coins of the day above the explorer list. Like the market
+ * overview it is optional, so failures only hide the section.
+ */
+export function TrendingCoins() {
+  const { currency } = useCurrency()
+  const [coins, setCoins] = useState<CryptoAsset[] | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    // Ignore answers for a currency that is no longer selected
+    let current = true
+
+    const loadTrending = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/trending?currency=${currency}`)
+        if (!response.ok) throw new Error('Failed to fetch trending coins')
+
+        const data: TrendingResponse = await response.json()
+        if (current) setCoins(data.coins)
+      } catch (err) {
+        console.warn('Trending coins unavailable:', err)
+      } finally {
+        if (current) setLoading(false)
+      }
+    }
+
+    loadTrending()
+    return () => {
+      current = false
+    }
+  }, [currency])
+
+  if (loading && !coins) {
+    return <Skeleton className="mb-8 h-32 w-full" />
+  }
+
+  if (!coins?.length) return null
+
+  return (
+    <section
+      aria-labelledby="trending-heading"
+      className="mb-8"
+    >
+      <h2
+        id="trending-heading"
+        className="mb-3 flex items-center gap-2 text-xl font-semibold"
+      >
+        <Flame className="h-5 w-5 text-orange-500" />
+        Trending
+      </h2>
+      <ul className="flex gap-4 overflow-x-auto pb-2">
+        {coins.map((coin) => (
+          <li
+            key={coin.id}
+            className="w-40 flex-shrink-0"
+          >
+            <Card className="py-0 transition-shadow hover:shadow-lg">
+              <Link
+                href={`/assets/${coin.id}`}
+                className="block"
+              >
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2">
+                    <div className="relative h-6 w-6 flex-shrink-0">
+                      <Image
+                        src={coin.image}
+                        alt={coin.name}
+                        fill
+                        className="rounded-full object-cover"
+                        sizes="24px"
+                      />
+                    </div>
+                    <span className="truncate font-medium">{coin.name}</span>
+                  </div>
+                  <p className="mt-2 font-semibold">
+                    {formatPrice(coin.current_price, false, currency)}
+                  </p>
+                  <p
+                    className={`text-sm ${getPercentageColor(
+                      coin.price_change_percentage_24h
+                    )}`}
+                  >
+                    {formatPercentage(coin.price_change_percentage_24h)} 24h
+                  </p>
+                </CardContent>
+              </Link>
+            </Card>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
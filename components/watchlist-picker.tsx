@@ -0,0 +1,73 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { Watchlist } from '@/lib/types'
+
+interface WatchlistPickerProps {
+  assetId: string
+  isFavorite: boolean
+  onToggleFavorite: () => void
+  watchlists: Watchlist[]
+  onToggleWatchlist: (watchlistId: string, assetId: string) => void
+  // The button opening the picker
+  children: React.ReactNode
+}
+
+/**
+ * "Add to list…" menu toggling a coin in the favorites and in each of the
+ * user's watchlists. The menu stays open so several lists can be picked.
+ */
+export function WatchlistPicker({
+  assetId,
+  isFavorite,
+  onToggleFavorite,
+  watchlists,
+  onToggleWatchlist,
+  children,
+}: WatchlistPickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      {/* React events bubble through the portal: keep clicks away from
+          links around the trigger */}
+      <DropdownMenuContent
+        align="end"
+        className="w-56"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DropdownMenuLabel>Add to list…</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={isFavorite}
+          onCheckedChange={onToggleFavorite}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Favorites
+        </DropdownMenuCheckboxItem>
+        {watchlists.map((watchlist) => (
+          <DropdownMenuCheckboxItem
+            key={watchlist.id}
+            checked={watchlist.asset_ids.includes(assetId)}
+            onCheckedChange={() => onToggleWatchlist(watchlist.id, assetId)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {watchlist.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/favorites">Manage lists</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { WatchlistResult } from '@/hooks/use-watchlists'
+import { watchlistInputSchema } from '@/lib/watchlists'
+import type { Watchlist } from '@/lib/types'
+
+// Value of the switcher while the favorites are shown
+export const FAVORITES_LIST = 'favorites'
+
+type WatchlistFormValues = z.infer<typeof watchlistInputSchema>
+
+interface WatchlistNameDialogProps {
+  title: string
+  submitLabel: string
+  defaultName?: string
+  trigger: React.ReactNode
+  onSubmit: (name: string) => Promise<WatchlistResult>
+}
+
+function WatchlistNameDialog({
+  title,
+  submitLabel,
+  defaultName = '',
+  trigger,
+  onSubmit,
+}: WatchlistNameDialogProps) {
+  const [open, setOpen] = useState(false)
+
+  const form = useForm<WatchlistFormValues>({
+    resolver: zodResolver(watchlistInputSchema),
+    defaultValues: { name: defaultName },
+  })
+
+  const submit = async ({ name }: WatchlistFormValues) => {
+    const { error } = await onSubmit(name)
+
+    if (error) {
+      form.setError('root', { message: error })
+      return
+    }
+
+    setOpen(false)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (nextOpen) form.reset({ name: defaultName })
+        setOpen(nextOpen)
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(submit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. DeFi"
+                      autoComplete="off"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {form.formState.errors.root && (
+              <p
+                role="alert"
+                className="text-sm text-destructive"
+              >
+                {form.formState.errors.root.message}
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={form.formState.isSubmitting}
+            >
+              {submitLabel}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface WatchlistSwitcherProps {
+  watchlists: Watchlist[]
+  // FAVORITES_LIST or a watchlist id
+  selected: string
+  onSelect: (value: string) => void
+  onCreate: (name: string) => Promise<WatchlistResult>
+  onRename: (id: string, name: string) => Promise<WatchlistResult>
+  onDelete: (id: string) => void
+}
+
+/**
+ * Switches between the favorites and the user's watchlists, and creates,
+ * renames or deletes watchlists
+ */
+export function WatchlistSwitcher({
+  watchlists,
+  selected,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: WatchlistSwitcherProps) {
+  const selectedList = watchlists.find((list) => list.id === selected)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={selected}
+        onValueChange={onSelect}
+      >
+        <SelectTrigger
+          className="w-56"
+          aria-label="List"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={FAVORITES_LIST}>Favorites</SelectItem>
+          {watchlists.map((list) => (
+            <SelectItem
+              key={list.id}
+              value={list.id}
+            >
+              {list.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <WatchlistNameDialog
+        title="New watchlist"
+        submitLabel="Create list"
+        onSubmit={onCreate}
+        trigger={
+          <Button variant="outline">
+            <Plus className="h-4 w-4" />
+            New list
+          </Button>
+        }
+      />
+
+      {selectedList && (
+        <>
+          <WatchlistNameDialog
+            key={selectedList.id}
+            title="Rename watchlist"
+            submitLabel="Rename"
+            defaultName={selectedList.name}
+            onSubmit={(name) => onRename(selectedList.id, name)}
+            trigger={
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Rename list"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Delete list"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {selectedList.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The list is removed for good. The coins in it stay in your
+                  other lists.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => onDelete(selectedList.id)}>
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  )
+}
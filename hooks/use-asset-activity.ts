@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import type { AssetActivity } from '@/lib/types'
+
+export interface UseAssetActivityResult {
+  activity: AssetActivity | null
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * Loads a coin's developer and community figures from
+ * /api/assets/[id]/activity
+ *
+ * @param assetId - Coin to load the figures of
+ * @returns The figures once loaded, or the error that prevented it
+ *
+ * @example
+ * const { activity } = useAssetActivity('bitcoin')
+ * const stars = activity?.developer.stars
+ */
+export function useAssetActivity(assetId: string): UseAssetActivityResult {
+  const [activity, setActivity] = useState<AssetActivity | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Ignore answers for a coin that is no longer shown
+    let current = true
+
+    const loadActivity = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setActivity(null)
+        const response = await fetch(`/api/assets/${assetId}/activity`)
+        if (!response.ok) throw new Error('Failed to fetch asset activity')
+
+        const data: AssetActivity = await response.json()
+        if (current) setActivity(data)
+      } catch (err) {
+        if (current) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
+      } finally {
+        if (current) setLoading(false)
+      }
+    }
+
+    loadActivity()
+    return () => {
+      current = false
+    }
+  }, [assetId])
+
+  return { activity, loading, error }
+}
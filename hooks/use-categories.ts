@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import type { CategoriesResponse, MarketCategory } from '@/lib/types'
+
+export interface UseCategoriesResult {
+  categories: MarketCategory[]
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * Loads the coin categories from /api/categories
+ *
+ * @returns The categories, largest first, or the error that prevented
+ * loading them
+ *
+ * @example
+ * const { categories } = useCategories()
+ * const name = categories.find((category) => category.id === id)?.name
+ */
+export function useCategories(): UseCategoriesResult {
+  const [categories, setCategories] = useState<MarketCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Ignore the answer once the component is gone
+    let current = true
+
+    const loadCategories = async () => {
+      try {
+        const response = await fetch('/api/categories')
+        if (!response.ok) throw new Error('Failed to fetch categories')
+
+        const data: CategoriesResponse = await response.json()
+        if (current) setCategories(data.categories)
+      } catch (err) {
+        if (current) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
+      } finally {
+        if (current) setLoading(false)
+      }
+    }
+
+    loadCategories()
+    return () => {
+      current = false
+    }
+  }, [])
+
+  return { categories, loading, error }
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import type { Currency } from '@/lib/currency'
+import type { GlobalMarketData } from '@/lib/types'
+
+export interface UseGlobalMarketResult {
+  data: GlobalMarketData | null
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * Loads the overall market state from /api/global
+ *
+ * @param currency - Quote currency of the totals
+ * @returns The market state once loaded, or the error that prevented it
+ *
+ * @example
+ * const { data } = useGlobalMarket(currency)
+ * const dominance = data?.btc_dominance
+ */
+export function useGlobalMarket(currency: Currency): UseGlobalMarketResult {
+  const [data, setData] = useState<GlobalMarketData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Ignore answers for a currency that is no longer selected
+    let current = true
+
+    const loadGlobal = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(`/api/global?currency=${currency}`)
+        if (!response.ok) throw new Error('Failed to fetch market overview')
+
+        const global: GlobalMarketData = await response.json()
+        if (current) setData(global)
+      } catch (err) {
+        if (current) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
+      } finally {
+        if (current) setLoading(false)
+      }
+    }
+
+    loadGlobal()
+    return () => {
+      current = false
+    }
+  }, [currency])
+
+  return { data, loading, error }
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react'
+
+export type PriceFlash = 'up' | 'down' | null
+
+/**
+ * Briefly reports whether a price just went up or down, for highlighting
+ * live updates
+ *
+ * @param price - The displayed price
+ * @param scope - Changes of scope (e.g. the currency) reset the reference
+ *   price instead of flashing
+ * @param duration - How long the flash lasts in milliseconds (default: 1000ms)
+ */
+export function usePriceFlash(
+  price: number,
+  scope?: string,
+  duration: number = 1000
+): PriceFlash {
+  const [flash, setFlash] = useState<PriceFlash>(null)
+  const previous = useRef({ price, scope })
+
+  useEffect(() => {
+    const { price: previousPrice, scope: previousScope } = previous.current
+    previous.current = { price, scope }
+
+    if (scope !== previousScope || price === previousPrice) return
+
+    setFlash(price > previousPrice ? 'up' : 'down')
+    const timer = setTimeout(() => setFlash(null), duration)
+    return () => clearTimeout(timer)
+  }, [price, scope, duration])
+
+  return flash
+}
+
+/**
+ * Text color classes for a price flash
+ */
+export function getPriceFlashClass(flash: PriceFlash): string {
+  if (flash === 'up') return 'text-green-600'
+  if (flash === 'down') return 'text-red-600'
+  return ''
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react'
+import type { Currency } from '@/lib/currency'
+import { MAX_ASSET_IDS } from '@/lib/market-query'
+import type { PriceQuote, PriceStreamEvent } from '@/lib/types'
+
+export type PriceQuotes = Record<string, PriceQuote>
+
+/**
+ * Subscribes to live price updates for the given assets through
+ * /api/stream and returns the latest quote per asset id
+ *
+ * @param ids - Asset ids to follow (only the first 250 are streamed)
+ * @param currency - Quote currency; switching it drops older quotes
+ * @returns Latest quotes keyed by asset id
+ *
+ * @example
+ * const quotes = usePriceStream(assets.map((asset) => asset.id), currency)
+ * const liveAssets = assets.map((asset) => withLiveQuote(asset, quotes))
+ */
+export function usePriceStream(ids: string[], currency: Currency): PriceQuotes {
+  const [quotes, setQuotes] = useState<PriceQuotes>({})
+  const idsParam = ids.slice(0, MAX_ASSET_IDS).join(',')
+
+  useEffect(() => {
+    setQuotes({})
+
+    // Not available during SSR or in older test environments
+    if (!idsParam || typeof EventSource === 'undefined') return
+
+    const source = new EventSource(
+      `/api/stream?currency=${currency}&ids=${idsParam}`
+    )
+
+    const handlePrices = (event: MessageEvent<string>) => {
+      const { quotes: updates }: PriceStreamEvent = JSON.parse(event.data)
+      setQuotes((prev) => {
+        const next = { ...prev }
+        for (const quote of updates) next[quote.id] = quote
+        return next
+      })
+    }
+
+    // EventSource reconnects by itself after network errors
+    source.addEventListener('prices', handlePrices)
+    return () => source.close()
+  }, [idsParam, currency])
+
+  return quotes
+}
+
+/**
+ * Returns the asset with its latest streamed price, if any
+ */
+export function withLiveQuote<T extends PriceQuote>(
+  asset: T,
+  quotes: PriceQuotes
+): T {
+  const quote = quotes[asset.id]
+  if (!quote) return asset
+
+  return {
+    ...asset,
+    current_price: quote.current_price,
+    price_change_percentage_24h: quote.price_change_percentage_24h,
+  }
+}
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import type { ErrorResponse, Watchlist, WatchlistsResponse } from '@/lib/types'
+
+export interface WatchlistResult {
+  error: string | null
+  watchlist?: Watchlist
+}
+
+export interface UseWatchlistsResult {
+  watchlists: Watchlist[]
+  loading: boolean
+  toggleAsset: (watchlistId: string, assetId: string) => Promise<void>
+  createWatchlist: (name: string) => Promise<WatchlistResult>
+  renameWatchlist: (id: string, name: string) => Promise<WatchlistResult>
+  deleteWatchlist: (id: string) => Promise<void>
+}
+
+async function readError(response: Response, fallback: string) {
+  const body: Partial<ErrorResponse> | null = await response
+    .json()
+    .catch(() => null)
+  return body?.error?.message ?? fallback
+}
+
+/**
+ * Loads the signed-in user's watchlists and keeps them in sync with the
+ * changes made through it. Visitors get an empty list.
+ *
+ * @returns The watchlists, oldest first, with functions to change them
+ *
+ * @example
+ * const { watchlists, toggleAsset } = useWatchlists()
+ * const lists = watchlists.filter((list) => list.asset_ids.includes(id))
+ */
+export function useWatchlists(): UseWatchlistsResult {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadWatchlists = async () => {
+      try {
+        const response = await fetch('/api/watchlists')
+        if (!response.ok) throw new Error('Failed to fetch watchlists')
+
+        const data: WatchlistsResponse = await response.json()
+        setWatchlists(data.watchlists)
+      } catch (err) {
+        console.error('Failed to load watchlists:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadWatchlists()
+  }, [])
+
+  const toggleAsset = useCallback(
+    async (watchlistId: string, assetId: string) => {
+      const watchlist = watchlists.find((list) => list.id === watchlistId)
+      if (!watchlist) return
+
+      const listed = watchlist.asset_ids.includes(assetId)
+
+      try {
+        const response = listed
+          ? await fetch(
+              `/api/watchlists/${watchlistId}/items?asset_id=${encodeURIComponent(assetId)}`,
+              { method: 'DELETE' }
+            )
+          : await fetch(`/api/watchlists/${watchlistId}/items`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ asset_id: assetId }),
+            })
+
+        if (!response.ok) {
+          throw new Error(
+            await readError(response, 'Failed to update watchlist')
+          )
+        }
+
+        setWatchlists((prev) =>
+          prev.map((list) =>
+            list.id === watchlistId
+              ? {
+                  ...list,
+                  asset_ids: listed
+                    ? list.asset_ids.filter((id) => id !== assetId)
+                    : [...list.asset_ids, assetId],
+                }
+              : list
+          )
+        )
+        toast.success(
+          listed
+            ? `Removed from ${watchlist.name}`
+            : `Added to ${watchlist.name}`
+        )
+      } catch (err) {
+        toast.error(
+          err instanceof Error ? err.message : 'Failed to update watchlist'
+        )
+        console.error(err)
+      }
+    },
+    [watchlists]
+  )
+
+  const createWatchlist = useCallback(async (name: string) => {
+    try {
+      const response = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+
+      if (!response.ok) {
+        return {
+          error: await readError(response, 'Failed to create watchlist'),
+        }
+      }
+
+      const { watchlist }: { watchlist: Watchlist } = await response.json()
+      setWatchlists((prev) => [...prev, watchlist])
+      toast.success(`Created ${watchlist.name}`)
+      return { error: null, watchlist }
+    } catch (err) {
+      console.error(err)
+      return { error: 'Failed to create watchlist' }
+    }
+  }, [])
+
+  const renameWatchlist = useCallback(async (id: string, name: string) => {
+    try {
+      const response = await fetch(`/api/watchlists/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+
+      if (!response.ok) {
+        return {
+          error: await readError(response, 'Failed to rename watchlist'),
+        }
+      }
+
+      const { watchlist }: { watchlist: Watchlist } = await response.json()
+      setWatchlists((prev) =>
+        prev.map((list) => (list.id === id ? watchlist : list))
+      )
+      toast.success(`Renamed to ${watchlist.name}`)
+      return { error: null, watchlist }
+    } catch (err) {
+      console.error(err)
+      return { error: 'Failed to rename watchlist' }
+    }
+  }, [])
+
+  const deleteWatchlist = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/watchlists/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete watchlist'))
+      }
+
+      setWatchlists((prev) => prev.filter((list) => list.id !== id))
+      toast.success('Watchlist deleted')
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to delete watchlist'
+      )
+      console.error(err)
+    }
+  }, [])
+
+  return {
+    watchlists,
+    loading,
+    toggleAsset,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+  }
+}
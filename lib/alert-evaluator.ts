@@ -0,0 +1,101 @@
+/**
+ * Server-side price alert evaluation
+ * Checks the signed-in user's active alerts against cached market data,
+ * records an event for each one that fires and deactivates it
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isAlertTriggered } from '@/lib/alerts'
+import { getAssetsByIds } from '@/lib/asset-lookup'
+import type { Currency } from '@/lib/currency'
+import { MAX_ASSET_IDS } from '@/lib/market-query'
+import type {
+  AlertEvent,
+  CryptoAsset,
+  EvaluateAlertsResponse,
+  PriceAlert,
+} from '@/lib/types'
+
+// An alert whose condition is met, with the market data it fired on
+interface AlertTrigger {
+  id: string
+  price: number
+  price_change_percentage_24h: number
+}
+
+function groupByCurrency(alerts: PriceAlert[]): Map<Currency, PriceAlert[]> {
+  const groups = new Map<Currency, PriceAlert[]>()
+  for (const alert of alerts) {
+    groups.set(alert.currency, [...(groups.get(alert.currency) ?? []), alert])
+  }
+  return groups
+}
+
+// Cached lookups of at most MAX_ASSET_IDS coins each
+async function getAssets(
+  ids: string[],
+  currency: Currency
+): Promise<CryptoAsset[]> {
+  const assets: CryptoAsset[] = []
+
+  for (let start = 0; start < ids.length; start += MAX_ASSET_IDS) {
+    assets.push(
+      ...(await getAssetsByIds(
+        ids.slice(start, start + MAX_ASSET_IDS),
+        currency
+      ))
+    )
+  }
+
+  return assets
+}
+
+/**
+ * Evaluates the alerts `supabase` can see: with the request client, row
+ * level security limits them to the signed-in user's own
+ */
+export async function evaluateAlerts(
+  supabase: SupabaseClient
+): Promise<EvaluateAlertsResponse> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*')
+    .eq('active', true)
+
+  if (error) throw error
+
+  const alerts = (data ?? []) as PriceAlert[]
+  const triggers: AlertTrigger[] = []
+
+  for (const [currency, group] of groupByCurrency(alerts)) {
+    const ids = [...new Set(group.map((alert) => alert.asset_id))]
+    const assets = await getAssets(ids, currency)
+
+    for (const alert of group) {
+      const asset = assets.find((item) => item.id === alert.asset_id)
+      if (!asset || !isAlertTriggered(alert, asset)) continue
+
+      triggers.push({
+        id: alert.id,
+        price: asset.current_price,
+        price_change_percentage_24h: asset.price_change_percentage_24h,
+      })
+    }
+  }
+
+  if (triggers.length === 0) {
+    return { checked: alerts.length, triggered: [] }
+  }
+
+  // Deactivates the alerts and records their events in one statement.
+  // Alerts already fired by a concurrent evaluation are skipped, so each
+  // alert fires exactly once.
+  const { data: recorded, error: triggerError } = await supabase.rpc(
+    'trigger_alerts',
+    { triggers }
+  )
+
+  if (triggerError) throw triggerError
+
+  return { checked: alerts.length, triggered: (recorded ?? []) as AlertEvent[] }
+}
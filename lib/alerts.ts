@@ -0,0 +1,81 @@
+/**
+ * Price alert conditions and validation
+ * Shared by the alerts API routes and the alert form
+ */
+
+import { z } from 'zod'
+import { currencySchema } from '@/lib/currency'
+import type { AlertCondition, PriceAlert, PriceQuote } from '@/lib/types'
+
+export const ALERT_CONDITIONS = [
+  { value: 'above', label: 'Price above' },
+  { value: 'below', label: 'Price below' },
+  { value: 'percent_up', label: '24h change up by (%)' },
+  { value: 'percent_down', label: '24h change down by (%)' },
+] as const satisfies readonly { value: AlertCondition; label: string }[]
+
+export const alertConditionSchema = z.enum(
+  ALERT_CONDITIONS.map(({ value }) => value) as [
+    AlertCondition,
+    ...AlertCondition[],
+  ]
+)
+
+// Body of POST /api/alerts
+export const alertInputSchema = z.object({
+  asset_id: z.string().trim().min(1, 'asset_id is required'),
+  condition: alertConditionSchema,
+  target: z
+    .number({ error: 'Target must be a number' })
+    .positive('Target must be greater than 0'),
+  currency: currencySchema.default('usd'),
+})
+
+export type AlertInput = z.infer<typeof alertInputSchema>
+
+// Alert ids are uuids, so anything else cannot name an alert
+export const alertIdSchema = z.uuid()
+
+export function isPercentCondition(condition: AlertCondition): boolean {
+  return condition === 'percent_up' || condition === 'percent_down'
+}
+
+/**
+ * Whether the quote meets the alert's condition. Percent targets are
+ * magnitudes: percent_down with target 5 fires at a 24h change of -5% or less.
+ */
+export function isAlertTriggered(
+  alert: Pick<PriceAlert, 'condition' | 'target'>,
+  quote: PriceQuote
+): boolean {
+  switch (alert.condition) {
+    case 'above':
+      return quote.current_price >= alert.target
+    case 'below':
+      return quote.current_price <= alert.target
+    case 'percent_up':
+      return quote.price_change_percentage_24h >= alert.target
+    case 'percent_down':
+      return quote.price_change_percentage_24h <= -alert.target
+  }
+}
+
+/**
+ * Short human readable description, e.g. "Price above 50,000 USD"
+ */
+export function describeAlert(
+  alert: Pick<PriceAlert, 'condition' | 'target' | 'currency'>
+): string {
+  const price = `${alert.target.toLocaleString('en-US')} ${alert.currency.toUpperCase()}`
+
+  switch (alert.condition) {
+    case 'above':
+      return `Price above ${price}`
+    case 'below':
+      return `Price below ${price}`
+    case 'percent_up':
+      return `24h change above +${alert.target}%`
+    case 'percent_down':
+      return `24h change below -${alert.target}%`
+  }
+}
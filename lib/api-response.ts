@@ -0,0 +1,95 @@
+/**
+ * Shared API route responses
+ * Every error is answered with an ErrorResponse body so clients can branch
+ * on a stable `code` rather than on messages
+ */
+
+import { NextResponse } from 'next/server'
+import {
+  isRateLimited,
+  MarketDataError,
+  UpstreamPayloadError,
+} from '@/lib/market-data'
+import type { ApiError, ApiErrorCode, ErrorResponse } from '@/lib/types'
+
+// Used when the upstream source gave no hint
+const DEFAULT_RETRY_AFTER = 60 // seconds
+
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details: Pick<ApiError, 'upstreamStatus' | 'retryAfter'> = {}
+) {
+  const { retryAfter } = details
+
+  return NextResponse.json<ErrorResponse>(
+    { error: { code, message, ...details } },
+    {
+      status,
+      headers:
+        retryAfter === undefined
+          ? undefined
+          : { 'Retry-After': String(retryAfter) },
+    }
+  )
+}
+
+/**
+ * Maps an error thrown while fetching market data to a status and body:
+ * - 404 when the upstream source does not know the coin
+ * - 503 with a retry hint when the upstream rate limit is exhausted and
+ *   nothing is cached
+ * - 502 when the upstream source failed or sent an unexpected payload
+ * - 500 with `message` for anything else
+ */
+export function toApiError(
+  error: unknown,
+  message: string
+): { status: number; error: ApiError } {
+  if (isRateLimited(error)) {
+    return {
+      status: 503,
+      error: {
+        code: 'rate_limited',
+        message: 'Market data is temporarily unavailable, please retry later',
+        upstreamStatus: error.status,
+        retryAfter: error.retryAfter ?? DEFAULT_RETRY_AFTER,
+      },
+    }
+  }
+
+  if (error instanceof MarketDataError && error.status === 404) {
+    return {
+      status: 404,
+      error: {
+        code: 'not_found',
+        message: 'Coin not found',
+        upstreamStatus: error.status,
+      },
+    }
+  }
+
+  if (error instanceof MarketDataError) {
+    return {
+      status: 502,
+      error: { code: 'upstream_error', message, upstreamStatus: error.status },
+    }
+  }
+
+  if (error instanceof UpstreamPayloadError) {
+    return {
+      status: 502,
+      error: { code: 'invalid_upstream_response', message },
+    }
+  }
+
+  return { status: 500, error: { code: 'internal_error', message } }
+}
+
+export function marketDataErrorResponse(error: unknown, message: string) {
+  const { status, error: apiError } = toApiError(error, message)
+  const { code, message: apiMessage, ...details } = apiError
+
+  return errorResponse(status, code, apiMessage, details)
+}
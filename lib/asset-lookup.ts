@@ -0,0 +1,125 @@
+/**
+ * Cached market data lookups shared by several API routes
+ */
+
+import { assetsCache, chartCache, quotesCache } from '@/lib/cache'
+import { getChartRangeKey, type ChartRange } from '@/lib/chart-range'
+import type { Currency } from '@/lib/currency'
+import { getMarketDataProvider, isUpstreamUnavailable } from '@/lib/market-data'
+import type { ChartDataPoint, CryptoAsset } from '@/lib/types'
+
+// Intraday charts move quickly, so they expire sooner than the default
+const INTRADAY_CACHE_DURATION = 60 * 1000 // 1 minute
+
+// Quoted in every supported currency, so its prices give exchange rates
+const REFERENCE_ASSET_ID = 'bitcoin'
+
+/**
+ * Returns the coins in the requested order, skipping unknown ids. Each
+ * distinct set of ids is one cached upstream call, whatever its order.
+ */
+export async function getAssetsByIds(
+  ids: string[],
+  currency: Currency
+): Promise<CryptoAsset[]> {
+  const sortedIds = [...ids].sort()
+  const assets = await assetsCache.getOrFetch(
+    `${currency}-ids-${sortedIds.join(',')}`,
+    () =>
+      getMarketDataProvider().listMarkets({
+        page: 1,
+        perPage: sortedIds.length,
+        currency,
+        ids: sortedIds,
+      }),
+    { staleIfError: isUpstreamUnavailable }
+  )
+
+  return ids.flatMap((id) => assets.find((asset) => asset.id === id) ?? [])
+}
+
+/**
+ * Latest quotes for the coins in the requested order, skipping unknown ids.
+ * Quotes are cached per coin, so overlapping id sets share them and one
+ * upstream call fetches only the coins missing or expired.
+ */
+export async function getQuotes(
+  ids: string[],
+  currency: Currency
+): Promise<CryptoAsset[]> {
+  const key = (id: string) => `${currency}-${id}`
+  // Sorted so concurrent requests for the same coins share one upstream call
+  const missing = ids
+    .filter((id) => !quotesCache.isValid(quotesCache.get(key(id))))
+    .sort()
+
+  if (missing.length > 0) {
+    try {
+      const assets = await getMarketDataProvider().listMarkets({
+        page: 1,
+        perPage: missing.length,
+        currency,
+        ids: missing,
+      })
+
+      // Unknown coins are cached too, so they are not asked for every time
+      for (const id of missing) {
+        quotesCache.set(
+          key(id),
+          assets.find((asset) => asset.id === id) ?? null
+        )
+      }
+    } catch (error) {
+      // Serve the last quotes, however old, while upstream is unavailable
+      const cached = missing.every((id) => quotesCache.get(key(id)))
+      if (!cached || !isUpstreamUnavailable(error)) throw error
+      console.warn('Serving stale quotes after fetch error:', error)
+    }
+  }
+
+  return ids.flatMap((id) => quotesCache.get(key(id))?.data ?? [])
+}
+
+/**
+ * Current units of `currency` per unit of each of `from`, derived from the
+ * price of a reference coin in both
+ */
+export async function getExchangeRates(
+  from: Currency[],
+  currency: Currency
+): Promise<Partial<Record<Currency, number>>> {
+  const rates: Partial<Record<Currency, number>> = { [currency]: 1 }
+  const others = [...new Set(from)].filter((code) => code !== currency)
+  if (others.length === 0) return rates
+
+  const quote = async (code: Currency) => {
+    const [asset] = await getAssetsByIds([REFERENCE_ASSET_ID], code)
+    if (!asset) throw new Error(`No exchange rate for ${code}`)
+    return asset.current_price
+  }
+
+  const target = await quote(currency)
+  for (const code of others) {
+    rates[code] = target / (await quote(code))
+  }
+
+  return rates
+}
+
+/**
+ * Price history of one coin, as served by the chart route
+ */
+export async function getPriceHistory(
+  id: string,
+  currency: Currency,
+  range: ChartRange
+): Promise<ChartDataPoint[]> {
+  const ttl =
+    'days' in range && range.days === '1' ? INTRADAY_CACHE_DURATION : undefined
+
+  return chartCache.getOrFetch(
+    `${id}-${currency}-${getChartRangeKey(range)}`,
+    () => getMarketDataProvider().getPriceHistory(id, { currency, range }),
+    { ttl, staleIfError: isUpstreamUnavailable }
+  )
+}
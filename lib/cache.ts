@@ -3,40 +3,176 @@
  * Provides a shared cache mechanism that can be used in routes and tested independently
  */
 
-import type { CryptoAsset } from '@/lib/types'
+import type {
+  AssetActivity,
+  AssetDetail,
+  ChartDataPoint,
+  CryptoAsset,
+  ExchangeTicker,
+  GlobalMarketData,
+  HistoricalSnapshot,
+  MarketCategory,
+  OhlcDataPoint,
+  SearchResult,
+} from '@/lib/types'
 
-export interface CacheEntry {
-  data: CryptoAsset[]
+export interface CacheEntry<T> {
+  data: T
   timestamp: number
+  // Time to live of this entry in milliseconds
+  ttl: number
 }
 
-export class ApiCache {
-  private cache = new Map<string, CacheEntry>()
-  private cacheDuration: number
+export interface ApiCacheOptions {
+  // Default time to live for entries (ms)
+  ttl?: number
+  // How long past its TTL an entry may still be served while it is
+  // refreshed in the background (ms)
+  staleTtl?: number
+  // Least recently used entries are evicted beyond this size
+  maxEntries?: number
+}
 
-  constructor(cacheDuration = 60 * 1000) {
-    this.cacheDuration = cacheDuration
-  }
+export interface GetOrFetchOptions {
+  // Overrides the default TTL for the fetched entry (ms)
+  ttl?: number
+  // Serve an expired entry, however old, when the fetch fails with an
+  // error this accepts
+  staleIfError?: (error: unknown) => boolean
+}
+
+export interface CacheStats {
+  hits: number
+  staleHits: number
+  misses: number
+  evictions: number
+  size: number
+  hitRate: number
+}
 
-  get(key: string): CacheEntry | undefined {
-    return this.cache.get(key)
+export class ApiCache<T> {
+  // Map iteration follows insertion order, so the first key is always the
+  // least recently used one
+  private cache = new Map<string, CacheEntry<T>>()
+  private refreshing = new Set<string>()
+  private ttl: number
+  private staleTtl: number
+  private maxEntries: number
+  private hits = 0
+  private staleHits = 0
+  private misses = 0
+  private evictions = 0
+
+  constructor({
+    ttl = 60 * 1000,
+    staleTtl = 0,
+    maxEntries = 100,
+  }: ApiCacheOptions = {}) {
+    this.ttl = ttl
+    this.staleTtl = staleTtl
+    this.maxEntries = maxEntries
   }
 
-  set(key: string, entry: CacheEntry): void {
+  /**
+   * Returns the entry whatever its age and marks it as recently used
+   */
+  get(key: string): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key)
+    if (!entry) return undefined
+
+    this.cache.delete(key)
     this.cache.set(key, entry)
+    return entry
+  }
+
+  set(key: string, data: T, ttl = this.ttl): void {
+    this.cache.delete(key)
+    this.cache.set(key, { data, timestamp: Date.now(), ttl })
+
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value
+      if (oldestKey === undefined) break
+      this.cache.delete(oldestKey)
+      this.evictions++
+    }
   }
 
   delete(key: string): boolean {
     return this.cache.delete(key)
   }
 
+  /**
+   * Drops every entry and resets the statistics
+   */
   clear(): void {
     this.cache.clear()
+    this.refreshing.clear()
+    this.hits = 0
+    this.staleHits = 0
+    this.misses = 0
+    this.evictions = 0
   }
 
-  isValid(entry: CacheEntry | undefined): boolean {
+  isValid(entry: CacheEntry<T> | undefined): boolean {
     if (!entry) return false
-    return Date.now() - entry.timestamp < this.cacheDuration
+    return Date.now() - entry.timestamp < entry.ttl
+  }
+
+  /**
+   * Whether an expired entry may still be served while it is refreshed
+   */
+  isStale(entry: CacheEntry<T> | undefined): boolean {
+    if (!entry || this.isValid(entry)) return false
+    return Date.now() - entry.timestamp < entry.ttl + this.staleTtl
+  }
+
+  /**
+   * Returns cached data when fresh, serves stale data while refreshing it in
+   * the background, and otherwise waits for the fetcher
+   */
+  async getOrFetch(
+    key: string,
+    fetcher: () => Promise<T>,
+    { ttl = this.ttl, staleIfError }: GetOrFetchOptions = {}
+  ): Promise<T> {
+    const entry = this.get(key)
+
+    if (entry && this.isValid(entry)) {
+      this.hits++
+      return entry.data
+    }
+
+    if (entry && this.isStale(entry)) {
+      this.staleHits++
+      this.revalidate(key, fetcher, ttl)
+      return entry.data
+    }
+
+    this.misses++
+    try {
+      const data = await fetcher()
+      this.set(key, data, ttl)
+      return data
+    } catch (error) {
+      if (entry && staleIfError?.(error)) {
+        console.warn(`Serving stale "${key}" after fetch error:`, error)
+        return entry.data
+      }
+      throw error
+    }
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.staleHits + this.misses
+
+    return {
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.cache.size,
+      hitRate: lookups ? (this.hits + this.staleHits) / lookups : 0,
+    }
   }
 
   get size(): number {
@@ -46,7 +182,107 @@ export class ApiCache {
   keys(): IterableIterator<string> {
     return this.cache.keys()
   }
+
+  private revalidate(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttl: number
+  ): void {
+    // Only one background refresh per key at a time
+    if (this.refreshing.has(key)) return
+    this.refreshing.add(key)
+
+    fetcher()
+      .then((data) => this.set(key, data, ttl))
+      .catch((error) => {
+        console.warn(`Background refresh failed for "${key}":`, error)
+      })
+      .finally(() => this.refreshing.delete(key))
+  }
 }
 
+const MINUTE_MS = 60 * 1000
+
 // Singleton instance for assets cache - increased to 5 minutes for rate limit protection
-export const assetsCache = new ApiCache(5 * 60 * 1000) // 5 minutes
+export const assetsCache = new ApiCache<CryptoAsset[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 100,
+})
+
+// Top coins by market cap that server-side sorting and filtering run over,
+// per currency and category
+export const marketUniverseCache = new ApiCache<CryptoAsset[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 100,
+})
+
+export const assetDetailCache = new ApiCache<AssetDetail>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 200,
+})
+
+// Developer and community figures move slowly, so they are kept longer
+export const assetActivityCache = new ApiCache<AssetActivity>({
+  ttl: 30 * MINUTE_MS,
+  staleTtl: 60 * MINUTE_MS,
+  maxEntries: 200,
+})
+
+export const chartCache = new ApiCache<ChartDataPoint[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 200,
+})
+
+export const ohlcCache = new ApiCache<OhlcDataPoint[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 200,
+})
+
+// Past days never change, so snapshots are kept for a day
+export const historyCache = new ApiCache<HistoricalSnapshot | null>({
+  ttl: 24 * 60 * MINUTE_MS,
+  maxEntries: 500,
+})
+
+export const tickersCache = new ApiCache<ExchangeTicker[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 200,
+})
+
+// Quotes pushed by /api/stream, one entry per coin and currency (null when
+// the coin is unknown): short lived so every tick can carry fresh prices,
+// while subscribers to the same coins still share upstream calls
+export const quotesCache = new ApiCache<CryptoAsset | null>({
+  ttl: 10 * 1000,
+  maxEntries: 2000,
+})
+
+export const searchCache = new ApiCache<SearchResult[]>({
+  ttl: 5 * MINUTE_MS,
+  maxEntries: 500,
+})
+
+// Trending coins with their quotes, keyed by quote currency
+export const trendingCache = new ApiCache<CryptoAsset[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 20,
+})
+
+export const categoriesCache = new ApiCache<MarketCategory[]>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 1,
+})
+
+export const globalCache = new ApiCache<GlobalMarketData>({
+  ttl: 5 * MINUTE_MS,
+  staleTtl: 10 * MINUTE_MS,
+  maxEntries: 20,
+})
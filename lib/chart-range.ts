@@ -0,0 +1,150 @@
+/**
+ * Price chart time ranges
+ * Shared by the chart API route and PriceChart so both agree on the presets
+ */
+
+export const CHART_RANGES = [
+  { days: '1', label: '24H', title: '24-Hour' },
+  { days: '7', label: '7D', title: '7-Day' },
+  { days: '30', label: '30D', title: '30-Day' },
+  { days: '90', label: '90D', title: '90-Day' },
+  { days: '365', label: '1Y', title: '1-Year' },
+  { days: 'max', label: 'Max', title: 'All-Time' },
+] as const
+
+export type ChartDays = (typeof CHART_RANGES)[number]['days']
+
+export const DEFAULT_CHART_DAYS: ChartDays = '7'
+
+/**
+ * Either a preset number of days back from now, or a custom window
+ * expressed as unix timestamps in milliseconds
+ */
+export type ChartRange = { days: ChartDays } | { from: number; to: number }
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+function isChartDays(value: string): value is ChartDays {
+  return CHART_RANGES.some((range) => range.days === value)
+}
+
+function parseDateParam(value: string): number | null {
+  // Accept plain dates (YYYY-MM-DD) or unix timestamps in seconds
+  const timestamp = /^\d+$/.test(value)
+    ? parseInt(value, 10) * 1000
+    : Date.parse(value)
+  return Number.isNaN(timestamp) ? null : timestamp
+}
+
+/**
+ * Parses `days` or `from`/`to` query parameters into a chart range.
+ * Defaults to 7 days when nothing is given; returns null for invalid input.
+ */
+export function parseChartRange(
+  searchParams: URLSearchParams
+): ChartRange | null {
+  const fromParam = searchParams.get('from')
+  const toParam = searchParams.get('to')
+
+  if (fromParam || toParam) {
+    if (!fromParam || !toParam) return null
+
+    const from = parseDateParam(fromParam)
+    const to = parseDateParam(toParam)
+    if (from === null || to === null) return null
+
+    // Plain dates cover the whole end day, but never beyond the current
+    // minute (rounded so repeated requests share a cache entry)
+    const now = Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS
+    const end = Math.min(/^\d+$/.test(toParam) ? to : to + DAY_MS - 1, now)
+    if (from >= end) return null
+
+    return { from, to: end }
+  }
+
+  const days = parseChartDays(searchParams.get('days'))
+  return days ? { days } : null
+}
+
+/**
+ * Parses a `date` parameter (YYYY-MM-DD) naming a real calendar day no
+ * later than today in UTC. Returns null for invalid input.
+ */
+export function parseHistoryDate(value: string | null): string | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+
+  const timestamp = Date.parse(`${value}T00:00:00Z`)
+  // Rejects days that roll over, e.g. 2024-02-30
+  if (
+    Number.isNaN(timestamp) ||
+    new Date(timestamp).toISOString().slice(0, 10) !== value
+  ) {
+    return null
+  }
+
+  return timestamp <= Date.now() ? value : null
+}
+
+/**
+ * Latest day parseHistoryDate accepts, today in UTC, as a local calendar
+ * date for date pickers. East of UTC the local today can be a day ahead.
+ */
+export function getLatestHistoryDate(now = new Date()): Date {
+  return new Date(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+}
+
+/**
+ * Parses a preset `days` parameter, defaulting to 7 days when missing
+ */
+export function parseChartDays(value: string | null): ChartDays | null {
+  const days = value || DEFAULT_CHART_DAYS
+  return isChartDays(days) ? days : null
+}
+
+/**
+ * Start of a preset range as unix ms, or null when it covers all history
+ */
+export function getChartDaysStart(
+  days: ChartDays,
+  now = Date.now()
+): number | null {
+  return days === 'max' ? null : now - Number(days) * DAY_MS
+}
+
+/**
+ * Stable identifier for a range, used in cache keys
+ */
+export function getChartRangeKey(range: ChartRange): string {
+  return 'days' in range ? `d${range.days}` : `${range.from}-${range.to}`
+}
+
+export interface ChartTimeFormats {
+  tick: string
+  tooltip: string
+}
+
+/**
+ * Picks axis and tooltip date formats (date-fns patterns) from the points
+ * themselves, since the upstream granularity (5-minutely, hourly or daily)
+ * depends on the range
+ */
+export function getChartTimeFormats(timestamps: number[]): ChartTimeFormats {
+  const first = timestamps[0] ?? 0
+  const second = timestamps[1] ?? first
+  const last = timestamps[timestamps.length - 1] ?? first
+  const span = last - first
+  const intraday = timestamps.length > 1 && second - first < DAY_MS
+
+  if (intraday) {
+    return {
+      tick: span <= 2 * DAY_MS ? 'HH:mm' : 'MMM d',
+      tooltip: 'MMM d, HH:mm',
+    }
+  }
+
+  return {
+    tick: span > 365 * DAY_MS ? 'MMM yyyy' : 'MMM d',
+    tooltip: 'MMM d, yyyy',
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Side-by-side comparison of a few coins
+ * Shared by the compare page, its chart and the compare selection
+ */
+
+import type { ChartDataPoint } from '@/lib/types'
+
+export const MIN_COMPARE_ASSETS = 2
+export const MAX_COMPARE_ASSETS = 5
+
+/**
+ * Reads the comma-separated `ids` parameter, dropping blanks and repeats
+ * and keeping at most MAX_COMPARE_ASSETS coins
+ */
+export function parseCompareIds(value: string | null | undefined): string[] {
+  const ids = (value ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+
+  return [...new Set(ids)].slice(0, MAX_COMPARE_ASSETS)
+}
+
+export function getCompareHref(ids: string[]): string {
+  return ids.length > 0 ? `/compare?ids=${ids.join(',')}` : '/compare'
+}
+
+/**
+ * Turns prices into the percent change from the first point, so coins
+ * with very different prices share one axis
+ */
+export function toPercentChange(points: ChartDataPoint[]): ChartDataPoint[] {
+  const start = points[0]?.price
+  if (!start) return []
+
+  return points.map(({ timestamp, price }) => ({
+    timestamp,
+    price: ((price - start) / start) * 100,
+  }))
+}
+
+export interface CompareSeries {
+  id: string
+  points: ChartDataPoint[]
+}
+
+// One chart row: the timestamp plus a value per coin id
+export type CompareRow = { timestamp: number } & Record<string, number>
+
+/**
+ * Merges series into rows on the timestamps of the first one. Upstream
+ * points of different coins are a few seconds apart, so every other coin
+ * takes its latest point at or before each timestamp.
+ */
+export function alignSeries(series: CompareSeries[]): CompareRow[] {
+  const [reference, ...others] = series
+  if (!reference) return []
+
+  const cursors = others.map(() => 0)
+
+  return reference.points.map(({ timestamp, price }) => {
+    const row: CompareRow = { timestamp, [reference.id]: price }
+
+    others.forEach(({ id, points }, index) => {
+      let cursor = cursors[index]!
+      while (points[cursor + 1] && points[cursor + 1]!.timestamp <= timestamp) {
+        cursor++
+      }
+      cursors[index] = cursor
+
+      const point = points[cursor]
+      if (point && point.timestamp <= timestamp) row[id] = point.price
+    })
+
+    return row
+  })
+}
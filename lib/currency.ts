@@ -0,0 +1,55 @@
+/**
+ * Quote currencies supported across the app
+ * Codes match CoinGecko's vs_currency values
+ */
+
+import { z } from 'zod'
+
+export const SUPPORTED_CURRENCIES = [
+  { code: 'usd', label: 'US Dollar' },
+  { code: 'eur', label: 'Euro' },
+  { code: 'brl', label: 'Brazilian Real' },
+  { code: 'gbp', label: 'British Pound' },
+  { code: 'jpy', label: 'Japanese Yen' },
+  { code: 'cad', label: 'Canadian Dollar' },
+  { code: 'aud', label: 'Australian Dollar' },
+  { code: 'btc', label: 'Bitcoin' },
+  { code: 'eth', label: 'Ether' },
+] as const
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number]['code']
+
+export const DEFAULT_CURRENCY: Currency = 'usd'
+
+// Crypto quotes have no ISO 4217 code, so Intl cannot format them as currency
+const CRYPTO_CURRENCIES: Partial<
+  Record<Currency, { symbol: string; maximumFractionDigits: number }>
+> = {
+  btc: { symbol: '₿', maximumFractionDigits: 8 },
+  eth: { symbol: 'Ξ', maximumFractionDigits: 8 },
+}
+
+export function isSupportedCurrency(value: string): value is Currency {
+  return SUPPORTED_CURRENCIES.some((currency) => currency.code === value)
+}
+
+// Currency code in request bodies
+export const currencySchema = z.custom<Currency>(
+  (value) => typeof value === 'string' && isSupportedCurrency(value),
+  'Unsupported currency'
+)
+
+/**
+ * Parses a currency query parameter, falling back to the default currency
+ * for missing or unsupported values
+ */
+export function parseCurrency(value: string | null | undefined): Currency {
+  const normalized = value?.trim().toLowerCase()
+  return normalized && isSupportedCurrency(normalized)
+    ? normalized
+    : DEFAULT_CURRENCY
+}
+
+export function getCryptoCurrency(currency: Currency) {
+  return CRYPTO_CURRENCIES[currency]
+}
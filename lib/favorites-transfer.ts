@@ -0,0 +1,224 @@
+/**
+ * Favorites export and import files
+ * Exports list every favorite with its pin and position; imports accept
+ * those files back, or any list of coin ids
+ */
+
+import { z } from 'zod'
+import type { Favorite } from '@/lib/types'
+
+export const TRANSFER_FORMATS = ['json', 'csv'] as const
+
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number]
+
+export const MAX_IMPORT_ROWS = 1000
+
+// Body of POST /api/favorites/import
+export const favoritesImportSchema = z.object({
+  format: z.enum(TRANSFER_FORMATS, { error: 'format must be json or csv' }),
+  content: z.string().min(1, 'The file is empty').max(1_000_000),
+  // Only report what would be imported
+  dry_run: z.boolean().default(false),
+})
+
+export interface ImportRow {
+  // 1-based row of the file, counting the CSV header
+  row: number
+  asset_id: string
+  pinned: boolean
+}
+
+export interface InvalidRow {
+  row: number
+  message: string
+}
+
+export interface ParsedImport {
+  rows: ImportRow[]
+  invalid: InvalidRow[]
+}
+
+/**
+ * Error in the file as a whole, rather than in some of its rows
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFileError'
+  }
+}
+
+const CSV_COLUMNS = ['asset_id', 'pinned', 'position', 'created_at'] as const
+
+type ExportedFavorite = Pick<
+  Favorite,
+  'asset_id' | 'pinned' | 'position' | 'created_at'
+>
+
+function toExported({
+  asset_id,
+  pinned,
+  position,
+  created_at,
+}: Favorite): ExportedFavorite {
+  return { asset_id, pinned, position, created_at }
+}
+
+export function exportFavorites(
+  favorites: Favorite[],
+  format: TransferFormat
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ favorites: favorites.map(toExported) }, null, 2)
+  }
+
+  // Coin ids and ISO dates never contain commas or quotes
+  const lines = favorites.map((favorite) => {
+    const exported = toExported(favorite)
+    return CSV_COLUMNS.map((column) => String(exported[column])).join(',')
+  })
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
+
+// Coin ids are lowercase slugs such as "usd-coin"
+function normalizeAssetId(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const id = value.trim().toLowerCase()
+  return /^[a-z0-9][a-z0-9-]*$/.test(id) ? id : null
+}
+
+function parsePinned(value: unknown): boolean | null {
+  if (value === undefined || value === '' || value === false) return false
+  if (value === true) return true
+  if (typeof value !== 'string') return null
+
+  const normalized = value.trim().toLowerCase()
+  if (['true', 'yes', '1'].includes(normalized)) return true
+  if (['false', 'no', '0', ''].includes(normalized)) return false
+  return null
+}
+
+function toRow(
+  row: number,
+  assetId: unknown,
+  pinnedValue: unknown
+): ImportRow | InvalidRow {
+  const asset_id = normalizeAssetId(assetId)
+  if (!asset_id) return { row, message: 'Invalid asset id' }
+
+  const pinned = parsePinned(pinnedValue)
+  if (pinned === null) return { row, message: 'pinned must be true or false' }
+
+  return { row, asset_id, pinned }
+}
+
+function collect(results: (ImportRow | InvalidRow)[]): ParsedImport {
+  return {
+    rows: results.filter((result): result is ImportRow => 'asset_id' in result),
+    invalid: results.filter(
+      (result): result is InvalidRow => 'message' in result
+    ),
+  }
+}
+
+/**
+ * Reads a JSON export, or a bare array of ids or of `{ asset_id }` objects
+ */
+function parseJson(content: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new ImportFileError('The file is not valid JSON')
+  }
+
+  const items =
+    data && typeof data === 'object' && 'favorites' in data
+      ? data.favorites
+      : data
+
+  if (!Array.isArray(items)) {
+    throw new ImportFileError('Expected a list of favorites')
+  }
+
+  return collect(
+    items.map((item: unknown, index) =>
+      item && typeof item === 'object'
+        ? toRow(
+            index + 1,
+            (item as Record<string, unknown>).asset_id,
+            (item as Record<string, unknown>).pinned
+          )
+        : toRow(index + 1, item, undefined)
+    )
+  )
+}
+
+/**
+ * Reads a CSV with an asset_id column and an optional pinned column
+ */
+function parseCsv(content: string): ParsedImport {
+  const lines = content.split(/\r?\n/)
+  const header = (lines[0] ?? '')
+    .split(',')
+    .map((cell) => cell.trim().replace(/^"|"$/g, '').toLowerCase())
+  const idColumn = header.indexOf('asset_id')
+  const pinnedColumn = header.indexOf('pinned')
+
+  if (idColumn === -1) {
+    throw new ImportFileError('The CSV header must have an asset_id column')
+  }
+
+  const results: (ImportRow | InvalidRow)[] = []
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return
+
+    const cells = line
+      .split(',')
+      .map((cell) => cell.trim().replace(/^"|"$/g, ''))
+    results.push(
+      toRow(
+        index + 2,
+        cells[idColumn],
+        pinnedColumn === -1 ? undefined : cells[pinnedColumn]
+      )
+    )
+  })
+
+  return collect(results)
+}
+
+/**
+ * Parses an import file into valid and invalid rows
+ * @throws ImportFileError when the file cannot be read at all or has too
+ * many rows
+ */
+export function parseFavoritesImport(
+  content: string,
+  format: TransferFormat
+): ParsedImport {
+  const parsed = format === 'json' ? parseJson(content) : parseCsv(content)
+
+  if (parsed.rows.length + parsed.invalid.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(
+      `Files can hold at most ${MAX_IMPORT_ROWS} favorites`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Guesses the format of an uploaded file from its name, then its content
+ */
+export function detectTransferFormat(
+  fileName: string,
+  content: string
+): TransferFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'json' || extension === 'csv') return extension
+
+  const start = content.trimStart()[0]
+  return start === '{' || start === '[' ? 'json' : 'csv'
+}
@@ -0,0 +1,58 @@
+/**
+ * Favorites ordering and pinning
+ * Shared by the favorites API routes and the pages listing favorites
+ */
+
+import { z } from 'zod'
+import { MAX_ASSET_IDS } from '@/lib/market-query'
+import type { Favorite } from '@/lib/types'
+
+// Most favorites a user can keep, so a full reorder fits in one request
+export const MAX_FAVORITES = MAX_ASSET_IDS
+
+// Body of POST /api/favorites
+export const favoriteInputSchema = z.object({
+  asset_id: z
+    .string({ error: 'asset_id is required' })
+    .trim()
+    .min(1, 'asset_id is required'),
+})
+
+// Body of PATCH /api/favorites
+export const favoritePinSchema = z.object({
+  asset_id: z.string().trim().min(1, 'asset_id is required'),
+  pinned: z.boolean({ error: 'pinned must be a boolean' }),
+})
+
+// Body of PUT /api/favorites/order: every favorite, first one first
+export const favoritesOrderSchema = z.object({
+  asset_ids: z
+    .array(z.string().trim().min(1), { error: 'asset_ids must be a list' })
+    .min(1, 'asset_ids must not be empty')
+    .max(MAX_FAVORITES, `At most ${MAX_FAVORITES} favorites can be ordered`)
+    .refine(
+      (ids) => new Set(ids).size === ids.length,
+      'asset_ids must not repeat'
+    ),
+})
+
+/**
+ * Moves pinned items before the others, keeping the order within each group
+ */
+export function pinnedFirst<T>(items: T[], isPinned: (item: T) => boolean) {
+  return [
+    ...items.filter((item) => isPinned(item)),
+    ...items.filter((item) => !isPinned(item)),
+  ]
+}
+
+/**
+ * Order of GET /api/favorites: pinned first, then by position, then newest
+ */
+export function compareFavorites(a: Favorite, b: Favorite): number {
+  return (
+    Number(b.pinned) - Number(a.pinned) ||
+    a.position - b.position ||
+    Date.parse(b.created_at) - Date.parse(a.created_at)
+  )
+}
@@ -0,0 +1,44 @@
+/**
+ * Overall market figures as shown by the header ticker and the explorer
+ * overview, so both label and format them the same way
+ */
+
+import type { Currency } from '@/lib/currency'
+import type { GlobalMarketData } from '@/lib/types'
+import { formatPrice } from '@/lib/utils'
+
+export interface MarketStat {
+  label: string
+  value: string
+  // 24h change in percent, when the figure has one
+  change?: number
+}
+
+function formatShare(value: number): string {
+  return `${value.toFixed(1)}%`
+}
+
+export function getMarketStats(
+  data: GlobalMarketData,
+  currency: Currency
+): MarketStat[] {
+  return [
+    {
+      label: 'Market Cap',
+      value: formatPrice(data.total_market_cap, true, currency),
+      change: data.market_cap_change_percentage_24h,
+    },
+    {
+      label: '24h Volume',
+      value: formatPrice(data.total_volume, true, currency),
+    },
+    { label: 'BTC Dominance', value: formatShare(data.btc_dominance) },
+    { label: 'ETH Dominance', value: formatShare(data.eth_dominance) },
+    {
+      label: 'Active Coins',
+      value: new Intl.NumberFormat('en-US').format(
+        data.active_cryptocurrencies
+      ),
+    },
+  ]
+}
@@ -0,0 +1,352 @@
+/**
+ * Technical indicators drawn over the price chart
+ * Every series lines up with its input and holds null until enough
+ * points are in for the first value
+ */
+
+import type { ChartDataPoint } from '@/lib/types'
+
+export type IndicatorSeries = (number | null)[]
+
+export interface MacdResult {
+  macd: IndicatorSeries
+  signal: IndicatorSeries
+  histogram: IndicatorSeries
+}
+
+export interface BollingerBandsResult {
+  middle: IndicatorSeries
+  upper: IndicatorSeries
+  lower: IndicatorSeries
+}
+
+// Periods count points, so anything but a positive whole number is a bug
+function assertPeriod(name: string, period: number) {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`${name} must be a positive integer, got ${period}`)
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Simple moving average over the last `period` values
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  assertPeriod('SMA period', period)
+  return values.map((_, index) =>
+    index < period - 1
+      ? null
+      : mean(values.slice(index - period + 1, index + 1))
+  )
+}
+
+/**
+ * Exponential moving average, seeded with the simple average of the first
+ * `period` values
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  assertPeriod('EMA period', period)
+  const result: IndicatorSeries = values.map(() => null)
+  if (values.length < period) return result
+
+  const weight = 2 / (period + 1)
+  let previous = mean(values.slice(0, period))
+  result[period - 1] = previous
+
+  for (let index = period; index < values.length; index++) {
+    previous = (values[index] ?? previous) * weight + previous * (1 - weight)
+    result[index] = previous
+  }
+
+  return result
+}
+
+function toRsi(averageGain: number, averageLoss: number): number {
+  if (averageLoss === 0) return averageGain === 0 ? 50 : 100
+  return 100 - 100 / (1 + averageGain / averageLoss)
+}
+
+/**
+ * Relative strength index on a 0-100 scale, using Wilder's smoothing
+ */
+export function rsi(values: number[], period = 14): IndicatorSeries {
+  assertPeriod('RSI period', period)
+  const result: IndicatorSeries = values.map(() => null)
+  if (values.length <= period) return result
+
+  const changes = values
+    .slice(1)
+    .map((value, index) => value - (values[index] ?? value))
+  const gains = changes.map((change) => Math.max(change, 0))
+  const losses = changes.map((change) => Math.max(-change, 0))
+
+  let averageGain = mean(gains.slice(0, period))
+  let averageLoss = mean(losses.slice(0, period))
+  result[period] = toRsi(averageGain, averageLoss)
+
+  for (let index = period; index < changes.length; index++) {
+    averageGain = (averageGain * (period - 1) + (gains[index] ?? 0)) / period
+    averageLoss = (averageLoss * (period - 1) + (losses[index] ?? 0)) / period
+    result[index + 1] = toRsi(averageGain, averageLoss)
+  }
+
+  return result
+}
+
+/**
+ * Moving average convergence divergence: the gap between a fast and a slow
+ * EMA, its own EMA as the signal line and the difference as a histogram
+ */
+export function macd(
+  values: number[],
+  fast = 12,
+  slow = 26,
+  signal = 9
+): MacdResult {
+  assertPeriod('MACD fast period', fast)
+  assertPeriod('MACD slow period', slow)
+  assertPeriod('MACD signal period', signal)
+  if (fast >= slow) {
+    throw new RangeError(
+      `MACD fast period must be shorter than the slow one, got ${fast} and ${slow}`
+    )
+  }
+
+  const fastEma = ema(values, fast)
+  const slowEma = ema(values, slow)
+  const macdLine = values.map((_, index) => {
+    const fastValue = fastEma[index]
+    const slowValue = slowEma[index]
+    return typeof fastValue === 'number' && typeof slowValue === 'number'
+      ? fastValue - slowValue
+      : null
+  })
+
+  // The signal line only starts once the MACD line has values
+  const start = macdLine.findIndex((value) => value !== null)
+  const signalLine: IndicatorSeries =
+    start === -1
+      ? values.map(() => null)
+      : [
+          ...macdLine.slice(0, start).map(() => null),
+          ...ema(macdLine.slice(start) as number[], signal),
+        ]
+
+  return {
+    macd: macdLine,
+    signal: signalLine,
+    histogram: macdLine.map((value, index) => {
+      const signalValue = signalLine[index]
+      return value !== null && typeof signalValue === 'number'
+        ? value - signalValue
+        : null
+    }),
+  }
+}
+
+/**
+ * Simple moving average with bands `deviations` standard deviations above
+ * and below it
+ */
+export function bollingerBands(
+  values: number[],
+  period = 20,
+  deviations = 2
+): BollingerBandsResult {
+  if (!(deviations > 0)) {
+    throw new RangeError(
+      `Bollinger deviations must be positive, got ${deviations}`
+    )
+  }
+
+  const middle = sma(values, period)
+  const spread = middle.map((average, index) => {
+    if (average === null) return null
+    const window = values.slice(index - period + 1, index + 1)
+    const variance = mean(window.map((value) => (value - average) ** 2))
+    return Math.sqrt(variance) * deviations
+  })
+
+  return {
+    middle,
+    upper: middle.map((average, index) => {
+      const offset = spread[index]
+      return average !== null && typeof offset === 'number'
+        ? average + offset
+        : null
+    }),
+    lower: middle.map((average, index) => {
+      const offset = spread[index]
+      return average !== null && typeof offset === 'number'
+        ? average - offset
+        : null
+    }),
+  }
+}
+
+export interface IndicatorSettings {
+  sma: { period: number }
+  ema: { period: number }
+  bollinger: { period: number; deviations: number }
+  rsi: { period: number }
+  macd: { fast: number; slow: number; signal: number }
+}
+
+export type IndicatorId = keyof IndicatorSettings
+
+export interface IndicatorParam {
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+export interface IndicatorDefinition<K extends IndicatorId = IndicatorId> {
+  label: string
+  // Overlays share the price axis, oscillators get a pane of their own
+  pane: 'price' | 'oscillator'
+  params: Record<keyof IndicatorSettings[K], IndicatorParam>
+}
+
+const PERIOD: IndicatorParam = { label: 'Period', min: 2, max: 200, step: 1 }
+
+export const INDICATORS: { [K in IndicatorId]: IndicatorDefinition<K> } = {
+  sma: { label: 'SMA', pane: 'price', params: { period: PERIOD } },
+  ema: { label: 'EMA', pane: 'price', params: { period: PERIOD } },
+  bollinger: {
+    label: 'Bollinger Bands',
+    pane: 'price',
+    params: {
+      period: PERIOD,
+      deviations: { label: 'Std. Dev.', min: 0.5, max: 5, step: 0.5 },
+    },
+  },
+  rsi: { label: 'RSI', pane: 'oscillator', params: { period: PERIOD } },
+  macd: {
+    label: 'MACD',
+    pane: 'oscillator',
+    params: {
+      fast: { ...PERIOD, label: 'Fast' },
+      slow: { ...PERIOD, label: 'Slow' },
+      signal: { ...PERIOD, label: 'Signal' },
+    },
+  },
+}
+
+export const INDICATOR_IDS = Object.keys(INDICATORS) as IndicatorId[]
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: { period: 20 },
+  ema: { period: 50 },
+  bollinger: { period: 20, deviations: 2 },
+  rsi: { period: 14 },
+  macd: { fast: 12, slow: 26, signal: 9 },
+}
+
+export function isValidIndicatorParam(
+  param: IndicatorParam,
+  value: number
+): boolean {
+  return (
+    Number.isFinite(value) &&
+    value >= param.min &&
+    value <= param.max &&
+    Number.isInteger(value / param.step)
+  )
+}
+
+/**
+ * Why the settings of an indicator cannot be drawn, or null when they can
+ */
+export function getIndicatorSettingsError<K extends IndicatorId>(
+  id: K,
+  values: IndicatorSettings[K]
+): string | null {
+  const params: Record<string, IndicatorParam> = INDICATORS[id].params
+  const entries: [string, number][] = Object.entries(values)
+
+  for (const [key, value] of entries) {
+    const param = params[key]
+    if (!param) return `Unknown setting ${key}`
+    if (!isValidIndicatorParam(param, value)) {
+      return `${param.label} must be between ${param.min} and ${param.max}`
+    }
+  }
+
+  if (id === 'macd') {
+    const { fast, slow } = values as IndicatorSettings['macd']
+    if (fast >= slow) return 'Fast period must be shorter than the slow one'
+  }
+
+  return null
+}
+
+/**
+ * A chart point with the values of every enabled indicator
+ */
+export interface IndicatorPoint extends ChartDataPoint {
+  sma?: number | null
+  ema?: number | null
+  bollingerUpper?: number | null
+  bollingerMiddle?: number | null
+  bollingerLower?: number | null
+  rsi?: number | null
+  macd?: number | null
+  macdSignal?: number | null
+  macdHistogram?: number | null
+}
+
+/**
+ * Adds the series of the enabled indicators to each price point, so the
+ * price pane and the oscillator panes can share one data array
+ */
+export function withIndicators(
+  points: ChartDataPoint[],
+  enabled: IndicatorId[],
+  settings: IndicatorSettings
+): IndicatorPoint[] {
+  const prices = points.map((point) => point.price)
+  // Settings the menu flags as invalid are left off the chart
+  const isEnabled = (id: IndicatorId) =>
+    enabled.includes(id) && getIndicatorSettingsError(id, settings[id]) === null
+  const series: Partial<Record<keyof IndicatorPoint, IndicatorSeries>> = {}
+
+  if (isEnabled('sma')) {
+    series.sma = sma(prices, settings.sma.period)
+  }
+  if (isEnabled('ema')) {
+    series.ema = ema(prices, settings.ema.period)
+  }
+  if (isEnabled('bollinger')) {
+    const { period, deviations } = settings.bollinger
+    const bands = bollingerBands(prices, period, deviations)
+    series.bollingerUpper = bands.upper
+    series.bollingerMiddle = bands.middle
+    series.bollingerLower = bands.lower
+  }
+  if (isEnabled('rsi')) {
+    series.rsi = rsi(prices, settings.rsi.period)
+  }
+  if (isEnabled('macd')) {
+    const { fast, slow, signal } = settings.macd
+    const result = macd(prices, fast, slow, signal)
+    series.macd = result.macd
+    series.macdSignal = result.signal
+    series.macdHistogram = result.histogram
+  }
+
+  const entries = Object.entries(series) as [
+    keyof IndicatorPoint,
+    IndicatorSeries,
+  ][]
+
+  return points.map((point, index) => ({
+    ...point,
+    ...Object.fromEntries(
+      entries.map(([key, values]) => [key, values[index] ?? null])
+    ),
+  }))
+}
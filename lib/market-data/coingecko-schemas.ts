@@ -0,0 +1,183 @@
+/**
+ * Runtime schemas for the CoinGecko payloads we consume
+ * Only the fields we read are declared; CoinGecko reports null (or omits
+ * the field) whenever a value is unknown, so most of them are nullish
+ */
+
+import { z } from 'zod'
+
+const optionalNumber = z.number().nullish()
+
+// Values keyed by quote currency, e.g. { usd: 1.23, eur: 1.1 }
+const currencyNumbers = z.record(z.string(), z.number().nullable()).nullish()
+const currencyDates = z.record(z.string(), z.string().nullable()).nullish()
+
+export const coinMarketsSchema = z.array(
+  z.object({
+    id: z.string(),
+    symbol: z.string(),
+    name: z.string(),
+    image: z.string().nullish(),
+    current_price: optionalNumber,
+    market_cap: optionalNumber,
+    total_volume: optionalNumber,
+    price_change_percentage_24h: optionalNumber,
+  })
+)
+
+export const coinDetailSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  image: z
+    .object({
+      large: z.string().nullish(),
+      small: z.string().nullish(),
+    })
+    .nullish(),
+  market_cap_rank: optionalNumber,
+  market_data: z
+    .object({
+      current_price: currencyNumbers,
+      market_cap: currencyNumbers,
+      total_volume: currencyNumbers,
+      high_24h: currencyNumbers,
+      low_24h: currencyNumbers,
+      ath: currencyNumbers,
+      ath_change_percentage: currencyNumbers,
+      ath_date: currencyDates,
+      atl: currencyNumbers,
+      atl_change_percentage: currencyNumbers,
+      atl_date: currencyDates,
+      price_change_percentage_24h: optionalNumber,
+      price_change_percentage_7d: optionalNumber,
+      price_change_percentage_30d: optionalNumber,
+      circulating_supply: optionalNumber,
+      total_supply: optionalNumber,
+      max_supply: optionalNumber,
+    })
+    .nullish(),
+  description: z.record(z.string(), z.string().nullable()).nullish(),
+  links: z
+    .object({
+      homepage: z.array(z.string().nullable()).nullish(),
+      blockchain_site: z.array(z.string().nullable()).nullish(),
+    })
+    .nullish(),
+  categories: z.array(z.string().nullable()).nullish(),
+})
+
+export const coinActivitySchema = z.object({
+  id: z.string(),
+  developer_data: z
+    .object({
+      forks: optionalNumber,
+      stars: optionalNumber,
+      subscribers: optionalNumber,
+      total_issues: optionalNumber,
+      closed_issues: optionalNumber,
+      pull_requests_merged: optionalNumber,
+      pull_request_contributors: optionalNumber,
+      commit_count_4_weeks: optionalNumber,
+    })
+    .nullish(),
+  community_data: z
+    .object({
+      twitter_followers: optionalNumber,
+      reddit_subscribers: optionalNumber,
+      reddit_accounts_active_48h: optionalNumber,
+      telegram_channel_user_count: optionalNumber,
+    })
+    .nullish(),
+})
+
+export const coinHistorySchema = z.object({
+  id: z.string(),
+  // Missing for days before the coin was listed
+  market_data: z
+    .object({
+      current_price: currencyNumbers,
+      market_cap: currencyNumbers,
+      total_volume: currencyNumbers,
+    })
+    .nullish(),
+})
+
+// [timestamp, price] pairs
+export const marketChartSchema = z.object({
+  prices: z.array(z.tuple([z.number(), z.number()])),
+})
+
+// [timestamp, open, high, low, close] candles
+export const ohlcSchema = z.array(
+  z.tuple([z.number(), z.number(), z.number(), z.number(), z.number()])
+)
+
+export const globalSchema = z.object({
+  data: z.object({
+    active_cryptocurrencies: optionalNumber,
+    total_market_cap: currencyNumbers,
+    total_volume: currencyNumbers,
+    market_cap_percentage: currencyNumbers,
+    market_cap_change_percentage_24h_usd: optionalNumber,
+    // Unix timestamp in seconds
+    updated_at: optionalNumber,
+  }),
+})
+
+export const tickersSchema = z.object({
+  tickers: z.array(
+    z.object({
+      base: z.string(),
+      target: z.string(),
+      market: z.object({
+        name: z.string(),
+        identifier: z.string(),
+      }),
+      converted_last: currencyNumbers,
+      converted_volume: currencyNumbers,
+      bid_ask_spread_percentage: optionalNumber,
+      trust_score: z.enum(['green', 'yellow', 'red']).nullish(),
+      trade_url: z.string().nullish(),
+    })
+  ),
+})
+
+export const trendingSchema = z.object({
+  coins: z
+    .array(
+      z.object({
+        item: z.object({
+          id: z.string(),
+          name: z.string(),
+          symbol: z.string(),
+          thumb: z.string().nullish(),
+          market_cap_rank: optionalNumber,
+        }),
+      })
+    )
+    .nullish(),
+})
+
+export const categoriesSchema = z.array(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    market_cap: optionalNumber,
+    market_cap_change_24h: optionalNumber,
+  })
+)
+
+export const searchSchema = z.object({
+  coins: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        symbol: z.string(),
+        thumb: z.string().nullish(),
+        market_cap_rank: optionalNumber,
+      })
+    )
+    .nullish(),
+})
@@ -0,0 +1,398 @@
+/**
+ * CoinGecko market data provider
+ * Wraps the public CoinGecko v3 API and maps its payloads to our types
+ */
+
+import { z } from 'zod'
+import type {
+  AssetActivity,
+  AssetDetail,
+  ChartDataPoint,
+  CryptoAsset,
+  ExchangeTicker,
+  GlobalMarketData,
+  HistoricalSnapshot,
+  MarketCategory,
+  OhlcDataPoint,
+  SearchResult,
+} from '@/lib/types'
+import { DEFAULT_MARKET_ORDER } from '@/lib/market-query'
+import {
+  getBackoffDelay,
+  parseRetryAfter,
+  RateLimiter,
+} from '@/lib/rate-limiter'
+import { SingleFlight } from '@/lib/single-flight'
+import {
+  coinDetailSchema,
+  coinHistorySchema,
+  categoriesSchema,
+  coinActivitySchema,
+  coinMarketsSchema,
+  globalSchema,
+  marketChartSchema,
+  ohlcSchema,
+  searchSchema,
+  tickersSchema,
+  trendingSchema,
+} from './coingecko-schemas'
+import {
+  MarketDataError,
+  UpstreamPayloadError,
+  type HistoryParams,
+  type ListMarketsParams,
+  type MarketDataProvider,
+  type OhlcParams,
+  type PriceHistoryParams,
+  type QuoteParams,
+  type TickersParams,
+} from './types'
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3'
+
+// Retries after a 429, and the longest a request may be held waiting for
+// the rate limit before failing fast
+const MAX_RETRIES = 2
+const MAX_WAIT_MS = 5 * 1000
+const BACKOFF_BASE_MS = 500
+const BACKOFF_MAX_MS = 4 * 1000
+
+// Shared by every CoinGecko request; sized for the free tier (30 calls per
+// minute) with a small burst allowance
+export const coinGeckoRateLimiter = new RateLimiter({
+  capacity: 10,
+  refillPerMinute: 30,
+})
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko'
+
+  // Parsed payloads of in-flight requests, keyed by upstream URL
+  private requests = new SingleFlight<unknown>()
+
+  async listMarkets({
+    page,
+    perPage,
+    currency,
+    order = DEFAULT_MARKET_ORDER,
+    ids,
+    category,
+  }: ListMarketsParams): Promise<CryptoAsset[]> {
+    const idsParam = ids ? `&ids=${ids.map(encodeURIComponent).join(',')}` : ''
+    const categoryParam = category
+      ? `&category=${encodeURIComponent(category)}`
+      : ''
+    const url = `${COINGECKO_API_URL}/coins/markets?vs_currency=${currency}&order=${order}&per_page=${perPage}&page=${page}&sparkline=false${idsParam}${categoryParam}`
+
+    const data = await this.getJson(url, coinMarketsSchema, {
+      next: { revalidate: 300 }, // 5 minutes cache
+    })
+
+    return data.map((coin) => ({
+      id: coin.id,
+      name: coin.name,
+      symbol: coin.symbol,
+      image: coin.image ?? '',
+      current_price: coin.current_price ?? 0,
+      price_change_percentage_24h: coin.price_change_percentage_24h ?? 0,
+      market_cap: coin.market_cap ?? undefined,
+      total_volume: coin.total_volume ?? undefined,
+    }))
+  }
+
+  async getAssetDetail(
+    id: string,
+    { currency }: QuoteParams
+  ): Promise<AssetDetail> {
+    const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}?localization=false&tickers=false&community_data=false&developer_data=false&sparkline=false`
+
+    const data = await this.getJson(url, coinDetailSchema)
+    const market = data.market_data
+
+    // Transform data to match our needs
+    return {
+      id: data.id,
+      symbol: data.symbol,
+      name: data.name,
+      image: data.image?.large ?? data.image?.small ?? '',
+      current_price: market?.current_price?.[currency] ?? 0,
+      market_cap: market?.market_cap?.[currency] ?? 0,
+      market_cap_rank: data.market_cap_rank ?? 0,
+      total_volume: market?.total_volume?.[currency] ?? 0,
+      price_change_percentage_24h: market?.price_change_percentage_24h ?? 0,
+      price_change_percentage_7d: market?.price_change_percentage_7d ?? 0,
+      price_change_percentage_30d: market?.price_change_percentage_30d ?? 0,
+      circulating_supply: market?.circulating_supply ?? 0,
+      total_supply: market?.total_supply ?? null,
+      max_supply: market?.max_supply ?? null,
+      ath: market?.ath?.[currency] ?? 0,
+      ath_change_percentage: market?.ath_change_percentage?.[currency] ?? 0,
+      ath_date: market?.ath_date?.[currency] ?? '',
+      atl: market?.atl?.[currency] ?? 0,
+      atl_change_percentage: market?.atl_change_percentage?.[currency] ?? 0,
+      atl_date: market?.atl_date?.[currency] ?? '',
+      high_24h: market?.high_24h?.[currency] ?? 0,
+      low_24h: market?.low_24h?.[currency] ?? 0,
+      description: data.description?.en ?? '',
+      homepage: data.links?.homepage?.find((site) => site) ?? '',
+      blockchain_site: data.links?.blockchain_site?.find((site) => site) ?? '',
+      categories: (data.categories ?? []).filter(
+        (category): category is string => Boolean(category)
+      ),
+    }
+  }
+
+  async getAssetActivity(id: string): Promise<AssetActivity> {
+    const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}?localization=false&tickers=false&market_data=false&community_data=true&developer_data=true&sparkline=false`
+
+    const data = await this.getJson(url, coinActivitySchema)
+    const developer = data.developer_data
+    const community = data.community_data
+
+    return {
+      id: data.id,
+      developer: {
+        stars: developer?.stars ?? null,
+        forks: developer?.forks ?? null,
+        subscribers: developer?.subscribers ?? null,
+        total_issues: developer?.total_issues ?? null,
+        closed_issues: developer?.closed_issues ?? null,
+        pull_requests_merged: developer?.pull_requests_merged ?? null,
+        pull_request_contributors: developer?.pull_request_contributors ?? null,
+        commit_count_4_weeks: developer?.commit_count_4_weeks ?? null,
+      },
+      community: {
+        twitter_followers: community?.twitter_followers ?? null,
+        reddit_subscribers: community?.reddit_subscribers ?? null,
+        reddit_accounts_active_48h:
+          community?.reddit_accounts_active_48h ?? null,
+        telegram_channel_user_count:
+          community?.telegram_channel_user_count ?? null,
+      },
+    }
+  }
+
+  async getPriceHistory(
+    id: string,
+    { currency, range }: PriceHistoryParams
+  ): Promise<ChartDataPoint[]> {
+    // CoinGecko picks the granularity: 5-minutely for 1 day, hourly up to
+    // 90 days and daily beyond that
+    const url =
+      'days' in range
+        ? `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}/market_chart?vs_currency=${currency}&days=${range.days}`
+        : `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}/market_chart/range?vs_currency=${currency}&from=${Math.floor(range.from / 1000)}&to=${Math.floor(range.to / 1000)}`
+
+    const data = await this.getJson(url, marketChartSchema)
+
+    return data.prices.map(([timestamp, price]) => ({ timestamp, price }))
+  }
+
+  async getOhlc(
+    id: string,
+    { currency, days }: OhlcParams
+  ): Promise<OhlcDataPoint[]> {
+    // Candle size is chosen upstream: 30 minutes up to 2 days, 4 hours up
+    // to 30 days and 4 days beyond that
+    const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}/ohlc?vs_currency=${currency}&days=${days}`
+
+    const data = await this.getJson(url, ohlcSchema)
+
+    return data.map(([timestamp, open, high, low, close]) => ({
+      timestamp,
+      open,
+      high,
+      low,
+      close,
+    }))
+  }
+
+  async getHistory(
+    id: string,
+    { currency, date }: HistoryParams
+  ): Promise<HistoricalSnapshot | null> {
+    // The endpoint takes dd-mm-yyyy
+    const [year, month, day] = date.split('-')
+    const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}/history?date=${day}-${month}-${year}&localization=false`
+
+    const data = await this.getJson(url, coinHistorySchema)
+    const price = data.market_data?.current_price?.[currency]
+
+    if (price === undefined || price === null) return null
+
+    return {
+      id: data.id,
+      date,
+      price,
+      market_cap: data.market_data?.market_cap?.[currency] ?? null,
+      total_volume: data.market_data?.total_volume?.[currency] ?? null,
+    }
+  }
+
+  async getTickers(
+    id: string,
+    { page }: TickersParams
+  ): Promise<ExchangeTicker[]> {
+    const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(id)}/tickers?page=${page}&order=volume_desc`
+
+    const data = await this.getJson(url, tickersSchema)
+
+    return data.tickers.map((ticker) => ({
+      exchange: ticker.market.name,
+      exchange_id: ticker.market.identifier,
+      pair: `${ticker.base}/${ticker.target}`,
+      last_price: ticker.converted_last?.usd ?? null,
+      volume: ticker.converted_volume?.usd ?? null,
+      spread: ticker.bid_ask_spread_percentage ?? null,
+      trust_score: ticker.trust_score ?? null,
+      trade_url: ticker.trade_url ?? null,
+    }))
+  }
+
+  async searchCoins(query: string): Promise<SearchResult[]> {
+    const url = `${COINGECKO_API_URL}/search?query=${encodeURIComponent(query)}`
+
+    const data = await this.getJson(url, searchSchema)
+
+    // The endpoint also matches exchanges, categories and NFTs; keep coins
+    return (data.coins ?? []).map((coin) => ({
+      id: coin.id,
+      name: coin.name,
+      symbol: coin.symbol,
+      thumb: coin.thumb ?? '',
+      market_cap_rank: coin.market_cap_rank ?? null,
+    }))
+  }
+
+  async getTrending(): Promise<SearchResult[]> {
+    const url = `${COINGECKO_API_URL}/search/trending`
+
+    const data = await this.getJson(url, trendingSchema)
+
+    // The endpoint also lists trending NFTs and categories; keep coins
+    return (data.coins ?? []).map(({ item }) => ({
+      id: item.id,
+      name: item.name,
+      symbol: item.symbol,
+      thumb: item.thumb ?? '',
+      market_cap_rank: item.market_cap_rank ?? null,
+    }))
+  }
+
+  async listCategories(): Promise<MarketCategory[]> {
+    const url = `${COINGECKO_API_URL}/coins/categories?order=market_cap_desc`
+
+    const data = await this.getJson(url, categoriesSchema)
+
+    return data.map((category) => ({
+      id: category.id,
+      name: category.name,
+      market_cap: category.market_cap ?? null,
+      market_cap_change_24h: category.market_cap_change_24h ?? null,
+    }))
+  }
+
+  async getGlobalData({ currency }: QuoteParams): Promise<GlobalMarketData> {
+    const url = `${COINGECKO_API_URL}/global`
+
+    const { data } = await this.getJson(url, globalSchema)
+
+    return {
+      total_market_cap: data.total_market_cap?.[currency] ?? 0,
+      total_volume: data.total_volume?.[currency] ?? 0,
+      btc_dominance: data.market_cap_percentage?.btc ?? 0,
+      eth_dominance: data.market_cap_percentage?.eth ?? 0,
+      // Only reported against USD; the change is close in other currencies
+      market_cap_change_percentage_24h:
+        data.market_cap_change_percentage_24h_usd ?? 0,
+      active_cryptocurrencies: data.active_cryptocurrencies ?? 0,
+      updated_at: (data.updated_at ?? 0) * 1000,
+    }
+  }
+
+  /**
+   * Fetches a CoinGecko endpoint and validates its payload against the
+   * schema; concurrent calls for the same URL share a single upstream request
+   */
+  private async getJson<Schema extends z.ZodType>(
+    url: string,
+    schema: Schema,
+    init?: RequestInit
+  ): Promise<z.output<Schema>> {
+    const data = await this.fetchJson(url, init)
+    const result = schema.safeParse(data)
+
+    if (!result.success) {
+      const { pathname } = new URL(url)
+      throw new UpstreamPayloadError(
+        `Unexpected CoinGecko payload from ${pathname}: ${z.prettifyError(result.error)}`
+      )
+    }
+
+    return result.data
+  }
+
+  private fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+    return this.requests.run(url, async () => {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForBudget()
+
+        const response = await fetch(url, {
+          ...init,
+          headers: {
+            Accept: 'application/json',
+          },
+        })
+
+        if (response.status === 429) {
+          // Honour Retry-After, but never retry sooner than the backoff
+          const delay = Math.max(
+            parseRetryAfter(response.headers?.get('Retry-After')) ?? 0,
+            getBackoffDelay(attempt, BACKOFF_BASE_MS, BACKOFF_MAX_MS)
+          )
+          coinGeckoRateLimiter.pauseFor(delay)
+
+          if (attempt < MAX_RETRIES && delay <= MAX_WAIT_MS) {
+            await sleep(delay)
+            continue
+          }
+
+          throw new MarketDataError(
+            'CoinGecko API returned 429',
+            429,
+            Math.ceil(delay / 1000)
+          )
+        }
+
+        this.assertOk(response)
+
+        return response.json()
+      }
+    })
+  }
+
+  private async waitForBudget(): Promise<void> {
+    const wait = coinGeckoRateLimiter.reserve(MAX_WAIT_MS)
+
+    if (wait === null) {
+      throw new MarketDataError(
+        'CoinGecko rate limit budget exhausted',
+        429,
+        Math.ceil(coinGeckoRateLimiter.getWaitTime() / 1000)
+      )
+    }
+
+    if (wait > 0) await sleep(wait)
+  }
+
+  private assertOk(response: Response): void {
+    if (!response.ok) {
+      throw new MarketDataError(
+        `CoinGecko API returned ${response.status}`,
+        response.status
+      )
+    }
+  }
+}
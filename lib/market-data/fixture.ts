@@ -0,0 +1,466 @@
+/**
+ * Fixture market data provider
+ * Serves a static snapshot of assets and deterministic price history so the
+ * app, integration tests and e2e tests can run without network access
+ */
+
+import type { Currency } from '@/lib/currency'
+import type {
+  AssetActivity,
+  AssetDetail,
+  ChartDataPoint,
+  CryptoAsset,
+  ExchangeTicker,
+  GlobalMarketData,
+  HistoricalSnapshot,
+  MarketCategory,
+  OhlcDataPoint,
+  SearchResult,
+  TrustScore,
+} from '@/lib/types'
+import { applyMarketQuery, DEFAULT_MARKET_ORDER } from '@/lib/market-query'
+import fixtureAssets from './fixtures/assets.json'
+import {
+  MarketDataError,
+  type HistoryParams,
+  type ListMarketsParams,
+  type MarketDataProvider,
+  type OhlcParams,
+  type PriceHistoryParams,
+  type QuoteParams,
+  type TickersParams,
+  TICKERS_PER_PAGE,
+} from './types'
+
+// Fixed reference time so generated history is identical on every run
+export const FIXTURE_NOW = Date.UTC(2025, 0, 15)
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// How far back the "max" range reaches in the fixture data
+const MAX_HISTORY_DAYS = 5 * 365
+
+// Exchanges and quote symbols the fixture tickers are spread across
+const FIXTURE_EXCHANGES = [
+  { id: 'binance', name: 'Binance' },
+  { id: 'gdax', name: 'Coinbase Exchange' },
+  { id: 'kraken', name: 'Kraken' },
+  { id: 'okex', name: 'OKX' },
+  { id: 'bybit_spot', name: 'Bybit' },
+  { id: 'kucoin', name: 'KuCoin' },
+  { id: 'gate', name: 'Gate' },
+  { id: 'bitstamp', name: 'Bitstamp' },
+]
+const FIXTURE_TARGETS = ['USDT', 'USDC', 'USD']
+
+// How many coins the trending list holds, like CoinGecko's
+const TRENDING_SIZE = 7
+
+// Fixture prices are stored in USD
+const assets = fixtureAssets as AssetDetail[]
+
+/**
+ * Category id for a category name, e.g. "Layer 1 (L1)" becomes
+ * "layer-1-l1"
+ */
+function getCategoryId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+function isInCategory(asset: AssetDetail, category: string): boolean {
+  return asset.categories.some((name) => getCategoryId(name) === category)
+}
+
+/**
+ * Units of each quote currency per 1 USD. Crypto rates are derived from the
+ * snapshot itself so BTC and ETH quote at exactly 1 against themselves.
+ */
+function getUsdRate(currency: Currency): number {
+  switch (currency) {
+    case 'usd':
+      return 1
+    case 'eur':
+      return 0.96
+    case 'brl':
+      return 6.05
+    case 'gbp':
+      return 0.82
+    case 'jpy':
+      return 156.4
+    case 'cad':
+      return 1.44
+    case 'aud':
+      return 1.6
+    case 'btc':
+      return 1 / findFixtureAsset('bitcoin').current_price
+    case 'eth':
+      return 1 / findFixtureAsset('ethereum').current_price
+  }
+}
+
+function findFixtureAsset(id: string): AssetDetail {
+  const asset = assets.find((item) => item.id === id)
+  if (!asset) {
+    throw new MarketDataError(`Unknown fixture asset: ${id}`, 404)
+  }
+  return asset
+}
+
+function convertAsset(asset: AssetDetail, currency: Currency): AssetDetail {
+  const rate = getUsdRate(currency)
+
+  return {
+    ...asset,
+    current_price: asset.current_price * rate,
+    market_cap: asset.market_cap * rate,
+    total_volume: asset.total_volume * rate,
+    ath: asset.ath * rate,
+    atl: asset.atl * rate,
+    high_24h: asset.high_24h * rate,
+    low_24h: asset.low_24h * rate,
+  }
+}
+
+/**
+ * Groups a price series into candles of the given period, stamped with the
+ * close time of each candle like CoinGecko does
+ */
+function aggregateOhlc(
+  points: ChartDataPoint[],
+  period: number
+): OhlcDataPoint[] {
+  const candles: OhlcDataPoint[] = []
+
+  for (const [index, { timestamp, price }] of points.entries()) {
+    const closeTime = Math.ceil(timestamp / period) * period
+    const candle = candles[candles.length - 1]
+
+    // A first point on a boundary only opens the next candle
+    if (index === 0 && closeTime === timestamp && points.length > 1) continue
+
+    if (candle && candle.timestamp === closeTime) {
+      candle.high = Math.max(candle.high, price)
+      candle.low = Math.min(candle.low, price)
+      candle.close = price
+    } else {
+      const open = candle?.close ?? points[0]?.price ?? price
+      candles.push({
+        timestamp: closeTime,
+        open,
+        high: Math.max(open, price),
+        low: Math.min(open, price),
+        close: price,
+      })
+    }
+  }
+
+  return candles
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so every asset gets its own but stable
+ * sequence of values
+ */
+function createRandom(seed: string): () => number {
+  let state = 0
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export class FixtureProvider implements MarketDataProvider {
+  readonly name = 'fixture'
+
+  async listMarkets({
+    page,
+    perPage,
+    currency,
+    order = DEFAULT_MARKET_ORDER,
+    ids,
+    category,
+  }: ListMarketsParams): Promise<CryptoAsset[]> {
+    const start = (page - 1) * perPage
+    const listed = assets.filter(
+      (item) =>
+        (!ids || ids.includes(item.id)) &&
+        (!category || isInCategory(item, category))
+    )
+    const ordered = applyMarketQuery(listed, {
+      order,
+      trend: 'all',
+      ranges: [],
+    })
+
+    return ordered
+      .slice(start, start + perPage)
+      .map((item) => convertAsset(item, currency))
+      .map((asset) => ({
+        id: asset.id,
+        name: asset.name,
+        symbol: asset.symbol,
+        image: asset.image,
+        current_price: asset.current_price,
+        price_change_percentage_24h: asset.price_change_percentage_24h,
+        market_cap: asset.market_cap,
+        total_volume: asset.total_volume,
+      }))
+  }
+
+  async getAssetDetail(
+    id: string,
+    { currency }: QuoteParams
+  ): Promise<AssetDetail> {
+    return convertAsset(findFixtureAsset(id), currency)
+  }
+
+  async getAssetActivity(id: string): Promise<AssetActivity> {
+    const asset = findFixtureAsset(id)
+    const random = createRandom(`${asset.id}-activity`)
+    // Larger coins get larger, but still seeded, audiences
+    const count = (max: number) =>
+      Math.round((max * (0.2 + random() * 0.8)) / asset.market_cap_rank)
+    // Stablecoins in the snapshot have no public repository
+    const hasRepository = !asset.categories.includes('Stablecoins')
+    const totalIssues = count(20000)
+
+    return {
+      id: asset.id,
+      developer: hasRepository
+        ? {
+            stars: count(80000),
+            forks: count(40000),
+            subscribers: count(4000),
+            total_issues: totalIssues,
+            closed_issues: Math.round(totalIssues * (0.8 + random() * 0.2)),
+            pull_requests_merged: count(30000),
+            pull_request_contributors: count(1000),
+            commit_count_4_weeks: count(400),
+          }
+        : {
+            stars: null,
+            forks: null,
+            subscribers: null,
+            total_issues: null,
+            closed_issues: null,
+            pull_requests_merged: null,
+            pull_request_contributors: null,
+            commit_count_4_weeks: null,
+          },
+      community: {
+        twitter_followers: count(7_000_000),
+        reddit_subscribers: count(5_000_000),
+        reddit_accounts_active_48h: count(20000),
+        telegram_channel_user_count: random() < 0.3 ? null : count(100_000),
+      },
+    }
+  }
+
+  async getPriceHistory(
+    id: string,
+    { currency, range }: PriceHistoryParams
+  ): Promise<ChartDataPoint[]> {
+    const asset = convertAsset(findFixtureAsset(id), currency)
+
+    const from =
+      'days' in range
+        ? FIXTURE_NOW -
+          (range.days === 'max' ? MAX_HISTORY_DAYS : Number(range.days)) *
+            DAY_MS
+        : range.from
+    const to = 'days' in range ? FIXTURE_NOW : range.to
+
+    // Mirror CoinGecko: hourly points up to 90 days, daily beyond that
+    const step = to - from <= 90 * DAY_MS ? HOUR_MS : DAY_MS
+    const volatility = step === HOUR_MS ? 0.008 : 0.04
+    const random = createRandom(`${asset.id}-${step}`)
+
+    // Walk backwards from the current price so the series ends on it
+    const points: ChartDataPoint[] = []
+    let price = asset.current_price
+    for (let timestamp = FIXTURE_NOW; timestamp >= from; timestamp -= step) {
+      if (timestamp <= to) points.unshift({ timestamp, price })
+      price = price * (1 + (random() - 0.5) * volatility)
+    }
+
+    return points
+  }
+
+  async getOhlc(
+    id: string,
+    { currency, days }: OhlcParams
+  ): Promise<OhlcDataPoint[]> {
+    const points = await this.getPriceHistory(id, {
+      currency,
+      range: { days },
+    })
+
+    // Hourly candles for one day, 4-hour candles up to 30 days, 4-day
+    // candles beyond that
+    const period =
+      days === '1'
+        ? HOUR_MS
+        : days === '7' || days === '30'
+          ? 4 * HOUR_MS
+          : 4 * DAY_MS
+
+    return aggregateOhlc(points, period)
+  }
+
+  async getHistory(
+    id: string,
+    { currency, date }: HistoryParams
+  ): Promise<HistoricalSnapshot | null> {
+    const asset = convertAsset(findFixtureAsset(id), currency)
+    const from = Date.parse(`${date}T00:00:00Z`)
+
+    // Read the day off the generated price history so both agree
+    const [point] = await this.getPriceHistory(id, {
+      currency,
+      range: { from, to: from + DAY_MS - 1 },
+    })
+    if (!point) return null
+
+    // Market cap and volume follow the price
+    const ratio = point.price / asset.current_price
+
+    return {
+      id: asset.id,
+      date,
+      price: point.price,
+      market_cap: asset.market_cap * ratio,
+      total_volume: asset.total_volume * ratio,
+    }
+  }
+
+  async getTickers(
+    id: string,
+    { page }: TickersParams
+  ): Promise<ExchangeTicker[]> {
+    const asset = findFixtureAsset(id)
+    const symbol = asset.symbol.toUpperCase()
+    const random = createRandom(`${asset.id}-tickers`)
+
+    const tickers = FIXTURE_EXCHANGES.flatMap((exchange) =>
+      FIXTURE_TARGETS.filter((target) => target !== symbol).map((target) => {
+        const spread = 0.01 + random() * 0.5
+        const trustScore: TrustScore =
+          spread < 0.2 ? 'green' : spread < 0.4 ? 'yellow' : 'red'
+
+        return {
+          exchange: exchange.name,
+          exchange_id: exchange.id,
+          pair: `${symbol}/${target}`,
+          last_price: asset.current_price * (1 + (random() - 0.5) * 0.002),
+          volume: (asset.total_volume * random()) / 10,
+          spread,
+          trust_score: trustScore,
+          trade_url: null,
+        }
+      })
+    )
+
+    const start = (page - 1) * TICKERS_PER_PAGE
+    return tickers
+      .sort((a, b) => b.volume - a.volume)
+      .slice(start, start + TICKERS_PER_PAGE)
+  }
+
+  async searchCoins(query: string): Promise<SearchResult[]> {
+    const term = query.toLowerCase()
+
+    return assets
+      .filter(
+        (asset) =>
+          asset.id.includes(term) ||
+          asset.name.toLowerCase().includes(term) ||
+          asset.symbol.toLowerCase().includes(term)
+      )
+      .map((asset) => ({
+        id: asset.id,
+        name: asset.name,
+        symbol: asset.symbol,
+        thumb: asset.image,
+        market_cap_rank: asset.market_cap_rank,
+      }))
+  }
+
+  async getTrending(): Promise<SearchResult[]> {
+    // The snapshot has no search activity; the biggest movers stand in
+    return [...assets]
+      .sort(
+        (a, b) => b.price_change_percentage_24h - a.price_change_percentage_24h
+      )
+      .slice(0, TRENDING_SIZE)
+      .map((asset) => ({
+        id: asset.id,
+        name: asset.name,
+        symbol: asset.symbol,
+        thumb: asset.image,
+        market_cap_rank: asset.market_cap_rank,
+      }))
+  }
+
+  async listCategories(): Promise<MarketCategory[]> {
+    const names = [...new Set(assets.flatMap((asset) => asset.categories))]
+
+    return names
+      .map((name) => {
+        const id = getCategoryId(name)
+        const members = assets.filter((asset) => isInCategory(asset, id))
+        const marketCap = members.reduce(
+          (total, asset) => total + asset.market_cap,
+          0
+        )
+
+        return {
+          id,
+          name,
+          market_cap: marketCap,
+          // Market cap weighted average of the members' 24h changes
+          market_cap_change_24h:
+            members.reduce(
+              (total, asset) =>
+                total + asset.market_cap * asset.price_change_percentage_24h,
+              0
+            ) / marketCap,
+        }
+      })
+      .sort((a, b) => b.market_cap - a.market_cap)
+  }
+
+  async getGlobalData({ currency }: QuoteParams): Promise<GlobalMarketData> {
+    const converted = assets.map((asset) => convertAsset(asset, currency))
+    const sum = (value: (asset: AssetDetail) => number) =>
+      converted.reduce((total, asset) => total + value(asset), 0)
+    const totalMarketCap = sum((asset) => asset.market_cap)
+    // Shares of the snapshot, which only holds the largest coins
+    const dominance = (id: string) =>
+      (convertAsset(findFixtureAsset(id), currency).market_cap /
+        totalMarketCap) *
+      100
+
+    return {
+      total_market_cap: totalMarketCap,
+      total_volume: sum((asset) => asset.total_volume),
+      btc_dominance: dominance('bitcoin'),
+      eth_dominance: dominance('ethereum'),
+      // Market cap weighted average of the 24h changes
+      market_cap_change_percentage_24h:
+        sum((asset) => asset.market_cap * asset.price_change_percentage_24h) /
+        totalMarketCap,
+      active_cryptocurrencies: assets.length,
+      updated_at: FIXTURE_NOW,
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Market data provider selection
+ * Set MARKET_DATA_PROVIDER=fixture to run fully offline; defaults to CoinGecko
+ */
+
+import { CoinGeckoProvider } from './coingecko'
+import { FixtureProvider } from './fixture'
+import type { MarketDataProvider } from './types'
+
+export {
+  isRateLimited,
+  isUpstreamUnavailable,
+  MarketDataError,
+  TICKERS_PER_PAGE,
+  UpstreamPayloadError,
+} from './types'
+export type {
+  HistoryParams,
+  ListMarketsParams,
+  MarketDataProvider,
+  OhlcParams,
+  PriceHistoryParams,
+  QuoteParams,
+  TickersParams,
+} from './types'
+
+export type MarketDataProviderName = 'coingecko' | 'fixture'
+
+const providers: Record<MarketDataProviderName, () => MarketDataProvider> = {
+  coingecko: () => new CoinGeckoProvider(),
+  fixture: () => new FixtureProvider(),
+}
+
+const instances = new Map<MarketDataProviderName, MarketDataProvider>()
+
+function resolveProviderName(): MarketDataProviderName {
+  const name = process.env.MARKET_DATA_PROVIDER?.trim().toLowerCase()
+
+  if (!name) return 'coingecko'
+  if (name in providers) return name as MarketDataProviderName
+
+  console.warn(
+    `Unknown MARKET_DATA_PROVIDER "${name}", falling back to coingecko`
+  )
+  return 'coingecko'
+}
+
+/**
+ * Returns the provider configured through MARKET_DATA_PROVIDER.
+ * The env var is read on every call so tests can switch providers at runtime.
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  const name = resolveProviderName()
+
+  let provider = instances.get(name)
+  if (!provider) {
+    provider = providers[name]()
+    instances.set(name, provider)
+  }
+
+  return provider
+}
@@ -0,0 +1,128 @@
+/**
+ * Market data provider contract
+ * Every upstream source (CoinGecko, offline fixtures, ...) implements this
+ * interface so the API routes never depend on a specific vendor
+ */
+
+import type { ChartDays, ChartRange } from '@/lib/chart-range'
+import type { Currency } from '@/lib/currency'
+import type { UpstreamOrder } from '@/lib/market-query'
+import type {
+  AssetActivity,
+  AssetDetail,
+  ChartDataPoint,
+  CryptoAsset,
+  ExchangeTicker,
+  GlobalMarketData,
+  HistoricalSnapshot,
+  MarketCategory,
+  OhlcDataPoint,
+  SearchResult,
+} from '@/lib/types'
+
+// Exchange tickers per page; fixed by CoinGecko
+export const TICKERS_PER_PAGE = 100
+
+export interface QuoteParams {
+  currency: Currency
+}
+
+export interface ListMarketsParams extends QuoteParams {
+  page: number
+  perPage: number
+  // Defaults to market cap, descending
+  order?: UpstreamOrder
+  // Restricts the listing to these coin ids
+  ids?: string[]
+  // Restricts the listing to the coins of this category
+  category?: string
+}
+
+export interface PriceHistoryParams extends QuoteParams {
+  range: ChartRange
+}
+
+export interface OhlcParams extends QuoteParams {
+  days: ChartDays
+}
+
+export interface HistoryParams extends QuoteParams {
+  // YYYY-MM-DD, in UTC
+  date: string
+}
+
+export interface TickersParams {
+  page: number
+}
+
+export interface MarketDataProvider {
+  readonly name: string
+  listMarkets(params: ListMarketsParams): Promise<CryptoAsset[]>
+  getAssetDetail(id: string, params: QuoteParams): Promise<AssetDetail>
+  getAssetActivity(id: string): Promise<AssetActivity>
+  getPriceHistory(
+    id: string,
+    params: PriceHistoryParams
+  ): Promise<ChartDataPoint[]>
+  getOhlc(id: string, params: OhlcParams): Promise<OhlcDataPoint[]>
+  // Null when there is no data for the day, e.g. before the coin was listed
+  getHistory(
+    id: string,
+    params: HistoryParams
+  ): Promise<HistoricalSnapshot | null>
+  // Exchanges trading the coin, highest volume first
+  getTickers(id: string, params: TickersParams): Promise<ExchangeTicker[]>
+  searchCoins(query: string): Promise<SearchResult[]>
+  // Most searched coins of the last 24 hours, most trending first
+  getTrending(): Promise<SearchResult[]>
+  listCategories(): Promise<MarketCategory[]>
+  getGlobalData(params: QuoteParams): Promise<GlobalMarketData>
+}
+
+/**
+ * Error thrown by providers when the upstream source answers with a
+ * non-success status, so routes can decide between stale cache and failure
+ */
+export class MarketDataError extends Error {
+  readonly status: number
+  // Seconds until the upstream source accepts requests again, when known
+  readonly retryAfter?: number
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message)
+    this.name = 'MarketDataError'
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Error thrown by providers when the upstream source answers successfully
+ * but with a payload that does not match what we expect
+ */
+export class UpstreamPayloadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UpstreamPayloadError'
+  }
+}
+
+/**
+ * Whether the upstream source is rate limiting us (or our own outbound
+ * budget ran out)
+ */
+export function isRateLimited(error: unknown): error is MarketDataError {
+  return error instanceof MarketDataError && error.status === 429
+}
+
+/**
+ * Whether an error is temporary on the upstream side, so serving stale
+ * cached data beats failing
+ */
+export function isUpstreamUnavailable(error: unknown): boolean {
+  if (error instanceof UpstreamPayloadError) return true
+  return (
+    error instanceof MarketDataError &&
+    (error.status === 429 || error.status >= 500)
+  )
+}
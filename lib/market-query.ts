@@ -0,0 +1,188 @@
+/**
+ * Ordering and filtering for the assets list
+ * CoinGecko can only order markets by market cap or volume, so any other
+ * order or filter is applied on the server over the top MARKET_UNIVERSE_SIZE
+ * coins by market cap
+ */
+
+import type { CryptoAsset } from '@/lib/types'
+
+export const MARKET_UNIVERSE_SIZE = 250
+
+// Most coins a single `ids` lookup may ask for (one upstream page)
+export const MAX_ASSET_IDS = 250
+
+// Query parameter names mapped to the asset field they sort or filter on
+const MARKET_FIELDS = {
+  market_cap: 'market_cap',
+  volume: 'total_volume',
+  price: 'current_price',
+  change: 'price_change_percentage_24h',
+} as const satisfies Record<string, keyof CryptoAsset>
+
+type MarketField = keyof typeof MARKET_FIELDS
+
+export const MARKET_ORDERS = [
+  'market_cap_desc',
+  'market_cap_asc',
+  'volume_desc',
+  'volume_asc',
+  'price_desc',
+  'price_asc',
+  'change_desc',
+  'change_asc',
+] as const
+
+export type MarketOrder = (typeof MARKET_ORDERS)[number]
+
+// Orders CoinGecko can serve directly from /coins/markets
+export type UpstreamOrder = Extract<
+  MarketOrder,
+  `market_cap_${string}` | `volume_${string}`
+>
+
+export const DEFAULT_MARKET_ORDER: UpstreamOrder = 'market_cap_desc'
+
+export const MARKET_TRENDS = ['all', 'gainers', 'losers'] as const
+
+export type MarketTrend = (typeof MARKET_TRENDS)[number]
+
+export interface MarketRange {
+  field: MarketField
+  min?: number
+  max?: number
+}
+
+export interface MarketQuery {
+  order: MarketOrder
+  trend: MarketTrend
+  ranges: MarketRange[]
+}
+
+function parseBound(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Parses `order`, `filter` and `min_<field>`/`max_<field>` query parameters
+ * (fields: market_cap, volume, price, change). Returns null for invalid input.
+ */
+export function parseMarketQuery(
+  searchParams: URLSearchParams
+): MarketQuery | null {
+  const order = searchParams.get('order') || DEFAULT_MARKET_ORDER
+  const trend = searchParams.get('filter') || 'all'
+
+  if (!(MARKET_ORDERS as readonly string[]).includes(order)) return null
+  if (!(MARKET_TRENDS as readonly string[]).includes(trend)) return null
+
+  const ranges: MarketRange[] = []
+  for (const field of Object.keys(MARKET_FIELDS) as MarketField[]) {
+    const min = parseBound(searchParams.get(`min_${field}`))
+    const max = parseBound(searchParams.get(`max_${field}`))
+    if (min === null || max === null) return null
+    if (min !== undefined && max !== undefined && min > max) return null
+    if (min !== undefined || max !== undefined) ranges.push({ field, min, max })
+  }
+
+  return {
+    order: order as MarketOrder,
+    trend: trend as MarketTrend,
+    ranges,
+  }
+}
+
+// Coin and category ids are lowercase slugs
+const ID_PATTERN = /^[a-z0-9-]+$/
+
+/**
+ * Parses a `category` parameter. Returns undefined when absent and null when
+ * malformed.
+ */
+export function parseCategory(value: string | null): string | undefined | null {
+  if (value === null || value === '') return undefined
+  return ID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Parses a coin id from a route path. Returns null when malformed, so it can
+ * never reach another upstream path or create a cache entry.
+ */
+export function parseAssetId(value: string): string | null {
+  return ID_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Parses a comma separated `ids` parameter into distinct coin ids, keeping
+ * their order. Returns null when empty, too long or malformed.
+ */
+export function parseAssetIds(value: string): string[] | null {
+  const ids = [
+    ...new Set(
+      value
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ]
+
+  if (ids.length === 0 || ids.length > MAX_ASSET_IDS) return null
+  return ids.every((id) => ID_PATTERN.test(id)) ? ids : null
+}
+
+/**
+ * Whether the query can be forwarded as-is to the provider's market listing
+ */
+export function isUpstreamQuery(
+  query: MarketQuery
+): query is MarketQuery & { order: UpstreamOrder } {
+  return (
+    (query.order.startsWith('market_cap_') ||
+      query.order.startsWith('volume_')) &&
+    query.trend === 'all' &&
+    query.ranges.length === 0
+  )
+}
+
+/**
+ * Stable identifier for a query, used in cache keys
+ */
+export function getMarketQueryKey(query: MarketQuery): string {
+  const ranges = query.ranges.map(
+    ({ field, min, max }) => `${field}:${min ?? ''}:${max ?? ''}`
+  )
+  return [query.order, query.trend, ...ranges].join('-')
+}
+
+/**
+ * Filters and sorts assets according to the query
+ */
+export function applyMarketQuery<T extends CryptoAsset>(
+  assets: T[],
+  query: MarketQuery
+): T[] {
+  const filtered = assets.filter((asset) => {
+    const change = asset.price_change_percentage_24h
+    if (query.trend === 'gainers' && !(change >= 0)) return false
+    if (query.trend === 'losers' && !(change < 0)) return false
+
+    return query.ranges.every(({ field, min, max }) => {
+      // Missing values (e.g. no reported market cap) never match a range
+      const value = asset[MARKET_FIELDS[field]]
+      if (value === undefined || value === null) return false
+      return (
+        (min === undefined || value >= min) &&
+        (max === undefined || value <= max)
+      )
+    })
+  })
+
+  const separator = query.order.lastIndexOf('_')
+  const key = MARKET_FIELDS[query.order.slice(0, separator) as MarketField]
+  const direction = query.order.endsWith('_asc') ? 1 : -1
+
+  // Array.prototype.sort is stable, so ties keep market cap order
+  return filtered.sort((a, b) => ((a[key] ?? 0) - (b[key] ?? 0)) * direction)
+}
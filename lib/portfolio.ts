@@ -0,0 +1,325 @@
+/**
+ * Portfolio accounting
+ * Positions use the average cost method: selling realizes the difference
+ * between the proceeds and the average cost of the coins sold
+ */
+
+import { z } from 'zod'
+import { currencySchema, type Currency } from '@/lib/currency'
+import type {
+  ChartDataPoint,
+  CryptoAsset,
+  PortfolioResponse,
+  Position,
+  Transaction,
+  TransactionType,
+} from '@/lib/types'
+
+export const TRANSACTION_TYPES = [
+  { value: 'buy', label: 'Buy' },
+  { value: 'sell', label: 'Sell' },
+  { value: 'transfer_in', label: 'Transfer in' },
+  { value: 'transfer_out', label: 'Transfer out' },
+] as const satisfies readonly { value: TransactionType; label: string }[]
+
+export const transactionTypeSchema = z.enum(
+  TRANSACTION_TYPES.map(({ value }) => value) as [
+    TransactionType,
+    ...TransactionType[],
+  ]
+)
+
+// Body of POST /api/portfolio/transactions
+export const transactionInputSchema = z.object({
+  asset_id: z.string().trim().min(1, 'asset_id is required'),
+  type: transactionTypeSchema,
+  quantity: z
+    .number({ error: 'Quantity must be a number' })
+    .positive('Quantity must be greater than 0'),
+  price: z
+    .number({ error: 'Price must be a number' })
+    .nonnegative('Price cannot be negative'),
+  fee: z
+    .number({ error: 'Fee must be a number' })
+    .nonnegative('Fee cannot be negative')
+    .default(0),
+  currency: currencySchema.default('usd'),
+  // Defaults to now in the database
+  executed_at: z.iso
+    .datetime({ offset: true, error: 'executed_at must be an ISO date' })
+    .optional(),
+})
+
+export type TransactionInput = z.infer<typeof transactionInputSchema>
+
+// Transaction ids are uuids, so anything else cannot name a transaction
+export const transactionIdSchema = z.uuid()
+
+// Running totals for one coin while replaying its transactions
+export interface Holding {
+  asset_id: string
+  quantity: number
+  cost_basis: number
+  realized_pnl: number
+}
+
+// Quantities below this are rounding leftovers of a closed position
+const DUST = 1e-9
+
+export function isOutgoing(type: TransactionType): boolean {
+  return type === 'sell' || type === 'transfer_out'
+}
+
+function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort(
+    (a, b) =>
+      Date.parse(a.executed_at) - Date.parse(b.executed_at) ||
+      Date.parse(a.created_at) - Date.parse(b.created_at)
+  )
+}
+
+function getHolding(holdings: Map<string, Holding>, assetId: string) {
+  let holding = holdings.get(assetId)
+  if (!holding) {
+    holding = { asset_id: assetId, quantity: 0, cost_basis: 0, realized_pnl: 0 }
+    holdings.set(assetId, holding)
+  }
+  return holding
+}
+
+function applyTransaction(holding: Holding, transaction: Transaction) {
+  const { type, price, fee } = transaction
+
+  if (!isOutgoing(type)) {
+    holding.quantity += transaction.quantity
+    holding.cost_basis += transaction.quantity * price + fee
+    return
+  }
+
+  // Never take out more than is held
+  const quantity = Math.min(transaction.quantity, holding.quantity)
+  const cost =
+    holding.quantity > 0
+      ? (holding.cost_basis * quantity) / holding.quantity
+      : 0
+
+  holding.quantity -= quantity
+  holding.cost_basis -= cost
+  // Transfers out leave at cost, so only their fee is a loss
+  holding.realized_pnl += type === 'sell' ? quantity * price - fee - cost : -fee
+
+  if (holding.quantity < DUST) {
+    holding.quantity = 0
+    holding.cost_basis = 0
+  }
+}
+
+/**
+ * Transactions with their price and fee in `currency`, converted with
+ * `rates` (units of `currency` per unit of each recorded currency)
+ */
+export function convertTransactions(
+  transactions: Transaction[],
+  rates: Partial<Record<Currency, number>>,
+  currency: Currency
+): Transaction[] {
+  return transactions.map((transaction) => {
+    if (transaction.currency === currency) return transaction
+
+    const rate = rates[transaction.currency]
+    if (rate === undefined) {
+      throw new Error(`No exchange rate for ${transaction.currency}`)
+    }
+
+    return {
+      ...transaction,
+      price: transaction.price * rate,
+      fee: transaction.fee * rate,
+      currency,
+    }
+  })
+}
+
+/**
+ * Replays transactions executed up to `until` (unix ms) into one holding
+ * per coin, in the order each coin was first acquired
+ */
+export function computeHoldings(
+  transactions: Transaction[],
+  until = Infinity
+): Holding[] {
+  const holdings = new Map<string, Holding>()
+
+  for (const transaction of sortTransactions(transactions)) {
+    if (Date.parse(transaction.executed_at) > until) break
+    applyTransaction(getHolding(holdings, transaction.asset_id), transaction)
+  }
+
+  return [...holdings.values()]
+}
+
+/**
+ * Coins held at some point from `since` (unix ms) on: open at that time or
+ * traded afterwards. Positions closed earlier need no price history.
+ */
+export function getAssetIdsHeldSince(
+  transactions: Transaction[],
+  since: number
+): string[] {
+  const open = computeHoldings(transactions, since)
+    .filter((holding) => holding.quantity > 0)
+    .map((holding) => holding.asset_id)
+  const traded = transactions
+    .filter((transaction) => Date.parse(transaction.executed_at) > since)
+    .map((transaction) => transaction.asset_id)
+
+  return [...new Set([...open, ...traded])]
+}
+
+// A sell or transfer out taking more coins than were held at the time
+export interface UncoveredTransaction {
+  transaction: Transaction
+  held: number
+}
+
+/**
+ * Replays all of `transactions` and returns the first outgoing one that
+ * takes out more coins than were held at its date, or null when every
+ * one is covered. Checking a single date is not enough: a backdated sale
+ * can leave a later one short.
+ */
+export function findUncoveredTransaction(
+  transactions: Transaction[]
+): UncoveredTransaction | null {
+  const holdings = new Map<string, Holding>()
+
+  for (const transaction of sortTransactions(transactions)) {
+    const holding = getHolding(holdings, transaction.asset_id)
+    if (
+      isOutgoing(transaction.type) &&
+      transaction.quantity > holding.quantity + DUST
+    ) {
+      return { transaction, held: holding.quantity }
+    }
+    applyTransaction(holding, transaction)
+  }
+
+  return null
+}
+
+/**
+ * Values open holdings at current market prices. Coins without market data
+ * are left out of the positions, but their realized P&L still counts.
+ */
+export function valuePortfolio(
+  holdings: Holding[],
+  assets: CryptoAsset[],
+  currency: Currency
+): PortfolioResponse {
+  const positions = holdings.flatMap((holding): Position[] => {
+    const asset = assets.find((item) => item.id === holding.asset_id)
+    if (!asset || holding.quantity === 0) return []
+
+    const value = holding.quantity * asset.current_price
+    const unrealizedPnl = value - holding.cost_basis
+
+    return [
+      {
+        asset_id: holding.asset_id,
+        name: asset.name,
+        symbol: asset.symbol,
+        image: asset.image,
+        quantity: holding.quantity,
+        average_cost: holding.cost_basis / holding.quantity,
+        cost_basis: holding.cost_basis,
+        current_price: asset.current_price,
+        value,
+        unrealized_pnl: unrealizedPnl,
+        unrealized_pnl_percentage: holding.cost_basis
+          ? (unrealizedPnl / holding.cost_basis) * 100
+          : 0,
+        realized_pnl: holding.realized_pnl,
+        allocation: 0,
+      },
+    ]
+  })
+
+  const totalValue = positions.reduce((sum, { value }) => sum + value, 0)
+  const totalCost = positions.reduce(
+    (sum, { cost_basis }) => sum + cost_basis,
+    0
+  )
+
+  return {
+    currency,
+    positions: positions
+      .map((position) => ({
+        ...position,
+        allocation: totalValue ? (position.value / totalValue) * 100 : 0,
+      }))
+      .sort((a, b) => b.value - a.value),
+    total_value: totalValue,
+    total_cost: totalCost,
+    unrealized_pnl: totalValue - totalCost,
+    realized_pnl: holdings.reduce(
+      (sum, { realized_pnl }) => sum + realized_pnl,
+      0
+    ),
+  }
+}
+
+// Last price at or before `timestamp`, or 0 before the series starts
+function priceAt(points: ChartDataPoint[], timestamp: number): number {
+  let low = 0
+  let high = points.length - 1
+  let price = 0
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2)
+    const point = points[middle]!
+    if (point.timestamp <= timestamp) {
+      price = point.price
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return price
+}
+
+/**
+ * Portfolio value over time from each coin's price history, keyed by coin
+ * id. The longest history sets the timeline, since upstream timestamps
+ * differ slightly between coins.
+ */
+export function buildValueHistory(
+  transactions: Transaction[],
+  histories: Record<string, ChartDataPoint[]>
+): ChartDataPoint[] {
+  const timeline = Object.values(histories).reduce<ChartDataPoint[]>(
+    (longest, points) => (points.length > longest.length ? points : longest),
+    []
+  )
+  const sorted = sortTransactions(transactions)
+  const holdings = new Map<string, Holding>()
+  let next = 0
+
+  return timeline.map(({ timestamp }) => {
+    // Holdings only ever move forward along the timeline
+    while (
+      next < sorted.length &&
+      Date.parse(sorted[next]!.executed_at) <= timestamp
+    ) {
+      const transaction = sorted[next++]!
+      applyTransaction(getHolding(holdings, transaction.asset_id), transaction)
+    }
+
+    let value = 0
+    for (const { asset_id, quantity } of holdings.values()) {
+      value += quantity * priceAt(histories[asset_id] ?? [], timestamp)
+    }
+
+    return { timestamp, price: value }
+  })
+}
@@ -0,0 +1,107 @@
+/**
+ * Outbound rate limiting for upstream APIs
+ * A token bucket shared by every request to a source, plus helpers for
+ * Retry-After headers and retry backoff
+ */
+
+export interface RateLimiterOptions {
+  // Burst size
+  capacity: number
+  // Sustained request budget
+  refillPerMinute: number
+}
+
+export class RateLimiter {
+  private capacity: number
+  // Tokens added per millisecond
+  private refillRate: number
+  // May go negative: reservations queue up behind each other
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+
+  constructor({ capacity, refillPerMinute }: RateLimiterOptions) {
+    this.capacity = capacity
+    this.refillRate = refillPerMinute / (60 * 1000)
+    this.tokens = capacity
+  }
+
+  /**
+   * Milliseconds until the next request may be sent
+   */
+  getWaitTime(): number {
+    this.refill()
+
+    const pauseWait = Math.max(0, this.pausedUntil - Date.now())
+    const tokenWait =
+      this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillRate)
+    return Math.max(pauseWait, tokenWait)
+  }
+
+  /**
+   * Takes a token when one is available within `maxWaitMs` and returns how
+   * long to wait before sending. Returns null, taking nothing, otherwise.
+   */
+  reserve(maxWaitMs = 0): number | null {
+    const wait = this.getWaitTime()
+    if (wait > maxWaitMs) return null
+
+    this.tokens -= 1
+    return wait
+  }
+
+  /**
+   * Holds every request for a while, e.g. after the upstream answered 429
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  reset(): void {
+    this.tokens = this.capacity
+    this.lastRefill = Date.now()
+    this.pausedUntil = 0
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = Math.max(0, now - this.lastRefill)
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.refillRate
+    )
+    this.lastRefill = now
+  }
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | null {
+  if (!value) return null
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Exponential backoff capped at `maxMs`, with "equal jitter": half of the
+ * delay is fixed and half random so retries from many clients spread out
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random = Math.random
+): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** attempt)
+  return delay / 2 + random() * (delay / 2)
+}
@@ -0,0 +1,23 @@
+/**
+ * Single-flight request coalescing
+ * Concurrent calls with the same key share one in-flight promise instead of
+ * each reaching the upstream source, e.g. when a popular cache entry expires
+ */
+
+export class SingleFlight<T> {
+  private inFlight = new Map<string, Promise<T>>()
+
+  run(key: string, fn: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key)
+    if (pending) return pending
+
+    // Forget the call once it settles so later calls start a fresh one
+    const promise = fn().finally(() => this.inFlight.delete(key))
+    this.inFlight.set(key, promise)
+    return promise
+  }
+
+  get size(): number {
+    return this.inFlight.size
+  }
+}
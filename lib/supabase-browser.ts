@@ -0,0 +1,17 @@
+/**
+ * Supabase client for client components
+ * Keeps the auth session in cookies so API routes can read it
+ */
+
+import { createBrowserClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+let client: SupabaseClient | undefined
+
+export function getBrowserSupabase() {
+  client ??= createBrowserClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  )
+  return client
+}
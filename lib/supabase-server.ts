@@ -0,0 +1,39 @@
+/**
+ * Supabase client acting as the signed-in user of the current request
+ * The session lives in cookies written by the browser client, so RLS
+ * policies see the user through auth.uid()
+ */
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { supabaseAnonKey, supabaseUrl } from '@/lib/supabase'
+
+export async function createServerSupabase() {
+  const cookieStore = await cookies()
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      // Stores refreshed tokens on the response
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value, options }) =>
+          cookieStore.set(name, value, options)
+        )
+      },
+    },
+  })
+}
+
+/**
+ * Request client with the signed-in user, or a null user for visitors
+ */
+export async function getRequestUser() {
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return { supabase, user }
+}
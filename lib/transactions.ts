@@ -0,0 +1,30 @@
+/**
+ * Portfolio transactions stored in Supabase
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Transaction } from '@/lib/types'
+
+/**
+ * Transactions in every recorded currency, oldest first as the portfolio
+ * accounting replays them. `supabase` is the request client, so row level
+ * security limits them to the signed-in user's own.
+ */
+export async function getTransactions(
+  supabase: SupabaseClient,
+  assetId?: string
+): Promise<Transaction[]> {
+  let query = supabase.from('transactions').select('*')
+
+  if (assetId) {
+    query = query.eq('asset_id', assetId)
+  }
+
+  const { data, error } = await query
+    .order('executed_at', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  return (data ?? []) as Transaction[]
+}
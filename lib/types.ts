@@ -1,3 +1,5 @@
+import type { Currency } from '@/lib/currency'
+
 // CoinGecko API response types
 export interface CryptoAsset {
   id: string
@@ -40,13 +42,227 @@ export interface AssetDetail {
   categories: string[]
 }
 
+// Activity of the coin's main code repository; null when not reported
+export interface DeveloperActivity {
+  stars: number | null
+  forks: number | null
+  subscribers: number | null
+  total_issues: number | null
+  closed_issues: number | null
+  pull_requests_merged: number | null
+  pull_request_contributors: number | null
+  commit_count_4_weeks: number | null
+}
+
+// Audience of the coin's social channels; null when not reported
+export interface CommunityActivity {
+  twitter_followers: number | null
+  reddit_subscribers: number | null
+  reddit_accounts_active_48h: number | null
+  telegram_channel_user_count: number | null
+}
+
+// Market figures of a coin at 00:00 UTC on a past day
+export interface HistoricalSnapshot {
+  id: string
+  // YYYY-MM-DD
+  date: string
+  price: number
+  market_cap: number | null
+  total_volume: number | null
+}
+
+// Developer and community data, served apart from AssetDetail because it
+// is heavier to fetch and changes slowly
+export interface AssetActivity {
+  id: string
+  developer: DeveloperActivity
+  community: CommunityActivity
+}
+
+// Price history point used by the chart route and PriceChart
+export interface ChartDataPoint {
+  timestamp: number
+  price: number
+}
+
+// Candlestick point used by the OHLC route and PriceChart
+export interface OhlcDataPoint {
+  timestamp: number
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+// Coin match returned by the search route
+export interface SearchResult {
+  id: string
+  name: string
+  symbol: string
+  thumb: string
+  market_cap_rank: number | null
+}
+
+export interface SearchResponse {
+  coins: SearchResult[]
+}
+
+// Coins trending in searches, with their current quotes, most trending first
+export interface TrendingResponse {
+  coins: CryptoAsset[]
+}
+
+// How much CoinGecko trusts the figures an exchange reports for a pair
+export type TrustScore = 'green' | 'yellow' | 'red'
+
+// One trading pair of a coin on an exchange; price and volume are in USD
+export interface ExchangeTicker {
+  exchange: string
+  exchange_id: string
+  pair: string
+  last_price: number | null
+  volume: number | null
+  // Bid-ask spread in percent
+  spread: number | null
+  trust_score: TrustScore | null
+  trade_url: string | null
+}
+
+export interface AssetMarketsResponse {
+  tickers: ExchangeTicker[]
+  page: number
+  perPage: number
+  hasMore: boolean
+}
+
+// Coin category returned by the categories route; figures are in USD
+export interface MarketCategory {
+  id: string
+  name: string
+  market_cap: number | null
+  market_cap_change_24h: number | null
+}
+
+export interface CategoriesResponse {
+  categories: MarketCategory[]
+}
+
+// Overall market state returned by the global route
+export interface GlobalMarketData {
+  total_market_cap: number
+  total_volume: number
+  // Share of the total market cap, in percent
+  btc_dominance: number
+  eth_dominance: number
+  market_cap_change_percentage_24h: number
+  active_cryptocurrencies: number
+  // Unix timestamp in milliseconds of the upstream snapshot
+  updated_at: number
+}
+
+// Live price update pushed by the stream route
+export interface PriceQuote {
+  id: string
+  current_price: number
+  price_change_percentage_24h: number
+}
+
+export interface PriceStreamEvent {
+  quotes: PriceQuote[]
+  // Unix timestamp in milliseconds
+  timestamp: number
+}
+
 // Supabase Favorites table type
 export interface Favorite {
   id: string
+  user_id: string
   asset_id: string
+  // Manual order within the pinned and the other favorites
+  position: number
+  pinned: boolean
   created_at: string
 }
 
+// A named list of coins, with its coins in the order they were added
+export interface Watchlist {
+  id: string
+  user_id: string
+  name: string
+  created_at: string
+  asset_ids: string[]
+}
+
+// Price alert conditions: price targets, or 24h change thresholds in percent
+export type AlertCondition = 'above' | 'below' | 'percent_up' | 'percent_down'
+
+// Supabase Alerts table type
+export interface PriceAlert {
+  id: string
+  user_id: string
+  asset_id: string
+  condition: AlertCondition
+  // Price in `currency`, or a percentage for percent conditions
+  target: number
+  currency: Currency
+  active: boolean
+  triggered_at: string | null
+  triggered_price: number | null
+  created_at: string
+}
+
+// Supabase Alert events table type, one row per triggered alert
+export interface AlertEvent {
+  id: string
+  user_id: string
+  alert_id: string | null
+  asset_id: string
+  condition: AlertCondition
+  target: number
+  currency: Currency
+  price: number
+  price_change_percentage_24h: number
+  triggered_at: string
+}
+
+// Portfolio transaction kinds: transfers move coins in or out at cost
+// without realizing any gain
+export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out'
+
+// Supabase Transactions table type
+export interface Transaction {
+  id: string
+  user_id: string
+  asset_id: string
+  type: TransactionType
+  quantity: number
+  // Unit price in `currency`; the cost basis per coin for transfers in
+  price: number
+  fee: number
+  currency: Currency
+  executed_at: string
+  created_at: string
+}
+
+// Open holding of one coin valued at the current market price
+export interface Position {
+  asset_id: string
+  name: string
+  symbol: string
+  image: string
+  quantity: number
+  average_cost: number
+  cost_basis: number
+  current_price: number
+  value: number
+  unrealized_pnl: number
+  unrealized_pnl_percentage: number
+  realized_pnl: number
+  // Share of the portfolio value, in percent
+  allocation: number
+}
+
 // API Response types
 export interface AssetsResponse {
   assets: CryptoAsset[]
@@ -56,6 +272,73 @@ export interface FavoritesResponse {
   favorites: Favorite[]
 }
 
+// Outcome of POST /api/favorites/import, or what it would be for a dry run
+export interface FavoritesImportReport {
+  dry_run: boolean
+  // Coins added to the favorites (or that would be)
+  added: string[]
+  // Coins skipped because they already are favorites
+  existing: string[]
+  // Coins listed more than once in the file, after their first row
+  duplicates: string[]
+  // Coins the market data source does not know
+  unknown: string[]
+  // Coins left out because the favorites would exceed MAX_FAVORITES
+  over_limit: string[]
+  // Rows that could not be read
+  invalid: { row: number; message: string }[]
+}
+
+export interface WatchlistsResponse {
+  watchlists: Watchlist[]
+}
+
+export interface AlertsResponse {
+  alerts: PriceAlert[]
+}
+
+export interface AlertEventsResponse {
+  events: AlertEvent[]
+}
+
+export interface EvaluateAlertsResponse {
+  checked: number
+  triggered: AlertEvent[]
+}
+
+export interface TransactionsResponse {
+  transactions: Transaction[]
+}
+
+export interface PortfolioResponse {
+  currency: Currency
+  positions: Position[]
+  total_value: number
+  total_cost: number
+  unrealized_pnl: number
+  // Includes gains and losses of positions since closed
+  realized_pnl: number
+}
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'conflict'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'invalid_upstream_response'
+  | 'internal_error'
+
+export interface ApiError {
+  code: ApiErrorCode
+  message: string
+  // Status the market data source answered with, when it caused the error
+  upstreamStatus?: number
+  // Seconds until the request is worth retrying (with 503 responses)
+  retryAfter?: number
+}
+
 export interface ErrorResponse {
-  error: string
+  error: ApiError
 }
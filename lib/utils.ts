@@ -1,35 +1,63 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import {
+  DEFAULT_CURRENCY,
+  getCryptoCurrency,
+  type Currency,
+} from '@/lib/currency'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Format price to USD currency
+// Format price in the given quote currency (USD by default)
 export function formatPrice(
   price: number | null | undefined,
-  compact = false
+  compact = false,
+  currency: Currency = DEFAULT_CURRENCY
 ): string {
   // Handle null, undefined, or non-numeric values
-  if (price === null || price === undefined || !isFinite(price)) {
-    return '$0.00'
+  const value =
+    price === null || price === undefined || !isFinite(price) ? 0 : price
+
+  // Crypto-denominated quotes use their own symbol and 8 decimal places
+  const crypto = getCryptoCurrency(currency)
+  if (crypto) {
+    const formatted = new Intl.NumberFormat(
+      'en-US',
+      compact
+        ? { notation: 'compact', maximumFractionDigits: 2 }
+        : {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: crypto.maximumFractionDigits,
+          }
+    ).format(value)
+    return `${crypto.symbol}${formatted}`
   }
 
+  const currencyCode = currency.toUpperCase()
+
   if (compact) {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: currencyCode,
       notation: 'compact',
       maximumFractionDigits: 2,
-    }).format(price)
+    }).format(value)
   }
 
+  // Respect the currency's own minor units (e.g. JPY has none)
+  const { minimumFractionDigits = 2 } = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currencyCode,
+  }).resolvedOptions()
+
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 6,
-  }).format(price)
+    currency: currencyCode,
+    minimumFractionDigits,
+    maximumFractionDigits: Math.max(minimumFractionDigits, 6),
+  }).format(value)
 }
 
 // Format percentage change
@@ -0,0 +1,49 @@
+/**
+ * Named watchlists stored in Supabase
+ * Shared by the watchlist API routes and the watchlist forms
+ */
+
+import { z } from 'zod'
+import type { Watchlist } from '@/lib/types'
+
+export const MAX_WATCHLIST_NAME_LENGTH = 50
+
+export const watchlistNameSchema = z
+  .string({ error: 'Name is required' })
+  .trim()
+  .min(1, 'Name is required')
+  .max(
+    MAX_WATCHLIST_NAME_LENGTH,
+    `Name must be at most ${MAX_WATCHLIST_NAME_LENGTH} characters`
+  )
+
+// Watchlist ids are uuids, so anything else cannot name a list
+export const watchlistIdSchema = z.uuid()
+
+// Body of POST /api/watchlists and PATCH /api/watchlists/[id]
+export const watchlistInputSchema = z.object({ name: watchlistNameSchema })
+
+// Body of POST /api/watchlists/[id]/items
+export const watchlistItemInputSchema = z.object({
+  asset_id: z.string().trim().min(1, 'asset_id is required'),
+})
+
+// Selects a watchlist together with its coins
+export const WATCHLIST_COLUMNS =
+  'id, user_id, name, created_at, watchlist_items(asset_id, created_at)'
+
+interface WatchlistRow extends Omit<Watchlist, 'asset_ids'> {
+  watchlist_items: { asset_id: string; created_at: string }[] | null
+}
+
+export function toWatchlist({
+  watchlist_items,
+  ...watchlist
+}: WatchlistRow): Watchlist {
+  return {
+    ...watchlist,
+    asset_ids: [...(watchlist_items ?? [])]
+      .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+      .map(({ asset_id }) => asset_id),
+  }
+}
@@ -1,34 +1,328 @@
 -- Supabase Setup for Cryptocurrency Explorer
 -- Run this SQL in your Supabase SQL Editor
 
--- Create the favorites table
+-- Create the favorites table, one list per signed-in user
 create table if not exists favorites (
   id uuid default uuid_generate_v4() primary key,
-  asset_id text not null unique,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  asset_id text not null,
+  -- Manual order, ascending; new favorites share 0 and sort newest first
+  position integer not null default 0,
+  -- Pinned favorites are listed before all others
+  pinned boolean not null default false,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
--- Add index for better query performance
-create index if not exists idx_favorites_asset_id on favorites(asset_id);
-
--- IMPORTANT: Disable Row Level Security for demo purposes
--- This allows the anon key to read/write without authentication
-alter table favorites disable row level security;
-
--- Alternative: If you want to keep RLS enabled, use these policies instead:
--- alter table favorites enable row level security;
--- 
--- create policy "Enable read access for all users" on favorites
---   for select
---   using (true);
--- 
--- create policy "Enable insert access for all users" on favorites
---   for insert
---   with check (true);
--- 
--- create policy "Enable delete access for all users" on favorites
---   for delete
---   using (true);
-
--- Verify the table was created
+-- Upgrade a favorites table created before manual ordering
+alter table favorites add column if not exists position integer not null default 0;
+alter table favorites add column if not exists pinned boolean not null default false;
+
+-- Upgrade a favorites table created before user accounts: rows of the old
+-- shared list have no owner and are no longer visible to anyone
+alter table favorites add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+alter table favorites drop constraint if exists favorites_asset_id_key;
+delete from favorites where user_id is null;
+alter table favorites alter column user_id set not null;
+
+-- A coin is in a user's favorites at most once
+create unique index if not exists idx_favorites_user_id_asset_id on favorites(user_id, asset_id);
+
+-- Each user can only read and change their own favorites
+alter table favorites enable row level security;
+
+drop policy if exists "Users can read their favorites" on favorites;
+create policy "Users can read their favorites" on favorites
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can add favorites" on favorites;
+create policy "Users can add favorites" on favorites
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their favorites" on favorites;
+create policy "Users can remove their favorites" on favorites
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can arrange their favorites" on favorites;
+create policy "Users can arrange their favorites" on favorites
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Stores the signed-in user's favorites order in a single statement, so a
+-- reorder is applied entirely or not at all. Favorites missing from
+-- `asset_ids` move after the listed ones.
+create or replace function reorder_favorites(asset_ids text[])
+returns void
+language sql
+security invoker
+as $$
+  update favorites
+  set position = coalesce(
+    array_position(reorder_favorites.asset_ids, favorites.asset_id),
+    coalesce(array_length(reorder_favorites.asset_ids, 1), 0) + 1
+  )
+  where user_id = auth.uid();
+$$;
+
+-- Create the watchlists tables: named lists of coins per signed-in user
+create table if not exists watchlists (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 50),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_watchlists_user_id_name on watchlists(user_id, name);
+
+-- user_id is repeated on items so their policies need no join
+create table if not exists watchlist_items (
+  id uuid default uuid_generate_v4() primary key,
+  watchlist_id uuid not null references watchlists(id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  asset_id text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_watchlist_items_watchlist_id_asset_id on watchlist_items(watchlist_id, asset_id);
+
+-- Each user can only read and change their own watchlists
+alter table watchlists enable row level security;
+alter table watchlist_items enable row level security;
+
+drop policy if exists "Users can read their watchlists" on watchlists;
+create policy "Users can read their watchlists" on watchlists
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can create watchlists" on watchlists;
+create policy "Users can create watchlists" on watchlists
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can rename their watchlists" on watchlists;
+create policy "Users can rename their watchlists" on watchlists
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their watchlists" on watchlists;
+create policy "Users can remove their watchlists" on watchlists
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their watchlist items" on watchlist_items;
+create policy "Users can read their watchlist items" on watchlist_items
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Coins can only be added to the user's own lists
+drop policy if exists "Users can add watchlist items" on watchlist_items;
+create policy "Users can add watchlist items" on watchlist_items
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from watchlists
+      where watchlists.id = watchlist_id and watchlists.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users can remove their watchlist items" on watchlist_items;
+create policy "Users can remove their watchlist items" on watchlist_items
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Create the alerts table, per signed-in user
+-- target is a price in `currency` for above/below, or a 24h change in
+-- percent for percent_up/percent_down
+create table if not exists alerts (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  asset_id text not null,
+  condition text not null check (condition in ('above', 'below', 'percent_up', 'percent_down')),
+  target numeric not null check (target > 0),
+  currency text not null default 'usd',
+  active boolean not null default true,
+  triggered_at timestamp with time zone,
+  triggered_price numeric,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_alerts_asset_id on alerts(asset_id);
+create index if not exists idx_alerts_active on alerts(active) where active;
+
+-- Triggered alerts, kept for in-app display after the alert is deleted
+create table if not exists alert_events (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  alert_id uuid references alerts(id) on delete set null,
+  asset_id text not null,
+  condition text not null,
+  target numeric not null,
+  currency text not null,
+  price numeric not null,
+  price_change_percentage_24h numeric not null,
+  triggered_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_alert_events_triggered_at on alert_events(triggered_at desc);
+
+-- Upgrade alert tables created before user accounts: alerts and events of
+-- the old shared list have no owner and are no longer visible to anyone
+alter table alerts add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+delete from alerts where user_id is null;
+alter table alerts alter column user_id set not null;
+alter table alert_events add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+delete from alert_events where user_id is null;
+alter table alert_events alter column user_id set not null;
+
+create index if not exists idx_alerts_user_id on alerts(user_id);
+create index if not exists idx_alert_events_user_id on alert_events(user_id);
+
+-- Each user can only read and change their own alerts and events
+alter table alerts enable row level security;
+alter table alert_events enable row level security;
+
+drop policy if exists "Users can read their alerts" on alerts;
+create policy "Users can read their alerts" on alerts
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can create alerts" on alerts;
+create policy "Users can create alerts" on alerts
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their alerts" on alerts;
+create policy "Users can update their alerts" on alerts
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their alerts" on alerts;
+create policy "Users can remove their alerts" on alerts
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can read their alert events" on alert_events;
+create policy "Users can read their alert events" on alert_events
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can record alert events" on alert_events;
+create policy "Users can record alert events" on alert_events
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- Fires the signed-in user's alerts in `triggers` (id, price and
+-- price_change_percentage_24h per alert): deactivates them and records an
+-- event for each, in a single statement. Alerts that are no longer active,
+-- e.g. fired by a concurrent evaluation, are skipped, so every alert fires
+-- once. Returns the recorded events.
+create or replace function trigger_alerts(triggers jsonb)
+returns setof alert_events
+language sql
+security invoker
+as $$
+  with fired as (
+    update alerts
+    set
+      active = false,
+      triggered_at = timezone('utc'::text, now()),
+      triggered_price = t.price
+    from jsonb_to_recordset(trigger_alerts.triggers)
+      as t(id uuid, price numeric, price_change_percentage_24h numeric)
+    where alerts.id = t.id and alerts.active and alerts.user_id = auth.uid()
+    returning alerts.*, t.price_change_percentage_24h
+  )
+  insert into alert_events (
+    user_id, alert_id, asset_id, condition, target, currency, price,
+    price_change_percentage_24h, triggered_at
+  )
+  select
+    user_id, id, asset_id, condition, target, currency, triggered_price,
+    price_change_percentage_24h, triggered_at
+  from fired
+  returning *;
+$$;
+
+-- Create the portfolio transactions table, per signed-in user
+-- price is per coin in `currency`; for transfers in it is the cost basis
+-- of the coins received. The portfolio converts it to the displayed
+-- currency at current exchange rates.
+create table if not exists transactions (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  asset_id text not null,
+  type text not null check (type in ('buy', 'sell', 'transfer_in', 'transfer_out')),
+  quantity numeric not null check (quantity > 0),
+  price numeric not null default 0 check (price >= 0),
+  fee numeric not null default 0 check (fee >= 0),
+  currency text not null default 'usd',
+  executed_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Upgrade a transactions table created before user accounts: rows of the
+-- old shared portfolio have no owner and are no longer visible to anyone
+alter table transactions add column if not exists user_id uuid default auth.uid() references auth.users(id) on delete cascade;
+delete from transactions where user_id is null;
+alter table transactions alter column user_id set not null;
+
+-- Transactions are loaded per user in every currency
+drop index if exists idx_transactions_currency_executed_at;
+create index if not exists idx_transactions_user_id_executed_at on transactions(user_id, executed_at);
+
+-- Each user can only read and change their own transactions
+alter table transactions enable row level security;
+
+drop policy if exists "Users can read their transactions" on transactions;
+create policy "Users can read their transactions" on transactions
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can record transactions" on transactions;
+create policy "Users can record transactions" on transactions
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their transactions" on transactions;
+create policy "Users can update their transactions" on transactions
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can remove their transactions" on transactions;
+create policy "Users can remove their transactions" on transactions
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Verify the tables were created
 -- select * from favorites;
+-- select * from watchlists;
+-- select * from alerts;
+-- select * from transactions;
@@ -0,0 +1,19 @@
+import { expect, type Page } from '@playwright/test'
+
+/**
+ * Signs up a fresh user from the nav header, so every test starts with an
+ * empty favorites list. Needs a Supabase project without email
+ * confirmations, such as the local stack (`npm run db:start`).
+ */
+export async function signUpNewUser(page: Page): Promise<string> {
+  const email = `e2e-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`
+
+  await page.getByRole('button', { name: 'Sign in' }).click()
+  await page.getByRole('button', { name: 'Need an account? Sign up' }).click()
+  await page.getByLabel('Email').fill(email)
+  await page.getByLabel('Password').fill('e2e-password')
+  await page.getByRole('button', { name: 'Create account' }).click()
+  await expect(page.getByRole('button', { name: 'Sign out' })).toBeVisible()
+
+  return email
+}
@@ -1,8 +1,10 @@
 import { test, expect } from '@playwright/test'
+import { signUpNewUser } from './auth-helpers'
 
 test.describe('Favorites Management Flow', () => {
   test.beforeEach(async ({ page }) => {
     await page.goto('/')
+    await signUpNewUser(page)
     await page.waitForTimeout(2000) // Wait for assets to load
   })
 
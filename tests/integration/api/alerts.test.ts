@@ -0,0 +1,387 @@
+/**
+ * Integration tests for /api/alerts endpoints
+ * Tests CRUD with Supabase, event listing and alert evaluation
+ */
+
+import { GET, POST, DELETE } from '@/app/api/alerts/route'
+import { GET as getEvents } from '@/app/api/alerts/events/route'
+import { POST as evaluate } from '@/app/api/alerts/evaluate/route'
+import { assetsCache } from '@/lib/cache'
+import { getMarketDataProvider } from '@/lib/market-data'
+import { getRequestUser } from '@/lib/supabase-server'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock the per-request Supabase client and session
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(),
+}))
+
+const supabase = {
+  from: jest.fn(),
+  rpc: jest.fn(),
+}
+
+const mockUser = { id: 'user-1', email: 'user@example.com' }
+
+// Chainable query builder resolving to the given result
+function mockQuery(result: { data?: unknown; error?: unknown }) {
+  const resolved = Promise.resolve({ data: null, error: null, ...result })
+  const query: Record<string, jest.Mock> = {
+    then: jest.fn((resolve, reject) => resolved.then(resolve, reject)),
+  }
+
+  for (const method of [
+    'select',
+    'insert',
+    'update',
+    'delete',
+    'eq',
+    'order',
+    'limit',
+    'single',
+  ]) {
+    query[method] = jest.fn(() => query)
+  }
+
+  return query
+}
+
+describe('/api/alerts Integration Tests', () => {
+  const mockAlert = {
+    id: 'alert-1',
+    user_id: 'user-1',
+    asset_id: 'bitcoin',
+    condition: 'above',
+    target: 50000,
+    currency: 'usd',
+    active: true,
+    triggered_at: null,
+    triggered_price: null,
+    created_at: '2025-01-01T00:00:00Z',
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRequestUser as jest.Mock).mockResolvedValue({
+      supabase,
+      user: mockUser,
+    })
+    assetsCache.clear()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  describe('GET /api/alerts', () => {
+    it('should list alerts for an asset', async () => {
+      const query = mockQuery({ data: [mockAlert] })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/alerts?asset_id=bitcoin')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.alerts).toEqual([mockAlert])
+      expect(supabase.from).toHaveBeenCalledWith('alerts')
+      expect(query.eq).toHaveBeenCalledWith('asset_id', 'bitcoin')
+      expect(query.order).toHaveBeenCalledWith('created_at', {
+        ascending: false,
+      })
+    })
+
+    it('should return 401 without a session', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/alerts')
+      )
+
+      expect(response.status).toBe(401)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when the query fails', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ error: { message: 'Database error' } })
+      )
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/alerts')
+      )
+
+      expect(response.status).toBe(500)
+      expect((await response.json()).error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to fetch alerts',
+      })
+    })
+  })
+
+  describe('POST /api/alerts', () => {
+    it('should create a validated alert', async () => {
+      const query = mockQuery({ data: mockAlert })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await POST(
+        createTestRequest('http://localhost:3000/api/alerts', {
+          method: 'POST',
+          body: JSON.stringify({
+            asset_id: 'bitcoin',
+            condition: 'above',
+            target: 50000,
+          }),
+        })
+      )
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).alert).toEqual(mockAlert)
+      expect(query.insert).toHaveBeenCalledWith({
+        asset_id: 'bitcoin',
+        condition: 'above',
+        target: 50000,
+        currency: 'usd',
+        user_id: 'user-1',
+      })
+    })
+
+    it('should return 401 without a session', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await POST(
+        createTestRequest('http://localhost:3000/api/alerts', {
+          method: 'POST',
+          body: JSON.stringify({
+            asset_id: 'bitcoin',
+            condition: 'above',
+            target: 50000,
+          }),
+        })
+      )
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error).toEqual({
+        code: 'unauthorized',
+        message: 'Sign in to manage alerts',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for invalid alerts', async () => {
+      const response = await POST(
+        createTestRequest('http://localhost:3000/api/alerts', {
+          method: 'POST',
+          body: JSON.stringify({
+            asset_id: 'bitcoin',
+            condition: 'above',
+            target: -1,
+          }),
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toEqual({
+        code: 'invalid_request',
+        message: 'Target must be greater than 0',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for malformed JSON', async () => {
+      const response = await POST(
+        createTestRequest('http://localhost:3000/api/alerts', {
+          method: 'POST',
+          body: 'not json',
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('DELETE /api/alerts', () => {
+    const ALERT_ID = '8f14e45f-ceea-467f-a0e6-2f7b4f1c6a01'
+
+    it('should delete an alert by id', async () => {
+      const query = mockQuery({ data: [{ id: ALERT_ID }] })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await DELETE(
+        createTestRequest(`http://localhost:3000/api/alerts?id=${ALERT_ID}`, {
+          method: 'DELETE',
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(query.delete).toHaveBeenCalled()
+      expect(query.eq).toHaveBeenCalledWith('id', ALERT_ID)
+    })
+
+    it('should return 404 when no alert was removed', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(mockQuery({ data: [] }))
+
+      const response = await DELETE(
+        createTestRequest(`http://localhost:3000/api/alerts?id=${ALERT_ID}`, {
+          method: 'DELETE',
+        })
+      )
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error).toEqual({
+        code: 'not_found',
+        message: 'Alert not found',
+      })
+    })
+
+    it('should return 404 for ids that are not uuids', async () => {
+      const response = await DELETE(
+        createTestRequest('http://localhost:3000/api/alerts?id=alert-1', {
+          method: 'DELETE',
+        })
+      )
+
+      expect(response.status).toBe(404)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should require an id', async () => {
+      const response = await DELETE(
+        createTestRequest('http://localhost:3000/api/alerts', {
+          method: 'DELETE',
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/alerts/events', () => {
+    it('should list the latest triggered events', async () => {
+      const query = mockQuery({ data: [] })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await getEvents(
+        createTestRequest('http://localhost:3000/api/alerts/events')
+      )
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).events).toEqual([])
+      expect(supabase.from).toHaveBeenCalledWith('alert_events')
+      expect(query.limit).toHaveBeenCalledWith(50)
+    })
+  })
+
+  describe('POST /api/alerts/evaluate', () => {
+    beforeEach(() => {
+      process.env.MARKET_DATA_PROVIDER = 'fixture'
+    })
+
+    it('should fire the alerts whose condition is met in one call', async () => {
+      const alerts = [
+        { ...mockAlert, target: 1 },
+        { ...mockAlert, id: 'alert-2', condition: 'below', target: 1 },
+      ]
+      const select = mockQuery({ data: alerts })
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(select)
+      supabase.rpc.mockResolvedValue({ data: [{ id: 'event-1' }], error: null })
+
+      const response = await evaluate()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({ checked: 2, triggered: [{ id: 'event-1' }] })
+      expect(select.eq).toHaveBeenCalledWith('active', true)
+      expect(supabase.rpc).toHaveBeenCalledTimes(1)
+      expect(supabase.rpc).toHaveBeenCalledWith('trigger_alerts', {
+        triggers: [
+          {
+            id: 'alert-1',
+            price: expect.any(Number),
+            price_change_percentage_24h: expect.any(Number),
+          },
+        ],
+      })
+      expect(supabase.from).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only report the alerts the database fired', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(
+        mockQuery({ data: [{ ...mockAlert, target: 1 }] })
+      )
+      // Already fired by a concurrent evaluation
+      supabase.rpc.mockResolvedValue({ data: [], error: null })
+
+      const response = await evaluate()
+
+      expect(await response.json()).toEqual({ checked: 1, triggered: [] })
+    })
+
+    it('should look up more than 250 coins in batches', async () => {
+      const alerts = Array.from({ length: 251 }, (_, index) => ({
+        ...mockAlert,
+        id: `alert-${index}`,
+        asset_id: index === 0 ? 'bitcoin' : `coin-${index}`,
+        target: 1,
+      }))
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(
+        mockQuery({ data: alerts })
+      )
+      supabase.rpc.mockResolvedValue({ data: [], error: null })
+      const listMarkets = jest.spyOn(getMarketDataProvider(), 'listMarkets')
+
+      const response = await evaluate()
+
+      expect(response.status).toBe(200)
+      expect(listMarkets).toHaveBeenCalledTimes(2)
+      expect(
+        listMarkets.mock.calls.map(([query]) => query.ids?.length)
+      ).toEqual([250, 1])
+    })
+
+    it('should not write anything when no alert fires', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(
+        mockQuery({ data: [{ ...mockAlert, target: 1e12 }] })
+      )
+
+      const response = await evaluate()
+
+      expect(await response.json()).toEqual({ checked: 1, triggered: [] })
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 without a session', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await evaluate()
+
+      expect(response.status).toBe(401)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when alerts cannot be loaded', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(
+        mockQuery({ error: { message: 'Database error' } })
+      )
+
+      const response = await evaluate()
+
+      expect(response.status).toBe(500)
+      expect((await response.json()).error.message).toBe(
+        'Failed to evaluate alerts'
+      )
+    })
+  })
+})
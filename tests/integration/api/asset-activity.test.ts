@@ -0,0 +1,158 @@
+/**
+ * Integration tests for /api/assets/[id]/activity endpoint
+ * Tests CoinGecko developer and community mapping, caching, upstream errors
+ * and the fixture provider
+ */
+
+import { GET } from '@/app/api/assets/[id]/activity/route'
+import { assetActivityCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/assets/[id]/activity Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockCoinResponse = {
+    id: 'bitcoin',
+    symbol: 'btc',
+    name: 'Bitcoin',
+    community_data: {
+      facebook_likes: null,
+      twitter_followers: 6_900_000,
+      reddit_average_posts_48h: 0,
+      reddit_average_comments_48h: 0,
+      reddit_subscribers: 7_000_000,
+      reddit_accounts_active_48h: 1500,
+      telegram_channel_user_count: null,
+    },
+    developer_data: {
+      forks: 36_426,
+      stars: 73_168,
+      subscribers: 3_967,
+      total_issues: 7_743,
+      closed_issues: 7_380,
+      pull_requests_merged: 11_215,
+      pull_request_contributors: 846,
+      code_additions_deletions_4_weeks: { additions: 1570, deletions: -1948 },
+      commit_count_4_weeks: 108,
+      last_4_weeks_commit_activity_series: [],
+    },
+  }
+
+  const getActivity = (id: string) =>
+    GET(createTestRequest(`http://localhost:3000/api/assets/${id}/activity`), {
+      params: Promise.resolve({ id }),
+    })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    assetActivityCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should map CoinGecko developer and community data', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockCoinResponse,
+    })
+
+    const response = await getActivity('bitcoin')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/coins/bitcoin?localization=false&tickers=false&market_data=false&community_data=true&developer_data=true&sparkline=false',
+      expect.any(Object)
+    )
+    expect(data).toEqual({
+      id: 'bitcoin',
+      developer: {
+        stars: 73_168,
+        forks: 36_426,
+        subscribers: 3_967,
+        total_issues: 7_743,
+        closed_issues: 7_380,
+        pull_requests_merged: 11_215,
+        pull_request_contributors: 846,
+        commit_count_4_weeks: 108,
+      },
+      community: {
+        twitter_followers: 6_900_000,
+        reddit_subscribers: 7_000_000,
+        reddit_accounts_active_48h: 1500,
+        telegram_channel_user_count: null,
+      },
+    })
+  })
+
+  it('should report missing sections as null figures', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'new-coin', name: 'New Coin' }),
+    })
+
+    const data = await (await getActivity('new-coin')).json()
+
+    expect(Object.values(data.developer).every((value) => value === null)).toBe(
+      true
+    )
+    expect(Object.values(data.community).every((value) => value === null)).toBe(
+      true
+    )
+  })
+
+  it('should serve repeated requests from the cache', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => mockCoinResponse,
+    })
+
+    await getActivity('bitcoin')
+    await getActivity('bitcoin')
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await getActivity('bitcoin')
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch asset activity',
+      upstreamStatus: 500,
+    })
+  })
+
+  it('should serve deterministic fixture figures offline', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const bitcoin = await (await getActivity('bitcoin')).json()
+    assetActivityCache.clear()
+    const again = await (await getActivity('bitcoin')).json()
+    const tether = await (await getActivity('tether')).json()
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(bitcoin).toEqual(again)
+    expect(bitcoin.developer.stars).toBeGreaterThan(0)
+    expect(bitcoin.developer.closed_issues).toBeLessThanOrEqual(
+      bitcoin.developer.total_issues
+    )
+    expect(tether.developer.stars).toBeNull()
+    expect(tether.community.twitter_followers).toBeGreaterThan(0)
+  })
+})
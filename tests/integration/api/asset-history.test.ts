@@ -0,0 +1,159 @@
+/**
+ * Integration tests for /api/assets/[id]/history endpoint
+ * Tests CoinGecko snapshot mapping, date validation, caching, missing days
+ * and the fixture provider
+ */
+
+import { GET as getHistory } from '@/app/api/assets/[id]/history/route'
+import { GET as getChart } from '@/app/api/assets/[id]/chart/route'
+import { chartCache, historyCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/assets/[id]/history Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockHistoryResponse = {
+    id: 'ethereum',
+    symbol: 'eth',
+    name: 'Ethereum',
+    image: { thumb: 'https://example.com/eth.png' },
+    market_data: {
+      current_price: { usd: 3433.99, eur: 3160.12 },
+      market_cap: { usd: 412_000_000_000, eur: 379_000_000_000 },
+      total_volume: { usd: 19_500_000_000, eur: 17_900_000_000 },
+    },
+  }
+
+  const requestHistory = (query: string, id = 'ethereum') =>
+    getHistory(
+      createTestRequest(
+        `http://localhost:3000/api/assets/${id}/history?${query}`
+      ),
+      { params: Promise.resolve({ id }) }
+    )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    historyCache.clear()
+    chartCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should map the CoinGecko snapshot in the requested currency', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockHistoryResponse,
+    })
+
+    const response = await requestHistory('date=2024-03-01&currency=eur')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/coins/ethereum/history?date=01-03-2024&localization=false',
+      expect.any(Object)
+    )
+    expect(data).toEqual({
+      id: 'ethereum',
+      date: '2024-03-01',
+      price: 3160.12,
+      market_cap: 379_000_000_000,
+      total_volume: 17_900_000_000,
+    })
+  })
+
+  it('should serve repeated lookups from the cache', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => mockHistoryResponse,
+    })
+
+    await requestHistory('date=2024-03-01')
+    await requestHistory('date=2024-03-01&currency=usd')
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return 404 for days without market data', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'ethereum', symbol: 'eth', name: 'Ethereum' }),
+    })
+
+    const response = await requestHistory('date=2014-01-01')
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error).toEqual({
+      code: 'not_found',
+      message: 'No market data for this date',
+    })
+  })
+
+  it('should return 400 for invalid or future dates', async () => {
+    for (const query of [
+      '',
+      'date=01-03-2024',
+      'date=2024-02-30',
+      'date=2999-01-01',
+    ]) {
+      const response = await requestHistory(query)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe(
+        'Pick a day no later than today in UTC'
+      )
+    }
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await requestHistory('date=2024-03-01')
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error.message).toBe(
+      'Failed to fetch historical data'
+    )
+  })
+
+  it('should read fixture snapshots off the fixture price history', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const snapshot = await (await requestHistory('date=2024-12-01')).json()
+    const chart = await (
+      await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/ethereum/chart?from=2024-12-01&to=2024-12-01'
+        ),
+        { params: Promise.resolve({ id: 'ethereum' }) }
+      )
+    ).json()
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(snapshot.date).toBe('2024-12-01')
+    expect(snapshot.price).toBe(chart[0].price)
+    expect(snapshot.market_cap).toBeGreaterThan(0)
+  })
+
+  it('should have no fixture data after the snapshot was taken', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await requestHistory('date=2025-06-01')
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,199 @@
+/**
+ * Integration tests for /api/assets/[id]/markets endpoint
+ * Tests CoinGecko ticker mapping, paging, caching, upstream errors and the
+ * fixture provider
+ */
+
+import { GET } from '@/app/api/assets/[id]/markets/route'
+import { tickersCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/assets/[id]/markets Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockTicker = {
+    base: 'BTC',
+    target: 'USDT',
+    market: {
+      name: 'Binance',
+      identifier: 'binance',
+      has_trading_incentive: false,
+    },
+    last: 97250.1,
+    volume: 21000.5,
+    converted_last: { btc: 1, eth: 29.4, usd: 97251.3 },
+    converted_volume: { btc: 21000.5, eth: 617414, usd: 2042264000 },
+    trust_score: 'green',
+    bid_ask_spread_percentage: 0.010013,
+    timestamp: '2025-01-15T00:00:00+00:00',
+    is_anomaly: false,
+    is_stale: false,
+    trade_url: 'https://www.binance.com/en/trade/BTC_USDT',
+    coin_id: 'bitcoin',
+  }
+
+  const getMarkets = (url: string, id = 'bitcoin') =>
+    GET(createTestRequest(url), { params: Promise.resolve({ id }) })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    tickersCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should map CoinGecko tickers to USD figures', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        name: 'Bitcoin',
+        tickers: [
+          mockTicker,
+          {
+            ...mockTicker,
+            target: 'EUR',
+            market: { name: 'Kraken', identifier: 'kraken' },
+            converted_volume: null,
+            trust_score: null,
+            bid_ask_spread_percentage: null,
+            trade_url: null,
+          },
+        ],
+      }),
+    })
+
+    const response = await getMarkets(
+      'http://localhost:3000/api/assets/bitcoin/markets'
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/coins/bitcoin/tickers?page=1&order=volume_desc',
+      expect.any(Object)
+    )
+    expect(data).toEqual({
+      tickers: [
+        {
+          exchange: 'Binance',
+          exchange_id: 'binance',
+          pair: 'BTC/USDT',
+          last_price: 97251.3,
+          volume: 2042264000,
+          spread: 0.010013,
+          trust_score: 'green',
+          trade_url: 'https://www.binance.com/en/trade/BTC_USDT',
+        },
+        {
+          exchange: 'Kraken',
+          exchange_id: 'kraken',
+          pair: 'BTC/EUR',
+          last_price: 97251.3,
+          volume: null,
+          spread: null,
+          trust_score: null,
+          trade_url: null,
+        },
+      ],
+      page: 1,
+      perPage: 100,
+      hasMore: false,
+    })
+  })
+
+  it('should request later pages and report more when a page is full', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        tickers: Array.from({ length: 100 }, () => mockTicker),
+      }),
+    })
+
+    const response = await getMarkets(
+      'http://localhost:3000/api/assets/bitcoin/markets?page=3'
+    )
+    const data = await response.json()
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/coins/bitcoin/tickers?page=3&'),
+      expect.any(Object)
+    )
+    expect(data.page).toBe(3)
+    expect(data.hasMore).toBe(true)
+  })
+
+  it('should serve repeated requests from the cache', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ tickers: [mockTicker] }),
+    })
+
+    await getMarkets('http://localhost:3000/api/assets/bitcoin/markets')
+    await getMarkets('http://localhost:3000/api/assets/bitcoin/markets?page=1')
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await getMarkets(
+      'http://localhost:3000/api/assets/bitcoin/markets'
+    )
+
+    expect(response.status).toBe(502)
+    expect((await response.json()).error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch asset markets',
+      upstreamStatus: 500,
+    })
+  })
+
+  it('should list fixture tickers by volume offline', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await getMarkets(
+      'http://localhost:3000/api/assets/tether/markets',
+      'tether'
+    )
+    const data = await response.json()
+    const volumes = data.tickers.map(
+      (ticker: { volume: number }) => ticker.volume
+    )
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(data.tickers.length).toBeGreaterThan(0)
+    expect(data.tickers[0].pair).toMatch(/^USDT\//)
+    expect(
+      data.tickers.some(
+        (ticker: { pair: string }) => ticker.pair === 'USDT/USDT'
+      )
+    ).toBe(false)
+    expect(volumes).toEqual([...volumes].sort((a, b) => b - a))
+    expect(data.hasMore).toBe(false)
+  })
+
+  it('should answer 404 for coins missing from the fixture snapshot', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await getMarkets(
+      'http://localhost:3000/api/assets/not-a-coin/markets',
+      'not-a-coin'
+    )
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -4,7 +4,8 @@
  */
 
 import { GET } from '@/app/api/assets/route'
-import { assetsCache } from '@/lib/cache'
+import { assetsCache, marketUniverseCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
 import { createTestRequest } from '../../helpers/request-helpers'
 
 // Mock fetch for CoinGecko API
@@ -36,9 +37,11 @@ describe('/api/assets Integration Tests', () => {
 
   beforeEach(() => {
     jest.clearAllMocks()
+    coinGeckoRateLimiter.reset()
     ;(global.fetch as jest.Mock).mockClear()
     // Clear the cache to ensure tests are isolated
     assetsCache.clear()
+    marketUniverseCache.clear()
   })
 
   describe('Successful Requests', () => {
@@ -230,7 +233,7 @@ describe('/api/assets Integration Tests', () => {
   })
 
   describe('Error Handling', () => {
-    it('should return 500 when CoinGecko API fails', async () => {
+    it('should return 502 when CoinGecko API fails', async () => {
       ;(global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
         status: 500,
@@ -240,8 +243,12 @@ describe('/api/assets Integration Tests', () => {
       const response = await GET(request)
       const data = await response.json()
 
-      expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to fetch crypto assets')
+      expect(response.status).toBe(502)
+      expect(data.error).toEqual({
+        code: 'upstream_error',
+        message: 'Failed to fetch crypto assets',
+        upstreamStatus: 500,
+      })
     })
 
     it('should return 500 when fetch throws an error', async () => {
@@ -254,7 +261,10 @@ describe('/api/assets Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to fetch crypto assets')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to fetch crypto assets',
+      })
     })
 
     it('should handle JSON parsing errors', async () => {
@@ -270,7 +280,23 @@ describe('/api/assets Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to fetch crypto assets')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to fetch crypto assets',
+      })
+    })
+    it('should return 502 when CoinGecko sends an unexpected payload', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: { error_code: 10002 } }),
+      })
+
+      const request = createTestRequest('http://localhost:3000/api/assets')
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(502)
+      expect(data.error.code).toBe('invalid_upstream_response')
     })
   })
 
@@ -312,6 +338,40 @@ describe('/api/assets Integration Tests', () => {
       )
     })
 
+    it('should pass the requested currency upstream', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      const request = createTestRequest(
+        'http://localhost:3000/api/assets?currency=EUR'
+      )
+      await GET(request)
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('vs_currency=eur'),
+        expect.any(Object)
+      )
+    })
+
+    it('should fall back to usd for unsupported currencies', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      const request = createTestRequest(
+        'http://localhost:3000/api/assets?currency=xyz'
+      )
+      await GET(request)
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('vs_currency=usd'),
+        expect.any(Object)
+      )
+    })
+
     it('should use market_cap_desc ordering', async () => {
       ;(global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
@@ -426,4 +486,437 @@ describe('/api/assets Integration Tests', () => {
       expect(data.assets).toEqual([])
     })
   })
+
+  describe('Ordering and Filtering', () => {
+    const mockUniverse = [
+      ...mockAssets,
+      {
+        id: 'cardano',
+        name: 'Cardano',
+        symbol: 'ada',
+        image: 'https://example.com/cardano.png',
+        current_price: 0.5,
+        price_change_percentage_24h: 3.1,
+        market_cap: 17000000000,
+        total_volume: 1000000000,
+      },
+    ]
+
+    it('should forward market cap and volume orders upstream', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      const request = createTestRequest(
+        'http://localhost:3000/api/assets?order=volume_asc&page=3'
+      )
+      await GET(request)
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=volume_asc&per_page=10&page=3&sparkline=false',
+        expect.any(Object)
+      )
+    })
+
+    it('should sort the top of the market by price on the server', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockUniverse,
+      })
+
+      const request = createTestRequest(
+        'http://localhost:3000/api/assets?order=price_asc&per_page=2'
+      )
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('order=market_cap_desc&per_page=250&page=1'),
+        expect.any(Object)
+      )
+      expect(data.assets.map((a: { id: string }) => a.id)).toEqual([
+        'cardano',
+        'ethereum',
+      ])
+      expect(data.hasMore).toBe(true)
+    })
+
+    it('should paginate filtered results from a single upstream request', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockUniverse,
+      })
+
+      const first = await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?filter=gainers&order=change_desc&per_page=1'
+        )
+      )
+      const second = await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?filter=gainers&order=change_desc&per_page=1&page=2'
+        )
+      )
+
+      expect((await first.json()).assets[0].id).toBe('bitcoin')
+      expect((await second.json()).assets[0].id).toBe('cardano')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should apply min and max ranges', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockUniverse,
+      })
+
+      const request = createTestRequest(
+        'http://localhost:3000/api/assets?min_price=1&max_price=50000&filter=losers'
+      )
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(data.assets.map((a: { id: string }) => a.id)).toEqual(['ethereum'])
+      expect(data.hasMore).toBe(false)
+    })
+
+    it('should return 400 for invalid order or filter values', async () => {
+      for (const query of [
+        'order=name_asc',
+        'filter=stable',
+        'min_price=cheap',
+        'min_volume=10&max_volume=1',
+      ]) {
+        const response = await GET(
+          createTestRequest(`http://localhost:3000/api/assets?${query}`)
+        )
+
+        expect(response.status).toBe(400)
+        expect((await response.json()).error).toEqual({
+          code: 'invalid_request',
+          message: 'Invalid order or filter',
+        })
+      }
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Categories', () => {
+    it('should forward the category upstream', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?category=layer-1&order=volume_desc'
+        )
+      )
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=volume_desc&per_page=10&page=1&sparkline=false&category=layer-1',
+        expect.any(Object)
+      )
+    })
+
+    it('should sort each category over its own universe', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      await GET(
+        createTestRequest('http://localhost:3000/api/assets?order=price_asc')
+      )
+      await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?order=price_asc&category=meme-token'
+        )
+      )
+
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining(
+          'per_page=250&page=1&sparkline=false&category=meme-token'
+        ),
+        expect.any(Object)
+      )
+    })
+
+    it('should return 400 for an invalid category', async () => {
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets?category=Layer%201')
+      )
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Invalid category')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should not let a category carry extra upstream parameters', async () => {
+      const response = await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?category=defi%26per_page%3D250'
+        )
+      )
+
+      expect(response.status).toBe(400)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should list the coins of a fixture category', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+      try {
+        const response = await GET(
+          createTestRequest(
+            'http://localhost:3000/api/assets?category=meme&per_page=50'
+          )
+        )
+        const data = await response.json()
+
+        expect(data.assets).toHaveLength(2)
+        expect(global.fetch).not.toHaveBeenCalled()
+      } finally {
+        delete process.env.MARKET_DATA_PROVIDER
+      }
+    })
+  })
+
+  describe('Caching', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should serve repeated requests from the cache', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      await GET(createTestRequest('http://localhost:3000/api/assets'))
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+
+      expect((await response.json()).assets).toEqual(mockAssets)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(assetsCache.stats()).toMatchObject({ hits: 1, misses: 1 })
+    })
+
+    it('should serve stale assets while refreshing in the background', async () => {
+      const now = Date.now()
+      const updatedAssets = [{ ...mockAssets[0], current_price: 46000 }]
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockAssets })
+        .mockResolvedValueOnce({ ok: true, json: async () => updatedAssets })
+
+      await GET(createTestRequest('http://localhost:3000/api/assets'))
+
+      // Six minutes later the entry is past its TTL but still servable
+      jest.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000)
+      const stale = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+
+      expect((await stale.json()).assets).toEqual(mockAssets)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      const refreshed = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+
+      expect((await refreshed.json()).assets).toEqual(updatedAssets)
+    })
+  })
+
+  describe('Batch Lookup by Ids', () => {
+    it('should fetch the requested ids in one upstream call', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      const response = await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?ids=ethereum,bitcoin,not-a-coin'
+        )
+      )
+      const data = await response.json()
+      const url = (global.fetch as jest.Mock).mock.calls[0][0]
+
+      expect(response.status).toBe(200)
+      expect(url).toContain('ids=bitcoin,ethereum,not-a-coin')
+      expect(url).toContain('per_page=3')
+      // In the requested order, without the unknown id
+      expect(data.assets.map((asset: { id: string }) => asset.id)).toEqual([
+        'ethereum',
+        'bitcoin',
+      ])
+      expect(data.hasMore).toBe(false)
+    })
+
+    it('should share the cache between orderings of the same ids', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+
+      await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?ids=bitcoin,ethereum'
+        )
+      )
+      const response = await GET(
+        createTestRequest(
+          'http://localhost:3000/api/assets?ids=ethereum,bitcoin'
+        )
+      )
+      const data = await response.json()
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(data.assets[0].id).toBe('ethereum')
+    })
+
+    it('should return 400 for invalid ids', async () => {
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets?ids=,')
+      )
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Invalid ids')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should look up ids in the fixture snapshot', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+      try {
+        const response = await GET(
+          createTestRequest('http://localhost:3000/api/assets?ids=solana')
+        )
+        const data = await response.json()
+
+        expect(data.assets).toHaveLength(1)
+        expect(data.assets[0].id).toBe('solana')
+        expect(global.fetch).not.toHaveBeenCalled()
+      } finally {
+        delete process.env.MARKET_DATA_PROVIDER
+      }
+    })
+  })
+
+  describe('Request Coalescing', () => {
+    it('should share one upstream call between concurrent misses', async () => {
+      let resolveFetch: (value: unknown) => void = () => {}
+      ;(global.fetch as jest.Mock).mockReturnValueOnce(
+        new Promise((resolve) => (resolveFetch = resolve))
+      )
+
+      const requests = Array.from({ length: 5 }, () =>
+        GET(createTestRequest('http://localhost:3000/api/assets?page=1'))
+      )
+      resolveFetch({ ok: true, json: async () => mockAssets })
+      const responses = await Promise.all(requests)
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      for (const response of responses) {
+        expect((await response.json()).assets).toEqual(mockAssets)
+      }
+    })
+
+    it('should share a failed upstream call between concurrent misses', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+      })
+
+      const responses = await Promise.all([
+        GET(createTestRequest('http://localhost:3000/api/assets')),
+        GET(createTestRequest('http://localhost:3000/api/assets')),
+      ])
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(responses.map((response) => response.status)).toEqual([502, 502])
+    })
+  })
+
+  describe('Rate Limiting', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should retry after a 429 honouring Retry-After', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0)
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '0' }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => mockAssets })
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).assets).toEqual(mockAssets)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should answer 503 when Retry-After exceeds the wait budget', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': '120' }),
+      })
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(response.headers.get('Retry-After')).toBe('120')
+      expect(data.error.code).toBe('rate_limited')
+      expect(data.error.retryAfter).toBe(120)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not call upstream once the budget is exhausted', async () => {
+      coinGeckoRateLimiter.pauseFor(30 * 1000)
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.error.retryAfter).toBe(30)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should serve expired cached data instead of a 503', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAssets,
+      })
+      await GET(createTestRequest('http://localhost:3000/api/assets'))
+
+      // An hour later the entry is past its stale window as well
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 60 * 1000)
+      coinGeckoRateLimiter.pauseFor(30 * 1000)
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/assets')
+      )
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).assets).toEqual(mockAssets)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+  })
 })
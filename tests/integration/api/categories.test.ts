@@ -0,0 +1,125 @@
+/**
+ * Integration tests for /api/categories endpoint
+ * Tests CoinGecko mapping, caching, upstream errors and the fixture provider
+ */
+
+import { GET } from '@/app/api/categories/route'
+import { categoriesCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/categories Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockCategories = [
+    {
+      id: 'layer-1',
+      name: 'Layer 1 (L1)',
+      market_cap: 2_800_000_000_000,
+      market_cap_change_24h: 1.8,
+      content: '',
+      top_3_coins: [],
+      volume_24h: 90_000_000_000,
+      updated_at: '2025-01-15T00:00:00.000Z',
+    },
+    {
+      id: 'new-listings',
+      name: 'New Listings',
+      market_cap: null,
+      market_cap_change_24h: null,
+      content: null,
+      top_3_coins: [],
+      volume_24h: null,
+      updated_at: null,
+    },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    categoriesCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should map the CoinGecko categories', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockCategories,
+    })
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/coins/categories?order=market_cap_desc',
+      expect.any(Object)
+    )
+    expect(data.categories).toEqual([
+      {
+        id: 'layer-1',
+        name: 'Layer 1 (L1)',
+        market_cap: 2_800_000_000_000,
+        market_cap_change_24h: 1.8,
+      },
+      {
+        id: 'new-listings',
+        name: 'New Listings',
+        market_cap: null,
+        market_cap_change_24h: null,
+      },
+    ])
+  })
+
+  it('should serve repeated requests from the cache', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => mockCategories,
+    })
+
+    await GET()
+    await GET()
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch categories',
+      upstreamStatus: 500,
+    })
+  })
+
+  it('should derive categories from the fixture snapshot', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await GET()
+    const data = await response.json()
+    const meme = data.categories.find(
+      (category: { id: string }) => category.id === 'meme'
+    )
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(data.categories[0].id).toBe('layer-1-l1')
+    expect(meme).toEqual(
+      expect.objectContaining({ name: 'Meme', market_cap: expect.any(Number) })
+    )
+  })
+})
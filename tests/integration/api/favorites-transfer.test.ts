@@ -0,0 +1,335 @@
+/**
+ * Integration tests for /api/favorites/export and /api/favorites/import
+ * Coins are validated against the fixture market data provider
+ */
+
+import { GET as exportFavorites } from '@/app/api/favorites/export/route'
+import { POST as importFavorites } from '@/app/api/favorites/import/route'
+import { assetsCache } from '@/lib/cache'
+import { MAX_FAVORITES } from '@/lib/favorites'
+import { getRequestUser } from '@/lib/supabase-server'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock the per-request Supabase client and session
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(),
+}))
+
+const supabase = {
+  from: jest.fn(),
+}
+
+const mockUser = { id: 'user-1', email: 'user@example.com' }
+
+// Chainable query builder resolving to the given result
+function mockQuery(result: { data?: unknown; error?: unknown }) {
+  const resolved = Promise.resolve({ data: null, error: null, ...result })
+  const query: Record<string, jest.Mock> = {
+    then: jest.fn((resolve, reject) => resolved.then(resolve, reject)),
+  }
+
+  for (const method of ['select', 'order', 'upsert']) {
+    query[method] = jest.fn(() => query)
+  }
+
+  return query
+}
+
+function importRequest(body: unknown) {
+  return createTestRequest('http://localhost/api/favorites/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+describe('Favorites import and export', () => {
+  const favorites = [
+    {
+      id: '1',
+      user_id: 'user-1',
+      asset_id: 'bitcoin',
+      position: 1,
+      pinned: true,
+      created_at: '2025-01-01T00:00:00.000Z',
+    },
+    {
+      id: '2',
+      user_id: 'user-1',
+      asset_id: 'ethereum',
+      position: 2,
+      pinned: false,
+      created_at: '2025-01-02T00:00:00.000Z',
+    },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    assetsCache.clear()
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getRequestUser as jest.Mock).mockResolvedValue({
+      supabase,
+      user: mockUser,
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  describe('GET /api/favorites/export', () => {
+    it('should download favorites as JSON by default', async () => {
+      const query = mockQuery({ data: favorites })
+      supabase.from.mockReturnValue(query)
+
+      const response = await exportFavorites(
+        createTestRequest('http://localhost/api/favorites/export')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toContain('application/json')
+      expect(response.headers.get('Content-Disposition')).toMatch(
+        /^attachment; filename="favorites-\d{4}-\d{2}-\d{2}\.json"$/
+      )
+      expect(data.favorites).toEqual([
+        {
+          asset_id: 'bitcoin',
+          pinned: true,
+          position: 1,
+          created_at: '2025-01-01T00:00:00.000Z',
+        },
+        {
+          asset_id: 'ethereum',
+          pinned: false,
+          position: 2,
+          created_at: '2025-01-02T00:00:00.000Z',
+        },
+      ])
+      expect(query.order).toHaveBeenCalledWith('pinned', { ascending: false })
+    })
+
+    it('should download favorites as CSV', async () => {
+      supabase.from.mockReturnValue(mockQuery({ data: favorites }))
+
+      const response = await exportFavorites(
+        createTestRequest('http://localhost/api/favorites/export?format=csv')
+      )
+
+      expect(response.headers.get('Content-Type')).toContain('text/csv')
+      expect(await response.text()).toBe(
+        'asset_id,pinned,position,created_at\n' +
+          'bitcoin,true,1,2025-01-01T00:00:00.000Z\n' +
+          'ethereum,false,2,2025-01-02T00:00:00.000Z\n'
+      )
+    })
+
+    it('should reject other formats', async () => {
+      const response = await exportFavorites(
+        createTestRequest('http://localhost/api/favorites/export?format=xml')
+      )
+
+      expect(response.status).toBe(400)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 to visitors', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await exportFavorites(
+        createTestRequest('http://localhost/api/favorites/export')
+      )
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.code).toBe('unauthorized')
+    })
+  })
+
+  describe('POST /api/favorites/import', () => {
+    const csv = [
+      'asset_id,pinned',
+      'bitcoin,false',
+      'solana,true',
+      'not-a-coin,false',
+      'Solana,false',
+      'dogecoin,maybe',
+      'bad id,false',
+    ].join('\n')
+
+    it('should preview an import without writing', async () => {
+      const query = mockQuery({ data: [favorites[0]] })
+      supabase.from.mockReturnValue(query)
+
+      const response = await importFavorites(
+        importRequest({ format: 'csv', content: csv, dry_run: true })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.report).toEqual({
+        dry_run: true,
+        added: ['solana'],
+        existing: ['bitcoin'],
+        duplicates: ['solana'],
+        unknown: ['not-a-coin'],
+        over_limit: [],
+        invalid: [
+          { row: 6, message: 'pinned must be true or false' },
+          { row: 7, message: 'Invalid asset id' },
+        ],
+      })
+      expect(query.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should add new coins after the existing favorites', async () => {
+      const query = mockQuery({ data: favorites })
+      supabase.from.mockReturnValue(query)
+
+      const response = await importFavorites(
+        importRequest({
+          format: 'json',
+          content: JSON.stringify({
+            favorites: [
+              { asset_id: 'solana', pinned: true },
+              { asset_id: 'ethereum' },
+              { asset_id: 'dogecoin' },
+            ],
+          }),
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.report.added).toEqual(['solana', 'dogecoin'])
+      expect(data.report.existing).toEqual(['ethereum'])
+      expect(query.upsert).toHaveBeenCalledWith(
+        [
+          {
+            asset_id: 'solana',
+            user_id: 'user-1',
+            pinned: true,
+            position: 3,
+          },
+          {
+            asset_id: 'dogecoin',
+            user_id: 'user-1',
+            pinned: false,
+            position: 4,
+          },
+        ],
+        { onConflict: 'user_id,asset_id', ignoreDuplicates: true }
+      )
+    })
+
+    it('should stop adding coins at the favorites limit', async () => {
+      const current = Array.from({ length: MAX_FAVORITES - 1 }, (_, index) => ({
+        asset_id: `coin-${index}`,
+        position: index + 1,
+      }))
+      const query = mockQuery({ data: current })
+      supabase.from.mockReturnValue(query)
+
+      const response = await importFavorites(
+        importRequest({
+          format: 'json',
+          content: '["solana", "dogecoin", "tether"]',
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.report.added).toEqual(['solana'])
+      expect(data.report.over_limit).toEqual(['dogecoin', 'tether'])
+      expect(query.upsert).toHaveBeenCalledWith(
+        [
+          {
+            asset_id: 'solana',
+            user_id: 'user-1',
+            pinned: false,
+            position: MAX_FAVORITES,
+          },
+        ],
+        { onConflict: 'user_id,asset_id', ignoreDuplicates: true }
+      )
+    })
+
+    it('should add nothing once the favorites are full', async () => {
+      const current = Array.from({ length: MAX_FAVORITES }, (_, index) => ({
+        asset_id: `coin-${index}`,
+        position: index + 1,
+      }))
+      const query = mockQuery({ data: current })
+      supabase.from.mockReturnValue(query)
+
+      const response = await importFavorites(
+        importRequest({ format: 'json', content: '["solana"]' })
+      )
+      const data = await response.json()
+
+      expect(data.report.added).toEqual([])
+      expect(data.report.over_limit).toEqual(['solana'])
+      expect(query.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should accept a bare list of ids', async () => {
+      supabase.from.mockReturnValue(mockQuery({ data: [] }))
+
+      const response = await importFavorites(
+        importRequest({
+          format: 'json',
+          content: '["tether", "ripple"]',
+          dry_run: true,
+        })
+      )
+      const data = await response.json()
+
+      expect(data.report.added).toEqual(['tether', 'ripple'])
+    })
+
+    it('should return 400 for an unreadable file', async () => {
+      const response = await importFavorites(
+        importRequest({ format: 'json', content: '{not json' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'The file is not valid JSON',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for a CSV without an asset_id column', async () => {
+      const response = await importFavorites(
+        importRequest({ format: 'csv', content: 'id\nbitcoin' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'The CSV header must have an asset_id column',
+      })
+    })
+
+    it('should return 401 to visitors', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await importFavorites(
+        importRequest({ format: 'csv', content: csv })
+      )
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.code).toBe('unauthorized')
+    })
+  })
+})
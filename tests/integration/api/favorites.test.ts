@@ -1,19 +1,43 @@
 /**
  * Integration tests for /api/favorites endpoint
- * Tests GET, POST, DELETE operations with Supabase
+ * Tests GET, POST, DELETE operations with Supabase as a signed-in user
  */
 
-import { GET, POST, DELETE } from '@/app/api/favorites/route'
-import { supabase } from '@/lib/supabase'
+import { GET, POST, PATCH, DELETE } from '@/app/api/favorites/route'
+import { PUT as reorder } from '@/app/api/favorites/order/route'
+import { MAX_FAVORITES } from '@/lib/favorites'
+import { getRequestUser } from '@/lib/supabase-server'
 import { createTestRequest } from '../../helpers/request-helpers'
 
-// Mock Supabase client
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn(),
-  },
+// Mock the per-request Supabase client and session
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(),
 }))
 
+const supabase = {
+  from: jest.fn(),
+  rpc: jest.fn(),
+}
+
+// GET orders three times; the last call resolves to `result`
+function mockOrderChain(result: { data: unknown; error: unknown }) {
+  const order = jest.fn()
+  order
+    .mockReturnValueOnce({ order })
+    .mockReturnValueOnce({ order })
+    .mockResolvedValueOnce(result)
+  return order
+}
+
+// Head-only count of the user's favorites
+function mockCount(count: number) {
+  return {
+    select: jest.fn().mockResolvedValue({ count, error: null }),
+  }
+}
+
+const mockUser = { id: 'user-1', email: 'user@example.com' }
+
 describe('/api/favorites Integration Tests', () => {
   const mockFavorites = [
     {
@@ -30,12 +54,16 @@ describe('/api/favorites Integration Tests', () => {
 
   beforeEach(() => {
     jest.clearAllMocks()
+    ;(getRequestUser as jest.Mock).mockResolvedValue({
+      supabase,
+      user: mockUser,
+    })
   })
 
   describe('GET /api/favorites', () => {
     it('should fetch all favorites successfully', async () => {
       const mockSelect = jest.fn().mockReturnThis()
-      const mockOrder = jest.fn().mockResolvedValue({
+      const mockOrder = mockOrderChain({
         data: mockFavorites,
         error: null,
       })
@@ -60,7 +88,7 @@ describe('/api/favorites Integration Tests', () => {
 
     it('should return empty array when no favorites exist', async () => {
       const mockSelect = jest.fn().mockReturnThis()
-      const mockOrder = jest.fn().mockResolvedValue({
+      const mockOrder = mockOrderChain({
         data: [],
         error: null,
       })
@@ -82,7 +110,7 @@ describe('/api/favorites Integration Tests', () => {
 
     it('should return 500 when database query fails', async () => {
       const mockSelect = jest.fn().mockReturnThis()
-      const mockOrder = jest.fn().mockResolvedValue({
+      const mockOrder = mockOrderChain({
         data: null,
         error: { message: 'Database error', code: 'DB_ERROR' },
       })
@@ -99,12 +127,15 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to fetch favorites')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to fetch favorites',
+      })
     })
 
-    it('should order favorites by created_at descending', async () => {
+    it('should order pinned favorites first, then manually, then newest', async () => {
       const mockSelect = jest.fn().mockReturnThis()
-      const mockOrder = jest.fn().mockResolvedValue({
+      const mockOrder = mockOrderChain({
         data: mockFavorites,
         error: null,
       })
@@ -119,7 +150,15 @@ describe('/api/favorites Integration Tests', () => {
 
       await GET()
 
-      expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: false })
+      expect(mockOrder).toHaveBeenNthCalledWith(1, 'pinned', {
+        ascending: false,
+      })
+      expect(mockOrder).toHaveBeenNthCalledWith(2, 'position', {
+        ascending: true,
+      })
+      expect(mockOrder).toHaveBeenNthCalledWith(3, 'created_at', {
+        ascending: false,
+      })
     })
   })
 
@@ -138,9 +177,9 @@ describe('/api/favorites Integration Tests', () => {
         error: null,
       })
 
-      ;(supabase.from as jest.Mock).mockReturnValue({
-        insert: mockInsert,
-      })
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockCount(2))
+        .mockReturnValue({ insert: mockInsert })
 
       mockInsert.mockReturnValue({
         select: mockSelect,
@@ -160,7 +199,10 @@ describe('/api/favorites Integration Tests', () => {
 
       expect(response.status).toBe(201)
       expect(data.favorite).toEqual(newFavorite)
-      expect(mockInsert).toHaveBeenCalledWith({ asset_id: 'cardano' })
+      expect(mockInsert).toHaveBeenCalledWith({
+        asset_id: 'cardano',
+        user_id: 'user-1',
+      })
     })
 
     it('should return 400 when asset_id is missing', async () => {
@@ -173,7 +215,30 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(400)
-      expect(data.error).toBe('asset_id is required')
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'asset_id is required',
+      })
+    })
+
+    it('should return 409 once the favorites limit is reached', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValueOnce(
+        mockCount(MAX_FAVORITES)
+      )
+
+      const response = await POST(
+        createTestRequest('http://localhost:3000/api/favorites', {
+          method: 'POST',
+          body: JSON.stringify({ asset_id: 'cardano' }),
+        })
+      )
+
+      expect(response.status).toBe(409)
+      expect((await response.json()).error).toEqual({
+        code: 'conflict',
+        message: `You can keep at most ${MAX_FAVORITES} favorites`,
+      })
+      expect(supabase.from).toHaveBeenCalledTimes(1)
     })
 
     it('should handle duplicate favorites gracefully', async () => {
@@ -184,9 +249,9 @@ describe('/api/favorites Integration Tests', () => {
         error: { code: '23505', message: 'Unique constraint violation' },
       })
 
-      ;(supabase.from as jest.Mock).mockReturnValue({
-        insert: mockInsert,
-      })
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockCount(2))
+        .mockReturnValue({ insert: mockInsert })
 
       mockInsert.mockReturnValue({
         select: mockSelect,
@@ -216,9 +281,9 @@ describe('/api/favorites Integration Tests', () => {
         error: { code: 'DB_ERROR', message: 'Database error' },
       })
 
-      ;(supabase.from as jest.Mock).mockReturnValue({
-        insert: mockInsert,
-      })
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockCount(2))
+        .mockReturnValue({ insert: mockInsert })
 
       mockInsert.mockReturnValue({
         select: mockSelect,
@@ -237,7 +302,10 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to add favorite')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to add favorite',
+      })
     })
 
     it('should handle malformed JSON request body', async () => {
@@ -249,8 +317,144 @@ describe('/api/favorites Integration Tests', () => {
       const response = await POST(request)
       const data = await response.json()
 
+      expect(response.status).toBe(400)
+      expect(data.error.code).toBe('invalid_request')
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PATCH /api/favorites', () => {
+    function patchRequest(body: unknown) {
+      return createTestRequest('http://localhost:3000/api/favorites', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    }
+
+    it('should pin a favorite', async () => {
+      const pinned = { ...mockFavorites[0], pinned: true }
+      const mockUpdate = jest.fn().mockReturnThis()
+      const mockEq = jest.fn().mockReturnThis()
+      const mockSelect = jest.fn().mockReturnThis()
+      const mockMaybeSingle = jest
+        .fn()
+        .mockResolvedValue({ data: pinned, error: null })
+
+      ;(supabase.from as jest.Mock).mockReturnValue({
+        update: mockUpdate,
+        eq: mockEq,
+        select: mockSelect,
+        maybeSingle: mockMaybeSingle,
+      })
+
+      const response = await PATCH(
+        patchRequest({ asset_id: 'bitcoin', pinned: true })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.favorite).toEqual(pinned)
+      expect(mockUpdate).toHaveBeenCalledWith({ pinned: true })
+      expect(mockEq).toHaveBeenCalledWith('asset_id', 'bitcoin')
+    })
+
+    it('should return 404 when the asset is not a favorite', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue({
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      })
+
+      const response = await PATCH(
+        patchRequest({ asset_id: 'dogecoin', pinned: true })
+      )
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error.code).toBe('not_found')
+    })
+
+    it('should return 400 when pinned is not a boolean', async () => {
+      const response = await PATCH(
+        patchRequest({ asset_id: 'bitcoin', pinned: 'yes' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'pinned must be a boolean',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/favorites/order', () => {
+    function orderRequest(body: unknown) {
+      return createTestRequest('http://localhost:3000/api/favorites/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+    }
+
+    it('should store the order in one database call', async () => {
+      supabase.rpc.mockResolvedValue({ data: null, error: null })
+
+      const response = await reorder(
+        orderRequest({ asset_ids: ['ethereum', 'bitcoin'] })
+      )
+
+      expect(response.status).toBe(200)
+      expect(supabase.rpc).toHaveBeenCalledTimes(1)
+      expect(supabase.rpc).toHaveBeenCalledWith('reorder_favorites', {
+        asset_ids: ['ethereum', 'bitcoin'],
+      })
+    })
+
+    it('should reject repeated ids', async () => {
+      const response = await reorder(
+        orderRequest({ asset_ids: ['bitcoin', 'bitcoin'] })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'asset_ids must not repeat',
+      })
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when the database call fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      supabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Database error' },
+      })
+
+      const response = await reorder(orderRequest({ asset_ids: ['bitcoin'] }))
+      const data = await response.json()
+
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to add favorite')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to reorder favorites',
+      })
+    })
+
+    it('should return 401 to visitors', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await reorder(orderRequest({ asset_ids: ['bitcoin'] }))
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error.code).toBe('unauthorized')
+      expect(supabase.rpc).not.toHaveBeenCalled()
     })
   })
 
@@ -293,7 +497,10 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(400)
-      expect(data.error).toBe('asset_id is required')
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'asset_id is required',
+      })
     })
 
     it('should return 500 when database delete fails', async () => {
@@ -320,7 +527,10 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(500)
-      expect(data.error).toBe('Failed to remove favorite')
+      expect(data.error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to remove favorite',
+      })
     })
 
     it('should handle deleting non-existent favorite', async () => {
@@ -352,6 +562,53 @@ describe('/api/favorites Integration Tests', () => {
     })
   })
 
+  describe('Signed-out visitors', () => {
+    beforeEach(() => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+    })
+
+    it('should return no favorites without querying the database', async () => {
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.favorites).toEqual([])
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 when adding a favorite', async () => {
+      const request = createTestRequest('http://localhost:3000/api/favorites', {
+        method: 'POST',
+        body: JSON.stringify({ asset_id: 'bitcoin' }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error).toEqual({
+        code: 'unauthorized',
+        message: 'Sign in to manage favorites',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 when removing a favorite', async () => {
+      const request = createTestRequest(
+        'http://localhost:3000/api/favorites?asset_id=bitcoin',
+        { method: 'DELETE' }
+      )
+
+      const response = await DELETE(request)
+
+      expect(response.status).toBe(401)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Data Validation', () => {
     it('should validate asset_id format in POST', async () => {
       const request = createTestRequest('http://localhost:3000/api/favorites', {
@@ -363,7 +620,10 @@ describe('/api/favorites Integration Tests', () => {
       const data = await response.json()
 
       expect(response.status).toBe(400)
-      expect(data.error).toBe('asset_id is required')
+      expect(data.error).toEqual({
+        code: 'invalid_request',
+        message: 'asset_id is required',
+      })
     })
 
     it('should handle special characters in asset_id for DELETE', async () => {
@@ -403,9 +663,9 @@ describe('/api/favorites Integration Tests', () => {
         error: null,
       })
 
-      ;(supabase.from as jest.Mock).mockReturnValue({
-        insert: mockInsert,
-      })
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockCount(0))
+        .mockReturnValue({ insert: mockInsert })
 
       mockInsert.mockReturnValue({
         select: mockSelectInsert,
@@ -428,7 +688,7 @@ describe('/api/favorites Integration Tests', () => {
 
       // 2. List favorites
       const mockSelectGet = jest.fn().mockReturnThis()
-      const mockOrder = jest.fn().mockResolvedValue({
+      const mockOrder = mockOrderChain({
         data: [mockFavorites[0]],
         error: null,
       })
@@ -0,0 +1,120 @@
+/**
+ * Integration tests for /api/global endpoint
+ * Tests CoinGecko mapping, caching, upstream errors and the fixture provider
+ */
+
+import { GET } from '@/app/api/global/route'
+import { globalCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/global Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockGlobalResponse = {
+    data: {
+      active_cryptocurrencies: 17342,
+      upcoming_icos: 0,
+      markets: 1284,
+      total_market_cap: { usd: 3_400_000_000_000, eur: 3_150_000_000_000 },
+      total_volume: { usd: 120_000_000_000, eur: 111_000_000_000 },
+      market_cap_percentage: { btc: 56.4, eth: 12.1, usdt: 4.3 },
+      market_cap_change_percentage_24h_usd: -1.25,
+      updated_at: 1736899200,
+    },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    globalCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should map the CoinGecko global payload', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockGlobalResponse,
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/global?currency=eur')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/global',
+      expect.any(Object)
+    )
+    expect(data).toEqual({
+      total_market_cap: 3_150_000_000_000,
+      total_volume: 111_000_000_000,
+      btc_dominance: 56.4,
+      eth_dominance: 12.1,
+      market_cap_change_percentage_24h: -1.25,
+      active_cryptocurrencies: 17342,
+      updated_at: 1736899200000,
+    })
+  })
+
+  it('should cache each currency separately', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => mockGlobalResponse,
+    })
+
+    await GET(createTestRequest('http://localhost:3000/api/global'))
+    await GET(
+      createTestRequest('http://localhost:3000/api/global?currency=usd')
+    )
+    await GET(
+      createTestRequest('http://localhost:3000/api/global?currency=eur')
+    )
+
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/global')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch global market data',
+      upstreamStatus: 500,
+    })
+  })
+
+  it('should summarize the fixture snapshot offline', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/global')
+    )
+    const data = await response.json()
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(data.active_cryptocurrencies).toBe(20)
+    expect(data.total_market_cap).toBeGreaterThan(0)
+    expect(data.btc_dominance).toBeGreaterThan(data.eth_dominance)
+    expect(data.btc_dominance + data.eth_dominance).toBeLessThan(100)
+    expect(data.updated_at).toBe(Date.UTC(2025, 0, 15))
+  })
+})
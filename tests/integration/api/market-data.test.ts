@@ -0,0 +1,514 @@
+/**
+ * Integration tests for the market data provider layer
+ * Tests provider selection and the market routes backed by offline fixtures
+ */
+
+import { GET as getAssets } from '@/app/api/assets/route'
+import { GET as getAssetDetail } from '@/app/api/assets/[id]/route'
+import { GET as getChart } from '@/app/api/assets/[id]/chart/route'
+import { GET as getOhlc } from '@/app/api/assets/[id]/ohlc/route'
+import { assetsCache } from '@/lib/cache'
+import { getMarketDataProvider } from '@/lib/market-data'
+import { FIXTURE_NOW } from '@/lib/market-data/fixture'
+import {
+  CoinGeckoProvider,
+  coinGeckoRateLimiter,
+} from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+global.fetch = jest.fn()
+
+describe('Market data provider layer', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    coinGeckoRateLimiter.reset()
+    assetsCache.clear()
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  describe('Provider selection', () => {
+    it('should default to CoinGecko when the env var is not set', () => {
+      delete process.env.MARKET_DATA_PROVIDER
+      expect(getMarketDataProvider().name).toBe('coingecko')
+    })
+
+    it('should select the fixture provider from the env var', () => {
+      process.env.MARKET_DATA_PROVIDER = 'Fixture'
+      expect(getMarketDataProvider().name).toBe('fixture')
+    })
+
+    it('should fall back to CoinGecko for unknown providers', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      process.env.MARKET_DATA_PROVIDER = 'unknown'
+
+      expect(getMarketDataProvider().name).toBe('coingecko')
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+
+    it('should reuse provider instances', () => {
+      expect(getMarketDataProvider()).toBe(getMarketDataProvider())
+    })
+  })
+
+  describe('Fixture-backed routes', () => {
+    it('should list paginated assets without calling the network', async () => {
+      const response = await getAssets(
+        createTestRequest('http://localhost:3000/api/assets?page=2&per_page=5')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.assets).toHaveLength(5)
+      expect(data.assets[0].id).toBe('solana')
+      expect(data.hasMore).toBe(true)
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should report no more assets past the end of the snapshot', async () => {
+      const response = await getAssets(
+        createTestRequest('http://localhost:3000/api/assets?page=3&per_page=10')
+      )
+      const data = await response.json()
+
+      expect(data.assets).toEqual([])
+      expect(data.hasMore).toBe(false)
+    })
+
+    it('should return asset details from fixtures', async () => {
+      const response = await getAssetDetail(
+        createTestRequest('http://localhost:3000/api/assets/bitcoin'),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.id).toBe('bitcoin')
+      expect(data.market_cap_rank).toBe(1)
+      expect(data.categories).toContain('Cryptocurrency')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should fail for assets missing from the snapshot', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await getAssetDetail(
+        createTestRequest('http://localhost:3000/api/assets/not-a-coin'),
+        { params: Promise.resolve({ id: 'not-a-coin' }) }
+      )
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error).toEqual({
+        code: 'not_found',
+        message: 'Coin not found',
+        upstreamStatus: 404,
+      })
+      error.mockRestore()
+    })
+
+    it('should return deterministic price history ending at the current price', async () => {
+      const first = await getChart(
+        createTestRequest('http://localhost:3000/api/assets/solana/chart'),
+        { params: Promise.resolve({ id: 'solana' }) }
+      )
+      const data = await first.json()
+      const provider = getMarketDataProvider()
+      const again = await provider.getPriceHistory('solana', {
+        currency: 'usd',
+        range: { days: '7' },
+      })
+      const detail = await provider.getAssetDetail('solana', {
+        currency: 'usd',
+      })
+
+      // 7 days of hourly points, inclusive of both ends
+      expect(data).toHaveLength(7 * 24 + 1)
+      expect(data).toEqual(again)
+      expect(data[data.length - 1]).toEqual({
+        timestamp: FIXTURE_NOW,
+        price: detail.current_price,
+      })
+    })
+
+    it('should convert fixture quotes to the requested currency', async () => {
+      const response = await getAssetDetail(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin?currency=btc'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+      const data = await response.json()
+
+      expect(data.current_price).toBeCloseTo(1)
+    })
+
+    it('should cache each currency separately', async () => {
+      const usd = await getAssets(
+        createTestRequest('http://localhost:3000/api/assets?currency=usd')
+      )
+      const eur = await getAssets(
+        createTestRequest('http://localhost:3000/api/assets?currency=eur')
+      )
+      const usdData = await usd.json()
+      const eurData = await eur.json()
+
+      expect(eurData.assets[0].current_price).toBeCloseTo(
+        usdData.assets[0].current_price * 0.96
+      )
+    })
+
+    it('should serve daily points for ranges longer than 90 days', async () => {
+      const response = await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin/chart?days=365'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+      const data = await response.json()
+
+      expect(data).toHaveLength(366)
+      expect(data[1].timestamp - data[0].timestamp).toBe(24 * 60 * 60 * 1000)
+    })
+
+    it('should serve custom date ranges', async () => {
+      const response = await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin/chart?from=2025-01-10&to=2025-01-12'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+      const data = await response.json()
+
+      expect(data[0].timestamp).toBe(Date.UTC(2025, 0, 10))
+      expect(data[data.length - 1].timestamp).toBe(Date.UTC(2025, 0, 12, 23))
+    })
+
+    it('should reject invalid chart ranges with 400', async () => {
+      const response = await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin/chart?days=14'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should aggregate fixture history into OHLC candles', async () => {
+      const response = await getOhlc(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin/ohlc?days=7'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+      const data = await response.json()
+
+      expect(data).toHaveLength(42)
+      expect(data[1].timestamp - data[0].timestamp).toBe(4 * 60 * 60 * 1000)
+      expect(data[data.length - 1].timestamp).toBe(FIXTURE_NOW)
+      for (const candle of data) {
+        expect(candle.high).toBeGreaterThanOrEqual(
+          Math.max(candle.open, candle.close)
+        )
+        expect(candle.low).toBeLessThanOrEqual(
+          Math.min(candle.open, candle.close)
+        )
+      }
+      expect(data[1].open).toBe(data[0].close)
+    })
+
+    it('should reject invalid OHLC ranges with 400', async () => {
+      const response = await getOhlc(
+        createTestRequest(
+          'http://localhost:3000/api/assets/bitcoin/ohlc?days=14'
+        ),
+        { params: Promise.resolve({ id: 'bitcoin' }) }
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('CoinGecko OHLC', () => {
+    it('should map OHLC tuples into candles', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          [1700000000000, 100, 110, 95, 105],
+          [1700014400000, 105, 108, 101, 102],
+        ],
+      })
+
+      const response = await getOhlc(
+        createTestRequest(
+          'http://localhost:3000/api/assets/ethereum/ohlc?days=30&currency=eur'
+        ),
+        { params: Promise.resolve({ id: 'ethereum' }) }
+      )
+      const data = await response.json()
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.coingecko.com/api/v3/coins/ethereum/ohlc?vs_currency=eur&days=30',
+        expect.any(Object)
+      )
+      expect(data).toEqual([
+        { timestamp: 1700000000000, open: 100, high: 110, low: 95, close: 105 },
+        {
+          timestamp: 1700014400000,
+          open: 105,
+          high: 108,
+          low: 101,
+          close: 102,
+        },
+      ])
+    })
+
+    it('should return 502 when the upstream request fails', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+      })
+
+      const response = await getOhlc(
+        createTestRequest(
+          'http://localhost:3000/api/assets/solana/ohlc?days=1'
+        ),
+        { params: Promise.resolve({ id: 'solana' }) }
+      )
+
+      expect(response.status).toBe(502)
+      expect(await response.json()).toEqual({
+        error: {
+          code: 'upstream_error',
+          message: 'Failed to fetch OHLC data',
+          upstreamStatus: 502,
+        },
+      })
+    })
+  })
+
+  describe('CoinGecko payload validation', () => {
+    beforeEach(() => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+    })
+
+    it('should return 404 for coins CoinGecko does not know', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+      })
+
+      const response = await getAssetDetail(
+        createTestRequest('http://localhost:3000/api/assets/not-a-coin'),
+        { params: Promise.resolve({ id: 'not-a-coin' }) }
+      )
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error.code).toBe('not_found')
+    })
+
+    it('should map missing and null detail fields to defaults', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: 'monero',
+          symbol: 'xmr',
+          name: 'Monero',
+          market_cap_rank: null,
+          market_data: {
+            current_price: { usd: 150 },
+            total_supply: null,
+            max_supply: null,
+          },
+          links: { homepage: ['', 'https://getmonero.org'] },
+          categories: ['Privacy Coins', null],
+        }),
+      })
+
+      const response = await getAssetDetail(
+        createTestRequest('http://localhost:3000/api/assets/monero'),
+        { params: Promise.resolve({ id: 'monero' }) }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({
+        current_price: 150,
+        market_cap: 0,
+        market_cap_rank: 0,
+        total_supply: null,
+        max_supply: null,
+        homepage: 'https://getmonero.org',
+        categories: ['Privacy Coins'],
+      })
+    })
+
+    it('should return 502 for malformed payloads', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ prices: [[1700000000000, 'not a price']] }),
+      })
+
+      const response = await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/litecoin/chart?days=7'
+        ),
+        { params: Promise.resolve({ id: 'litecoin' }) }
+      )
+
+      expect(response.status).toBe(502)
+      expect(await response.json()).toEqual({
+        error: {
+          code: 'invalid_upstream_response',
+          message: 'Failed to fetch chart data',
+        },
+      })
+      error.mockRestore()
+    })
+  })
+
+  describe('CoinGecko rate limiting', () => {
+    it('should answer 503 with a retry hint when rate limited', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': '90' }),
+      })
+
+      const response = await getChart(
+        createTestRequest(
+          'http://localhost:3000/api/assets/polkadot/chart?days=30'
+        ),
+        { params: Promise.resolve({ id: 'polkadot' }) }
+      )
+
+      expect(response.status).toBe(503)
+      expect(response.headers.get('Retry-After')).toBe('90')
+      expect(await response.json()).toEqual({
+        error: {
+          code: 'rate_limited',
+          message: 'Market data is temporarily unavailable, please retry later',
+          upstreamStatus: 429,
+          retryAfter: 90,
+        },
+      })
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('CoinGecko query encoding', () => {
+    it('should encode coin ids in the markets URL', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      })
+
+      await new CoinGeckoProvider().listMarkets({
+        page: 1,
+        perPage: 2,
+        currency: 'usd',
+        ids: ['bitcoin', 'a&vs_currency=eur'],
+      })
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0]
+      expect(url).toContain('&ids=bitcoin,a%26vs_currency%3Deur')
+      expect(new URL(url).searchParams.getAll('vs_currency')).toEqual(['usd'])
+    })
+
+    it('should reject malformed coin ids before calling upstream', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+
+      for (const id of ['../global', 'Bitcoin', 'a b']) {
+        const response = await getAssetDetail(
+          createTestRequest('http://localhost:3000/api/assets/..%2Fglobal'),
+          { params: Promise.resolve({ id }) }
+        )
+
+        expect(response.status).toBe(404)
+        expect((await response.json()).error).toEqual({
+          code: 'not_found',
+          message: 'Coin not found',
+        })
+      }
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('should encode coin ids in path segments', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      })
+
+      await new CoinGeckoProvider().getOhlc('../global', {
+        currency: 'usd',
+        days: '7',
+      })
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0]
+      expect(new URL(url).pathname).toBe('/api/v3/coins/..%2Fglobal/ohlc')
+    })
+
+    it('should encode the category in the markets URL', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      })
+
+      await new CoinGeckoProvider().listMarkets({
+        page: 1,
+        perPage: 2,
+        currency: 'usd',
+        category: 'defi&per_page=250',
+      })
+
+      const [url] = (global.fetch as jest.Mock).mock.calls[0]
+      const { searchParams } = new URL(url)
+      expect(searchParams.get('category')).toBe('defi&per_page=250')
+      expect(searchParams.getAll('per_page')).toEqual(['2'])
+    })
+  })
+
+  describe('CoinGecko request coalescing', () => {
+    it('should share one upstream call for concurrent detail requests', async () => {
+      process.env.MARKET_DATA_PROVIDER = 'coingecko'
+      ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: 'cardano',
+          symbol: 'ada',
+          name: 'Cardano',
+          market_cap_rank: 9,
+          market_data: {
+            current_price: { usd: 0.5, eur: 0.48 },
+          },
+        }),
+      })
+
+      // The detail URL does not depend on the currency, so both share it
+      const [usd, eur] = await Promise.all(
+        ['usd', 'eur'].map((currency) =>
+          getAssetDetail(
+            createTestRequest(
+              `http://localhost:3000/api/assets/cardano?currency=${currency}`
+            ),
+            { params: Promise.resolve({ id: 'cardano' }) }
+          )
+        )
+      )
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect((await usd!.json()).current_price).toBe(0.5)
+      expect((await eur!.json()).current_price).toBe(0.48)
+    })
+  })
+})
@@ -0,0 +1,484 @@
+/**
+ * Integration tests for /api/portfolio endpoints
+ * Tests transactions CRUD with Supabase and valuation against fixture prices
+ */
+
+import { GET } from '@/app/api/portfolio/route'
+import { GET as getHistory } from '@/app/api/portfolio/history/route'
+import {
+  GET as getTransactions,
+  POST,
+  DELETE,
+} from '@/app/api/portfolio/transactions/route'
+import { assetsCache, chartCache } from '@/lib/cache'
+import { getMarketDataProvider } from '@/lib/market-data'
+import { getRequestUser } from '@/lib/supabase-server'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock the per-request Supabase client and session
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(),
+}))
+
+const supabase = {
+  from: jest.fn(),
+}
+
+const mockUser = { id: 'user-1', email: 'user@example.com' }
+
+// Chainable query builder resolving to the given result
+function mockQuery(result: { data?: unknown; error?: unknown }) {
+  const resolved = Promise.resolve({ data: null, error: null, ...result })
+  const query: Record<string, jest.Mock> = {
+    then: jest.fn((resolve, reject) => resolved.then(resolve, reject)),
+  }
+
+  for (const method of [
+    'select',
+    'insert',
+    'delete',
+    'eq',
+    'order',
+    'single',
+    'maybeSingle',
+  ]) {
+    query[method] = jest.fn(() => query)
+  }
+
+  return query
+}
+
+describe('/api/portfolio Integration Tests', () => {
+  const buy = {
+    id: 'tx-1',
+    user_id: 'user-1',
+    asset_id: 'bitcoin',
+    type: 'buy',
+    quantity: 2,
+    price: 50000,
+    fee: 0,
+    currency: 'usd',
+    executed_at: '2024-01-01T00:00:00Z',
+    created_at: '2024-01-01T00:00:00Z',
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getRequestUser as jest.Mock).mockResolvedValue({
+      supabase,
+      user: mockUser,
+    })
+    assetsCache.clear()
+    chartCache.clear()
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  describe('GET /api/portfolio', () => {
+    it('should value positions at current prices', async () => {
+      const query = mockQuery({ data: [buy] })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/portfolio?currency=usd')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(supabase.from).toHaveBeenCalledWith('transactions')
+      expect(query.eq).not.toHaveBeenCalled()
+      expect(data.positions).toHaveLength(1)
+      expect(data.positions[0]).toMatchObject({
+        asset_id: 'bitcoin',
+        name: 'Bitcoin',
+        quantity: 2,
+        average_cost: 50000,
+        allocation: 100,
+      })
+      expect(data.total_cost).toBe(100000)
+      expect(data.unrealized_pnl).toBeCloseTo(data.positions[0].value - 100000)
+    })
+
+    it('should convert transactions recorded in other currencies', async () => {
+      const eurBuy = {
+        ...buy,
+        id: 'tx-2',
+        quantity: 1,
+        price: 48000,
+        currency: 'eur',
+      }
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ data: [{ ...buy, quantity: 1 }, eurBuy] })
+      )
+
+      const usd = await (
+        await GET(
+          createTestRequest('http://localhost:3000/api/portfolio?currency=usd')
+        )
+      ).json()
+      const eur = await (
+        await GET(
+          createTestRequest('http://localhost:3000/api/portfolio?currency=eur')
+        )
+      ).json()
+
+      // The fixture snapshot quotes 0.96 EUR per USD
+      expect(usd.positions[0].quantity).toBe(2)
+      expect(usd.total_cost).toBeCloseTo(50000 + 48000 / 0.96)
+      expect(eur.positions[0].quantity).toBe(2)
+      expect(eur.total_cost).toBeCloseTo(50000 * 0.96 + 48000)
+    })
+
+    it('should return 401 without a session', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/portfolio')
+      )
+
+      expect(response.status).toBe(401)
+      expect((await response.json()).error).toEqual({
+        code: 'unauthorized',
+        message: 'Sign in to manage your portfolio',
+      })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when transactions cannot be loaded', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ error: { message: 'Database error' } })
+      )
+
+      const response = await GET(
+        createTestRequest('http://localhost:3000/api/portfolio')
+      )
+
+      expect(response.status).toBe(500)
+      expect((await response.json()).error).toEqual({
+        code: 'internal_error',
+        message: 'Failed to fetch portfolio',
+      })
+    })
+  })
+
+  describe('GET /api/portfolio/history', () => {
+    it('should chart the portfolio value over the range', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(mockQuery({ data: [buy] }))
+
+      const response = await getHistory(
+        createTestRequest('http://localhost:3000/api/portfolio/history?days=7')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.length).toBeGreaterThan(1)
+      expect(data[data.length - 1].price).toBeCloseTo(2 * 97250.12)
+    })
+
+    it('should fetch the histories of many coins one at a time', async () => {
+      const recent = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      const coins = Array.from({ length: 12 }, (_, index) => ({
+        ...buy,
+        id: `tx-${index}`,
+        asset_id: `coin-${index}`,
+        executed_at: recent,
+      }))
+      // Bought and sold long before the range, so never charted
+      const closed = [
+        { ...buy, id: 'tx-old-buy', asset_id: 'closed-coin' },
+        {
+          ...buy,
+          id: 'tx-old-sell',
+          asset_id: 'closed-coin',
+          type: 'sell',
+          executed_at: '2024-02-01T00:00:00Z',
+        },
+      ]
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ data: [...closed, ...coins] })
+      )
+      let inFlight = 0
+      let maxInFlight = 0
+      const getPriceHistory = jest
+        .spyOn(getMarketDataProvider(), 'getPriceHistory')
+        .mockImplementation(async () => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight)
+          await Promise.resolve()
+          inFlight--
+          return [{ timestamp: Date.now(), price: 1 }]
+        })
+
+      const response = await getHistory(
+        createTestRequest('http://localhost:3000/api/portfolio/history?days=7')
+      )
+
+      expect(response.status).toBe(200)
+      expect(getPriceHistory).toHaveBeenCalledTimes(12)
+      expect(getPriceHistory).not.toHaveBeenCalledWith(
+        'closed-coin',
+        expect.anything()
+      )
+      expect(maxInFlight).toBe(1)
+    })
+
+    it('should return 400 for an invalid range', async () => {
+      const response = await getHistory(
+        createTestRequest('http://localhost:3000/api/portfolio/history?days=2')
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/portfolio/transactions', () => {
+    it('should list transactions newest first', async () => {
+      const later = { ...buy, id: 'tx-2', executed_at: '2024-02-01T00:00:00Z' }
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ data: [buy, later] })
+      )
+
+      const response = await getTransactions(
+        createTestRequest('http://localhost:3000/api/portfolio/transactions')
+      )
+      const data = await response.json()
+
+      expect(data.transactions.map((t: { id: string }) => t.id)).toEqual([
+        'tx-2',
+        'tx-1',
+      ])
+    })
+  })
+
+  describe('POST /api/portfolio/transactions', () => {
+    const post = (body: unknown) =>
+      POST(
+        createTestRequest('http://localhost:3000/api/portfolio/transactions', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        })
+      )
+
+    it('should record a buy of a known coin', async () => {
+      const query = mockQuery({ data: buy })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'buy',
+        quantity: 2,
+        price: 50000,
+      })
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).transaction).toEqual(buy)
+      expect(query.insert).toHaveBeenCalledWith({
+        asset_id: 'bitcoin',
+        type: 'buy',
+        quantity: 2,
+        price: 50000,
+        fee: 0,
+        currency: 'usd',
+        user_id: 'user-1',
+      })
+    })
+
+    it('should reject unknown coins', async () => {
+      const response = await post({
+        asset_id: 'not-a-coin',
+        type: 'buy',
+        quantity: 1,
+        price: 1,
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe('Unknown asset')
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should reject selling more than is held', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(mockQuery({ data: [buy] }))
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'sell',
+        quantity: 3,
+        price: 60000,
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe(
+        'Quantity exceeds the 2 held'
+      )
+    })
+
+    it('should reject a backdated sale that leaves a later one short', async () => {
+      const sell = {
+        ...buy,
+        id: 'tx-2',
+        type: 'sell',
+        quantity: 1,
+        executed_at: '2024-03-01T00:00:00Z',
+      }
+      const query = mockQuery({ data: [{ ...buy, quantity: 1 }, sell] })
+      ;(supabase.from as jest.Mock).mockReturnValue(query)
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'sell',
+        quantity: 1,
+        price: 55000,
+        executed_at: '2024-02-01T00:00:00Z',
+      })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe(
+        'Would leave the sell on 2024-03-01 exceeding the 0 held'
+      )
+      expect(query.insert).not.toHaveBeenCalled()
+    })
+
+    it('should count coins bought in any currency as held', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(
+        mockQuery({ data: [{ ...buy, currency: 'eur' }] })
+      )
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'sell',
+        quantity: 2,
+        price: 60000,
+        currency: 'usd',
+      })
+
+      expect(response.status).toBe(201)
+    })
+
+    it('should only count coins held at the execution date', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(mockQuery({ data: [buy] }))
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'sell',
+        quantity: 1,
+        price: 60000,
+        executed_at: '2023-12-31T00:00:00Z',
+      })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 401 without a session', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await post({
+        asset_id: 'bitcoin',
+        type: 'buy',
+        quantity: 1,
+        price: 1,
+      })
+
+      expect(response.status).toBe(401)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 for invalid transactions', async () => {
+      const response = await post({ asset_id: 'bitcoin', type: 'gift' })
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.code).toBe('invalid_request')
+    })
+  })
+
+  describe('DELETE /api/portfolio/transactions', () => {
+    const TRANSACTION_ID = 'c9bf9e57-1685-4c89-bafb-ff5af830be8a'
+
+    const remove = () =>
+      DELETE(
+        createTestRequest(
+          `http://localhost:3000/api/portfolio/transactions?id=${TRANSACTION_ID}`,
+          { method: 'DELETE' }
+        )
+      )
+
+    it('should delete a transaction by id', async () => {
+      const query = mockQuery({ data: [{ id: TRANSACTION_ID }] })
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: { asset_id: 'bitcoin' } }))
+        .mockReturnValueOnce(mockQuery({ data: [buy] }))
+        .mockReturnValueOnce(query)
+
+      const response = await remove()
+
+      expect(response.status).toBe(200)
+      expect(query.delete).toHaveBeenCalled()
+      expect(query.eq).toHaveBeenCalledWith('id', TRANSACTION_ID)
+    })
+
+    it('should return 404 for unknown transactions', async () => {
+      ;(supabase.from as jest.Mock).mockReturnValue(mockQuery({ data: null }))
+
+      const response = await remove()
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error).toEqual({
+        code: 'not_found',
+        message: 'Transaction not found',
+      })
+    })
+
+    it('should not remove a buy that a later sale relies on', async () => {
+      const sell = {
+        ...buy,
+        id: 'tx-2',
+        type: 'sell',
+        executed_at: '2024-03-01T00:00:00Z',
+      }
+      ;(supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: { asset_id: 'bitcoin' } }))
+        .mockReturnValueOnce(
+          mockQuery({ data: [{ ...buy, id: TRANSACTION_ID }, sell] })
+        )
+
+      const response = await remove()
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error.message).toBe(
+        'Removing it would leave the sell on 2024-03-01 exceeding the 0 held'
+      )
+      expect(supabase.from).toHaveBeenCalledTimes(2)
+    })
+
+    it('should return 404 for ids that are not uuids', async () => {
+      const response = await DELETE(
+        createTestRequest(
+          'http://localhost:3000/api/portfolio/transactions?id=tx-1',
+          { method: 'DELETE' }
+        )
+      )
+
+      expect(response.status).toBe(404)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should require an id', async () => {
+      const response = await DELETE(
+        createTestRequest('http://localhost:3000/api/portfolio/transactions', {
+          method: 'DELETE',
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
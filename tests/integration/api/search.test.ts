@@ -0,0 +1,192 @@
+/**
+ * Integration tests for /api/search endpoint
+ * Tests CoinGecko mapping, caching, validation and the fixture provider
+ */
+
+import { GET } from '@/app/api/search/route'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/search Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockSearchResponse = {
+    coins: [
+      {
+        id: 'pepe',
+        name: 'Pepe',
+        api_symbol: 'pepe',
+        symbol: 'PEPE',
+        market_cap_rank: 24,
+        thumb:
+          'https://coin-images.coingecko.com/coins/images/29850/thumb/pepe.jpg',
+        large:
+          'https://coin-images.coingecko.com/coins/images/29850/large/pepe.jpg',
+      },
+      {
+        id: 'pepe-unchained',
+        name: 'Pepe Unchained',
+        api_symbol: 'pepe-unchained',
+        symbol: 'PEPU',
+        market_cap_rank: null,
+        thumb:
+          'https://coin-images.coingecko.com/coins/images/1/thumb/pepu.png',
+        large:
+          'https://coin-images.coingecko.com/coins/images/1/large/pepu.png',
+      },
+    ],
+    exchanges: [],
+    categories: [],
+    nfts: [],
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should search CoinGecko and map coin matches', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockSearchResponse,
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=Pepe')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/search?query=pepe',
+      expect.any(Object)
+    )
+    expect(data.coins).toEqual([
+      {
+        id: 'pepe',
+        name: 'Pepe',
+        symbol: 'PEPE',
+        thumb:
+          'https://coin-images.coingecko.com/coins/images/29850/thumb/pepe.jpg',
+        market_cap_rank: 24,
+      },
+      {
+        id: 'pepe-unchained',
+        name: 'Pepe Unchained',
+        symbol: 'PEPU',
+        thumb:
+          'https://coin-images.coingecko.com/coins/images/1/thumb/pepu.png',
+        market_cap_rank: null,
+      },
+    ])
+  })
+
+  it('should cache results per normalized query', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockSearchResponse,
+    })
+
+    await GET(createTestRequest('http://localhost:3000/api/search?q=doge'))
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=%20DOGE%20')
+    )
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should encode the query for the upstream request', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ coins: [] }),
+    })
+
+    await GET(
+      createTestRequest('http://localhost:3000/api/search?q=usd%20coin%26x')
+    )
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/search?query=usd%20coin%26x',
+      expect.any(Object)
+    )
+  })
+
+  it('should limit the number of results', async () => {
+    const coins = Array.from({ length: 25 }, (_, i) => ({
+      id: `coin-${i}`,
+      name: `Coin ${i}`,
+      symbol: `C${i}`,
+      thumb: 'https://example.com/thumb.png',
+      market_cap_rank: i + 1,
+    }))
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ coins }),
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=coin')
+    )
+    const data = await response.json()
+
+    expect(data.coins).toHaveLength(10)
+  })
+
+  it('should return 400 when the query is missing', async () => {
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=%20')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toEqual({
+      code: 'invalid_request',
+      message: 'Search query is required',
+    })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 503,
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=shib')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to search coins',
+      upstreamStatus: 503,
+    })
+  })
+
+  it('should search the fixture snapshot offline', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/search?q=sol')
+    )
+    const data = await response.json()
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(data.coins[0]).toMatchObject({
+      id: 'solana',
+      symbol: 'sol',
+      market_cap_rank: 6,
+    })
+  })
+})
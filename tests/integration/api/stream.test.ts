@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Integration tests for /api/stream endpoint
+ * Tests the Server-Sent Events format, validation and per-coin quote cache
+ */
+
+import { GET } from '@/app/api/stream/route'
+import { quotesCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/stream Integration Tests', () => {
+  let controllers: AbortController[] = []
+
+  const openStream = async (query: string) => {
+    const controller = new AbortController()
+    controllers.push(controller)
+    return GET(
+      createTestRequest(`http://localhost:3000/api/stream?${query}`, {
+        signal: controller.signal,
+      })
+    )
+  }
+
+  // Reads chunks until the first event of the given type arrives
+  const readEvent = async (response: Response, type: string) => {
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let text = ''
+
+    while (!text.includes(`event: ${type}\n`)) {
+      const { value, done } = await reader.read()
+      if (done) break
+      text += decoder.decode(value)
+    }
+    reader.releaseLock()
+
+    const event = text
+      .split('\n\n')
+      .find((block) => block.startsWith(`event: ${type}\n`))
+    return event && JSON.parse(event.split('data: ')[1]!)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    coinGeckoRateLimiter.reset()
+    quotesCache.clear()
+  })
+
+  afterEach(() => {
+    controllers.forEach((controller) => controller.abort())
+    controllers = []
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  it('should stream prices for the requested ids', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await openStream('ids=ethereum,bitcoin&currency=eur')
+    const event = await readEvent(response, 'prices')
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(event.quotes.map((quote: { id: string }) => quote.id)).toEqual([
+      'ethereum',
+      'bitcoin',
+    ])
+    expect(event.quotes[0]).toEqual({
+      id: 'ethereum',
+      current_price: expect.any(Number),
+      price_change_percentage_24h: expect.any(Number),
+    })
+    expect(typeof event.timestamp).toBe('number')
+  })
+
+  it('should share upstream calls between subscribers', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => [
+        {
+          id: 'bitcoin',
+          name: 'Bitcoin',
+          symbol: 'btc',
+          image: 'https://example.com/bitcoin.png',
+          current_price: 45000,
+          price_change_percentage_24h: 5.25,
+        },
+      ],
+    })
+
+    const first = await openStream('ids=bitcoin')
+    await readEvent(first, 'prices')
+    const second = await openStream('ids=bitcoin')
+    const event = await readEvent(second, 'prices')
+
+    expect(event.quotes[0].current_price).toBe(45000)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should only fetch coins missing from the quote cache', async () => {
+    const coin = (id: string, current_price: number) => ({
+      id,
+      name: id,
+      symbol: id.slice(0, 3),
+      image: `https://example.com/${id}.png`,
+      current_price,
+      price_change_percentage_24h: 1,
+    })
+    ;(global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => [coin('bitcoin', 45000)],
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => [coin('ethereum', 3000)],
+      })
+
+    await readEvent(await openStream('ids=bitcoin'), 'prices')
+    const event = await readEvent(
+      await openStream('ids=ethereum,bitcoin'),
+      'prices'
+    )
+
+    expect(event.quotes.map((quote: { id: string }) => quote.id)).toEqual([
+      'ethereum',
+      'bitcoin',
+    ])
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+    const [url] = (global.fetch as jest.Mock).mock.calls[1]
+    expect(new URL(url).searchParams.get('ids')).toBe('ethereum')
+  })
+
+  it('should send an error event and keep the stream open', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await openStream('ids=bitcoin')
+    const event = await readEvent(response, 'error')
+
+    expect(event).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch prices',
+      upstreamStatus: 500,
+    })
+    expect(response.body!.locked).toBe(false)
+    error.mockRestore()
+  })
+
+  it('should reject missing ids', async () => {
+    const response = await openStream('currency=usd')
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.message).toBe('Invalid ids')
+  })
+
+  it('should reject intervals outside the allowed bounds', async () => {
+    const response = await openStream('ids=bitcoin&interval=1')
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.code).toBe('invalid_request')
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Integration tests for /api/trending endpoint
+ * Tests quoting trending coins in order, caching, upstream errors and the
+ * fixture provider
+ */
+
+import { GET } from '@/app/api/trending/route'
+import { assetsCache, trendingCache } from '@/lib/cache'
+import { coinGeckoRateLimiter } from '@/lib/market-data/coingecko'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock fetch for CoinGecko API
+global.fetch = jest.fn()
+
+describe('/api/trending Integration Tests', () => {
+  const originalProvider = process.env.MARKET_DATA_PROVIDER
+
+  const mockTrendingResponse = {
+    coins: [
+      {
+        item: {
+          id: 'pepe',
+          coin_id: 29850,
+          name: 'Pepe',
+          symbol: 'PEPE',
+          thumb: 'https://example.com/pepe.png',
+          market_cap_rank: 24,
+        },
+      },
+      {
+        item: {
+          id: 'bitcoin',
+          coin_id: 1,
+          name: 'Bitcoin',
+          symbol: 'BTC',
+          thumb: 'https://example.com/bitcoin.png',
+          market_cap_rank: 1,
+        },
+      },
+    ],
+    nfts: [],
+    categories: [],
+  }
+
+  const mockMarkets = [
+    {
+      id: 'bitcoin',
+      name: 'Bitcoin',
+      symbol: 'btc',
+      image: 'https://example.com/bitcoin.png',
+      current_price: 45000,
+      price_change_percentage_24h: 5.25,
+      market_cap: 850000000000,
+      total_volume: 35000000000,
+    },
+    {
+      id: 'pepe',
+      name: 'Pepe',
+      symbol: 'pepe',
+      image: 'https://example.com/pepe.png',
+      current_price: 0.00002,
+      price_change_percentage_24h: 12.5,
+      market_cap: 8000000000,
+      total_volume: 900000000,
+    },
+  ]
+
+  const mockUpstream = () =>
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () =>
+        url.includes('/search/trending') ? mockTrendingResponse : mockMarkets,
+    }))
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    assetsCache.clear()
+    trendingCache.clear()
+    coinGeckoRateLimiter.reset()
+    delete process.env.MARKET_DATA_PROVIDER
+  })
+
+  afterAll(() => {
+    process.env.MARKET_DATA_PROVIDER = originalProvider
+  })
+
+  it('should quote the trending coins in trending order', async () => {
+    mockUpstream()
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/trending?currency=eur')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.coingecko.com/api/v3/search/trending',
+      expect.any(Object)
+    )
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('vs_currency=eur&'),
+      expect.any(Object)
+    )
+    expect(data.coins.map((coin: { id: string }) => coin.id)).toEqual([
+      'pepe',
+      'bitcoin',
+    ])
+  })
+
+  it('should serve repeated requests from the cache', async () => {
+    mockUpstream()
+
+    await GET(createTestRequest('http://localhost:3000/api/trending'))
+    await GET(createTestRequest('http://localhost:3000/api/trending'))
+
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return 502 when the upstream request fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+    })
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/trending')
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.error).toEqual({
+      code: 'upstream_error',
+      message: 'Failed to fetch trending coins',
+      upstreamStatus: 500,
+    })
+  })
+
+  it('should list the biggest fixture movers offline', async () => {
+    process.env.MARKET_DATA_PROVIDER = 'fixture'
+
+    const response = await GET(
+      createTestRequest('http://localhost:3000/api/trending')
+    )
+    const data = await response.json()
+    const changes = data.coins.map(
+      (coin: { price_change_percentage_24h: number }) =>
+        coin.price_change_percentage_24h
+    )
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(data.coins).toHaveLength(7)
+    expect(changes).toEqual([...changes].sort((a, b) => b - a))
+  })
+})
@@ -0,0 +1,406 @@
+/**
+ * Integration tests for /api/watchlists endpoints
+ * Tests list CRUD and membership with Supabase as a signed-in user
+ */
+
+import { GET, POST } from '@/app/api/watchlists/route'
+import { PATCH, DELETE } from '@/app/api/watchlists/[id]/route'
+import {
+  POST as addItem,
+  DELETE as removeItem,
+} from '@/app/api/watchlists/[id]/items/route'
+import { getRequestUser } from '@/lib/supabase-server'
+import { createTestRequest } from '../../helpers/request-helpers'
+
+// Mock the per-request Supabase client and session
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(),
+}))
+
+const supabase = {
+  from: jest.fn(),
+}
+
+const mockUser = { id: 'user-1', email: 'user@example.com' }
+
+// Chainable query builder resolving to the given result
+function mockQuery(result: { data?: unknown; error?: unknown }) {
+  const resolved = Promise.resolve({ data: null, error: null, ...result })
+  const query: Record<string, jest.Mock> = {
+    then: jest.fn((resolve, reject) => resolved.then(resolve, reject)),
+  }
+
+  for (const method of [
+    'select',
+    'insert',
+    'update',
+    'delete',
+    'eq',
+    'order',
+    'single',
+    'maybeSingle',
+  ]) {
+    query[method] = jest.fn(() => query)
+  }
+
+  return query
+}
+
+const LIST_ID = '0b9c3f4e-5a1d-4c2b-8e7f-1a2b3c4d5e6f'
+const OTHER_ID = 'c4a7e2d1-9f3b-4e6a-b5c8-7d2e1f0a9b3c'
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return createTestRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+describe('/api/watchlists Integration Tests', () => {
+  const mockRow = {
+    id: LIST_ID,
+    user_id: 'user-1',
+    name: 'DeFi',
+    created_at: '2025-01-01T00:00:00Z',
+    watchlist_items: [
+      { asset_id: 'uniswap', created_at: '2025-01-03T00:00:00Z' },
+      { asset_id: 'aave', created_at: '2025-01-02T00:00:00Z' },
+    ],
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getRequestUser as jest.Mock).mockResolvedValue({
+      supabase,
+      user: mockUser,
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('GET /api/watchlists', () => {
+    it('should return watchlists with their coins in the order added', async () => {
+      const query = mockQuery({ data: [mockRow] })
+      supabase.from.mockReturnValue(query)
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.watchlists).toEqual([
+        {
+          id: LIST_ID,
+          user_id: 'user-1',
+          name: 'DeFi',
+          created_at: '2025-01-01T00:00:00Z',
+          asset_ids: ['aave', 'uniswap'],
+        },
+      ])
+      expect(supabase.from).toHaveBeenCalledWith('watchlists')
+      expect(query.order).toHaveBeenCalledWith('created_at', {
+        ascending: true,
+      })
+    })
+
+    it('should return an empty list to visitors without a query', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.watchlists).toEqual([])
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when the query fails', async () => {
+      supabase.from.mockReturnValue(
+        mockQuery({ error: { message: 'Database error' } })
+      )
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.error.code).toBe('internal_error')
+    })
+  })
+
+  describe('POST /api/watchlists', () => {
+    it('should create a watchlist for the user', async () => {
+      const query = mockQuery({
+        data: { ...mockRow, name: 'L1s', watchlist_items: [] },
+      })
+      supabase.from.mockReturnValue(query)
+
+      const response = await POST(
+        jsonRequest('http://localhost/api/watchlists', 'POST', {
+          name: '  L1s ',
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.watchlist.name).toBe('L1s')
+      expect(data.watchlist.asset_ids).toEqual([])
+      expect(query.insert).toHaveBeenCalledWith({
+        name: 'L1s',
+        user_id: 'user-1',
+      })
+    })
+
+    it('should reject a blank name', async () => {
+      const response = await POST(
+        jsonRequest('http://localhost/api/watchlists', 'POST', { name: ' ' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error.message).toBe('Name is required')
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 when the name is taken', async () => {
+      supabase.from.mockReturnValue(mockQuery({ error: { code: '23505' } }))
+
+      const response = await POST(
+        jsonRequest('http://localhost/api/watchlists', 'POST', {
+          name: 'DeFi',
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.error).toEqual({
+        code: 'conflict',
+        message: 'A watchlist named "DeFi" already exists',
+      })
+    })
+
+    it('should return 401 to visitors', async () => {
+      ;(getRequestUser as jest.Mock).mockResolvedValue({
+        supabase,
+        user: null,
+      })
+
+      const response = await POST(
+        jsonRequest('http://localhost/api/watchlists', 'POST', {
+          name: 'DeFi',
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('unauthorized')
+    })
+  })
+
+  describe('PATCH /api/watchlists/[id]', () => {
+    it('should rename the watchlist', async () => {
+      const query = mockQuery({ data: { ...mockRow, name: 'DeFi blue chips' } })
+      supabase.from.mockReturnValue(query)
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/watchlists/list-1', 'PATCH', {
+          name: 'DeFi blue chips',
+        }),
+        params(LIST_ID)
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.watchlist.name).toBe('DeFi blue chips')
+      expect(query.update).toHaveBeenCalledWith({ name: 'DeFi blue chips' })
+      expect(query.eq).toHaveBeenCalledWith('id', LIST_ID)
+    })
+
+    it('should return 404 when the watchlist is not visible', async () => {
+      supabase.from.mockReturnValue(mockQuery({ data: null }))
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/watchlists/other', 'PATCH', {
+          name: 'Mine now',
+        }),
+        params(OTHER_ID)
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 404 for an id that is not a uuid', async () => {
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/watchlists/list-1', 'PATCH', {
+          name: 'DeFi',
+        }),
+        params('list-1')
+      )
+
+      expect(response.status).toBe(404)
+      expect((await response.json()).error.code).toBe('not_found')
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/watchlists/[id]', () => {
+    it('should delete the watchlist', async () => {
+      const query = mockQuery({ data: [{ id: LIST_ID }] })
+      supabase.from.mockReturnValue(query)
+
+      const response = await DELETE(
+        createTestRequest('http://localhost/api/watchlists/list-1', {
+          method: 'DELETE',
+        }),
+        params(LIST_ID)
+      )
+
+      expect(response.status).toBe(200)
+      expect(query.delete).toHaveBeenCalled()
+      expect(query.eq).toHaveBeenCalledWith('id', LIST_ID)
+    })
+
+    it('should return 404 when nothing was deleted', async () => {
+      supabase.from.mockReturnValue(mockQuery({ data: [] }))
+
+      const response = await DELETE(
+        createTestRequest('http://localhost/api/watchlists/other', {
+          method: 'DELETE',
+        }),
+        params(OTHER_ID)
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 404 for an id that is not a uuid', async () => {
+      const response = await DELETE(
+        createTestRequest('http://localhost/api/watchlists/1%20or%201', {
+          method: 'DELETE',
+        }),
+        params('1 or 1')
+      )
+
+      expect(response.status).toBe(404)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/watchlists/[id]/items', () => {
+    it('should add the coin to the watchlist', async () => {
+      const item = {
+        id: 'item-1',
+        watchlist_id: LIST_ID,
+        user_id: 'user-1',
+        asset_id: 'bitcoin',
+        created_at: '2025-01-04T00:00:00Z',
+      }
+      const query = mockQuery({ data: item })
+      supabase.from.mockReturnValue(query)
+
+      const response = await addItem(
+        jsonRequest('http://localhost/api/watchlists/list-1/items', 'POST', {
+          asset_id: 'bitcoin',
+        }),
+        params(LIST_ID)
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.item).toEqual(item)
+      expect(supabase.from).toHaveBeenCalledWith('watchlist_items')
+      expect(query.insert).toHaveBeenCalledWith({
+        watchlist_id: LIST_ID,
+        asset_id: 'bitcoin',
+        user_id: 'user-1',
+      })
+    })
+
+    it('should accept a coin already in the watchlist', async () => {
+      supabase.from.mockReturnValue(mockQuery({ error: { code: '23505' } }))
+
+      const response = await addItem(
+        jsonRequest('http://localhost/api/watchlists/list-1/items', 'POST', {
+          asset_id: 'bitcoin',
+        }),
+        params(LIST_ID)
+      )
+
+      expect(response.status).toBe(200)
+    })
+
+    it("should return 404 for someone else's watchlist", async () => {
+      supabase.from.mockReturnValue(mockQuery({ error: { code: '42501' } }))
+
+      const response = await addItem(
+        jsonRequest('http://localhost/api/watchlists/other/items', 'POST', {
+          asset_id: 'bitcoin',
+        }),
+        params(OTHER_ID)
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error.message).toBe('Watchlist not found')
+    })
+
+    it('should return 404 for an id that is not a uuid', async () => {
+      const response = await addItem(
+        jsonRequest('http://localhost/api/watchlists/list-1/items', 'POST', {
+          asset_id: 'bitcoin',
+        }),
+        params('list-1')
+      )
+
+      expect(response.status).toBe(404)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should require asset_id', async () => {
+      const response = await addItem(
+        jsonRequest('http://localhost/api/watchlists/list-1/items', 'POST', {}),
+        params(LIST_ID)
+      )
+
+      expect(response.status).toBe(400)
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/watchlists/[id]/items', () => {
+    it('should remove the coin from the watchlist', async () => {
+      const query = mockQuery({})
+      supabase.from.mockReturnValue(query)
+
+      const response = await removeItem(
+        createTestRequest(
+          'http://localhost/api/watchlists/list-1/items?asset_id=bitcoin',
+          { method: 'DELETE' }
+        ),
+        params(LIST_ID)
+      )
+
+      expect(response.status).toBe(200)
+      expect(query.eq).toHaveBeenCalledWith('watchlist_id', LIST_ID)
+      expect(query.eq).toHaveBeenCalledWith('asset_id', 'bitcoin')
+    })
+
+    it('should return 400 without asset_id', async () => {
+      const response = await removeItem(
+        createTestRequest('http://localhost/api/watchlists/list-1/items', {
+          method: 'DELETE',
+        }),
+        params(LIST_ID)
+      )
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for app/categories/[id]/page.tsx
+ * Tests listing the coins of the category from the route
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import CategoryPage from '@/app/categories/[id]/page'
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn() }),
+}))
+
+jest.mock('@/components/nav-header', () => ({
+  NavHeader: () => <div data-testid="nav-header">Nav Header</div>,
+}))
+
+jest.mock('@/components/asset-card', () => ({
+  AssetCard: ({ asset }: { asset: { id: string; name: string } }) => (
+    <div data-testid={`asset-card-${asset.id}`}>{asset.name}</div>
+  ),
+}))
+
+jest.mock('@/hooks/use-infinite-scroll', () => ({
+  useInfiniteScroll: () => ({ current: null }),
+}))
+
+const mockFetch = jest.fn()
+
+describe('Category Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith('/api/categories')) {
+        return {
+          ok: true,
+          json: async () => ({
+            categories: [
+              {
+                id: 'meme-token',
+                name: 'Meme',
+                market_cap: 90_000_000_000,
+                market_cap_change_24h: 4.2,
+              },
+            ],
+          }),
+        }
+      }
+      if (url.startsWith('/api/assets')) {
+        return {
+          ok: true,
+          json: async () => ({
+            assets: [
+              {
+                id: 'dogecoin',
+                name: 'Dogecoin',
+                symbol: 'doge',
+                image: 'https://example.com/dogecoin.png',
+                current_price: 0.3,
+                price_change_percentage_24h: 4.8,
+                market_cap: 45_000_000_000,
+                total_volume: 2_000_000_000,
+              },
+            ],
+            page: 1,
+            perPage: 10,
+            hasMore: false,
+          }),
+        }
+      }
+      return { ok: true, json: async () => ({ favorites: [], watchlists: [] }) }
+    })
+  })
+
+  it('should list the coins of the category under its name', async () => {
+    render(<CategoryPage params={Promise.resolve({ id: 'meme-token' })} />)
+
+    expect(await screen.findByTestId('asset-card-dogecoin')).toBeInTheDocument()
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent(
+        'Meme'
+      )
+    })
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/assets?page=1&per_page=10&currency=usd&order=market_cap_desc&filter=all&category=meme-token'
+    )
+  })
+})
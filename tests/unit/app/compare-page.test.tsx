@@ -0,0 +1,159 @@
+/**
+ * Unit tests for app/compare/page.tsx
+ * Tests loading the compared coins, missing coins and removing a coin
+ */
+
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import ComparePage from '@/app/compare/page'
+import type { AssetDetail } from '@/lib/types'
+
+const mockReplace = jest.fn()
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ replace: mockReplace }),
+  usePathname: () => '/compare',
+}))
+
+jest.mock('@/components/nav-header', () => ({
+  NavHeader: () => <div data-testid="nav-header">Nav Header</div>,
+}))
+
+jest.mock('@/components/compare-chart', () => ({
+  CompareChart: ({ assets }: { assets: { id: string }[] }) => (
+    <div data-testid="compare-chart">
+      {assets.map((asset) => asset.id).join(',')}
+    </div>
+  ),
+}))
+
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: ({ alt }: { alt: string }) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img alt={alt} />
+  ),
+}))
+
+function assetDetail(
+  id: string,
+  name: string,
+  overrides: Partial<AssetDetail> = {}
+): AssetDetail {
+  return {
+    id,
+    name,
+    symbol: id.slice(0, 3),
+    image: `https://example.com/${id}.png`,
+    current_price: 100,
+    price_change_percentage_24h: 1,
+    market_cap: 1_000_000,
+    market_cap_rank: 1,
+    total_volume: 50_000,
+    price_change_percentage_7d: 2,
+    price_change_percentage_30d: 3,
+    circulating_supply: 1000,
+    total_supply: null,
+    max_supply: null,
+    ath: 200,
+    ath_change_percentage: -50,
+    ath_date: '2024-01-01T00:00:00.000Z',
+    atl: 1,
+    atl_change_percentage: 9900,
+    atl_date: '2015-01-01T00:00:00.000Z',
+    high_24h: 110,
+    low_24h: 90,
+    description: '',
+    homepage: '',
+    blockchain_site: '',
+    categories: [],
+    ...overrides,
+  }
+}
+
+const mockFetch = jest.fn()
+
+const details: Record<string, AssetDetail> = {
+  bitcoin: assetDetail('bitcoin', 'Bitcoin', { current_price: 45000 }),
+  ethereum: assetDetail('ethereum', 'Ethereum', {
+    market_cap_rank: 2,
+    price_change_percentage_7d: -4.5,
+  }),
+}
+
+describe('ComparePage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+    mockFetch.mockImplementation((url: string) => {
+      const id = url.split('/api/assets/')[1]!.split('?')[0]!
+      const detail = details[id]
+      return Promise.resolve({
+        ok: !!detail,
+        status: detail ? 200 : 404,
+        json: async () => detail,
+      })
+    })
+  })
+
+  const renderPage = (ids?: string) =>
+    render(<ComparePage searchParams={Promise.resolve({ ids })} />)
+
+  it('should show the metrics of every coin in aligned columns', async () => {
+    renderPage('bitcoin,ethereum')
+
+    const table = await screen.findByRole('table')
+    const headers = within(table).getAllByRole('columnheader')
+    expect(headers.map((header) => header.textContent)).toEqual([
+      'Metric',
+      'Bitcoin',
+      'Ethereum',
+    ])
+
+    const sevenDays = within(table).getByText('7d Change').closest('tr')!
+    expect(sevenDays).toHaveTextContent('+2.00%')
+    expect(sevenDays).toHaveTextContent('-4.50%')
+    expect(within(table).getByText('$45,000.00')).toBeInTheDocument()
+    expect(screen.getByTestId('compare-chart')).toHaveTextContent(
+      'bitcoin,ethereum'
+    )
+    expect(mockFetch).toHaveBeenCalledWith('/api/assets/bitcoin?currency=usd')
+  })
+
+  it('should list coins that were not found', async () => {
+    renderPage('bitcoin,ethereum,not-a-coin')
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Not found: not-a-coin'
+    )
+    expect(screen.getAllByRole('columnheader')).toHaveLength(3)
+  })
+
+  it('should ask for more coins when fewer than two are given', async () => {
+    renderPage('bitcoin')
+
+    expect(
+      await screen.findByText('Nothing to compare yet')
+    ).toBeInTheDocument()
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should drop a coin from the URL when it is removed', async () => {
+    renderPage('bitcoin,ethereum')
+
+    await userEvent.click(
+      await screen.findByRole('button', { name: 'Remove Bitcoin from compare' })
+    )
+
+    expect(mockReplace).toHaveBeenCalledWith('/compare?ids=ethereum')
+  })
+
+  it('should show an error when loading fails', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 })
+    renderPage('bitcoin,ethereum')
+
+    expect(
+      await screen.findByText('Failed to fetch asset details')
+    ).toBeInTheDocument()
+  })
+})
@@ -6,8 +6,9 @@
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import FavoritesPage from '@/app/favorites/page'
-import type { CryptoAsset, Favorite } from '@/lib/types'
+import type { CryptoAsset, Favorite, Watchlist } from '@/lib/types'
 import { toast } from 'sonner'
+import { useWatchlists } from '@/hooks/use-watchlists'
 
 // Mock dependencies
 jest.mock('@/components/nav-header', () => ({
@@ -38,6 +39,68 @@ jest.mock('@/components/asset-card', () => ({
   ),
 }))
 
+jest.mock('@/hooks/use-watchlists', () => ({
+  useWatchlists: jest.fn(),
+}))
+
+jest.mock('@/components/watchlist-switcher', () => ({
+  FAVORITES_LIST: 'favorites',
+  WatchlistSwitcher: ({
+    watchlists,
+    onSelect,
+    onDelete,
+  }: {
+    watchlists: Watchlist[]
+    onSelect: (value: string) => void
+    onDelete: (id: string) => void
+  }) => (
+    <div data-testid="watchlist-switcher">
+      <button onClick={() => onSelect('favorites')}>Show Favorites</button>
+      {watchlists.map((list) => (
+        <span key={list.id}>
+          <button onClick={() => onSelect(list.id)}>Show {list.name}</button>
+          <button onClick={() => onDelete(list.id)}>Delete {list.name}</button>
+        </span>
+      ))}
+    </div>
+  ),
+}))
+
+jest.mock('@/components/favorites-transfer', () => ({
+  FavoritesExportMenu: () => <div data-testid="export-menu" />,
+  FavoritesImportDialog: ({ onImported }: { onImported: () => void }) => (
+    <button onClick={onImported}>Finish import</button>
+  ),
+}))
+
+jest.mock('@/components/favorites-reorder-list', () => ({
+  FavoritesReorderList: ({
+    assets,
+    pinnedIds,
+    onTogglePin,
+    onSave,
+  }: {
+    assets: CryptoAsset[]
+    pinnedIds: string[]
+    onTogglePin: (id: string) => void
+    onSave: (ids: string[]) => void
+  }) => (
+    <div data-testid="reorder-list">
+      {assets.map((asset) => (
+        <button
+          key={asset.id}
+          onClick={() => onTogglePin(asset.id)}
+        >
+          {pinnedIds.includes(asset.id) ? 'Unpin' : 'Pin'} {asset.name}
+        </button>
+      ))}
+      <button onClick={() => onSave(assets.map((asset) => asset.id).reverse())}>
+        Save reversed
+      </button>
+    </div>
+  ),
+}))
+
 jest.mock('@/components/asset-card-skeleton', () => ({
   AssetCardSkeleton: () => <div data-testid="skeleton">Loading...</div>,
 }))
@@ -123,6 +186,7 @@ jest.mock('@/components/ui/empty', () => ({
 }))
 
 jest.mock('lucide-react', () => ({
+  ArrowUpDown: () => <svg data-testid="reorder-icon" />,
   Heart: () => <svg data-testid="heart-icon" />,
 }))
 
@@ -161,13 +225,54 @@ const mockAssets: CryptoAsset[] = [
 ]
 
 const mockFavorites: Favorite[] = [
-  { id: '1', asset_id: 'bitcoin', created_at: '2024-01-01' },
-  { id: '2', asset_id: 'ethereum', created_at: '2024-01-02' },
+  {
+    id: '1',
+    user_id: 'user-1',
+    asset_id: 'bitcoin',
+    position: 0,
+    pinned: false,
+    created_at: '2024-01-01',
+  },
+  {
+    id: '2',
+    user_id: 'user-1',
+    asset_id: 'ethereum',
+    position: 0,
+    pinned: false,
+    created_at: '2024-01-02',
+  },
 ]
 
+const mockWatchlists: Watchlist[] = [
+  {
+    id: 'list-1',
+    user_id: 'user-1',
+    name: 'L1s',
+    created_at: '2024-01-03',
+    asset_ids: ['ethereum'],
+  },
+]
+
+const mockUseWatchlists = useWatchlists as jest.MockedFunction<
+  typeof useWatchlists
+>
+
+function watchlistsHook(overrides: Partial<ReturnType<typeof useWatchlists>>) {
+  return {
+    watchlists: [],
+    loading: false,
+    toggleAsset: jest.fn(),
+    createWatchlist: jest.fn(),
+    renameWatchlist: jest.fn(),
+    deleteWatchlist: jest.fn(),
+    ...overrides,
+  }
+}
+
 describe('FavoritesPage', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockUseWatchlists.mockReturnValue(watchlistsHook({}))
   })
 
   describe('Loading State', () => {
@@ -220,7 +325,51 @@ describe('FavoritesPage', () => {
       })
 
       expect(mockFetch).toHaveBeenCalledWith('/api/favorites')
-      expect(mockFetch).toHaveBeenCalledWith('/api/assets')
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/assets?currency=usd&ids=bitcoin,ethereum'
+      )
+    })
+
+    it('should split more than 250 favorites over several requests', async () => {
+      const manyFavorites = Array.from({ length: 260 }, (_, index) => ({
+        ...mockFavorites[0]!,
+        id: String(index),
+        asset_id: `coin-${index}`,
+        position: index,
+      }))
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ favorites: manyFavorites }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            assets: [{ ...mockAssets[0]!, id: 'coin-0', name: 'First' }],
+          }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            assets: [{ ...mockAssets[1]!, id: 'coin-259', name: 'Last' }],
+          }),
+        } as Response)
+
+      render(<FavoritesPage />)
+
+      await waitFor(() => {
+        expect(screen.getByText('First')).toBeInTheDocument()
+        expect(screen.getByText('Last')).toBeInTheDocument()
+      })
+
+      const assetUrls = mockFetch.mock.calls
+        .map(([url]) => String(url))
+        .filter((url) => url.startsWith('/api/assets'))
+      expect(assetUrls).toHaveLength(2)
+      expect(assetUrls[0]!.split(',')).toHaveLength(250)
+      expect(assetUrls[1]).toContain('ids=coin-250,')
+      expect(screen.queryByTestId('error-state')).not.toBeInTheDocument()
     })
 
     it('should display favorite assets', async () => {
@@ -841,4 +990,199 @@ describe('FavoritesPage', () => {
       })
     })
   })
+
+  describe('Watchlists', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation((url) =>
+        Promise.resolve({
+          ok: true,
+          json: async () =>
+            String(url).startsWith('/api/favorites')
+              ? { favorites: mockFavorites }
+              : { assets: mockAssets },
+        } as Response)
+      )
+    })
+
+    it('should show the coins of the selected watchlist', async () => {
+      mockUseWatchlists.mockReturnValue(
+        watchlistsHook({ watchlists: mockWatchlists })
+      )
+
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Show L1s'))
+
+      await waitFor(() => {
+        expect(screen.getByRole('heading', { name: 'L1s' })).toBeInTheDocument()
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        '/api/assets?currency=usd&ids=ethereum'
+      )
+      expect(screen.getByText('1 coin')).toBeInTheDocument()
+      expect(screen.getByText('Ethereum')).toBeInTheDocument()
+      expect(screen.queryByText('Bitcoin')).not.toBeInTheDocument()
+    })
+
+    it('should remove coins from the selected watchlist', async () => {
+      const toggleAsset = jest.fn()
+      mockUseWatchlists.mockReturnValue(
+        watchlistsHook({ watchlists: mockWatchlists, toggleAsset })
+      )
+
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Show L1s'))
+      await userEvent.click(await screen.findByTestId('remove-btn-ethereum'))
+
+      expect(toggleAsset).toHaveBeenCalledWith('list-1', 'ethereum')
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        '/api/favorites?asset_id=ethereum',
+        expect.anything()
+      )
+    })
+
+    it('should show an empty state for an empty watchlist', async () => {
+      mockUseWatchlists.mockReturnValue(
+        watchlistsHook({
+          watchlists: [{ ...mockWatchlists[0]!, asset_ids: [] }],
+        })
+      )
+
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Show L1s'))
+
+      expect(await screen.findByText('L1s is empty')).toBeInTheDocument()
+    })
+
+    it('should go back to the favorites after deleting the watchlist', async () => {
+      const deleteWatchlist = jest.fn()
+      mockUseWatchlists.mockReturnValue(
+        watchlistsHook({ watchlists: mockWatchlists, deleteWatchlist })
+      )
+
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Show L1s'))
+      await userEvent.click(await screen.findByText('Delete L1s'))
+
+      expect(deleteWatchlist).toHaveBeenCalledWith('list-1')
+      expect(
+        await screen.findByRole('heading', { name: 'Your Favorites' })
+      ).toBeInTheDocument()
+    })
+  })
+
+  describe('Ordering and Pinning', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation((url) =>
+        Promise.resolve({
+          ok: true,
+          json: async () =>
+            String(url).startsWith('/api/favorites')
+              ? { favorites: mockFavorites }
+              : { assets: mockAssets },
+        } as Response)
+      )
+    })
+
+    const cardIds = () =>
+      screen.getAllByTestId(/^asset-card-/).map((card) => card.dataset.testid)
+
+    it('should list favorites in the order the API returns them', async () => {
+      mockFetch.mockImplementation((url) =>
+        Promise.resolve({
+          ok: true,
+          json: async () =>
+            String(url).startsWith('/api/favorites')
+              ? { favorites: [...mockFavorites].reverse() }
+              : { assets: mockAssets },
+        } as Response)
+      )
+
+      render(<FavoritesPage />)
+
+      await waitFor(() => {
+        expect(cardIds()).toEqual(['asset-card-ethereum', 'asset-card-bitcoin'])
+      })
+    })
+
+    it('should save the new order from the reorder mode', async () => {
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Reorder'))
+      await userEvent.click(screen.getByText('Save reversed'))
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/favorites/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asset_ids: ['ethereum', 'bitcoin'] }),
+      })
+      await waitFor(() => {
+        expect(cardIds()).toEqual(['asset-card-ethereum', 'asset-card-bitcoin'])
+      })
+      expect(toast.success).toHaveBeenCalledWith('Favorites order saved')
+    })
+
+    it('should stay in reorder mode when saving fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Reorder'))
+      mockFetch.mockResolvedValueOnce({ ok: false } as Response)
+      await userEvent.click(screen.getByText('Save reversed'))
+
+      expect(toast.error).toHaveBeenCalledWith('Failed to save the order')
+      expect(screen.getByTestId('reorder-list')).toBeInTheDocument()
+    })
+
+    it('should move pinned favorites first', async () => {
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Reorder'))
+      await userEvent.click(screen.getByText('Pin Ethereum'))
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/favorites', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asset_id: 'ethereum', pinned: true }),
+      })
+      expect(await screen.findByText('Unpin Ethereum')).toBeInTheDocument()
+      expect(
+        screen.getAllByRole('button', { name: /^(Pin|Unpin) / })[0]
+      ).toHaveTextContent('Unpin Ethereum')
+    })
+
+    it('should reload the favorites after an import', async () => {
+      render(<FavoritesPage />)
+
+      await userEvent.click(await screen.findByText('Finish import'))
+
+      await waitFor(() => {
+        expect(
+          mockFetch.mock.calls.filter(([url]) => url === '/api/favorites')
+        ).toHaveLength(2)
+      })
+    })
+
+    it('should not offer reordering for watchlists', async () => {
+      mockUseWatchlists.mockReturnValue(
+        watchlistsHook({
+          watchlists: [
+            { ...mockWatchlists[0]!, asset_ids: ['bitcoin', 'ethereum'] },
+          ],
+        })
+      )
+
+      render(<FavoritesPage />)
+
+      expect(await screen.findByText('Reorder')).toBeInTheDocument()
+      await userEvent.click(screen.getByText('Show L1s'))
+
+      await waitFor(() => {
+        expect(screen.queryByText('Reorder')).not.toBeInTheDocument()
+      })
+    })
+  })
 })
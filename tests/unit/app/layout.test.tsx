@@ -13,6 +13,31 @@ jest.mock('@/components/theme-provider', () => ({
   ),
 }))
 
+// Mock currency provider
+jest.mock('@/components/currency-provider', () => ({
+  CurrencyProvider: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="currency-provider">{children}</div>
+  ),
+}))
+
+// Mock auth provider
+jest.mock('@/components/auth-provider', () => ({
+  AuthProvider: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="auth-provider">{children}</div>
+  ),
+}))
+
+// Mock compare selection
+jest.mock('@/components/compare-provider', () => ({
+  CompareProvider: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="compare-provider">{children}</div>
+  ),
+}))
+
+jest.mock('@/components/compare-bar', () => ({
+  CompareBar: () => <div data-testid="compare-bar" />,
+}))
+
 // Mock error boundary
 jest.mock('@/components/error-boundary', () => ({
   ErrorBoundary: ({ children }: { children: React.ReactNode }) => (
@@ -77,6 +102,48 @@ describe('RootLayout', () => {
       expect(screen.getByTestId('theme-provider')).toBeInTheDocument()
     })
 
+    it('should wrap children in CurrencyProvider', () => {
+      render(
+        <RootLayout>
+          <div>Content</div>
+        </RootLayout>
+      )
+
+      expect(screen.getByTestId('currency-provider')).toContainElement(
+        screen.getByTestId('error-boundary')
+      )
+    })
+
+    it('should wrap children in AuthProvider', () => {
+      render(
+        <RootLayout>
+          <div>Content</div>
+        </RootLayout>
+      )
+
+      expect(screen.getByTestId('auth-provider')).toContainElement(
+        screen.getByTestId('error-boundary')
+      )
+      expect(screen.getByTestId('auth-provider')).not.toContainElement(
+        screen.getByTestId('toaster')
+      )
+    })
+
+    it('should wrap children and the compare bar in CompareProvider', () => {
+      render(
+        <RootLayout>
+          <div>Content</div>
+        </RootLayout>
+      )
+
+      expect(screen.getByTestId('compare-provider')).toContainElement(
+        screen.getByTestId('error-boundary')
+      )
+      expect(screen.getByTestId('compare-provider')).toContainElement(
+        screen.getByTestId('compare-bar')
+      )
+    })
+
     it('should wrap children in ErrorBoundary', () => {
       render(
         <RootLayout>
@@ -7,6 +7,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import Home from '@/app/page'
 import { toast } from 'sonner'
+import { applyMarketQuery, parseMarketQuery } from '@/lib/market-query'
 
 // Mock components
 jest.mock('@/components/nav-header', () => ({
@@ -44,6 +45,34 @@ jest.mock('@/components/asset-card-skeleton', () => ({
   ),
 }))
 
+jest.mock('@/components/market-overview', () => ({
+  MarketOverview: () => <div data-testid="market-overview" />,
+}))
+
+jest.mock('@/components/trending-coins', () => ({
+  TrendingCoins: () => <div data-testid="trending-coins" />,
+}))
+
+const mockPush = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush }),
+}))
+
+jest.mock('@/hooks/use-categories', () => ({
+  useCategories: () => ({
+    categories: [
+      {
+        id: 'meme',
+        name: 'Meme',
+        market_cap: 90000000000,
+        market_cap_change_24h: 4.2,
+      },
+    ],
+    loading: false,
+    error: null,
+  }),
+}))
+
 jest.mock('@/components/error-state', () => ({
   ErrorState: ({
     title,
@@ -67,31 +96,50 @@ jest.mock('@/components/search-bar', () => ({
     value,
     onChange,
     placeholder,
+    results,
   }: {
     value: string
     onChange: (value: string) => void
     placeholder: string
+    results?: { id: string; name: string }[] | null
   }) => (
-    <input
-      data-testid="search-bar"
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      placeholder={placeholder}
-    />
+    <div>
+      <input
+        data-testid="search-bar"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+      {results?.map((coin) => (
+        <span
+          key={coin.id}
+          data-testid={`search-result-${coin.id}`}
+        >
+          {coin.name}
+        </span>
+      ))}
+    </div>
   ),
 }))
 
 jest.mock('@/components/filter-bar', () => ({
+  SORT_ORDERS: jest.requireActual('@/components/filter-bar').SORT_ORDERS,
   FilterBar: ({
     sortBy,
     onSortChange,
     filter,
     onFilterChange,
+    category,
+    categories,
+    onCategoryChange,
   }: {
     sortBy: string
     onSortChange: (value: string) => void
     filter: string
     onFilterChange: (value: string) => void
+    category: string
+    categories: { id: string; name: string }[]
+    onCategoryChange: (value: string) => void
   }) => (
     <div data-testid="filter-bar">
       <select
@@ -114,6 +162,21 @@ jest.mock('@/components/filter-bar', () => ({
         <option value="gainers">Gainers</option>
         <option value="losers">Losers</option>
       </select>
+      <select
+        data-testid="category-select"
+        value={category}
+        onChange={(e) => onCategoryChange(e.target.value)}
+      >
+        <option value="all">All Categories</option>
+        {categories.map(({ id, name }) => (
+          <option
+            key={id}
+            value={id}
+          >
+            {name}
+          </option>
+        ))}
+      </select>
     </div>
   ),
 }))
@@ -123,6 +186,7 @@ jest.mock('sonner', () => ({
   toast: {
     success: jest.fn(),
     error: jest.fn(),
+    warning: jest.fn(),
   },
 }))
 
@@ -171,8 +235,21 @@ const mockAssets = [
   },
 ]
 
+// Orders and filters mock assets the way /api/assets does
+const queryMockAssets = (url: string) =>
+  applyMarketQuery(
+    mockAssets,
+    parseMarketQuery(new URL(url, 'http://localhost').searchParams)!
+  )
+
 const mockFavorites = [
-  { id: '1', asset_id: 'bitcoin', created_at: '2024-01-01T00:00:00Z' },
+  {
+    id: '1',
+    asset_id: 'bitcoin',
+    position: 0,
+    pinned: false,
+    created_at: '2024-01-01T00:00:00Z',
+  },
 ]
 
 describe('Home Page', () => {
@@ -243,6 +320,102 @@ describe('Home Page', () => {
       expect(ethereumFavoriteBtn).toHaveTextContent('Add')
     })
 
+    it('should show pinned favorites first', async () => {
+      ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/api/assets')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({ assets: mockAssets, hasMore: false }),
+          })
+        }
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({
+            favorites: [
+              ...mockFavorites,
+              {
+                id: '2',
+                asset_id: 'cardano',
+                position: 0,
+                pinned: true,
+                created_at: '2024-01-02T00:00:00Z',
+              },
+            ],
+          }),
+        })
+      })
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(
+          screen
+            .getAllByTestId(/^asset-card-/)
+            .map((card) => card.dataset.testid)
+        ).toEqual([
+          'asset-card-cardano',
+          'asset-card-bitcoin',
+          'asset-card-ethereum',
+        ])
+      })
+    })
+
+    it('should show a pinned coin that is not on the first page', async () => {
+      const solana = {
+        ...mockAssets[0],
+        id: 'solana',
+        name: 'Solana',
+        symbol: 'sol',
+      }
+      ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('ids=')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({ assets: [solana], hasMore: false }),
+          })
+        }
+        if (url.includes('/api/assets')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({ assets: mockAssets, hasMore: true }),
+          })
+        }
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({
+            favorites: [
+              ...mockFavorites,
+              {
+                id: '2',
+                asset_id: 'solana',
+                position: 0,
+                pinned: true,
+                created_at: '2024-01-02T00:00:00Z',
+              },
+            ],
+          }),
+        })
+      })
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(
+          screen
+            .getAllByTestId(/^asset-card-/)
+            .map((card) => card.dataset.testid)
+        ).toEqual([
+          'asset-card-solana',
+          'asset-card-bitcoin',
+          'asset-card-ethereum',
+          'asset-card-cardano',
+        ])
+      })
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/assets?currency=usd&ids=solana'
+      )
+    })
+
     it('should display page header and title', async () => {
       render(<Home />)
 
@@ -253,6 +426,22 @@ describe('Home Page', () => {
       expect(
         screen.getByText('Top cryptocurrencies by market cap')
       ).toBeInTheDocument()
+      expect(screen.getByTestId('market-overview')).toBeInTheDocument()
+      expect(screen.getByTestId('trending-coins')).toBeInTheDocument()
+    })
+
+    it('should open the page of the picked category', async () => {
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByTestId('category-select')).toBeInTheDocument()
+      })
+
+      fireEvent.change(screen.getByTestId('category-select'), {
+        target: { value: 'meme' },
+      })
+
+      expect(mockPush).toHaveBeenCalledWith('/categories/meme')
     })
   })
 
@@ -389,6 +578,62 @@ describe('Home Page', () => {
       })
     })
 
+    it('should fall back to local filtering when server search fails', async () => {
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Bitcoin')).toBeInTheDocument()
+      })
+
+      const searchInput = screen.getByTestId('search-bar')
+      await userEvent.type(searchInput, 'bitcoin')
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith('/api/search?q=bitcoin')
+      })
+      expect(screen.getByTestId('asset-card-bitcoin')).toBeInTheDocument()
+      expect(screen.queryByTestId(/search-result-/)).not.toBeInTheDocument()
+    })
+
+    it('should show server results for coins outside the loaded pages', async () => {
+      const fallbackFetch = (global.fetch as jest.Mock).getMockImplementation()
+      ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.startsWith('/api/search')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({
+              coins: [
+                {
+                  id: 'pepe',
+                  name: 'Pepe',
+                  symbol: 'pepe',
+                  thumb: 'https://example.com/pepe.png',
+                  market_cap_rank: 24,
+                },
+              ],
+            }),
+          })
+        }
+        return fallbackFetch?.(url)
+      })
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Bitcoin')).toBeInTheDocument()
+      })
+
+      const searchInput = screen.getByTestId('search-bar')
+      await userEvent.type(searchInput, 'pepe')
+
+      await waitFor(() => {
+        expect(screen.getByTestId('search-result-pepe')).toBeInTheDocument()
+      })
+      expect(
+        screen.getByText(/Pick one from the search results above/)
+      ).toBeInTheDocument()
+    })
+
     it('should be case-insensitive', async () => {
       render(<Home />)
 
@@ -412,7 +657,7 @@ describe('Home Page', () => {
           return Promise.resolve({
             ok: true,
             json: async () => ({
-              assets: mockAssets,
+              assets: queryMockAssets(url),
               hasMore: false,
             }),
           })
@@ -455,6 +700,9 @@ describe('Home Page', () => {
       await userEvent.selectOptions(filterSelect, 'losers')
 
       await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.stringContaining('&order=market_cap_desc&filter=losers')
+        )
         expect(screen.getByText('Ethereum')).toBeInTheDocument() // -2.5%
         expect(screen.queryByText('Bitcoin')).not.toBeInTheDocument()
         expect(screen.queryByText('Cardano')).not.toBeInTheDocument()
@@ -486,7 +734,7 @@ describe('Home Page', () => {
           return Promise.resolve({
             ok: true,
             json: async () => ({
-              assets: mockAssets,
+              assets: queryMockAssets(url),
               hasMore: false,
             }),
           })
@@ -512,6 +760,9 @@ describe('Home Page', () => {
       await userEvent.selectOptions(sortSelect, 'price-asc')
 
       await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.stringContaining('&order=price_asc&filter=all')
+        )
         const cards = screen.getAllByTestId(/asset-card-/)
         // Cardano (0.5), Ethereum (3000), Bitcoin (45000)
         expect(cards[0]).toHaveAttribute('data-testid', 'asset-card-cardano')
@@ -576,6 +827,46 @@ describe('Home Page', () => {
         expect(cards[2]).toHaveAttribute('data-testid', 'asset-card-ethereum')
       })
     })
+
+    it('should keep infinite scroll available while sorted', async () => {
+      ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/api/assets')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({
+              assets: queryMockAssets(url),
+              hasMore: true,
+            }),
+          })
+        }
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ favorites: [] }),
+        })
+      })
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Bitcoin')).toBeInTheDocument()
+      })
+
+      await userEvent.selectOptions(
+        screen.getByTestId('sort-select'),
+        'change-desc'
+      )
+      await waitFor(() => {
+        expect(screen.getByText('Load More')).toBeInTheDocument()
+      })
+
+      fireEvent.click(screen.getByText('Load More'))
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets?page=2&per_page=10&currency=usd&order=change_desc&filter=all'
+        )
+      })
+    })
   })
 
   describe('Favorites Management', () => {
@@ -726,6 +1017,47 @@ describe('Home Page', () => {
         expect(toast.error).toHaveBeenCalledWith('Failed to update favorites')
       })
     })
+
+    it('should ask signed-out visitors to sign in', async () => {
+      ;(global.fetch as jest.Mock).mockImplementation(
+        (url: string, options) => {
+          if (url.includes('/api/assets')) {
+            return Promise.resolve({
+              ok: true,
+              json: async () => ({ assets: mockAssets, hasMore: false }),
+            })
+          }
+          if (url.includes('/api/favorites') && options?.method === 'POST') {
+            return Promise.resolve({
+              ok: false,
+              status: 401,
+            })
+          }
+          if (url.includes('/api/favorites')) {
+            return Promise.resolve({
+              ok: true,
+              json: async () => ({ favorites: [] }),
+            })
+          }
+          return Promise.reject(new Error('Unknown URL'))
+        }
+      )
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByTestId('favorite-btn-bitcoin')).toBeInTheDocument()
+      })
+
+      fireEvent.click(screen.getByTestId('favorite-btn-bitcoin'))
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('Sign in to save favorites')
+      })
+      expect(screen.getByTestId('favorite-btn-bitcoin')).toHaveTextContent(
+        'Add'
+      )
+    })
   })
 
   describe('Infinite Scroll', () => {
@@ -828,6 +1160,57 @@ describe('Home Page', () => {
       })
     })
 
+    it('should show the retry hint when market data is rate limited', async () => {
+      ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/api/assets?page=1')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({
+              assets: mockAssets,
+              hasMore: true,
+            }),
+          })
+        }
+        if (url.includes('/api/assets?page=2')) {
+          return Promise.resolve({
+            ok: false,
+            status: 503,
+            json: async () => ({
+              error: {
+                code: 'rate_limited',
+                message:
+                  'Market data is temporarily unavailable, please retry later',
+                upstreamStatus: 429,
+                retryAfter: 90,
+              },
+            }),
+          })
+        }
+        if (url.includes('/api/favorites')) {
+          return Promise.resolve({
+            ok: true,
+            json: async () => ({ favorites: [] }),
+          })
+        }
+        return Promise.reject(new Error('Unknown URL'))
+      })
+
+      render(<Home />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Bitcoin')).toBeInTheDocument()
+      })
+
+      fireEvent.click(screen.getByText('Load More'))
+
+      await waitFor(() => {
+        expect(toast.warning).toHaveBeenCalledWith(
+          'Loading too fast, please wait 90 seconds...'
+        )
+      })
+      expect(toast.error).not.toHaveBeenCalled()
+    })
+
     it('should not load more when already loading', async () => {
       let page2Calls = 0
       ;(global.fetch as jest.Mock).mockImplementation((url: string) => {
@@ -919,7 +1302,7 @@ describe('Home Page', () => {
           return Promise.resolve({
             ok: true,
             json: async () => ({
-              assets: mockAssets,
+              assets: queryMockAssets(url),
               hasMore: false,
             }),
           })
@@ -1,7 +1,10 @@
 import React from 'react'
 import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
 import { AssetCard } from '@/components/asset-card'
-import type { CryptoAsset } from '@/lib/types'
+import { CompareProvider } from '@/components/compare-provider'
+import type { CryptoAsset, Watchlist } from '@/lib/types'
 
 // Mock framer-motion to avoid animation issues in tests
 jest.mock('framer-motion', () => ({
@@ -49,6 +52,12 @@ jest.mock('next/link', () => ({
   ),
 }))
 
+jest.mock('sonner', () => ({
+  toast: {
+    error: jest.fn(),
+  },
+}))
+
 describe('AssetCard Component', () => {
   const mockAsset: CryptoAsset = {
     id: 'bitcoin',
@@ -150,7 +159,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
       const heartIcon = favoriteButton.querySelector('svg')
       expect(heartIcon).toHaveClass('text-gray-400')
       expect(heartIcon).not.toHaveClass('fill-red-500')
@@ -165,7 +176,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Remove from favorites',
+      })
       const heartIcon = favoriteButton.querySelector('svg')
       expect(heartIcon).toHaveClass('fill-red-500')
       expect(heartIcon).toHaveClass('text-red-500')
@@ -180,7 +193,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
       fireEvent.click(favoriteButton)
 
       expect(mockOnToggleFavorite).toHaveBeenCalledTimes(1)
@@ -196,7 +211,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
 
       // Click the favorite button
       const clickEvent = new MouseEvent('click', { bubbles: true })
@@ -215,7 +232,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
       expect(favoriteButton).toBeDisabled()
     })
 
@@ -229,13 +248,172 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
       fireEvent.click(favoriteButton)
 
       expect(mockOnToggleFavorite).not.toHaveBeenCalled()
     })
   })
 
+  describe('Watchlist Picker', () => {
+    const watchlists: Watchlist[] = [
+      {
+        id: 'list-1',
+        user_id: 'user-1',
+        name: 'L1s',
+        created_at: '2025-01-01T00:00:00Z',
+        asset_ids: ['bitcoin'],
+      },
+      {
+        id: 'list-2',
+        user_id: 'user-1',
+        name: 'DeFi',
+        created_at: '2025-01-02T00:00:00Z',
+        asset_ids: [],
+      },
+    ]
+
+    it('should fill the heart when the asset is in a watchlist', () => {
+      render(
+        <AssetCard
+          asset={mockAsset}
+          isFavorite={false}
+          onToggleFavorite={mockOnToggleFavorite}
+          watchlists={watchlists}
+          onToggleWatchlist={jest.fn()}
+        />
+      )
+
+      const heart = screen
+        .getByRole('button', { name: 'Add to list' })
+        .querySelector('svg')
+      expect(heart).toHaveClass('fill-red-500')
+    })
+
+    it('should open the picker instead of toggling the favorite', async () => {
+      render(
+        <AssetCard
+          asset={mockAsset}
+          isFavorite={true}
+          onToggleFavorite={mockOnToggleFavorite}
+          watchlists={watchlists}
+          onToggleWatchlist={jest.fn()}
+        />
+      )
+
+      await userEvent.click(screen.getByRole('button', { name: 'Add to list' }))
+
+      expect(mockOnToggleFavorite).not.toHaveBeenCalled()
+      expect(
+        screen.getByRole('menuitemcheckbox', { name: 'Favorites' })
+      ).toHaveAttribute('aria-checked', 'true')
+      expect(
+        screen.getByRole('menuitemcheckbox', { name: 'L1s' })
+      ).toHaveAttribute('aria-checked', 'true')
+      expect(
+        screen.getByRole('menuitemcheckbox', { name: 'DeFi' })
+      ).toHaveAttribute('aria-checked', 'false')
+    })
+
+    it('should toggle the asset in the picked lists', async () => {
+      const onToggleWatchlist = jest.fn()
+      render(
+        <AssetCard
+          asset={mockAsset}
+          isFavorite={false}
+          onToggleFavorite={mockOnToggleFavorite}
+          watchlists={watchlists}
+          onToggleWatchlist={onToggleWatchlist}
+        />
+      )
+
+      await userEvent.click(screen.getByRole('button', { name: 'Add to list' }))
+      await userEvent.click(
+        screen.getByRole('menuitemcheckbox', { name: 'DeFi' })
+      )
+      await userEvent.click(
+        screen.getByRole('menuitemcheckbox', { name: 'Favorites' })
+      )
+
+      expect(onToggleWatchlist).toHaveBeenCalledWith('list-2', 'bitcoin')
+      expect(mockOnToggleFavorite).toHaveBeenCalledWith('bitcoin')
+    })
+  })
+
+  describe('Compare', () => {
+    beforeEach(() => {
+      window.localStorage.clear()
+    })
+
+    const renderInProvider = () =>
+      render(
+        <CompareProvider>
+          <AssetCard
+            asset={mockAsset}
+            isFavorite={false}
+            onToggleFavorite={mockOnToggleFavorite}
+          />
+        </CompareProvider>
+      )
+
+    it('should add and remove the coin from the compare selection', async () => {
+      renderInProvider()
+
+      await userEvent.click(
+        screen.getByRole('button', { name: 'Add Bitcoin to compare' })
+      )
+
+      const button = screen.getByRole('button', {
+        name: 'Remove Bitcoin from compare',
+      })
+      expect(button).toHaveAttribute('aria-pressed', 'true')
+      expect(window.localStorage.getItem('compare')).toBe('bitcoin')
+
+      await userEvent.click(button)
+
+      expect(window.localStorage.getItem('compare')).toBe('')
+      expect(mockOnToggleFavorite).not.toHaveBeenCalled()
+    })
+
+    it('should refuse coins once the selection is full', async () => {
+      window.localStorage.setItem('compare', 'a,b,c,d,e')
+      renderInProvider()
+
+      await userEvent.click(
+        screen.getByRole('button', { name: 'Add Bitcoin to compare' })
+      )
+
+      expect(toast.error).toHaveBeenCalledWith('You can compare up to 5 coins')
+      expect(window.localStorage.getItem('compare')).toBe('a,b,c,d,e')
+    })
+  })
+
+  describe('Live Updates', () => {
+    it('should flash the price when it changes', () => {
+      const { rerender } = render(
+        <AssetCard
+          asset={mockAsset}
+          isFavorite={false}
+          onToggleFavorite={mockOnToggleFavorite}
+        />
+      )
+
+      rerender(
+        <AssetCard
+          asset={{ ...mockAsset, current_price: 44000 }}
+          isFavorite={false}
+          onToggleFavorite={mockOnToggleFavorite}
+        />
+      )
+
+      const price = screen.getByText('$44,000.00')
+      expect(price).toHaveAttribute('data-flash', 'down')
+      expect(price).toHaveClass('text-red-600')
+    })
+  })
+
   describe('Navigation', () => {
     it('should have correct link to asset detail page', () => {
       const { container } = render(
@@ -346,7 +524,9 @@ describe('AssetCard Component', () => {
         />
       )
 
-      const favoriteButton = screen.getByRole('button')
+      const favoriteButton = screen.getByRole('button', {
+        name: 'Add to favorites',
+      })
       expect(favoriteButton).toBeInTheDocument()
     })
 
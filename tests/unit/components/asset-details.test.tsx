@@ -4,8 +4,9 @@
  */
 
 import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
 import { AssetDetails } from '@/components/asset-details'
-import type { AssetDetail } from '@/lib/types'
+import type { AssetActivity, AssetDetail } from '@/lib/types'
 
 // Mock Next.js Image component
 jest.mock('next/image', () => ({
@@ -34,6 +35,37 @@ jest.mock('next/image', () => ({
   ),
 }))
 
+jest.mock('@/components/asset-markets', () => ({
+  AssetMarkets: ({ assetId }: { assetId: string }) => (
+    <div data-testid="asset-markets">{assetId}</div>
+  ),
+}))
+
+const mockUseAssetActivity = jest.fn()
+jest.mock('@/hooks/use-asset-activity', () => ({
+  useAssetActivity: (assetId: string) => mockUseAssetActivity(assetId),
+}))
+
+const mockActivity: AssetActivity = {
+  id: 'bitcoin',
+  developer: {
+    stars: 73168,
+    forks: 36426,
+    subscribers: 3967,
+    total_issues: 7743,
+    closed_issues: 7380,
+    pull_requests_merged: 11215,
+    pull_request_contributors: 846,
+    commit_count_4_weeks: 108,
+  },
+  community: {
+    twitter_followers: 6900000,
+    reddit_subscribers: 7000000,
+    reddit_accounts_active_48h: 1500,
+    telegram_channel_user_count: 52000,
+  },
+}
+
 const mockAssetDetail: AssetDetail = {
   id: 'bitcoin',
   symbol: 'btc',
@@ -65,6 +97,14 @@ const mockAssetDetail: AssetDetail = {
 }
 
 describe('AssetDetails', () => {
+  beforeEach(() => {
+    mockUseAssetActivity.mockReturnValue({
+      activity: mockActivity,
+      loading: false,
+      error: null,
+    })
+  })
+
   describe('Header Section', () => {
     it('should render asset image', () => {
       render(<AssetDetails asset={mockAssetDetail} />)
@@ -627,4 +667,77 @@ describe('AssetDetails', () => {
       expect(screen.getByText('$45,000.00')).toBeInTheDocument()
     })
   })
+
+  describe('Markets Tab', () => {
+    it('should load the markets only once the tab is opened', async () => {
+      const user = userEvent.setup()
+      render(<AssetDetails asset={mockAssetDetail} />)
+
+      expect(screen.queryByTestId('asset-markets')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('tab', { name: 'Markets' }))
+
+      expect(screen.getByTestId('asset-markets')).toHaveTextContent('bitcoin')
+      expect(screen.queryByText('Market Cap')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Developer and Community Activity', () => {
+    it('should render developer activity figures', () => {
+      render(<AssetDetails asset={mockAssetDetail} />)
+
+      expect(mockUseAssetActivity).toHaveBeenCalledWith('bitcoin')
+      expect(screen.getByText('Developer Activity')).toBeInTheDocument()
+      expect(
+        screen.getByText('Commits (4 weeks)').nextSibling
+      ).toHaveTextContent('108')
+      expect(screen.getByText('Stars').nextSibling).toHaveTextContent('73.2K')
+      expect(screen.getByText('Contributors').nextSibling).toHaveTextContent(
+        '846'
+      )
+      expect(
+        screen.getByText('Issues (closed / total)').nextSibling
+      ).toHaveTextContent('7.4K / 7.7K')
+    })
+
+    it('should render community figures with N/A for missing ones', () => {
+      mockUseAssetActivity.mockReturnValue({
+        activity: {
+          ...mockActivity,
+          community: {
+            ...mockActivity.community,
+            telegram_channel_user_count: null,
+          },
+        },
+        loading: false,
+        error: null,
+      })
+      render(<AssetDetails asset={mockAssetDetail} />)
+
+      expect(screen.getByText('Community')).toBeInTheDocument()
+      expect(
+        screen.getByText('X (Twitter) Followers').nextSibling
+      ).toHaveTextContent('6.9M')
+      expect(
+        screen.getByText('Telegram Members').nextSibling
+      ).toHaveTextContent('N/A')
+    })
+
+    it('should render N/A everywhere when the figures are unavailable', () => {
+      mockUseAssetActivity.mockReturnValue({
+        activity: null,
+        loading: false,
+        error: 'Failed to fetch asset activity',
+      })
+      render(<AssetDetails asset={mockAssetDetail} />)
+
+      expect(screen.getByText('Stars').nextSibling).toHaveTextContent('N/A')
+      expect(
+        screen.getByText('Issues (closed / total)').nextSibling
+      ).toHaveTextContent('N/A')
+      expect(
+        screen.getByText('Reddit Subscribers').nextSibling
+      ).toHaveTextContent('N/A')
+    })
+  })
 })
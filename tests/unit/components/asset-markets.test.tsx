@@ -0,0 +1,134 @@
+/**
+ * Unit tests for components/asset-markets.tsx
+ * Tests loading exchange tickers, sorting by column, paging and errors
+ */
+
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { AssetMarkets } from '@/components/asset-markets'
+import type { ExchangeTicker } from '@/lib/types'
+
+const mockFetch = jest.fn()
+
+function ticker(
+  exchange: string,
+  overrides: Partial<ExchangeTicker> = {}
+): ExchangeTicker {
+  return {
+    exchange,
+    exchange_id: exchange.toLowerCase(),
+    pair: 'BTC/USDT',
+    last_price: 97250,
+    volume: 1_000_000,
+    spread: 0.05,
+    trust_score: 'green',
+    trade_url: null,
+    ...overrides,
+  }
+}
+
+const firstPage = [
+  ticker('Binance', { volume: 2_000_000_000, spread: 0.01 }),
+  ticker('Kraken', {
+    pair: 'BTC/EUR',
+    volume: 300_000_000,
+    spread: null,
+    trust_score: 'yellow',
+    trade_url: 'https://pro.kraken.com/app/trade/btc-eur',
+  }),
+  ticker('Bybit', { volume: 900_000_000, spread: 0.3, trust_score: null }),
+]
+
+function respond(tickers: ExchangeTicker[], page: number, hasMore: boolean) {
+  return {
+    ok: true,
+    json: async () => ({ tickers, page, perPage: 100, hasMore }),
+  }
+}
+
+// Exchange names in table order
+const exchangeColumn = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell')[0]!.textContent)
+
+describe('AssetMarkets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+  })
+
+  it('should list the exchanges by volume', async () => {
+    mockFetch.mockResolvedValueOnce(respond(firstPage, 1, false))
+    render(<AssetMarkets assetId="bitcoin" />)
+
+    expect(await screen.findByText('Binance')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenCalledWith('/api/assets/bitcoin/markets?page=1')
+    expect(exchangeColumn()).toEqual(['Binance', 'Bybit', 'Kraken'])
+    expect(
+      screen.getByRole('columnheader', { name: /24h Volume/ })
+    ).toHaveAttribute('aria-sort', 'descending')
+    expect(screen.getByText('$2.00B')).toBeInTheDocument()
+    expect(screen.getByText('0.01%')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Kraken' })).toHaveAttribute(
+      'href',
+      'https://pro.kraken.com/app/trade/btc-eur'
+    )
+    expect(screen.queryByText('Load More')).not.toBeInTheDocument()
+  })
+
+  it('should sort by the clicked column, keeping missing values last', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValueOnce(respond(firstPage, 1, false))
+    render(<AssetMarkets assetId="bitcoin" />)
+    await screen.findByText('Binance')
+
+    await user.click(screen.getByRole('button', { name: 'Spread' }))
+    expect(exchangeColumn()).toEqual(['Bybit', 'Binance', 'Kraken'])
+
+    await user.click(screen.getByRole('button', { name: 'Spread' }))
+    expect(exchangeColumn()).toEqual(['Binance', 'Bybit', 'Kraken'])
+    expect(
+      screen.getByRole('columnheader', { name: /Spread/ })
+    ).toHaveAttribute('aria-sort', 'ascending')
+
+    await user.click(screen.getByRole('button', { name: 'Exchange' }))
+    expect(exchangeColumn()).toEqual(['Binance', 'Bybit', 'Kraken'])
+
+    await user.click(screen.getByRole('button', { name: 'Trust' }))
+    expect(exchangeColumn()).toEqual(['Binance', 'Kraken', 'Bybit'])
+  })
+
+  it('should append the next page', async () => {
+    const user = userEvent.setup()
+    mockFetch
+      .mockResolvedValueOnce(respond(firstPage, 1, true))
+      .mockResolvedValueOnce(
+        respond([ticker('OKX', { volume: 1_500_000_000 })], 2, false)
+      )
+    render(<AssetMarkets assetId="bitcoin" />)
+
+    await user.click(await screen.findByRole('button', { name: 'Load More' }))
+
+    expect(await screen.findByText('OKX')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/assets/bitcoin/markets?page=2'
+    )
+    expect(exchangeColumn()).toEqual(['Binance', 'OKX', 'Bybit', 'Kraken'])
+    expect(screen.queryByText('Load More')).not.toBeInTheDocument()
+  })
+
+  it('should offer a retry when the markets cannot be loaded', async () => {
+    const user = userEvent.setup()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 502 })
+      .mockResolvedValueOnce(respond(firstPage, 1, false))
+    render(<AssetMarkets assetId="bitcoin" />)
+
+    await user.click(await screen.findByRole('button', { name: /Try Again/ }))
+
+    expect(await screen.findByText('Binance')).toBeInTheDocument()
+  })
+})
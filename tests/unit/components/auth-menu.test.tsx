@@ -0,0 +1,126 @@
+/**
+ * Unit tests for components/auth-menu.tsx
+ * Tests the sign-in dialog and sign-out control
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { AuthMenu } from '@/components/auth-menu'
+import { useAuth } from '@/components/auth-provider'
+
+jest.mock('@/components/auth-provider', () => ({
+  useAuth: jest.fn(),
+}))
+
+jest.mock('sonner', () => ({
+  toast: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('AuthMenu', () => {
+  const auth = {
+    user: null as { email: string } | null,
+    loading: false,
+    signIn: jest.fn(),
+    signUp: jest.fn(),
+    signOut: jest.fn(),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    auth.user = null
+    auth.loading = false
+    ;(useAuth as jest.Mock).mockImplementation(() => auth)
+  })
+
+  const fillCredentials = async (user: ReturnType<typeof userEvent.setup>) => {
+    await user.type(screen.getByLabelText('Email'), 'alice@example.com')
+    await user.type(screen.getByLabelText('Password'), 'secret123')
+  }
+
+  it('should render nothing while the session loads', () => {
+    auth.loading = true
+    const { container } = render(<AuthMenu />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should sign in with the entered credentials', async () => {
+    const user = userEvent.setup()
+    auth.signIn.mockResolvedValue({ error: null })
+    render(<AuthMenu />)
+
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+    await fillCredentials(user)
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    await waitFor(() => {
+      expect(auth.signIn).toHaveBeenCalledWith('alice@example.com', 'secret123')
+    })
+    expect(toast.success).toHaveBeenCalledWith('Signed in')
+  })
+
+  it('should show sign-in errors in the dialog', async () => {
+    const user = userEvent.setup()
+    auth.signIn.mockResolvedValue({ error: 'Invalid login credentials' })
+    render(<AuthMenu />)
+
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+    await fillCredentials(user)
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Invalid login credentials'
+    )
+  })
+
+  it('should validate the form before submitting', async () => {
+    const user = userEvent.setup()
+    render(<AuthMenu />)
+
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+    await user.type(screen.getByLabelText('Email'), 'alice@example.com')
+    await user.type(screen.getByLabelText('Password'), '123')
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+
+    expect(
+      await screen.findByText('Password must be at least 6 characters')
+    ).toBeInTheDocument()
+    expect(auth.signIn).not.toHaveBeenCalled()
+  })
+
+  it('should create accounts in sign-up mode', async () => {
+    const user = userEvent.setup()
+    auth.signUp.mockResolvedValue({ error: null, needsConfirmation: true })
+    render(<AuthMenu />)
+
+    await user.click(screen.getByRole('button', { name: 'Sign in' }))
+    await user.click(screen.getByText('Need an account? Sign up'))
+    await fillCredentials(user)
+    await user.click(screen.getByRole('button', { name: 'Create account' }))
+
+    await waitFor(() => {
+      expect(auth.signUp).toHaveBeenCalledWith('alice@example.com', 'secret123')
+    })
+    expect(toast.success).toHaveBeenCalledWith(
+      'Check your email to confirm your account'
+    )
+  })
+
+  it('should show the signed-in user and sign out', async () => {
+    const user = userEvent.setup()
+    auth.user = { email: 'alice@example.com' }
+    auth.signOut.mockResolvedValue(undefined)
+    render(<AuthMenu />)
+
+    expect(screen.getByText('alice@example.com')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Sign out' }))
+
+    expect(auth.signOut).toHaveBeenCalled()
+    expect(toast.success).toHaveBeenCalledWith('Signed out')
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for components/auth-provider.tsx
+ * Tests session tracking, auth actions and remounting on user changes
+ */
+
+import { useEffect } from 'react'
+import { act, render, screen } from '@testing-library/react'
+import { AuthProvider, useAuth } from '@/components/auth-provider'
+import { getBrowserSupabase } from '@/lib/supabase-browser'
+
+jest.mock('@/lib/supabase-browser', () => ({
+  getBrowserSupabase: jest.fn(),
+}))
+
+type AuthListener = (
+  event: string,
+  session: { user: { id: string; email: string } } | null
+) => void
+
+const auth = {
+  onAuthStateChange: jest.fn(),
+  signInWithPassword: jest.fn(),
+  signUp: jest.fn(),
+  signOut: jest.fn(),
+}
+
+let listener: AuthListener
+const unsubscribe = jest.fn()
+const onMount = jest.fn()
+
+function AuthConsumer() {
+  const { user, loading } = useAuth()
+
+  useEffect(() => {
+    onMount()
+  }, [])
+
+  return (
+    <span data-testid="user">
+      {loading ? 'loading' : (user?.email ?? 'signed out')}
+    </span>
+  )
+}
+
+const session = (id: string) => ({ user: { id, email: `${id}@example.com` } })
+
+describe('AuthProvider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getBrowserSupabase as jest.Mock).mockReturnValue({ auth })
+    auth.onAuthStateChange.mockImplementation((callback: AuthListener) => {
+      listener = callback
+      return { data: { subscription: { unsubscribe } } }
+    })
+  })
+
+  it('should be signed out without a provider', () => {
+    render(<AuthConsumer />)
+
+    expect(screen.getByTestId('user')).toHaveTextContent('signed out')
+  })
+
+  it('should track the session once it is read', () => {
+    const { unmount } = render(
+      <AuthProvider>
+        <AuthConsumer />
+      </AuthProvider>
+    )
+
+    expect(screen.getByTestId('user')).toHaveTextContent('loading')
+
+    act(() => listener('INITIAL_SESSION', session('alice')))
+    expect(screen.getByTestId('user')).toHaveTextContent('alice@example.com')
+
+    unmount()
+    expect(unsubscribe).toHaveBeenCalled()
+  })
+
+  it('should remount children only when the user changes', () => {
+    render(
+      <AuthProvider>
+        <AuthConsumer />
+      </AuthProvider>
+    )
+
+    act(() => listener('INITIAL_SESSION', session('alice')))
+    act(() => listener('TOKEN_REFRESHED', session('alice')))
+    expect(onMount).toHaveBeenCalledTimes(1)
+
+    act(() => listener('SIGNED_OUT', null))
+    expect(onMount).toHaveBeenCalledTimes(2)
+    expect(screen.getByTestId('user')).toHaveTextContent('signed out')
+  })
+
+  it('should report sign-in errors and pending confirmations', async () => {
+    auth.signInWithPassword.mockResolvedValue({
+      error: { message: 'Invalid login credentials' },
+    })
+    auth.signUp.mockResolvedValue({ data: { session: null }, error: null })
+
+    let actions: ReturnType<typeof useAuth> | undefined
+    function Capture() {
+      actions = useAuth()
+      return null
+    }
+
+    render(
+      <AuthProvider>
+        <Capture />
+      </AuthProvider>
+    )
+
+    await expect(actions!.signIn('a@example.com', 'secret')).resolves.toEqual({
+      error: 'Invalid login credentials',
+    })
+    expect(auth.signInWithPassword).toHaveBeenCalledWith({
+      email: 'a@example.com',
+      password: 'secret',
+    })
+    await expect(actions!.signUp('a@example.com', 'secret')).resolves.toEqual({
+      error: null,
+      needsConfirmation: true,
+    })
+  })
+})
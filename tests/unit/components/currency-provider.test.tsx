@@ -0,0 +1,77 @@
+/**
+ * Unit tests for components/currency-provider.tsx
+ * Tests default currency, updates and localStorage persistence
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CurrencyProvider, useCurrency } from '@/components/currency-provider'
+
+function CurrencyConsumer() {
+  const { currency, setCurrency } = useCurrency()
+
+  return (
+    <div>
+      <span data-testid="currency">{currency}</span>
+      <button onClick={() => setCurrency('eur')}>Use EUR</button>
+    </div>
+  )
+}
+
+describe('CurrencyProvider', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('should default to usd', () => {
+    render(
+      <CurrencyProvider>
+        <CurrencyConsumer />
+      </CurrencyProvider>
+    )
+
+    expect(screen.getByTestId('currency')).toHaveTextContent('usd')
+  })
+
+  it('should default to usd without a provider', () => {
+    render(<CurrencyConsumer />)
+
+    expect(screen.getByTestId('currency')).toHaveTextContent('usd')
+  })
+
+  it('should update and persist the selected currency', () => {
+    render(
+      <CurrencyProvider>
+        <CurrencyConsumer />
+      </CurrencyProvider>
+    )
+
+    fireEvent.click(screen.getByText('Use EUR'))
+
+    expect(screen.getByTestId('currency')).toHaveTextContent('eur')
+    expect(window.localStorage.getItem('currency')).toBe('eur')
+  })
+
+  it('should restore a saved currency', () => {
+    window.localStorage.setItem('currency', 'btc')
+
+    render(
+      <CurrencyProvider>
+        <CurrencyConsumer />
+      </CurrencyProvider>
+    )
+
+    expect(screen.getByTestId('currency')).toHaveTextContent('btc')
+  })
+
+  it('should ignore unsupported saved currencies', () => {
+    window.localStorage.setItem('currency', 'doge')
+
+    render(
+      <CurrencyProvider>
+        <CurrencyConsumer />
+      </CurrencyProvider>
+    )
+
+    expect(screen.getByTestId('currency')).toHaveTextContent('usd')
+  })
+})
@@ -0,0 +1,114 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FavoritesReorderList } from '@/components/favorites-reorder-list'
+import type { CryptoAsset } from '@/lib/types'
+
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: ({ src, alt }: React.ImgHTMLAttributes<HTMLImageElement>) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={src}
+      alt={alt}
+    />
+  ),
+}))
+
+function asset(id: string, name: string): CryptoAsset {
+  return {
+    id,
+    name,
+    symbol: id.slice(0, 3),
+    image: `https://example.com/${id}.png`,
+    current_price: 1,
+    price_change_percentage_24h: 0,
+    market_cap: 1,
+    total_volume: 1,
+  }
+}
+
+describe('FavoritesReorderList', () => {
+  const assets = [
+    asset('bitcoin', 'Bitcoin'),
+    asset('ethereum', 'Ethereum'),
+    asset('solana', 'Solana'),
+  ]
+
+  const renderList = (pinnedIds: string[] = []) => {
+    const props = {
+      onTogglePin: jest.fn(),
+      onSave: jest.fn(),
+      onCancel: jest.fn(),
+    }
+    const utils = render(
+      <FavoritesReorderList
+        assets={assets}
+        pinnedIds={pinnedIds}
+        {...props}
+      />
+    )
+    return { ...utils, ...props }
+  }
+
+  const save = async () => {
+    await userEvent.click(screen.getByRole('button', { name: 'Save order' }))
+  }
+
+  it('should save the order moved with the arrow buttons', async () => {
+    const { onSave } = renderList()
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Move Solana up' })
+    )
+    await save()
+
+    expect(onSave).toHaveBeenCalledWith(['bitcoin', 'solana', 'ethereum'])
+  })
+
+  it('should reorder by dragging', async () => {
+    const { onSave } = renderList()
+
+    fireEvent.dragStart(screen.getByTestId('reorder-item-bitcoin'), {
+      dataTransfer: { effectAllowed: '' },
+    })
+    fireEvent.dragOver(screen.getByTestId('reorder-item-solana'))
+    fireEvent.dragEnd(screen.getByTestId('reorder-item-bitcoin'))
+    await save()
+
+    expect(onSave).toHaveBeenCalledWith(['ethereum', 'solana', 'bitcoin'])
+  })
+
+  it('should keep pinned favorites above the others', async () => {
+    const { onSave } = renderList(['solana'])
+
+    expect(
+      screen.getByRole('button', { name: 'Move Solana up' })
+    ).toBeDisabled()
+    expect(
+      screen.getByRole('button', { name: 'Move Bitcoin up' })
+    ).toBeDisabled()
+
+    fireEvent.dragStart(screen.getByTestId('reorder-item-ethereum'), {
+      dataTransfer: { effectAllowed: '' },
+    })
+    fireEvent.dragOver(screen.getByTestId('reorder-item-solana'))
+    await save()
+
+    expect(onSave).toHaveBeenCalledWith(['solana', 'bitcoin', 'ethereum'])
+  })
+
+  it('should toggle pins and cancel', async () => {
+    const { onTogglePin, onCancel } = renderList(['ethereum'])
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Unpin Ethereum' })
+    )
+    await userEvent.click(screen.getByRole('button', { name: 'Pin Bitcoin' }))
+    await userEvent.click(screen.getByRole('button', { name: 'Cancel' }))
+
+    expect(onTogglePin).toHaveBeenNthCalledWith(1, 'ethereum')
+    expect(onTogglePin).toHaveBeenNthCalledWith(2, 'bitcoin')
+    expect(onCancel).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,141 @@
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import {
+  FavoritesExportMenu,
+  FavoritesImportDialog,
+} from '@/components/favorites-transfer'
+import type { FavoritesImportReport } from '@/lib/types'
+
+jest.mock('sonner', () => ({
+  toast: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const mockFetch = jest.fn()
+
+const report: FavoritesImportReport = {
+  dry_run: true,
+  added: ['solana', 'dogecoin'],
+  existing: ['bitcoin'],
+  duplicates: [],
+  unknown: ['not-a-coin'],
+  over_limit: [],
+  invalid: [{ row: 5, message: 'Invalid asset id' }],
+}
+
+function respond(body: unknown, ok = true) {
+  return Promise.resolve({ ok, json: async () => body })
+}
+
+describe('FavoritesImportDialog', () => {
+  const file = new File(['asset_id\nsolana\ndogecoin'], 'favorites.csv', {
+    type: 'text/csv',
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+  })
+
+  const openAndUpload = async () => {
+    await userEvent.click(screen.getByRole('button', { name: 'Import' }))
+    await userEvent.upload(screen.getByLabelText('File'), file)
+  }
+
+  it('should preview the file before importing it', async () => {
+    mockFetch.mockImplementation(() => respond({ report }))
+    const onImported = jest.fn()
+    render(<FavoritesImportDialog onImported={onImported} />)
+
+    await openAndUpload()
+
+    expect(await screen.findByTestId('import-preview')).toHaveTextContent(
+      'To add (2)solana, dogecoin'
+    )
+    expect(screen.getByText('Unknown coins (1)')).toBeInTheDocument()
+    expect(screen.getByText('row 5: Invalid asset id')).toBeInTheDocument()
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      format: 'csv',
+      content: 'asset_id\nsolana\ndogecoin',
+      dry_run: true,
+    })
+    expect(onImported).not.toHaveBeenCalled()
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Import 2 favorites' })
+    )
+
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).dry_run).toBe(false)
+    await waitFor(() => expect(onImported).toHaveBeenCalled())
+    expect(toast.success).toHaveBeenCalledWith('Imported 2 favorites')
+  })
+
+  it('should not import when there is nothing new', async () => {
+    mockFetch.mockImplementation(() =>
+      respond({ report: { ...report, added: [] } })
+    )
+    render(<FavoritesImportDialog onImported={jest.fn()} />)
+
+    await openAndUpload()
+
+    expect(
+      await screen.findByText('Nothing new to import.')
+    ).toBeInTheDocument()
+    expect(
+      screen.getAllByRole('button', { name: 'Import' }).at(-1)
+    ).toBeDisabled()
+  })
+
+  it('should list coins over the favorites limit', async () => {
+    mockFetch.mockImplementation(() =>
+      respond({ report: { ...report, over_limit: ['tether'] } })
+    )
+    render(<FavoritesImportDialog onImported={jest.fn()} />)
+
+    await openAndUpload()
+
+    expect(
+      await screen.findByText('Over the 250 favorites limit (1)')
+    ).toBeInTheDocument()
+    expect(screen.getByText('tether')).toBeInTheDocument()
+  })
+
+  it('should show errors about the file', async () => {
+    mockFetch.mockImplementation(() =>
+      respond(
+        {
+          error: {
+            code: 'invalid_request',
+            message: 'The CSV header must have an asset_id column',
+          },
+        },
+        false
+      )
+    )
+    render(<FavoritesImportDialog onImported={jest.fn()} />)
+
+    await openAndUpload()
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'The CSV header must have an asset_id column'
+    )
+  })
+})
+
+describe('FavoritesExportMenu', () => {
+  it('should link to both export formats', async () => {
+    render(<FavoritesExportMenu />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Export' }))
+
+    expect(
+      screen.getByRole('menuitem', { name: 'Export as JSON' })
+    ).toHaveAttribute('href', '/api/favorites/export?format=json')
+    expect(
+      screen.getByRole('menuitem', { name: 'Export as CSV' })
+    ).toHaveAttribute('href', '/api/favorites/export?format=csv')
+  })
+})
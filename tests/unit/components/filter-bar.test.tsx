@@ -190,6 +190,11 @@ describe('FilterBar', () => {
       render(<FilterBar {...defaultProps} />)
 
       expect(screen.getByTestId('select-item-default')).toBeInTheDocument()
+      expect(
+        screen.getByTestId('select-item-market-cap-asc')
+      ).toBeInTheDocument()
+      expect(screen.getByTestId('select-item-volume-desc')).toBeInTheDocument()
+      expect(screen.getByTestId('select-item-volume-asc')).toBeInTheDocument()
       expect(screen.getByTestId('select-item-price-asc')).toBeInTheDocument()
       expect(screen.getByTestId('select-item-price-desc')).toBeInTheDocument()
       expect(screen.getByTestId('select-item-change-asc')).toBeInTheDocument()
@@ -567,7 +572,8 @@ describe('FilterBar', () => {
       render(<FilterBar {...defaultProps} />)
 
       // Sort options should be descriptive
-      expect(screen.getByText(/Market Cap/)).toBeInTheDocument()
+      expect(screen.getAllByText(/Market Cap/)[0]).toBeInTheDocument()
+      expect(screen.getAllByText(/Volume:/)[0]).toBeInTheDocument()
       expect(screen.getAllByText(/Price:/)[0]).toBeInTheDocument()
       expect(screen.getAllByText(/24h Change:/)[0]).toBeInTheDocument()
 
@@ -577,4 +583,57 @@ describe('FilterBar', () => {
       expect(screen.getByText(/Losers/)).toBeInTheDocument()
     })
   })
+
+  describe('Category Section', () => {
+    const categories = [
+      {
+        id: 'layer-1',
+        name: 'Layer 1 (L1)',
+        market_cap: 2_800_000_000_000,
+        market_cap_change_24h: 1.8,
+      },
+      {
+        id: 'meme-token',
+        name: 'Meme',
+        market_cap: 90_000_000_000,
+        market_cap_change_24h: null,
+      },
+    ]
+
+    it('should list the categories with an "all" option', () => {
+      const { container } = render(
+        <FilterBar
+          {...defaultProps}
+          category="meme-token"
+          categories={categories}
+          onCategoryChange={jest.fn()}
+        />
+      )
+
+      expect(container.querySelectorAll('.flex-1')).toHaveLength(3)
+      expect(
+        screen.getByText('Category', { selector: 'label' })
+      ).toHaveAttribute('for', 'category')
+      expect(screen.getByText('All Categories')).toBeInTheDocument()
+      expect(screen.getByTestId('select-item-layer-1')).toHaveTextContent(
+        'Layer 1 (L1)'
+      )
+      expect(screen.getAllByTestId('select')[2]).toHaveAttribute(
+        'data-value',
+        'meme-token'
+      )
+    })
+
+    it('should stay hidden until categories are available', () => {
+      render(
+        <FilterBar
+          {...defaultProps}
+          categories={[]}
+          onCategoryChange={jest.fn()}
+        />
+      )
+
+      expect(screen.queryByText('All Categories')).not.toBeInTheDocument()
+    })
+  })
 })
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for components/market-ticker.tsx and market-overview.tsx
+ * Tests loading the global market figures and hiding them on failure
+ */
+
+import { render, screen, waitFor, within } from '@testing-library/react'
+import { MarketTicker } from '@/components/market-ticker'
+import { MarketOverview } from '@/components/market-overview'
+import type { GlobalMarketData } from '@/lib/types'
+
+const mockFetch = jest.fn()
+
+const globalData: GlobalMarketData = {
+  total_market_cap: 3_400_000_000_000,
+  total_volume: 120_000_000_000,
+  btc_dominance: 56.42,
+  eth_dominance: 12.08,
+  market_cap_change_percentage_24h: -1.25,
+  active_cryptocurrencies: 17342,
+  updated_at: 1736899200000,
+}
+
+describe('MarketTicker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+    mockFetch.mockResolvedValue({ ok: true, json: async () => globalData })
+  })
+
+  it('should show the overall market figures', async () => {
+    render(<MarketTicker />)
+
+    const ticker = await screen.findByRole('region', {
+      name: 'Market overview',
+    })
+    expect(mockFetch).toHaveBeenCalledWith('/api/global?currency=usd')
+    expect(ticker).toHaveTextContent('Market Cap:$3.40T-1.25%')
+    expect(ticker).toHaveTextContent('24h Volume:$120.00B')
+    expect(ticker).toHaveTextContent('BTC Dominance:56.4%')
+    expect(ticker).toHaveTextContent('ETH Dominance:12.1%')
+    expect(ticker).toHaveTextContent('Active Coins:17,342')
+    expect(within(ticker).getByText('-1.25%')).toHaveClass('text-red-600')
+  })
+
+  it('should stay hidden when the figures cannot be loaded', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 })
+    const { container } = render(<MarketTicker />)
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled())
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
+
+describe('MarketOverview', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+  })
+
+  it('should show a card with the overall market figures', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => globalData })
+    render(<MarketOverview />)
+
+    expect(await screen.findByText('BTC Dominance')).toBeInTheDocument()
+    expect(screen.getByText('$3.40T')).toBeInTheDocument()
+    expect(screen.getByText('-1.25% 24h')).toBeInTheDocument()
+  })
+})
@@ -38,6 +38,21 @@ jest.mock('@/components/theme-toggle', () => ({
   ThemeToggle: () => <button data-testid="theme-toggle">Theme Toggle</button>,
 }))
 
+// Mock CurrencySelect component
+jest.mock('@/components/currency-select', () => ({
+  CurrencySelect: () => <div data-testid="currency-select">USD</div>,
+}))
+
+// Mock MarketTicker component
+jest.mock('@/components/market-ticker', () => ({
+  MarketTicker: () => <div data-testid="market-ticker" />,
+}))
+
+// Mock AuthMenu component
+jest.mock('@/components/auth-menu', () => ({
+  AuthMenu: () => <button data-testid="auth-menu">Sign in</button>,
+}))
+
 // Mock Lucide icons
 jest.mock('lucide-react', () => ({
   Coins: () => <svg data-testid="coins-icon" />,
@@ -136,6 +151,15 @@ describe('NavHeader', () => {
       expect(favoritesLink.closest('a')).toHaveAttribute('href', '/favorites')
     })
 
+    it('should render Portfolio link', () => {
+      mockUsePathname.mockReturnValue('/portfolio')
+      render(<NavHeader />)
+
+      const portfolioLink = screen.getByText('Portfolio')
+      expect(portfolioLink.closest('a')).toHaveAttribute('href', '/portfolio')
+      expect(portfolioLink).toHaveClass('text-foreground')
+    })
+
     it('should have nav element with flex layout', () => {
       mockUsePathname.mockReturnValue('/')
       const { container } = render(<NavHeader />)
@@ -241,6 +265,47 @@ describe('NavHeader', () => {
     })
   })
 
+  describe('Currency Select', () => {
+    it('should render CurrencySelect next to the ThemeToggle', () => {
+      mockUsePathname.mockReturnValue('/')
+      const { container } = render(<NavHeader />)
+
+      const currencySelect = screen.getByTestId('currency-select')
+      const lastChild =
+        container.querySelector('header > div')?.lastElementChild
+
+      expect(lastChild).toContainElement(currencySelect)
+      expect(currencySelect.nextElementSibling).toBe(
+        screen.getByTestId('theme-toggle')
+      )
+    })
+  })
+
+  describe('Auth Menu', () => {
+    it('should render AuthMenu after the ThemeToggle', () => {
+      mockUsePathname.mockReturnValue('/')
+      render(<NavHeader />)
+
+      expect(screen.getByTestId('theme-toggle').nextElementSibling).toBe(
+        screen.getByTestId('auth-menu')
+      )
+    })
+  })
+
+  describe('Market Ticker', () => {
+    it('should render the ticker below the navigation bar', () => {
+      mockUsePathname.mockReturnValue('/')
+      const { container } = render(<NavHeader />)
+
+      expect(
+        container.querySelector('header > div:first-child')
+      ).not.toContainElement(screen.getByTestId('market-ticker'))
+      expect(container.querySelector('header')).toContainElement(
+        screen.getByTestId('market-ticker')
+      )
+    })
+  })
+
   describe('Responsive Design', () => {
     it('should have responsive layout', () => {
       mockUsePathname.mockReturnValue('/')
@@ -11,11 +11,22 @@ jest.mock('recharts', () => ({
   LineChart: ({ children }: React.PropsWithChildren) => (
     <div data-testid="line-chart">{children}</div>
   ),
-  Line: () => <div data-testid="line" />,
+  Line: ({ dataKey }: { dataKey: string }) => (
+    <div
+      data-testid="line"
+      data-key={dataKey}
+    />
+  ),
   XAxis: () => <div data-testid="x-axis" />,
   YAxis: () => <div data-testid="y-axis" />,
   Tooltip: () => <div data-testid="tooltip" />,
   CartesianGrid: () => <div data-testid="grid" />,
+  ComposedChart: ({ children }: React.PropsWithChildren) => (
+    <div data-testid="candlestick-chart">{children}</div>
+  ),
+  Bar: () => <div data-testid="bar" />,
+  Cell: () => null,
+  ReferenceLine: () => <div data-testid="reference-line" />,
 }))
 
 describe('PriceChart Component', () => {
@@ -94,7 +105,9 @@ describe('PriceChart Component', () => {
       )
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/assets/bitcoin/chart')
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/bitcoin/chart?currency=usd&days=7'
+        )
       })
     })
 
@@ -112,7 +125,9 @@ describe('PriceChart Component', () => {
       )
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/assets/bitcoin/chart')
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/bitcoin/chart?currency=usd&days=7'
+        )
       })
 
       rerender(
@@ -123,7 +138,9 @@ describe('PriceChart Component', () => {
       )
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/assets/ethereum/chart')
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/ethereum/chart?currency=usd&days=7'
+        )
       })
 
       expect(global.fetch).toHaveBeenCalledTimes(2)
@@ -153,6 +170,292 @@ describe('PriceChart Component', () => {
     })
   })
 
+  describe('Time Ranges', () => {
+    it('should render a tab for every preset range', async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockChartData,
+      })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      for (const label of ['24H', '7D', '30D', '90D', '1Y', 'Max']) {
+        expect(screen.getByRole('tab', { name: label })).toBeInTheDocument()
+      }
+      expect(screen.getByRole('tab', { name: '7D' })).toHaveAttribute(
+        'aria-selected',
+        'true'
+      )
+      expect(
+        screen.getByRole('button', { name: /custom/i })
+      ).toBeInTheDocument()
+    })
+
+    it('should refetch and retitle when a range is selected', async () => {
+      const user = userEvent.setup()
+      ;(global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockChartData,
+      })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('7-Day Price Chart - Bitcoin')
+        ).toBeInTheDocument()
+      })
+
+      await user.click(screen.getByRole('tab', { name: '30D' }))
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/bitcoin/chart?currency=usd&days=30'
+        )
+        expect(
+          screen.getByText('30-Day Price Chart - Bitcoin')
+        ).toBeInTheDocument()
+      })
+    })
+
+    it('should request the full history for the max range', async () => {
+      const user = userEvent.setup()
+      ;(global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockChartData,
+      })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      await user.click(screen.getByRole('tab', { name: 'Max' }))
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/bitcoin/chart?currency=usd&days=max'
+        )
+        expect(
+          screen.getByText('All-Time Price Chart - Bitcoin')
+        ).toBeInTheDocument()
+      })
+    })
+  })
+
+  describe('Chart Type', () => {
+    const mockCandles = [
+      {
+        timestamp: 1640000000000,
+        open: 45000,
+        high: 46500,
+        low: 44800,
+        close: 46000,
+      },
+      {
+        timestamp: 1640014400000,
+        open: 46000,
+        high: 46200,
+        low: 45200,
+        close: 45500,
+      },
+    ]
+
+    it('should fetch OHLC data when switching to candles', async () => {
+      const user = userEvent.setup()
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockChartData })
+        .mockResolvedValueOnce({ ok: true, json: async () => mockCandles })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      await waitFor(() => {
+        expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+      })
+
+      await user.click(screen.getByRole('radio', { name: 'Candlestick chart' }))
+
+      await waitFor(() => {
+        expect(global.fetch).toHaveBeenCalledWith(
+          '/api/assets/bitcoin/ohlc?currency=usd&days=7'
+        )
+        expect(screen.getByTestId('candlestick-chart')).toBeInTheDocument()
+      })
+      expect(screen.queryByTestId('line-chart')).not.toBeInTheDocument()
+    })
+
+    it('should switch back to the line chart', async () => {
+      const user = userEvent.setup()
+      ;(global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockChartData })
+        .mockResolvedValueOnce({ ok: true, json: async () => mockCandles })
+        .mockResolvedValueOnce({ ok: true, json: async () => mockChartData })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      await user.click(screen.getByRole('radio', { name: 'Candlestick chart' }))
+      await waitFor(() => {
+        expect(screen.getByTestId('candlestick-chart')).toBeInTheDocument()
+      })
+
+      await user.click(screen.getByRole('radio', { name: 'Line chart' }))
+
+      await waitFor(() => {
+        expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+      })
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('Indicators', () => {
+    const renderLoaded = async () => {
+      ;(global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockChartData,
+      })
+
+      render(
+        <PriceChart
+          assetId="bitcoin"
+          assetName="Bitcoin"
+        />
+      )
+
+      await waitFor(() => {
+        expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+      })
+    }
+
+    const getLineKeys = () =>
+      screen.getAllByTestId('line').map((line) => line.getAttribute('data-key'))
+
+    it('should only draw the price without indicators', async () => {
+      await renderLoaded()
+
+      expect(getLineKeys()).toEqual(['price'])
+      expect(screen.getByRole('button', { name: 'Indicators' })).toBeEnabled()
+    })
+
+    it('should overlay a moving average on the price pane', async () => {
+      const user = userEvent.setup()
+      await renderLoaded()
+
+      await user.click(screen.getByRole('button', { name: 'Indicators' }))
+      await user.click(screen.getByRole('checkbox', { name: 'SMA' }))
+
+      expect(getLineKeys()).toEqual(['price', 'sma'])
+      expect(screen.getByLabelText('Period')).toHaveValue(20)
+      expect(
+        screen.getByRole('button', { name: 'Indicators (1)' })
+      ).toBeInTheDocument()
+    })
+
+    it('should render RSI and MACD in their own panes', async () => {
+      const user = userEvent.setup()
+      await renderLoaded()
+
+      await user.click(screen.getByRole('button', { name: 'Indicators' }))
+      await user.click(screen.getByRole('checkbox', { name: 'RSI' }))
+      await user.click(screen.getByRole('checkbox', { name: 'MACD' }))
+
+      expect(
+        screen.getByRole('region', { name: 'RSI (14)' })
+      ).toBeInTheDocument()
+      expect(
+        screen.getByRole('region', { name: 'MACD (12, 26, 9)' })
+      ).toBeInTheDocument()
+      expect(getLineKeys()).toEqual(['price', 'rsi', 'macd', 'macdSignal'])
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should apply a valid period and ignore an invalid one', async () => {
+      const user = userEvent.setup()
+      await renderLoaded()
+
+      await user.click(screen.getByRole('button', { name: 'Indicators' }))
+      await user.click(screen.getByRole('checkbox', { name: 'RSI' }))
+
+      const period = screen.getByLabelText('Period')
+      await user.clear(period)
+      await user.type(period, '7')
+
+      expect(
+        screen.getByRole('region', { name: 'RSI (7)' })
+      ).toBeInTheDocument()
+
+      await user.clear(period)
+      await user.type(period, '500')
+
+      expect(period).toHaveAttribute('aria-invalid', 'true')
+      expect(
+        screen.getByRole('region', { name: 'RSI (50)' })
+      ).toBeInTheDocument()
+    })
+
+    it('should flag a MACD fast period above the slow one', async () => {
+      const user = userEvent.setup()
+      await renderLoaded()
+
+      await user.click(screen.getByRole('button', { name: 'Indicators' }))
+      await user.click(screen.getByRole('checkbox', { name: 'MACD' }))
+
+      const fast = screen.getByLabelText('Fast')
+      await user.clear(fast)
+      await user.type(fast, '30')
+
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Fast period must be shorter than the slow one'
+      )
+      expect(
+        screen.queryByRole('region', { name: /MACD/ })
+      ).not.toBeInTheDocument()
+      expect(screen.getByRole('status')).toHaveTextContent('MACD hidden')
+
+      const slow = screen.getByLabelText('Slow')
+      await user.clear(slow)
+      await user.type(slow, '40')
+
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+      expect(
+        screen.getByRole('region', { name: 'MACD (30, 40, 9)' })
+      ).toBeInTheDocument()
+    })
+
+    it('should turn off an indicator', async () => {
+      const user = userEvent.setup()
+      await renderLoaded()
+
+      await user.click(screen.getByRole('button', { name: 'Indicators' }))
+      await user.click(screen.getByRole('checkbox', { name: 'EMA' }))
+      expect(getLineKeys()).toEqual(['price', 'ema'])
+
+      await user.click(screen.getByRole('checkbox', { name: 'EMA' }))
+      expect(getLineKeys()).toEqual(['price'])
+    })
+  })
+
   describe('Error Handling', () => {
     it('should display error state when fetch fails', async () => {
       ;(global.fetch as jest.Mock).mockResolvedValueOnce({
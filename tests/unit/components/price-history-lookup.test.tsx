@@ -0,0 +1,128 @@
+/**
+ * Unit tests for components/price-history-lookup.tsx
+ * Tests looking up a past day and the change since then
+ */
+
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PriceHistoryLookup } from '@/components/price-history-lookup'
+import type { HistoricalSnapshot } from '@/lib/types'
+
+jest.mock('@/components/ui/popover', () => ({
+  Popover: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+  PopoverTrigger: ({ children }: { children: React.ReactNode }) => (
+    <>{children}</>
+  ),
+  PopoverContent: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+}))
+
+jest.mock('@/components/ui/calendar', () => ({
+  Calendar: ({ onSelect }: { onSelect: (day: Date) => void }) => (
+    <button onClick={() => onSelect(new Date(2024, 2, 1))}>
+      March 1st, 2024
+    </button>
+  ),
+}))
+
+const mockFetch = jest.fn()
+
+const snapshot: HistoricalSnapshot = {
+  id: 'ethereum',
+  date: '2024-03-01',
+  price: 2000,
+  market_cap: 240_000_000_000,
+  total_volume: null,
+}
+
+describe('PriceHistoryLookup', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+  })
+
+  it('should prompt for a date before loading anything', () => {
+    render(
+      <PriceHistoryLookup
+        assetId="ethereum"
+        assetName="Ethereum"
+        currentPrice={3000}
+      />
+    )
+
+    expect(
+      screen.getByText('Pick a date to see what Ethereum was worth then.')
+    ).toBeInTheDocument()
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should show the values of the picked day and the change since', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValue({ ok: true, json: async () => snapshot })
+    render(
+      <PriceHistoryLookup
+        assetId="ethereum"
+        assetName="Ethereum"
+        currentPrice={3000}
+      />
+    )
+
+    await user.click(screen.getByText('March 1st, 2024'))
+
+    expect(await screen.findByText('$2,000.00')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/assets/ethereum/history?date=2024-03-01&currency=usd'
+    )
+    expect(
+      screen.getByRole('button', { name: /Mar 1, 2024/ })
+    ).toBeInTheDocument()
+    expect(screen.getByText('$240.00B')).toBeInTheDocument()
+    expect(screen.getByText('24h Volume').nextSibling).toHaveTextContent('N/A')
+    expect(screen.getByText('+50.00%')).toHaveClass('text-green-600')
+  })
+
+  it('should explain when the day has no market data', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValue({ ok: false, status: 404 })
+    render(
+      <PriceHistoryLookup
+        assetId="ethereum"
+        assetName="Ethereum"
+        currentPrice={3000}
+      />
+    )
+
+    await user.click(screen.getByText('March 1st, 2024'))
+
+    expect(
+      await screen.findByText('No market data for this date')
+    ).toBeInTheDocument()
+  })
+  it('should show why the server rejected the day', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        error: {
+          code: 'invalid_request',
+          message: 'Pick a day no later than today in UTC',
+        },
+      }),
+    })
+    render(
+      <PriceHistoryLookup
+        assetId="ethereum"
+        assetName="Ethereum"
+        currentPrice={3000}
+      />
+    )
+
+    await user.click(screen.getByText('March 1st, 2024'))
+
+    expect(
+      await screen.findByText('Pick a day no later than today in UTC')
+    ).toBeInTheDocument()
+  })
+})
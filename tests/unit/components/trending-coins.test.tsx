@@ -0,0 +1,75 @@
+/**
+ * Unit tests for components/trending-coins.tsx
+ * Tests listing the trending coins and hiding them on failure
+ */
+
+import { render, screen, waitFor, within } from '@testing-library/react'
+import { TrendingCoins } from '@/components/trending-coins'
+import type { CryptoAsset } from '@/lib/types'
+
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: ({ alt }: { alt: string }) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img alt={alt} />
+  ),
+}))
+
+const mockFetch = jest.fn()
+
+const trendingCoins: CryptoAsset[] = [
+  {
+    id: 'pepe',
+    name: 'Pepe',
+    symbol: 'pepe',
+    image: 'https://example.com/pepe.png',
+    current_price: 0.5,
+    price_change_percentage_24h: 12.5,
+    market_cap: 8_000_000_000,
+    total_volume: 900_000_000,
+  },
+  {
+    id: 'bitcoin',
+    name: 'Bitcoin',
+    symbol: 'btc',
+    image: 'https://example.com/bitcoin.png',
+    current_price: 45000,
+    price_change_percentage_24h: -1.2,
+    market_cap: 850_000_000_000,
+    total_volume: 35_000_000_000,
+  },
+]
+
+describe('TrendingCoins', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+  })
+
+  it('should link each trending coin in trending order', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ coins: trendingCoins }),
+    })
+    render(<TrendingCoins />)
+
+    const section = await screen.findByRole('region', { name: 'Trending' })
+    const links = within(section).getAllByRole('link')
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/trending?currency=usd')
+    expect(links.map((link) => link.getAttribute('href'))).toEqual([
+      '/assets/pepe',
+      '/assets/bitcoin',
+    ])
+    expect(links[0]).toHaveTextContent('Pepe')
+    expect(links[0]).toHaveTextContent('+12.50% 24h')
+  })
+
+  it('should stay hidden when trending coins cannot be loaded', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    mockFetch.mockResolvedValue({ ok: false, status: 502 })
+    const { container } = render(<TrendingCoins />)
+
+    await waitFor(() => expect(container).toBeEmptyDOMElement())
+  })
+})
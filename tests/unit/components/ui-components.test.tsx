@@ -4,6 +4,18 @@ import userEvent from '@testing-library/user-event'
 import { ErrorState } from '@/components/error-state'
 import { SearchBar } from '@/components/search-bar'
 
+// Mock Next.js Image component
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: ({ src, alt }: React.ImgHTMLAttributes<HTMLImageElement>) => (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={src}
+      alt={alt}
+    />
+  ),
+}))
+
 describe('ErrorState Component', () => {
   describe('Rendering', () => {
     it('should render error message', () => {
@@ -414,4 +426,91 @@ describe('SearchBar Component', () => {
       expect(clearButton).toBeInTheDocument()
     })
   })
+
+  describe('Server Results', () => {
+    const results = [
+      {
+        id: 'pepe',
+        name: 'Pepe',
+        symbol: 'pepe',
+        thumb: 'https://example.com/pepe.png',
+        market_cap_rank: 24,
+      },
+      {
+        id: 'pepe-unchained',
+        name: 'Pepe Unchained',
+        symbol: 'pepu',
+        thumb: 'https://example.com/pepu.png',
+        market_cap_rank: null,
+      },
+    ]
+
+    it('should not show results without a search term', () => {
+      render(
+        <SearchBar
+          value=""
+          onChange={mockOnChange}
+          results={results}
+        />
+      )
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+
+    it('should list matches with logo, rank and a link', () => {
+      render(
+        <SearchBar
+          value="pepe"
+          onChange={mockOnChange}
+          results={results}
+        />
+      )
+
+      const options = screen.getAllByRole('option')
+      expect(options).toHaveLength(2)
+      expect(options[0]).toHaveAttribute('href', '/assets/pepe')
+      expect(screen.getByAltText('Pepe')).toHaveAttribute(
+        'src',
+        'https://example.com/pepe.png'
+      )
+      expect(screen.getByText('#24')).toBeInTheDocument()
+      expect(options[1]).not.toHaveTextContent('#')
+    })
+
+    it('should show a searching indicator', () => {
+      render(
+        <SearchBar
+          value="pepe"
+          onChange={mockOnChange}
+          searching
+        />
+      )
+
+      expect(screen.getByText('Searching...')).toBeInTheDocument()
+    })
+
+    it('should show an empty message when nothing matches', () => {
+      render(
+        <SearchBar
+          value="zzz"
+          onChange={mockOnChange}
+          results={[]}
+        />
+      )
+
+      expect(screen.getByText('No coins found')).toBeInTheDocument()
+    })
+
+    it('should not show a dropdown when server results are unavailable', () => {
+      render(
+        <SearchBar
+          value="pepe"
+          onChange={mockOnChange}
+          results={null}
+        />
+      )
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    })
+  })
 })
@@ -0,0 +1,62 @@
+import { renderHook, act } from '@testing-library/react'
+import { getPriceFlashClass, usePriceFlash } from '@/hooks/use-price-flash'
+
+describe('usePriceFlash', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.runOnlyPendingTimers()
+    jest.useRealTimers()
+  })
+
+  it('should not flash on the first render', () => {
+    const { result } = renderHook(() => usePriceFlash(100, 'usd'))
+    expect(result.current).toBeNull()
+  })
+
+  it('should flash up or down when the price changes', () => {
+    const { result, rerender } = renderHook(
+      ({ price }) => usePriceFlash(price, 'usd'),
+      { initialProps: { price: 100 } }
+    )
+
+    rerender({ price: 101 })
+    expect(result.current).toBe('up')
+
+    rerender({ price: 99 })
+    expect(result.current).toBe('down')
+  })
+
+  it('should clear the flash after the duration', () => {
+    const { result, rerender } = renderHook(
+      ({ price }) => usePriceFlash(price, 'usd', 500),
+      { initialProps: { price: 100 } }
+    )
+
+    rerender({ price: 101 })
+    act(() => {
+      jest.advanceTimersByTime(500)
+    })
+
+    expect(result.current).toBeNull()
+  })
+
+  it('should not flash when the scope changes', () => {
+    const { result, rerender } = renderHook(
+      ({ price, scope }) => usePriceFlash(price, scope),
+      { initialProps: { price: 100, scope: 'usd' } }
+    )
+
+    rerender({ price: 92, scope: 'eur' })
+
+    expect(result.current).toBeNull()
+  })
+
+  it('should map flashes to text colors', () => {
+    expect(getPriceFlashClass('up')).toBe('text-green-600')
+    expect(getPriceFlashClass('down')).toBe('text-red-600')
+    expect(getPriceFlashClass(null)).toBe('')
+  })
+})
@@ -0,0 +1,141 @@
+import { renderHook, act } from '@testing-library/react'
+import { usePriceStream, withLiveQuote } from '@/hooks/use-price-stream'
+import type { CryptoAsset } from '@/lib/types'
+
+class MockEventSource {
+  static instances: MockEventSource[] = []
+  listeners: Record<string, (event: MessageEvent<string>) => void> = {}
+  closed = false
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners[type] = listener
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  emit(type: string, data: unknown) {
+    act(() => {
+      this.listeners[type]?.({ data: JSON.stringify(data) } as MessageEvent)
+    })
+  }
+}
+
+describe('usePriceStream', () => {
+  const bitcoinQuote = {
+    id: 'bitcoin',
+    current_price: 46000,
+    price_change_percentage_24h: 6,
+  }
+
+  beforeEach(() => {
+    MockEventSource.instances = []
+    Object.assign(global, { EventSource: MockEventSource })
+  })
+
+  afterEach(() => {
+    delete (global as { EventSource?: unknown }).EventSource
+  })
+
+  it('should subscribe to the stream for the given ids', () => {
+    renderHook(() => usePriceStream(['bitcoin', 'ethereum'], 'eur'))
+
+    expect(MockEventSource.instances).toHaveLength(1)
+    expect(MockEventSource.instances[0]!.url).toBe(
+      '/api/stream?currency=eur&ids=bitcoin,ethereum'
+    )
+  })
+
+  it('should collect the latest quote per id', () => {
+    const { result } = renderHook(() =>
+      usePriceStream(['bitcoin', 'ethereum'], 'usd')
+    )
+    const source = MockEventSource.instances[0]!
+
+    source.emit('prices', { quotes: [bitcoinQuote], timestamp: 1 })
+    source.emit('prices', {
+      quotes: [{ ...bitcoinQuote, id: 'ethereum', current_price: 3100 }],
+      timestamp: 2,
+    })
+
+    expect(result.current.bitcoin?.current_price).toBe(46000)
+    expect(result.current.ethereum?.current_price).toBe(3100)
+  })
+
+  it('should not reconnect for a new array with the same ids', () => {
+    const { rerender } = renderHook(({ ids }) => usePriceStream(ids, 'usd'), {
+      initialProps: { ids: ['bitcoin'] },
+    })
+
+    rerender({ ids: ['bitcoin'] })
+
+    expect(MockEventSource.instances).toHaveLength(1)
+  })
+
+  it('should drop quotes and reconnect when the currency changes', () => {
+    const { result, rerender } = renderHook(
+      ({ currency }) => usePriceStream(['bitcoin'], currency),
+      { initialProps: { currency: 'usd' as 'usd' | 'eur' } }
+    )
+    MockEventSource.instances[0]!.emit('prices', {
+      quotes: [bitcoinQuote],
+      timestamp: 1,
+    })
+
+    rerender({ currency: 'eur' })
+
+    expect(MockEventSource.instances[0]!.closed).toBe(true)
+    expect(MockEventSource.instances).toHaveLength(2)
+    expect(result.current).toEqual({})
+  })
+
+  it('should not connect without ids', () => {
+    renderHook(() => usePriceStream([], 'usd'))
+    expect(MockEventSource.instances).toHaveLength(0)
+  })
+
+  it('should close the connection on unmount', () => {
+    const { unmount } = renderHook(() => usePriceStream(['bitcoin'], 'usd'))
+
+    unmount()
+
+    expect(MockEventSource.instances[0]!.closed).toBe(true)
+  })
+})
+
+describe('withLiveQuote', () => {
+  const asset: CryptoAsset = {
+    id: 'bitcoin',
+    name: 'Bitcoin',
+    symbol: 'btc',
+    image: 'https://example.com/btc.png',
+    current_price: 45000,
+    price_change_percentage_24h: 5.25,
+    market_cap: 850000000000,
+  }
+
+  it('should apply the streamed price and change', () => {
+    expect(
+      withLiveQuote(asset, {
+        bitcoin: {
+          id: 'bitcoin',
+          current_price: 46000,
+          price_change_percentage_24h: 6,
+        },
+      })
+    ).toEqual({
+      ...asset,
+      current_price: 46000,
+      price_change_percentage_24h: 6,
+    })
+  })
+
+  it('should return the asset untouched without a quote', () => {
+    expect(withLiveQuote(asset, {})).toBe(asset)
+  })
+})
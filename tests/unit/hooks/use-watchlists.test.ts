@@ -0,0 +1,149 @@
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { toast } from 'sonner'
+import { useWatchlists } from '@/hooks/use-watchlists'
+import type { Watchlist } from '@/lib/types'
+
+jest.mock('sonner', () => ({
+  toast: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const mockFetch = jest.fn()
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status < 400,
+    status,
+    json: async () => body,
+  })
+}
+
+describe('useWatchlists', () => {
+  const defi: Watchlist = {
+    id: 'list-1',
+    user_id: 'user-1',
+    name: 'DeFi',
+    created_at: '2025-01-01T00:00:00Z',
+    asset_ids: ['uniswap'],
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = mockFetch
+    mockFetch.mockImplementation(() => jsonResponse({ watchlists: [defi] }))
+  })
+
+  async function renderLoaded() {
+    const hook = renderHook(() => useWatchlists())
+    await waitFor(() => expect(hook.result.current.loading).toBe(false))
+    return hook
+  }
+
+  it('should load the watchlists', async () => {
+    const { result } = await renderLoaded()
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/watchlists')
+    expect(result.current.watchlists).toEqual([defi])
+  })
+
+  it('should add a coin missing from the list', async () => {
+    const { result } = await renderLoaded()
+    mockFetch.mockImplementation(() => jsonResponse({}, 201))
+
+    await act(() => result.current.toggleAsset('list-1', 'aave'))
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/watchlists/list-1/items',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ asset_id: 'aave' }),
+      })
+    )
+    expect(result.current.watchlists[0]?.asset_ids).toEqual(['uniswap', 'aave'])
+    expect(toast.success).toHaveBeenCalledWith('Added to DeFi')
+  })
+
+  it('should remove a coin already in the list', async () => {
+    const { result } = await renderLoaded()
+    mockFetch.mockImplementation(() => jsonResponse({}))
+
+    await act(() => result.current.toggleAsset('list-1', 'uniswap'))
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/watchlists/list-1/items?asset_id=uniswap',
+      { method: 'DELETE' }
+    )
+    expect(result.current.watchlists[0]?.asset_ids).toEqual([])
+    expect(toast.success).toHaveBeenCalledWith('Removed from DeFi')
+  })
+
+  it('should keep the list and report the error when a toggle fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const { result } = await renderLoaded()
+    mockFetch.mockImplementation(() =>
+      jsonResponse(
+        { error: { code: 'not_found', message: 'Watchlist not found' } },
+        404
+      )
+    )
+
+    await act(() => result.current.toggleAsset('list-1', 'aave'))
+
+    expect(result.current.watchlists).toEqual([defi])
+    expect(toast.error).toHaveBeenCalledWith('Watchlist not found')
+  })
+
+  it('should append created watchlists', async () => {
+    const { result } = await renderLoaded()
+    const l1s = { ...defi, id: 'list-2', name: 'L1s', asset_ids: [] }
+    mockFetch.mockImplementation(() => jsonResponse({ watchlist: l1s }, 201))
+
+    let created
+    await act(async () => {
+      created = await result.current.createWatchlist('L1s')
+    })
+
+    expect(created).toEqual({ error: null, watchlist: l1s })
+    expect(result.current.watchlists).toEqual([defi, l1s])
+  })
+
+  it('should return the API message when creating fails', async () => {
+    const { result } = await renderLoaded()
+    mockFetch.mockImplementation(() =>
+      jsonResponse(
+        {
+          error: {
+            code: 'conflict',
+            message: 'A watchlist named "DeFi" already exists',
+          },
+        },
+        409
+      )
+    )
+
+    const created = await result.current.createWatchlist('DeFi')
+
+    expect(created).toEqual({
+      error: 'A watchlist named "DeFi" already exists',
+    })
+  })
+
+  it('should rename and delete watchlists', async () => {
+    const { result } = await renderLoaded()
+    const renamed = { ...defi, name: 'DeFi blue chips' }
+    mockFetch.mockImplementation(() => jsonResponse({ watchlist: renamed }))
+
+    await act(() => result.current.renameWatchlist('list-1', renamed.name))
+    expect(result.current.watchlists).toEqual([renamed])
+
+    mockFetch.mockImplementation(() => jsonResponse({}))
+    await act(() => result.current.deleteWatchlist('list-1'))
+
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/watchlists/list-1', {
+      method: 'DELETE',
+    })
+    expect(result.current.watchlists).toEqual([])
+  })
+})
@@ -0,0 +1,83 @@
+import { alertInputSchema, describeAlert, isAlertTriggered } from '@/lib/alerts'
+
+describe('alerts', () => {
+  const quote = {
+    id: 'bitcoin',
+    current_price: 50000,
+    price_change_percentage_24h: -6,
+  }
+
+  describe('isAlertTriggered', () => {
+    it('should compare prices for above and below alerts', () => {
+      expect(
+        isAlertTriggered({ condition: 'above', target: 50000 }, quote)
+      ).toBe(true)
+      expect(
+        isAlertTriggered({ condition: 'above', target: 50001 }, quote)
+      ).toBe(false)
+      expect(
+        isAlertTriggered({ condition: 'below', target: 50000 }, quote)
+      ).toBe(true)
+      expect(
+        isAlertTriggered({ condition: 'below', target: 49999 }, quote)
+      ).toBe(false)
+    })
+
+    it('should compare 24h change magnitudes for percent alerts', () => {
+      expect(
+        isAlertTriggered({ condition: 'percent_down', target: 5 }, quote)
+      ).toBe(true)
+      expect(
+        isAlertTriggered({ condition: 'percent_down', target: 7 }, quote)
+      ).toBe(false)
+      expect(
+        isAlertTriggered({ condition: 'percent_up', target: 5 }, quote)
+      ).toBe(false)
+    })
+  })
+
+  describe('describeAlert', () => {
+    it('should describe price and percent alerts', () => {
+      expect(
+        describeAlert({ condition: 'above', target: 50000, currency: 'usd' })
+      ).toBe('Price above 50,000 USD')
+      expect(
+        describeAlert({ condition: 'percent_down', target: 5, currency: 'eur' })
+      ).toBe('24h change below -5%')
+    })
+  })
+
+  describe('alertInputSchema', () => {
+    it('should default the currency to USD', () => {
+      expect(
+        alertInputSchema.parse({
+          asset_id: ' bitcoin ',
+          condition: 'above',
+          target: 60000,
+        })
+      ).toEqual({
+        asset_id: 'bitcoin',
+        condition: 'above',
+        target: 60000,
+        currency: 'usd',
+      })
+    })
+
+    it('should reject invalid alerts', () => {
+      const base = { asset_id: 'bitcoin', condition: 'above', target: 1 }
+
+      expect(alertInputSchema.safeParse({ ...base, target: 0 }).success).toBe(
+        false
+      )
+      expect(
+        alertInputSchema.safeParse({ ...base, condition: 'sideways' }).success
+      ).toBe(false)
+      expect(
+        alertInputSchema.safeParse({ ...base, currency: 'xyz' }).success
+      ).toBe(false)
+      expect(
+        alertInputSchema.safeParse({ ...base, asset_id: '' }).success
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { ApiCache } from '@/lib/cache'
+
+describe('ApiCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-15T00:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('TTL', () => {
+    it('should expire entries after the default TTL', () => {
+      const cache = new ApiCache<number>({ ttl: 1000 })
+      cache.set('a', 1)
+
+      expect(cache.isValid(cache.get('a'))).toBe(true)
+
+      jest.advanceTimersByTime(1000)
+
+      expect(cache.isValid(cache.get('a'))).toBe(false)
+      // Expired entries stay readable for stale fallbacks
+      expect(cache.get('a')?.data).toBe(1)
+    })
+
+    it('should honour a per-entry TTL', () => {
+      const cache = new ApiCache<number>({ ttl: 1000 })
+      cache.set('short', 1, 100)
+      cache.set('long', 2)
+
+      jest.advanceTimersByTime(500)
+
+      expect(cache.isValid(cache.get('short'))).toBe(false)
+      expect(cache.isValid(cache.get('long'))).toBe(true)
+    })
+  })
+
+  describe('LRU eviction', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = new ApiCache<number>({ maxEntries: 2 })
+      cache.set('a', 1)
+      cache.set('b', 2)
+
+      // Reading "a" makes "b" the least recently used entry
+      cache.get('a')
+      cache.set('c', 3)
+
+      expect([...cache.keys()]).toEqual(['a', 'c'])
+      expect(cache.stats().evictions).toBe(1)
+    })
+
+    it('should refresh recency when overwriting a key', () => {
+      const cache = new ApiCache<number>({ maxEntries: 2 })
+      cache.set('a', 1)
+      cache.set('b', 2)
+      cache.set('a', 10)
+      cache.set('c', 3)
+
+      expect(cache.get('a')?.data).toBe(10)
+      expect(cache.get('b')).toBeUndefined()
+    })
+  })
+
+  describe('getOrFetch', () => {
+    it('should fetch on a miss and serve fresh entries from cache', async () => {
+      const cache = new ApiCache<string>({ ttl: 1000 })
+      const fetcher = jest.fn().mockResolvedValue('value')
+
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('value')
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('value')
+
+      expect(fetcher).toHaveBeenCalledTimes(1)
+      expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 })
+    })
+
+    it('should serve stale data while revalidating in the background', async () => {
+      const cache = new ApiCache<string>({ ttl: 1000, staleTtl: 5000 })
+      cache.set('key', 'old')
+      jest.advanceTimersByTime(2000)
+
+      let resolveRefresh: (value: string) => void = () => {}
+      const fetcher = jest.fn(
+        () => new Promise<string>((resolve) => (resolveRefresh = resolve))
+      )
+
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('old')
+      // A second stale read does not start another refresh
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('old')
+      expect(fetcher).toHaveBeenCalledTimes(1)
+
+      resolveRefresh('new')
+      await Promise.resolve()
+
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('new')
+      expect(cache.stats()).toMatchObject({ hits: 1, staleHits: 2 })
+    })
+
+    it('should keep stale data when the background refresh fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const cache = new ApiCache<string>({ ttl: 1000, staleTtl: 5000 })
+      cache.set('key', 'old')
+      jest.advanceTimersByTime(2000)
+
+      const fetcher = jest.fn().mockRejectedValue(new Error('offline'))
+
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('old')
+      await Promise.resolve()
+      await Promise.resolve()
+
+      expect(cache.get('key')?.data).toBe('old')
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+
+    it('should wait for the fetcher once the stale window has passed', async () => {
+      const cache = new ApiCache<string>({ ttl: 1000, staleTtl: 1000 })
+      cache.set('key', 'old')
+      jest.advanceTimersByTime(2000)
+
+      const fetcher = jest.fn().mockResolvedValue('new')
+
+      await expect(cache.getOrFetch('key', fetcher)).resolves.toBe('new')
+      expect(cache.stats().misses).toBe(1)
+    })
+
+    it('should not cache failed fetches', async () => {
+      const cache = new ApiCache<string>()
+      const fetcher = jest.fn().mockRejectedValue(new Error('boom'))
+
+      await expect(cache.getOrFetch('key', fetcher)).rejects.toThrow('boom')
+
+      expect(cache.size).toBe(0)
+    })
+  })
+
+  describe('clear', () => {
+    it('should drop entries and reset statistics', async () => {
+      const cache = new ApiCache<number>()
+      await cache.getOrFetch('a', async () => 1)
+
+      cache.clear()
+
+      expect(cache.stats()).toEqual({
+        hits: 0,
+        staleHits: 0,
+        misses: 0,
+        evictions: 0,
+        size: 0,
+        hitRate: 0,
+      })
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import {
+  getChartDaysStart,
+  getChartRangeKey,
+  getLatestHistoryDate,
+  parseChartRange,
+  parseHistoryDate,
+} from '@/lib/chart-range'
+
+describe('chart-range', () => {
+  const params = (query: string) => new URLSearchParams(query)
+
+  describe('parseChartRange', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+      jest.setSystemTime(new Date('2025-06-15T12:30:45.000Z'))
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should default to 7 days', () => {
+      expect(parseChartRange(params(''))).toEqual({ days: '7' })
+    })
+
+    it('should accept every preset', () => {
+      for (const days of ['1', '7', '30', '90', '365', 'max']) {
+        expect(parseChartRange(params(`days=${days}`))).toEqual({ days })
+      }
+    })
+
+    it('should reject unknown presets', () => {
+      expect(parseChartRange(params('days=14'))).toBeNull()
+    })
+
+    it('should parse plain dates covering the whole end day', () => {
+      expect(parseChartRange(params('from=2024-03-01&to=2024-03-31'))).toEqual({
+        from: Date.UTC(2024, 2, 1),
+        to: Date.UTC(2024, 3, 1) - 1,
+      })
+    })
+
+    it('should parse unix timestamps in seconds', () => {
+      expect(parseChartRange(params('from=1704067200&to=1706745600'))).toEqual({
+        from: 1704067200000,
+        to: 1706745600000,
+      })
+    })
+
+    it('should clamp the end of the range to the current minute', () => {
+      expect(parseChartRange(params('from=2025-06-01&to=2025-12-31'))).toEqual({
+        from: Date.UTC(2025, 5, 1),
+        to: Date.UTC(2025, 5, 15, 12, 30),
+      })
+    })
+
+    it('should reject incomplete or inverted ranges', () => {
+      expect(parseChartRange(params('from=2024-03-01'))).toBeNull()
+      expect(parseChartRange(params('to=2024-03-01'))).toBeNull()
+      expect(
+        parseChartRange(params('from=2024-03-10&to=2024-03-01'))
+      ).toBeNull()
+      expect(parseChartRange(params('from=soon&to=later'))).toBeNull()
+    })
+  })
+
+  describe('parseHistoryDate', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+      jest.setSystemTime(new Date('2025-06-15T12:30:45.000Z'))
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should accept past days and today', () => {
+      expect(parseHistoryDate('2024-02-29')).toBe('2024-02-29')
+      expect(parseHistoryDate('2025-06-15')).toBe('2025-06-15')
+    })
+
+    it('should reject future days', () => {
+      expect(parseHistoryDate('2025-06-16')).toBeNull()
+    })
+
+    it('should reject malformed or impossible days', () => {
+      expect(parseHistoryDate(null)).toBeNull()
+      expect(parseHistoryDate('01-03-2024')).toBeNull()
+      expect(parseHistoryDate('2024-3-1')).toBeNull()
+      expect(parseHistoryDate('2023-02-29')).toBeNull()
+      expect(parseHistoryDate('2024-13-01')).toBeNull()
+    })
+  })
+
+  describe('getChartDaysStart', () => {
+    it('should count the preset days back from now', () => {
+      const now = Date.parse('2024-06-15T12:00:00Z')
+
+      expect(getChartDaysStart('7', now)).toBe(
+        Date.parse('2024-06-08T12:00:00Z')
+      )
+      expect(getChartDaysStart('max', now)).toBeNull()
+    })
+  })
+
+  describe('getLatestHistoryDate', () => {
+    it('should be the current UTC day, whatever the local time zone', () => {
+      // 08:00 in Tokyo is still the previous day in UTC
+      const latest = getLatestHistoryDate(new Date('2024-03-01T23:00:00Z'))
+
+      expect([
+        latest.getFullYear(),
+        latest.getMonth(),
+        latest.getDate(),
+      ]).toEqual([2024, 2, 1])
+    })
+  })
+
+  describe('getChartRangeKey', () => {
+    it('should build distinct keys for presets and custom ranges', () => {
+      expect(getChartRangeKey({ days: '30' })).toBe('d30')
+      expect(getChartRangeKey({ from: 1, to: 2 })).toBe('1-2')
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  alignSeries,
+  getCompareHref,
+  parseCompareIds,
+  toPercentChange,
+} from '@/lib/compare'
+
+describe('parseCompareIds', () => {
+  it('should drop blanks and repeats', () => {
+    expect(parseCompareIds(' Bitcoin,,ethereum,bitcoin ')).toEqual([
+      'bitcoin',
+      'ethereum',
+    ])
+  })
+
+  it('should keep at most five coins', () => {
+    expect(parseCompareIds('a,b,c,d,e,f')).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('should handle a missing parameter', () => {
+    expect(parseCompareIds(null)).toEqual([])
+  })
+})
+
+describe('getCompareHref', () => {
+  it('should build the compare URL', () => {
+    expect(getCompareHref(['bitcoin', 'ethereum'])).toBe(
+      '/compare?ids=bitcoin,ethereum'
+    )
+    expect(getCompareHref([])).toBe('/compare')
+  })
+})
+
+describe('toPercentChange', () => {
+  it('should express prices as the change from the first point', () => {
+    expect(
+      toPercentChange([
+        { timestamp: 1, price: 200 },
+        { timestamp: 2, price: 250 },
+        { timestamp: 3, price: 100 },
+      ])
+    ).toEqual([
+      { timestamp: 1, price: 0 },
+      { timestamp: 2, price: 25 },
+      { timestamp: 3, price: -50 },
+    ])
+  })
+
+  it('should return nothing without a usable start price', () => {
+    expect(toPercentChange([])).toEqual([])
+    expect(toPercentChange([{ timestamp: 1, price: 0 }])).toEqual([])
+  })
+})
+
+describe('alignSeries', () => {
+  it('should use the latest point of other coins at each timestamp', () => {
+    const rows = alignSeries([
+      {
+        id: 'bitcoin',
+        points: [
+          { timestamp: 100, price: 0 },
+          { timestamp: 200, price: 1 },
+          { timestamp: 300, price: 2 },
+        ],
+      },
+      {
+        id: 'ethereum',
+        points: [
+          { timestamp: 110, price: 5 },
+          { timestamp: 195, price: 6 },
+          { timestamp: 260, price: 7 },
+          { timestamp: 290, price: 8 },
+        ],
+      },
+    ])
+
+    expect(rows).toEqual([
+      { timestamp: 100, bitcoin: 0 },
+      { timestamp: 200, bitcoin: 1, ethereum: 6 },
+      { timestamp: 300, bitcoin: 2, ethereum: 8 },
+    ])
+  })
+
+  it('should return no rows without series', () => {
+    expect(alignSeries([])).toEqual([])
+  })
+})
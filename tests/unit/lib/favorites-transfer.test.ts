@@ -0,0 +1,63 @@
+import {
+  detectTransferFormat,
+  ImportFileError,
+  MAX_IMPORT_ROWS,
+  parseFavoritesImport,
+} from '@/lib/favorites-transfer'
+
+describe('parseFavoritesImport', () => {
+  it('should read CSV rows and report unreadable ones', () => {
+    const parsed = parseFavoritesImport(
+      'Pinned,"asset_id"\r\nyes,Bitcoin\n\nno,bad id\n1,solana\n',
+      'csv'
+    )
+
+    expect(parsed.rows).toEqual([
+      { row: 2, asset_id: 'bitcoin', pinned: true },
+      { row: 5, asset_id: 'solana', pinned: true },
+    ])
+    expect(parsed.invalid).toEqual([{ row: 4, message: 'Invalid asset id' }])
+  })
+
+  it('should read an array of objects or ids', () => {
+    const parsed = parseFavoritesImport(
+      '[{"asset_id": "tether", "pinned": "maybe"}, "ripple", 42]',
+      'json'
+    )
+
+    expect(parsed.rows).toEqual([{ row: 2, asset_id: 'ripple', pinned: false }])
+    expect(parsed.invalid).toEqual([
+      { row: 1, message: 'pinned must be true or false' },
+      { row: 3, message: 'Invalid asset id' },
+    ])
+  })
+
+  it('should reject JSON that is not a list', () => {
+    expect(() =>
+      parseFavoritesImport('{"asset_id": "bitcoin"}', 'json')
+    ).toThrow(new ImportFileError('Expected a list of favorites'))
+  })
+
+  it('should reject files with too many rows', () => {
+    const ids = Array.from(
+      { length: MAX_IMPORT_ROWS + 1 },
+      (_, i) => `coin-${i}`
+    )
+
+    expect(() => parseFavoritesImport(JSON.stringify(ids), 'json')).toThrow(
+      ImportFileError
+    )
+  })
+})
+
+describe('detectTransferFormat', () => {
+  it('should prefer the file extension', () => {
+    expect(detectTransferFormat('favorites.CSV', '[]')).toBe('csv')
+    expect(detectTransferFormat('favorites.json', 'asset_id')).toBe('json')
+  })
+
+  it('should fall back to the content', () => {
+    expect(detectTransferFormat('favorites.txt', '  ["bitcoin"]')).toBe('json')
+    expect(detectTransferFormat('favorites', 'asset_id\nbitcoin')).toBe('csv')
+  })
+})
@@ -0,0 +1,57 @@
+import {
+  compareFavorites,
+  favoritesOrderSchema,
+  pinnedFirst,
+} from '@/lib/favorites'
+import type { Favorite } from '@/lib/types'
+
+function favorite(
+  asset_id: string,
+  overrides: Partial<Favorite> = {}
+): Favorite {
+  return {
+    id: asset_id,
+    user_id: 'user-1',
+    asset_id,
+    position: 0,
+    pinned: false,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('favorites ordering', () => {
+  it('should sort pinned favorites first, then by position, then newest', () => {
+    const favorites = [
+      favorite('old', { created_at: '2024-01-01T00:00:00Z' }),
+      favorite('second', { position: 2 }),
+      favorite('pinned', { pinned: true, position: 5 }),
+      favorite('first', { position: 1 }),
+      favorite('new', { created_at: '2025-06-01T00:00:00Z' }),
+    ]
+
+    expect(
+      [...favorites].sort(compareFavorites).map(({ asset_id }) => asset_id)
+    ).toEqual(['pinned', 'new', 'old', 'first', 'second'])
+  })
+
+  it('should move pinned items first and keep the rest in order', () => {
+    expect(
+      pinnedFirst(['a', 'b', 'c', 'd'], (id) => id === 'c' || id === 'd')
+    ).toEqual(['c', 'd', 'a', 'b'])
+  })
+
+  it('should validate reorder requests', () => {
+    expect(
+      favoritesOrderSchema.safeParse({ asset_ids: ['bitcoin', 'ethereum'] })
+        .success
+    ).toBe(true)
+    expect(favoritesOrderSchema.safeParse({ asset_ids: [] }).success).toBe(
+      false
+    )
+    expect(
+      favoritesOrderSchema.safeParse({ asset_ids: ['bitcoin', 'bitcoin'] })
+        .success
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,193 @@
+import {
+  DEFAULT_INDICATOR_SETTINGS,
+  INDICATORS,
+  bollingerBands,
+  ema,
+  getIndicatorSettingsError,
+  isValidIndicatorParam,
+  macd,
+  rsi,
+  sma,
+  withIndicators,
+} from '@/lib/indicators'
+
+describe('sma', () => {
+  it('should average the trailing window', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4])
+  })
+
+  it('should return only nulls when the period is longer than the data', () => {
+    expect(sma([1, 2], 3)).toEqual([null, null])
+  })
+
+  it('should reject periods that are not positive integers', () => {
+    expect(() => sma([1, 2, 3], 0)).toThrow(RangeError)
+    expect(() => sma([1, 2, 3], 1.5)).toThrow(RangeError)
+    expect(() => ema([1, 2, 3], -2)).toThrow(RangeError)
+    expect(() => rsi([1, 2, 3], NaN)).toThrow(RangeError)
+  })
+})
+
+describe('ema', () => {
+  it('should start from the simple average and weight recent values', () => {
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4])
+    expect(ema([2, 4, 6, 12], 3)).toEqual([null, null, 4, 8])
+  })
+
+  it('should return only nulls when the period is longer than the data', () => {
+    expect(ema([1, 2], 3)).toEqual([null, null])
+  })
+})
+
+describe('rsi', () => {
+  it('should smooth gains and losses with Wilder averages', () => {
+    expect(rsi([1, 2, 3, 2, 3], 2)).toEqual([null, null, 100, 50, 75])
+  })
+
+  it('should stay between 0 and 100', () => {
+    const prices = [44, 47, 45, 43, 48, 50, 46, 44, 49, 52, 51, 47, 45, 50]
+    const values = rsi(prices, 5).filter((value) => value !== null)
+
+    expect(values).toHaveLength(prices.length - 5)
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThanOrEqual(100)
+    })
+  })
+
+  it('should sit at 0 for a falling series and 50 for a flat one', () => {
+    expect(rsi([5, 4, 3, 2], 2)).toEqual([null, null, 0, 0])
+    expect(rsi([3, 3, 3], 2)).toEqual([null, null, 50])
+  })
+})
+
+describe('macd', () => {
+  it('should derive the signal line and histogram from the MACD line', () => {
+    const result = macd([1, 2, 3, 4, 5, 6], 2, 3, 2)
+
+    expect(result.macd).toEqual([null, null, 0.5, 0.5, 0.5, 0.5])
+    expect(result.signal).toEqual([null, null, null, 0.5, 0.5, 0.5])
+    expect(result.histogram).toEqual([null, null, null, 0, 0, 0])
+  })
+
+  it('should return only nulls without enough data', () => {
+    const result = macd([1, 2, 3])
+
+    expect(result.macd).toEqual([null, null, null])
+    expect(result.signal).toEqual([null, null, null])
+    expect(result.histogram).toEqual([null, null, null])
+  })
+
+  it('should reject a fast period that is not shorter than the slow one', () => {
+    expect(() => macd([1, 2, 3], 26, 12, 9)).toThrow(
+      'MACD fast period must be shorter than the slow one, got 26 and 12'
+    )
+    expect(() => macd([1, 2, 3], 12, 12, 9)).toThrow(RangeError)
+  })
+
+  it('should reject periods that are not positive integers', () => {
+    expect(() => macd([1, 2, 3], 0, 26, 9)).toThrow(RangeError)
+    expect(() => macd([1, 2, 3], 12, 26, 2.5)).toThrow(RangeError)
+  })
+})
+
+describe('bollingerBands', () => {
+  it('should place the bands standard deviations around the average', () => {
+    const bands = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2)
+
+    expect(bands.middle.at(-1)).toBe(5)
+    expect(bands.upper.at(-1)).toBe(9)
+    expect(bands.lower.at(-1)).toBe(1)
+    expect(bands.upper.slice(0, 7)).toEqual(Array(7).fill(null))
+  })
+})
+
+describe('isValidIndicatorParam', () => {
+  it('should accept values within the range and on the step', () => {
+    expect(isValidIndicatorParam(INDICATORS.sma.params.period, 20)).toBe(true)
+    expect(
+      isValidIndicatorParam(INDICATORS.bollinger.params.deviations, 2.5)
+    ).toBe(true)
+  })
+
+  it('should reject values out of range or off the step', () => {
+    expect(isValidIndicatorParam(INDICATORS.sma.params.period, 1)).toBe(false)
+    expect(isValidIndicatorParam(INDICATORS.sma.params.period, 201)).toBe(false)
+    expect(isValidIndicatorParam(INDICATORS.sma.params.period, 2.5)).toBe(false)
+    expect(isValidIndicatorParam(INDICATORS.sma.params.period, NaN)).toBe(false)
+  })
+})
+
+describe('getIndicatorSettingsError', () => {
+  it('should accept the defaults', () => {
+    for (const id of Object.keys(DEFAULT_INDICATOR_SETTINGS)) {
+      const key = id as keyof typeof DEFAULT_INDICATOR_SETTINGS
+      expect(
+        getIndicatorSettingsError(key, DEFAULT_INDICATOR_SETTINGS[key])
+      ).toBeNull()
+    }
+  })
+
+  it('should report out of range values', () => {
+    expect(getIndicatorSettingsError('rsi', { period: 0 })).toBe(
+      'Period must be between 2 and 200'
+    )
+  })
+
+  it('should require the MACD fast period to be shorter than the slow one', () => {
+    expect(
+      getIndicatorSettingsError('macd', { fast: 26, slow: 12, signal: 9 })
+    ).toBe('Fast period must be shorter than the slow one')
+  })
+})
+
+describe('withIndicators', () => {
+  const points = [1, 2, 3, 4, 5].map((price, index) => ({
+    timestamp: index * 1000,
+    price,
+  }))
+
+  it('should only add the enabled indicators', () => {
+    const result = withIndicators(points, ['sma'], {
+      ...DEFAULT_INDICATOR_SETTINGS,
+      sma: { period: 3 },
+    })
+
+    expect(result.map((point) => point.sma)).toEqual([null, null, 2, 3, 4])
+    expect(result[0]).not.toHaveProperty('ema')
+    expect(result[0]).not.toHaveProperty('rsi')
+  })
+
+  it('should leave out indicators with invalid settings', () => {
+    const result = withIndicators(points, ['sma', 'macd'], {
+      ...DEFAULT_INDICATOR_SETTINGS,
+      sma: { period: 3 },
+      macd: { fast: 26, slow: 12, signal: 9 },
+    })
+
+    expect(result[4]).toEqual({ ...points[4], sma: 4 })
+  })
+
+  it('should keep the points unchanged without indicators', () => {
+    expect(withIndicators(points, [], DEFAULT_INDICATOR_SETTINGS)).toEqual(
+      points
+    )
+  })
+
+  it('should spread bands and MACD into separate keys', () => {
+    const [point] = withIndicators(
+      points,
+      ['bollinger', 'macd'],
+      DEFAULT_INDICATOR_SETTINGS
+    ).slice(-1)
+
+    expect(point).toMatchObject({
+      bollingerUpper: null,
+      bollingerMiddle: null,
+      bollingerLower: null,
+      macd: null,
+      macdSignal: null,
+      macdHistogram: null,
+    })
+  })
+})
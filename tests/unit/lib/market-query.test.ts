@@ -0,0 +1,210 @@
+import {
+  applyMarketQuery,
+  getMarketQueryKey,
+  isUpstreamQuery,
+  MAX_ASSET_IDS,
+  parseAssetId,
+  parseAssetIds,
+  parseMarketQuery,
+} from '@/lib/market-query'
+import type { CryptoAsset } from '@/lib/types'
+
+describe('market-query', () => {
+  const params = (query: string) => new URLSearchParams(query)
+
+  const asset = (
+    id: string,
+    current_price: number,
+    price_change_percentage_24h: number,
+    market_cap: number,
+    total_volume: number
+  ): CryptoAsset => ({
+    id,
+    name: id,
+    symbol: id,
+    image: '',
+    current_price,
+    price_change_percentage_24h,
+    market_cap,
+    total_volume,
+  })
+
+  // Listed in market cap order like the upstream response
+  const assets = [
+    asset('bitcoin', 45000, 5.25, 850e9, 35e9),
+    asset('ethereum', 3000, -2.5, 360e9, 20e9),
+    asset('tether', 1, 0, 110e9, 50e9),
+    asset('cardano', 0.5, 3.1, 17e9, 1e9),
+  ]
+
+  const ids = (list: CryptoAsset[]) => list.map((item) => item.id)
+
+  describe('parseMarketQuery', () => {
+    it('should default to market cap order without filters', () => {
+      expect(parseMarketQuery(params(''))).toEqual({
+        order: 'market_cap_desc',
+        trend: 'all',
+        ranges: [],
+      })
+    })
+
+    it('should parse order, trend and ranges', () => {
+      expect(
+        parseMarketQuery(
+          params('order=price_asc&filter=gainers&min_price=1&max_change=10')
+        )
+      ).toEqual({
+        order: 'price_asc',
+        trend: 'gainers',
+        ranges: [
+          { field: 'price', min: 1, max: undefined },
+          { field: 'change', min: undefined, max: 10 },
+        ],
+      })
+    })
+
+    it('should reject unknown orders and filters', () => {
+      expect(parseMarketQuery(params('order=name_asc'))).toBeNull()
+      expect(parseMarketQuery(params('filter=stable'))).toBeNull()
+    })
+
+    it('should reject invalid or inverted bounds', () => {
+      expect(parseMarketQuery(params('min_price=abc'))).toBeNull()
+      expect(parseMarketQuery(params('min_volume=10&max_volume=5'))).toBeNull()
+    })
+  })
+
+  describe('parseAssetId', () => {
+    it('should accept lowercase slugs', () => {
+      expect(parseAssetId('usd-coin')).toBe('usd-coin')
+    })
+
+    it('should reject anything that could leave the coin path', () => {
+      expect(parseAssetId('../global')).toBeNull()
+      expect(parseAssetId('bitcoin/tickers')).toBeNull()
+      expect(parseAssetId('Bitcoin')).toBeNull()
+      expect(parseAssetId('')).toBeNull()
+    })
+  })
+
+  describe('parseAssetIds', () => {
+    it('should split, normalize and dedupe ids in order', () => {
+      expect(parseAssetIds('solana, Bitcoin,,solana,usd-coin')).toEqual([
+        'solana',
+        'bitcoin',
+        'usd-coin',
+      ])
+    })
+
+    it('should reject empty, malformed or oversized lists', () => {
+      expect(parseAssetIds('')).toBeNull()
+      expect(parseAssetIds(' , ')).toBeNull()
+      expect(parseAssetIds('bitcoin,../secret')).toBeNull()
+      expect(
+        parseAssetIds(
+          Array.from({ length: MAX_ASSET_IDS + 1 }, (_, i) => `coin-${i}`).join(
+            ','
+          )
+        )
+      ).toBeNull()
+    })
+  })
+
+  describe('isUpstreamQuery', () => {
+    it('should only forward unfiltered market cap and volume orders', () => {
+      expect(
+        isUpstreamQuery(parseMarketQuery(params('order=volume_asc'))!)
+      ).toBe(true)
+      expect(
+        isUpstreamQuery(parseMarketQuery(params('order=price_desc'))!)
+      ).toBe(false)
+      expect(isUpstreamQuery(parseMarketQuery(params('filter=losers'))!)).toBe(
+        false
+      )
+      expect(
+        isUpstreamQuery(parseMarketQuery(params('min_market_cap=1'))!)
+      ).toBe(false)
+    })
+  })
+
+  describe('getMarketQueryKey', () => {
+    it('should distinguish queries', () => {
+      const keys = [
+        '',
+        'order=price_asc',
+        'filter=gainers',
+        'min_price=1',
+        'max_price=1',
+      ].map((query) => getMarketQueryKey(parseMarketQuery(params(query))!))
+
+      expect(new Set(keys).size).toBe(keys.length)
+    })
+  })
+
+  describe('applyMarketQuery', () => {
+    const apply = (query: string) =>
+      ids(applyMarketQuery(assets, parseMarketQuery(params(query))!))
+
+    it('should sort by every field in both directions', () => {
+      expect(apply('order=price_asc')).toEqual([
+        'cardano',
+        'tether',
+        'ethereum',
+        'bitcoin',
+      ])
+      expect(apply('order=change_desc')).toEqual([
+        'bitcoin',
+        'cardano',
+        'tether',
+        'ethereum',
+      ])
+      expect(apply('order=volume_desc')).toEqual([
+        'tether',
+        'bitcoin',
+        'ethereum',
+        'cardano',
+      ])
+      expect(apply('order=market_cap_asc')).toEqual([
+        'cardano',
+        'tether',
+        'ethereum',
+        'bitcoin',
+      ])
+    })
+
+    it('should treat unchanged assets as gainers', () => {
+      expect(apply('filter=gainers')).toEqual(['bitcoin', 'tether', 'cardano'])
+      expect(apply('filter=losers')).toEqual(['ethereum'])
+    })
+
+    it('should apply inclusive min and max bounds', () => {
+      expect(apply('min_price=1&max_price=3000')).toEqual([
+        'ethereum',
+        'tether',
+      ])
+      expect(apply('min_market_cap=100000000000&filter=gainers')).toEqual([
+        'bitcoin',
+        'tether',
+      ])
+    })
+
+    it('should exclude assets without a value for a ranged field', () => {
+      const unknown = { ...asset('unknown', 1, 1, 0, 0), market_cap: undefined }
+
+      expect(
+        ids(
+          applyMarketQuery(
+            [unknown],
+            parseMarketQuery(params('min_market_cap=0'))!
+          )
+        )
+      ).toEqual([])
+    })
+
+    it('should not mutate the input', () => {
+      apply('order=price_asc')
+
+      expect(ids(assets)).toEqual(['bitcoin', 'ethereum', 'tether', 'cardano'])
+    })
+  })
+})
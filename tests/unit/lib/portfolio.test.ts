@@ -0,0 +1,345 @@
+import {
+  buildValueHistory,
+  computeHoldings,
+  convertTransactions,
+  findUncoveredTransaction,
+  getAssetIdsHeldSince,
+  transactionInputSchema,
+  valuePortfolio,
+} from '@/lib/portfolio'
+import type { CryptoAsset, Transaction } from '@/lib/types'
+
+function transaction(
+  overrides: Partial<Transaction> & Pick<Transaction, 'type' | 'quantity'>
+): Transaction {
+  return {
+    id: `${overrides.type}-${overrides.executed_at}`,
+    user_id: 'user-1',
+    asset_id: 'bitcoin',
+    price: 0,
+    fee: 0,
+    currency: 'usd',
+    executed_at: '2025-01-01T00:00:00Z',
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('portfolio', () => {
+  const buys = [
+    transaction({ type: 'buy', quantity: 1, price: 100, fee: 10 }),
+    transaction({
+      type: 'buy',
+      quantity: 1,
+      price: 200,
+      executed_at: '2025-01-02T00:00:00Z',
+    }),
+  ]
+
+  describe('computeHoldings', () => {
+    it('should average the cost of buys including fees', () => {
+      expect(computeHoldings(buys)).toEqual([
+        { asset_id: 'bitcoin', quantity: 2, cost_basis: 310, realized_pnl: 0 },
+      ])
+    })
+
+    it('should realize sells against the average cost', () => {
+      const [holding] = computeHoldings([
+        ...buys,
+        transaction({
+          type: 'sell',
+          quantity: 0.5,
+          price: 300,
+          fee: 5,
+          executed_at: '2025-01-03T00:00:00Z',
+        }),
+      ])
+
+      expect(holding!.quantity).toBe(1.5)
+      expect(holding!.cost_basis).toBeCloseTo(232.5)
+      // 150 proceeds - 5 fee - 77.5 cost
+      expect(holding!.realized_pnl).toBeCloseTo(67.5)
+    })
+
+    it('should move transfers at cost and only realize their fees', () => {
+      const [holding] = computeHoldings([
+        transaction({ type: 'transfer_in', quantity: 2, price: 50 }),
+        transaction({
+          type: 'transfer_out',
+          quantity: 1,
+          fee: 1,
+          executed_at: '2025-01-02T00:00:00Z',
+        }),
+      ])
+
+      expect(holding).toEqual({
+        asset_id: 'bitcoin',
+        quantity: 1,
+        cost_basis: 50,
+        realized_pnl: -1,
+      })
+    })
+
+    it('should replay in execution order and stop at `until`', () => {
+      const [holding] = computeHoldings(
+        [...buys].reverse(),
+        Date.parse('2025-01-01T12:00:00Z')
+      )
+
+      expect(holding!.quantity).toBe(1)
+    })
+
+    it('should close positions when everything is sold', () => {
+      const [holding] = computeHoldings([
+        ...buys,
+        transaction({
+          type: 'sell',
+          quantity: 3,
+          price: 100,
+          executed_at: '2025-01-03T00:00:00Z',
+        }),
+      ])
+
+      // Only the 2 held coins are sold
+      expect(holding).toEqual({
+        asset_id: 'bitcoin',
+        quantity: 0,
+        cost_basis: 0,
+        realized_pnl: -110,
+      })
+    })
+  })
+
+  describe('convertTransactions', () => {
+    it('should convert prices and fees recorded in other currencies', () => {
+      const [usd, eur] = convertTransactions(
+        [
+          transaction({ type: 'buy', quantity: 1, price: 100, fee: 10 }),
+          transaction({
+            type: 'buy',
+            quantity: 1,
+            price: 200,
+            fee: 20,
+            currency: 'eur',
+          }),
+        ],
+        { usd: 1, eur: 1.25 },
+        'usd'
+      )
+
+      expect(usd).toMatchObject({ price: 100, fee: 10, currency: 'usd' })
+      expect(eur).toMatchObject({ price: 250, fee: 25, currency: 'usd' })
+    })
+
+    it('should give mixed currencies one cost basis per coin', () => {
+      const [holding] = computeHoldings(
+        convertTransactions(
+          [
+            transaction({ type: 'buy', quantity: 1, price: 100 }),
+            transaction({
+              type: 'buy',
+              quantity: 1,
+              price: 200,
+              currency: 'eur',
+            }),
+          ],
+          { eur: 1.25 },
+          'usd'
+        )
+      )
+
+      expect(holding).toMatchObject({ quantity: 2, cost_basis: 350 })
+    })
+
+    it('should throw without a rate for a recorded currency', () => {
+      expect(() =>
+        convertTransactions(
+          [transaction({ type: 'buy', quantity: 1, currency: 'gbp' })],
+          {},
+          'usd'
+        )
+      ).toThrow('No exchange rate for gbp')
+    })
+  })
+
+  describe('getAssetIdsHeldSince', () => {
+    const since = Date.parse('2025-02-01T00:00:00Z')
+
+    it('should include open positions and coins traded later', () => {
+      expect(
+        getAssetIdsHeldSince(
+          [
+            transaction({ type: 'buy', quantity: 1 }),
+            transaction({
+              type: 'buy',
+              quantity: 1,
+              asset_id: 'ethereum',
+              executed_at: '2025-03-01T00:00:00Z',
+            }),
+          ],
+          since
+        )
+      ).toEqual(['bitcoin', 'ethereum'])
+    })
+
+    it('should leave out positions closed before the range', () => {
+      expect(
+        getAssetIdsHeldSince(
+          [
+            transaction({ type: 'buy', quantity: 1 }),
+            transaction({
+              type: 'sell',
+              quantity: 1,
+              executed_at: '2025-01-15T00:00:00Z',
+            }),
+          ],
+          since
+        )
+      ).toEqual([])
+    })
+  })
+
+  describe('findUncoveredTransaction', () => {
+    it('should accept sales covered by earlier buys', () => {
+      expect(
+        findUncoveredTransaction([
+          transaction({ type: 'buy', quantity: 2 }),
+          transaction({
+            type: 'sell',
+            quantity: 2,
+            executed_at: '2025-02-01T00:00:00Z',
+          }),
+        ])
+      ).toBeNull()
+    })
+
+    it('should find a later sale left short by an earlier one', () => {
+      const later = transaction({
+        type: 'sell',
+        quantity: 1,
+        executed_at: '2025-03-01T00:00:00Z',
+      })
+
+      expect(
+        findUncoveredTransaction([
+          transaction({ type: 'buy', quantity: 1 }),
+          later,
+          transaction({
+            type: 'transfer_out',
+            quantity: 1,
+            executed_at: '2025-02-01T00:00:00Z',
+          }),
+        ])
+      ).toEqual({ transaction: later, held: 0 })
+    })
+  })
+
+  describe('valuePortfolio', () => {
+    const asset = (id: string, current_price: number) =>
+      ({
+        id,
+        name: id,
+        symbol: id.slice(0, 3),
+        image: `/${id}.png`,
+        current_price,
+      }) as CryptoAsset
+
+    it('should value positions with P&L and allocation', () => {
+      const portfolio = valuePortfolio(
+        [
+          {
+            asset_id: 'bitcoin',
+            quantity: 2,
+            cost_basis: 300,
+            realized_pnl: 5,
+          },
+          {
+            asset_id: 'ethereum',
+            quantity: 10,
+            cost_basis: 100,
+            realized_pnl: 0,
+          },
+          { asset_id: 'solana', quantity: 0, cost_basis: 0, realized_pnl: -20 },
+        ],
+        [asset('bitcoin', 100), asset('ethereum', 60)],
+        'usd'
+      )
+
+      expect(portfolio.positions.map((p) => p.asset_id)).toEqual([
+        'ethereum',
+        'bitcoin',
+      ])
+      expect(portfolio.positions[1]).toMatchObject({
+        average_cost: 150,
+        value: 200,
+        unrealized_pnl: -100,
+        allocation: 25,
+      })
+      expect(portfolio.positions[0]!.unrealized_pnl_percentage).toBe(500)
+      expect(portfolio).toMatchObject({
+        currency: 'usd',
+        total_value: 800,
+        total_cost: 400,
+        unrealized_pnl: 400,
+        realized_pnl: -15,
+      })
+    })
+  })
+
+  describe('buildValueHistory', () => {
+    it('should value holdings at each point, carrying prices forward', () => {
+      const day = (n: number) => Date.parse(`2025-01-0${n}T00:00:00Z`)
+      const history = buildValueHistory(
+        [
+          ...buys,
+          transaction({ asset_id: 'ethereum', type: 'buy', quantity: 10 }),
+        ],
+        {
+          bitcoin: [1, 2, 3].map((n) => ({
+            timestamp: day(n),
+            price: n * 100,
+          })),
+          ethereum: [{ timestamp: day(2) + 1, price: 1 }],
+        }
+      )
+
+      expect(history).toEqual([
+        { timestamp: day(1), price: 100 },
+        { timestamp: day(2), price: 400 },
+        { timestamp: day(3), price: 610 },
+      ])
+    })
+  })
+
+  describe('transactionInputSchema', () => {
+    it('should apply defaults and reject invalid amounts', () => {
+      expect(
+        transactionInputSchema.parse({
+          asset_id: 'bitcoin',
+          type: 'buy',
+          quantity: 1,
+          price: 100,
+        })
+      ).toEqual({
+        asset_id: 'bitcoin',
+        type: 'buy',
+        quantity: 1,
+        price: 100,
+        fee: 0,
+        currency: 'usd',
+      })
+
+      const base = { asset_id: 'bitcoin', type: 'buy', quantity: 1, price: 1 }
+      expect(
+        transactionInputSchema.safeParse({ ...base, quantity: 0 }).success
+      ).toBe(false)
+      expect(
+        transactionInputSchema.safeParse({ ...base, fee: -1 }).success
+      ).toBe(false)
+      expect(
+        transactionInputSchema.safeParse({ ...base, executed_at: 'yesterday' })
+          .success
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import {
+  getBackoffDelay,
+  parseRetryAfter,
+  RateLimiter,
+} from '@/lib/rate-limiter'
+
+describe('rate-limiter', () => {
+  describe('RateLimiter', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+      jest.setSystemTime(new Date('2025-01-15T00:00:00.000Z'))
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should allow a burst up to its capacity', () => {
+      const limiter = new RateLimiter({ capacity: 3, refillPerMinute: 60 })
+
+      expect([limiter.reserve(), limiter.reserve(), limiter.reserve()]).toEqual(
+        [0, 0, 0]
+      )
+      expect(limiter.reserve()).toBeNull()
+    })
+
+    it('should queue reservations within the allowed wait', () => {
+      const limiter = new RateLimiter({ capacity: 1, refillPerMinute: 60 })
+
+      expect(limiter.reserve()).toBe(0)
+      expect(limiter.reserve(5000)).toBe(1000)
+      expect(limiter.reserve(5000)).toBe(2000)
+    })
+
+    it('should refill over time without exceeding capacity', () => {
+      const limiter = new RateLimiter({ capacity: 2, refillPerMinute: 60 })
+      limiter.reserve()
+      limiter.reserve()
+
+      jest.advanceTimersByTime(1000)
+      expect(limiter.getWaitTime()).toBe(0)
+
+      jest.advanceTimersByTime(60 * 1000)
+      expect([limiter.reserve(), limiter.reserve()]).toEqual([0, 0])
+      expect(limiter.reserve()).toBeNull()
+    })
+
+    it('should hold every request while paused', () => {
+      const limiter = new RateLimiter({ capacity: 10, refillPerMinute: 60 })
+      limiter.pauseFor(30 * 1000)
+
+      expect(limiter.getWaitTime()).toBe(30 * 1000)
+      expect(limiter.reserve(5000)).toBeNull()
+
+      jest.advanceTimersByTime(30 * 1000)
+      expect(limiter.reserve()).toBe(0)
+    })
+
+    it('should restore the full budget on reset', () => {
+      const limiter = new RateLimiter({ capacity: 1, refillPerMinute: 1 })
+      limiter.reserve()
+      limiter.pauseFor(1000)
+
+      limiter.reset()
+
+      expect(limiter.reserve()).toBe(0)
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    const now = Date.UTC(2025, 0, 15)
+
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('120', now)).toBe(120 * 1000)
+    })
+
+    it('should parse HTTP dates', () => {
+      expect(parseRetryAfter('Wed, 15 Jan 2025 00:00:30 GMT', now)).toBe(
+        30 * 1000
+      )
+      expect(parseRetryAfter('Tue, 14 Jan 2025 00:00:00 GMT', now)).toBe(0)
+    })
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null, now)).toBeNull()
+      expect(parseRetryAfter('soon', now)).toBeNull()
+    })
+  })
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially with jitter', () => {
+      expect(getBackoffDelay(0, 500, 4000, () => 0)).toBe(250)
+      expect(getBackoffDelay(0, 500, 4000, () => 1)).toBe(500)
+      expect(getBackoffDelay(2, 500, 4000, () => 0.5)).toBe(1500)
+    })
+
+    it('should be capped', () => {
+      expect(getBackoffDelay(10, 500, 4000, () => 1)).toBe(4000)
+    })
+  })
+})
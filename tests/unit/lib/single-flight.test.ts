@@ -0,0 +1,58 @@
+import { SingleFlight } from '@/lib/single-flight'
+
+describe('SingleFlight', () => {
+  it('should share one call between concurrent callers', async () => {
+    const flight = new SingleFlight<string>()
+    let resolve: (value: string) => void = () => {}
+    const fn = jest.fn(() => new Promise<string>((done) => (resolve = done)))
+
+    const first = flight.run('key', fn)
+    const second = flight.run('key', fn)
+    resolve('value')
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      'value',
+      'value',
+    ])
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep different keys independent', async () => {
+    const flight = new SingleFlight<string>()
+    const fn = jest.fn(async () => 'value')
+
+    await Promise.all([flight.run('a', fn), flight.run('b', fn)])
+
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it('should start a new call once the previous one settled', async () => {
+    const flight = new SingleFlight<number>()
+    let calls = 0
+    const fn = async () => ++calls
+
+    await expect(flight.run('key', fn)).resolves.toBe(1)
+    await expect(flight.run('key', fn)).resolves.toBe(2)
+    expect(flight.size).toBe(0)
+  })
+
+  it('should share failures and then allow a retry', async () => {
+    const flight = new SingleFlight<string>()
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce('value')
+
+    const results = await Promise.allSettled([
+      flight.run('key', fn),
+      flight.run('key', fn),
+    ])
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ])
+    await expect(flight.run('key', fn)).resolves.toBe('value')
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+})
@@ -124,6 +124,33 @@ describe('utils', () => {
         expect(match).not.toBeNull()
       })
     })
+
+    describe('currencies', () => {
+      it('should format fiat currencies with their symbol', () => {
+        expect(formatPrice(1234.5, false, 'eur')).toBe('€1,234.50')
+        expect(formatPrice(10, false, 'brl')).toBe('R$10.00')
+        expect(formatPrice(99.99, false, 'gbp')).toBe('£99.99')
+      })
+
+      it('should respect currencies without minor units', () => {
+        expect(formatPrice(15000, false, 'jpy')).toBe('¥15,000')
+        expect(formatPrice(0.0034, false, 'jpy')).toBe('¥0.0034')
+      })
+
+      it('should format crypto quotes with up to 8 decimal places', () => {
+        expect(formatPrice(0.00012345, false, 'btc')).toBe('₿0.00012345')
+        expect(formatPrice(1, false, 'eth')).toBe('Ξ1.00')
+      })
+
+      it('should format crypto quotes in compact mode', () => {
+        expect(formatPrice(1234567, true, 'btc')).toBe('₿1.23M')
+      })
+
+      it('should format invalid values as zero in the given currency', () => {
+        expect(formatPrice(null, false, 'eur')).toBe('€0.00')
+        expect(formatPrice(undefined, false, 'btc')).toBe('₿0.00')
+      })
+    })
   })
 
   describe('formatPercentage', () => {